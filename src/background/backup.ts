@@ -0,0 +1,85 @@
+/**
+ * Backup export / restore — gathers everything that makes up a wallet
+ * profile from storage and merges a backup back in. File format and
+ * validation live in lib/backup.ts.
+ */
+
+import {
+  sealBackup,
+  parseBackupFile,
+  openBackup,
+  diffBackup,
+  type BackupData,
+  type BackupDiff,
+  type BackupFile,
+} from "@/lib/backup";
+import { storageGet, storageSet, KEYS, type AddressBookEntry } from "@/lib/storage";
+import {
+  getActiveProvider,
+  setActiveProvider,
+  getSavedEndpoint,
+  setActiveEndpoint,
+  getGonkaRpcApiKey,
+  setGonkaRpcApiKey,
+} from "@/lib/rpc";
+import { resetClient } from "@/lib/cosmos";
+import { getWallets, restoreWallets, verifyPassword } from "./keystore";
+import { getConnectedSites } from "./provider-handler";
+
+async function collectBackupData(): Promise<BackupData> {
+  return {
+    wallets: await getWallets(),
+    addressBook: (await storageGet<AddressBookEntry[]>(KEYS.ADDRESS_BOOK)) || [],
+    connectedSites: await getConnectedSites(),
+    rpc: {
+      provider: await getActiveProvider(),
+      endpoint: await getSavedEndpoint(),
+      apiKey: await getGonkaRpcApiKey(),
+    },
+  };
+}
+
+/**
+ * Build an encrypted backup of the whole profile. The wallet password is
+ * required and also seals the file, so wallet secrets inside stay readable
+ * with the same password on restore.
+ */
+export async function exportBackup(password: string): Promise<BackupFile> {
+  if (!(await verifyPassword(password))) throw new Error("Wrong password");
+  return sealBackup(await collectBackupData(), password);
+}
+
+/** Decrypt a backup and report what restoring it would add. */
+export async function previewBackup(text: string, password: string): Promise<BackupDiff> {
+  const incoming = await openBackup(parseBackupFile(text), password);
+  return diffBackup(await collectBackupData(), incoming);
+}
+
+/**
+ * Merge a backup into this profile. Existing wallets, contacts and sites
+ * are never replaced; RPC preferences are only restored into an empty
+ * wallet so an existing setup isn't silently changed.
+ */
+export async function restoreBackup(text: string, password: string): Promise<BackupDiff> {
+  const incoming = await openBackup(parseBackupFile(text), password);
+  const current = await collectBackupData();
+  const diff = diffBackup(current, incoming);
+  const fresh = current.wallets.length === 0;
+
+  await restoreWallets(diff.newWallets, password);
+
+  if (diff.newContacts.length > 0) {
+    await storageSet({ [KEYS.ADDRESS_BOOK]: [...current.addressBook, ...diff.newContacts] });
+  }
+  if (diff.newSites.length > 0) {
+    await storageSet({ [KEYS.CONNECTED_SITES]: [...current.connectedSites, ...diff.newSites] });
+  }
+  if (fresh && diff.rpcChanged) {
+    await setActiveProvider(incoming.rpc.provider);
+    if (incoming.rpc.endpoint) await setActiveEndpoint(incoming.rpc.endpoint);
+    if (incoming.rpc.apiKey) await setGonkaRpcApiKey(incoming.rpc.apiKey);
+    resetClient();
+  }
+
+  return diff;
+}
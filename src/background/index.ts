@@ -5,7 +5,13 @@
 
 import {
   addWallet,
+  addPrivateKeyWallet,
   addViewOnlyWallet,
+  addDerivedAccount,
+  changePassword,
+  setWalletGroup,
+  lockGroup,
+  getLockedGroup,
   switchWallet,
   renameWallet,
   removeWallet,
@@ -19,6 +25,9 @@ import {
   getStoredAddress,
   getWalletList,
   getMnemonic,
+  hasPassphrase,
+  isPrivateKeyWallet,
+  getWalletKey,
   exportPrivateKeyHex,
   touchActivity,
   loadSettings,
@@ -30,14 +39,24 @@ import {
   rehydrateIfNeeded,
 } from "./keystore";
 import { storageGet, storageSet, KEYS, type AddressBookEntry } from "@/lib/storage";
+import { logAuditEvent, getAuditLog } from "@/lib/audit-log";
+import { getUnlockGuardState, isWrongPasswordError, setReloadAfterFailures, UnlockThrottledError } from "./unlock-guard";
 import {
   queryAllBalances, sendTokens, delegateTokens, undelegateTokens, withdrawRewards, resetClient,
   queryProposals, queryProposal, queryProposalTally, queryGovParams, queryBondedTokens,
   queryVote, voteProposal, submitProposal, depositToProposal,
-  executeContract,
+  executeContract, estimateTx, broadcastTx, getClient, makeOfflineSigner,
+  makeSendMsg, makeMultiSendMsg, makeDelegateMsg, makeUndelegateMsg, makeWithdrawRewardsMsgs,
+  makeVoteMsg, makeSubmitProposalMsg, makeDepositMsg, makeExecuteContractMsg,
+  type TxMessages,
   type VoteOption,
 } from "@/lib/cosmos";
-import { GNS_CONTRACT_ADDRESS } from "@/lib/gonka";
+import type { TxOptions } from "@/lib/tx-options";
+import { batchTxMessages, validateBatch, type BatchItem } from "@/lib/batch";
+import type { PayoutOutput } from "@/lib/payout";
+import { makeUnsignedTx, parseSignedTx, parseUnsignedTx, signUnsignedTx } from "@/lib/offline-tx";
+import { fromBase64 } from "@cosmjs/encoding";
+import { GNS_CONTRACT_ADDRESS, GONKA_CHAIN_ID } from "@/lib/gonka";
 import { parseCommand, isQueryIntent } from "@/lib/inferenced-parser";
 import { executeIntent, runQuery } from "@/lib/inferenced-executor";
 import {
@@ -61,12 +80,27 @@ import {
   handleProviderRequest,
   getConnectedSites,
   disconnectSite,
+  updateSitePermissions,
+  getSuggestedChains,
+  removeSuggestedChain,
+  getOriginLists,
+  updateOriginList,
+  getAutoApprovalRules,
+  setAutoApprovalRule,
   getPendingRequest,
+  previewPendingRequest,
   approveRequest,
   rejectRequest,
+  getApprovalQueue,
+  approveRequests,
+  rejectRequests,
   notifyUnlocked,
   rejectUnlock,
+  signMessage,
 } from "./provider-handler";
+import { exportBackup, previewBackup, restoreBackup } from "./backup";
+import { summarizeDiff } from "@/lib/backup";
+import { splitMnemonic } from "@/lib/shamir";
 
 // Notify all content scripts and extension views about keystore changes.
 function broadcastKeystoreChange(): void {
@@ -82,6 +116,56 @@ function broadcastKeystoreChange(): void {
   chrome.runtime.sendMessage({ type: "KEYSTORE_CHANGED" }).catch(() => {});
 }
 
+// Tell content scripts that a site's connection changed so they can
+// refresh provider state and emit events (connect, disconnect, scopes).
+function broadcastProviderStateChange(): void {
+  chrome.tabs.query({}, (tabs) => {
+    for (const tab of tabs) {
+      if (tab.id != null) {
+        chrome.tabs.sendMessage(tab.id, { type: "PROVIDER_STATE_CHANGED" }).catch(() => {});
+      }
+    }
+  });
+}
+
+// Messages of a wallet action (the popup message that would run it), so
+// the popup can review its fee before sending it.
+function walletActionMessages(action: any): TxMessages {
+  switch (action?.type) {
+    case "SEND_TOKENS":
+      return (address) => [makeSendMsg(address, action.recipient, action.amount, action.denom)];
+    case "DELEGATE":
+      return (address) => [makeDelegateMsg(address, action.validator, action.amount)];
+    case "UNDELEGATE":
+      return (address) => [makeUndelegateMsg(address, action.validator, action.amount)];
+    case "WITHDRAW_REWARDS":
+      return (address) => makeWithdrawRewardsMsgs(address, action.validators);
+    case "VOTE_PROPOSAL":
+      return (address) => [makeVoteMsg(address, action.proposalId, action.option)];
+    case "SUBMIT_PROPOSAL":
+      return (address) => [makeSubmitProposalMsg(address, action.title, action.description, action.deposit || "0")];
+    case "DEPOSIT_PROPOSAL":
+      return (address) => [makeDepositMsg(address, action.proposalId, action.amount)];
+    case "GNS_EXECUTE":
+      if (!GNS_CONTRACT_ADDRESS) throw new Error("GNS contract not configured");
+      return (address) => [makeExecuteContractMsg(address, GNS_CONTRACT_ADDRESS, action.contractMsg, action.funds ?? [])];
+    case "BROADCAST_BATCH": {
+      const invalid = validateBatch(action.items ?? []);
+      if (invalid) throw new Error(invalid);
+      return batchTxMessages(action.items);
+    }
+    default:
+      throw new Error(`Can't estimate ${action?.type}`);
+  }
+}
+
+// Fee / gas / memo options sent along with a wallet action.
+function txOptions(msg: any): TxOptions {
+  const options: TxOptions = { ...(msg.txOptions ?? {}) };
+  if (typeof msg.memo === "string" && options.memo === undefined) options.memo = msg.memo;
+  return options;
+}
+
 // Load persisted settings on startup
 loadSettings();
 
@@ -175,7 +259,10 @@ async function handleMessage(msg: any): Promise<any> {
 
     case "CREATE_WALLET": {
       try {
-        const { address, index } = await addWallet(msg.mnemonic, msg.password, msg.name);
+        // Either a recovery phrase or a hex private key may be supplied
+        const { address, index } = msg.privateKey
+          ? await addPrivateKeyWallet(msg.privateKey, msg.password, msg.name)
+          : await addWallet(msg.mnemonic, msg.password, msg.name, msg.passphrase);
         return { success: true, address, index };
       } catch (e: any) {
         return { success: false, error: e.message };
@@ -191,29 +278,65 @@ async function handleMessage(msg: any): Promise<any> {
       }
     }
 
+    case "ADD_DERIVED_ACCOUNT": {
+      // Derive the next HD account from an existing seed wallet (must be unlocked).
+      try {
+        const { address, index } = await addDerivedAccount(
+          msg.parentIndex,
+          msg.name,
+          msg.hdAccount ?? 0,
+          msg.hdIndex
+        );
+        broadcastKeystoreChange();
+        return { success: true, address, index };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
     case "ADD_WALLET": {
       // Used when adding a wallet while already unlocked.
       // Password is optional — uses cached password from keystore if omitted.
       try {
-        const { address, index } = await addWallet(msg.mnemonic, msg.password || undefined, msg.name);
+        const { address, index } = msg.privateKey
+          ? await addPrivateKeyWallet(msg.privateKey, msg.password || undefined, msg.name)
+          : await addWallet(msg.mnemonic, msg.password || undefined, msg.name, msg.passphrase);
         return { success: true, address, index };
       } catch (e: any) {
         return { success: false, error: e.message };
       }
     }
 
+    case "CHANGE_PASSWORD": {
+      try {
+        await changePassword(msg.oldPassword, msg.newPassword, msg.group || undefined);
+        logAuditEvent("password_changed", { detail: msg.group ? `Group "${msg.group}"` : undefined });
+        return { success: true };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
     case "VERIFY_PASSWORD": {
       try {
         await unlock(msg.password);
         return { success: true };
-      } catch {
+      } catch (e: any) {
+        if (e instanceof UnlockThrottledError) return { success: false, error: e.message };
+        // Re-entering the password (before a reveal, export, ...) is logged like a failed unlock
+        if (isWrongPasswordError(e)) logAuditEvent("unlock_failed", { detail: "Password confirmation" });
         return { success: false };
       }
     }
 
     case "SWITCH_WALLET": {
       try {
-        const address = await switchWallet(msg.index);
+        // Wallets in a locked password group need that group's password
+        const group = await getLockedGroup(msg.index);
+        if (group && !msg.password) {
+          return { success: false, passwordRequired: true, group, error: `"${group}" is locked` };
+        }
+        const address = await switchWallet(msg.index, msg.password);
         broadcastKeystoreChange();
         return { success: true, address, isViewOnly: isViewOnly() };
       } catch (e: any) {
@@ -221,6 +344,25 @@ async function handleMessage(msg: any): Promise<any> {
       }
     }
 
+    case "SET_WALLET_GROUP": {
+      try {
+        await setWalletGroup(msg.index, msg.group || null, msg.password);
+        return { success: true };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "LOCK_GROUP": {
+      try {
+        await lockGroup(msg.group);
+        broadcastKeystoreChange();
+        return { success: true, address: getAddress(), activeIndex: getActiveIndex() };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
     case "RENAME_WALLET": {
       await renameWallet(msg.index, msg.name);
       return { success: true };
@@ -228,7 +370,9 @@ async function handleMessage(msg: any): Promise<any> {
 
     case "REMOVE_WALLET": {
       try {
+        const removed = (await getWalletList())[msg.index];
         await removeWallet(msg.index);
+        logAuditEvent("wallet_removed", { address: removed?.address, detail: removed?.name });
         const address = getAddress();
         return { success: true, address, activeIndex: getActiveIndex() };
       } catch (e: any) {
@@ -236,6 +380,37 @@ async function handleMessage(msg: any): Promise<any> {
       }
     }
 
+    // ---- Backup / restore ----
+
+    case "EXPORT_BACKUP": {
+      try {
+        const backup = await exportBackup(msg.password);
+        logAuditEvent("backup_exported");
+        return { success: true, backup };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "PREVIEW_BACKUP": {
+      try {
+        const diff = await previewBackup(msg.file, msg.password);
+        return { success: true, diff: summarizeDiff(diff) };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "RESTORE_BACKUP": {
+      try {
+        const diff = await restoreBackup(msg.file, msg.password);
+        broadcastKeystoreChange();
+        return { success: true, diff: summarizeDiff(diff) };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
     case "GET_WALLETS": {
       const wallets = await getWalletList();
       return { wallets, activeIndex: isUnlocked() ? getActiveIndex() : 0 };
@@ -251,11 +426,33 @@ async function handleMessage(msg: any): Promise<any> {
         // Resume any dApp requests that were waiting for the wallet to unlock
         notifyUnlocked();
         return { success: true, address, wallets, activeIndex: getActiveIndex(), isViewOnly: isViewOnly() };
-      } catch {
-        return { success: false, error: "Wrong password" };
+      } catch (e: any) {
+        if (e instanceof UnlockThrottledError) {
+          return { success: false, error: e.message, ...(await getUnlockGuardState()) };
+        }
+        logAuditEvent("unlock_failed");
+        return { success: false, error: "Wrong password", ...(await getUnlockGuardState()) };
+      }
+    }
+
+    case "GET_UNLOCK_GUARD": {
+      return await getUnlockGuardState();
+    }
+
+    case "SET_UNLOCK_RELOAD_AFTER": {
+      try {
+        await setReloadAfterFailures(msg.count);
+        return { success: true };
+      } catch (e: any) {
+        return { success: false, error: e.message };
       }
     }
 
+    case "RELOAD_EXTENSION": {
+      chrome.runtime.reload();
+      return { success: true };
+    }
+
     case "GET_UNLOCK_CONTEXT": {
       const result = await chrome.storage.session.get("gg_pending_unlock_context").catch(() => ({} as Record<string, any>));
       return { context: (result as Record<string, any>)["gg_pending_unlock_context"] || null };
@@ -289,45 +486,174 @@ async function handleMessage(msg: any): Promise<any> {
     // ---- Transactions ----
 
     case "SEND_TOKENS": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
-      const result = await sendTokens(mnemonic, msg.recipient, msg.amount, msg.denom, msg.memo || "");
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
+      const result = await sendTokens(key, msg.recipient, msg.amount, msg.denom, txOptions(msg));
       return { success: true, ...result };
     }
 
     case "DELEGATE": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
-      const result = await delegateTokens(mnemonic, msg.validator, msg.amount);
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
+      const result = await delegateTokens(key, msg.validator, msg.amount, txOptions(msg));
       return { success: true, ...result };
     }
 
     case "UNDELEGATE": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
-      const result = await undelegateTokens(mnemonic, msg.validator, msg.amount);
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
+      const result = await undelegateTokens(key, msg.validator, msg.amount, txOptions(msg));
       return { success: true, ...result };
     }
 
     case "WITHDRAW_REWARDS": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
-      const result = await withdrawRewards(mnemonic, msg.validators);
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
+      const result = await withdrawRewards(key, msg.validators, txOptions(msg));
       return { success: true, ...result };
     }
 
+    // ---- Batch transactions ----
+
+    case "GET_BATCH_DRAFT": {
+      const address = getAddress();
+      const drafts = (await storageGet<Record<string, BatchItem[]>>(KEYS.BATCH_DRAFTS)) || {};
+      return { success: true, items: (address && drafts[address]) || [] };
+    }
+
+    case "SAVE_BATCH_DRAFT": {
+      const address = getAddress();
+      if (!address) return { success: false, error: "No active wallet" };
+      const drafts = (await storageGet<Record<string, BatchItem[]>>(KEYS.BATCH_DRAFTS)) || {};
+      if (msg.items?.length) drafts[address] = msg.items;
+      else delete drafts[address];
+      await storageSet({ [KEYS.BATCH_DRAFTS]: drafts });
+      return { success: true };
+    }
+
+    case "BROADCAST_BATCH": {
+      const key = getWalletKey();
+      const address = getAddress();
+      if (!key || !address) return { success: false, error: "Wallet is locked" };
+      const invalid = validateBatch(msg.items ?? []);
+      if (invalid) return { success: false, error: invalid };
+      try {
+        const result = await broadcastTx(key, batchTxMessages(msg.items), txOptions(msg));
+        if (result.code !== 0) {
+          return { success: false, error: `Transaction failed with code ${result.code}: ${result.rawLog}` };
+        }
+        const drafts = (await storageGet<Record<string, BatchItem[]>>(KEYS.BATCH_DRAFTS)) || {};
+        delete drafts[address];
+        await storageSet({ [KEYS.BATCH_DRAFTS]: drafts });
+        return { success: true, txHash: result.transactionHash, height: result.height };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    // ---- Bulk payouts ----
+
+    // One chunk of a CSV payout; the popup sends the chunks in order and
+    // tracks progress (lib/payout.ts).
+    case "BROADCAST_PAYOUT_CHUNK": {
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
+      const outputs: PayoutOutput[] = msg.outputs ?? [];
+      if (outputs.length === 0) return { success: false, error: "Nothing to pay" };
+      try {
+        const result = await broadcastTx(
+          key,
+          (address) =>
+            outputs.length === 1
+              ? [makeSendMsg(address, outputs[0].address, outputs[0].coin.amount, outputs[0].coin.denom)]
+              : [makeMultiSendMsg(address, outputs.map((o) => ({ address: o.address, coins: [o.coin] })))],
+          txOptions(msg),
+        );
+        if (result.code !== 0) {
+          return { success: false, error: `Transaction failed with code ${result.code}: ${result.rawLog}` };
+        }
+        return { success: true, txHash: result.transactionHash, height: result.height };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    // ---- Offline signing (lib/offline-tx.ts) ----
+
+    case "GENERATE_UNSIGNED_TX": {
+      // Needs only the address, so view-only wallets can prepare transactions too
+      const address = getAddress();
+      if (!address) return { success: false, error: "No active wallet" };
+      const invalid = validateBatch(msg.items ?? []);
+      if (invalid) return { success: false, error: invalid };
+      try {
+        const file = makeUnsignedTx(GONKA_CHAIN_ID, address, batchTxMessages(msg.items)(address), txOptions(msg));
+        return { success: true, file };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "SIGN_OFFLINE_TX": {
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
+      try {
+        const file = parseUnsignedTx(msg.file);
+        if (file.chain_id !== GONKA_CHAIN_ID) {
+          return { success: false, error: `This transaction is for ${file.chain_id}, not ${GONKA_CHAIN_ID}` };
+        }
+        const signed = await signUnsignedTx(file, await makeOfflineSigner(key), msg.accountNumber, msg.sequence);
+        logAuditEvent("offline_tx_signed", {
+          address: file.signer,
+          detail: `account ${signed.account_number}, sequence ${signed.sequence}`,
+        });
+        return { success: true, file: signed };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "BROADCAST_SIGNED_TX": {
+      try {
+        const file = parseSignedTx(msg.file);
+        if (file.chain_id !== GONKA_CHAIN_ID) {
+          return { success: false, error: `This transaction is for ${file.chain_id}, not ${GONKA_CHAIN_ID}` };
+        }
+        const client = await getClient();
+        const result = await client.broadcastTx(fromBase64(file.tx_bytes));
+        if (result.code !== 0) {
+          return { success: false, error: `Transaction failed with code ${result.code}: ${result.rawLog}` };
+        }
+        return { success: true, txHash: result.transactionHash, height: result.height };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "ESTIMATE_TX": {
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
+      try {
+        const estimate = await estimateTx(key, walletActionMessages(msg.action), txOptions(msg.action ?? {}));
+        return { success: true, ...estimate };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
     // ---- GNS (Gonka Name Service) ----
 
     case "GNS_EXECUTE": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
       if (!GNS_CONTRACT_ADDRESS) return { success: false, error: "GNS contract not configured" };
       try {
         const result = await executeContract(
-          mnemonic,
+          key,
           GNS_CONTRACT_ADDRESS,
           msg.contractMsg,
-          msg.funds ?? []
+          msg.funds ?? [],
+          txOptions(msg)
         );
         return { success: true, ...result };
       } catch (e: any) {
@@ -340,6 +666,7 @@ async function handleMessage(msg: any): Promise<any> {
     case "EXPORT_PRIVATE_KEY": {
       try {
         const hex = await exportPrivateKeyHex();
+        logAuditEvent("private_key_exported", { address: getAddress() });
         return { success: true, privateKey: hex };
       } catch (e: any) {
         return { success: false, error: e.message };
@@ -347,9 +674,32 @@ async function handleMessage(msg: any): Promise<any> {
     }
 
     case "GET_MNEMONIC": {
+      if (isPrivateKeyWallet()) {
+        return { success: false, error: "This wallet was imported from a private key and has no recovery phrase" };
+      }
       const mnemonic = getMnemonic();
       if (!mnemonic) return { success: false, error: "Wallet is locked" };
-      return { success: true, mnemonic };
+      logAuditEvent("mnemonic_revealed", { address: getAddress() });
+      return { success: true, mnemonic, hasPassphrase: hasPassphrase() };
+    }
+
+    case "SPLIT_MNEMONIC": {
+      // Shamir split happens here so the phrase itself never reaches the popup
+      if (isPrivateKeyWallet()) {
+        return { success: false, error: "This wallet was imported from a private key and has no recovery phrase" };
+      }
+      const mnemonic = getMnemonic();
+      if (!mnemonic) return { success: false, error: "Wallet is locked" };
+      try {
+        const shares = splitMnemonic(mnemonic, msg.threshold, msg.count);
+        logAuditEvent("mnemonic_revealed", {
+          address: getAddress(),
+          detail: `Split into ${msg.threshold}-of-${msg.count} shares`,
+        });
+        return { success: true, shares };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
     }
 
     // ---- inferenced CLI runner ----
@@ -385,12 +735,12 @@ async function handleMessage(msg: any): Promise<any> {
         }
       }
       // Transactions: require an unlocked wallet.
-      const mnemonic = getMnemonic();
-      if (!mnemonic) {
+      const key = getWalletKey();
+      if (!key) {
         return { success: false, error: "Wallet is locked", parsed };
       }
       try {
-        const result = await executeIntent(parsed.intent, mnemonic);
+        const result = await executeIntent(parsed.intent, key);
         return { success: true, result, parsed };
       } catch (e: any) {
         return { success: false, error: e?.message || "Execution failed", parsed };
@@ -519,6 +869,20 @@ async function handleMessage(msg: any): Promise<any> {
       return result;
     }
 
+    case "SIGN_MESSAGE": {
+      try {
+        const res = await signMessage(msg.chainId ?? GONKA_CHAIN_ID, msg.message);
+        if (res.error) return { success: false, error: res.error };
+        return { success: true, ...res.result };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "GET_AUDIT_LOG": {
+      return { entries: await getAuditLog() };
+    }
+
     case "GET_CONNECTED_SITES": {
       const sites = await getConnectedSites();
       return { sites };
@@ -526,9 +890,63 @@ async function handleMessage(msg: any): Promise<any> {
 
     case "DISCONNECT_SITE": {
       await disconnectSite(msg.origin);
+      broadcastProviderStateChange();
+      return { success: true };
+    }
+
+    case "UPDATE_SITE_PERMISSIONS": {
+      try {
+        const site = await updateSitePermissions(msg.origin, {
+          permissions: msg.permissions ?? [],
+          expiresAt: msg.expiresAt ?? null,
+          wallets: msg.wallets ?? null,
+          trustBroadcasts: msg.trustBroadcasts,
+        });
+        broadcastProviderStateChange();
+        return { success: true, site };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "GET_SUGGESTED_CHAINS": {
+      const chains = await getSuggestedChains();
+      return { chains };
+    }
+
+    case "REMOVE_SUGGESTED_CHAIN": {
+      await removeSuggestedChain(msg.chainId);
       return { success: true };
     }
 
+    case "GET_AUTO_APPROVAL_RULES": {
+      const rules = await getAutoApprovalRules();
+      return { rules };
+    }
+
+    case "SET_AUTO_APPROVAL_RULE": {
+      try {
+        const rule = await setAutoApprovalRule(msg.origin, msg.rule ?? null);
+        return { success: true, rule };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
+    case "GET_ORIGIN_LISTS": {
+      const lists = await getOriginLists();
+      return { lists };
+    }
+
+    case "UPDATE_ORIGIN_LIST": {
+      try {
+        const lists = await updateOriginList(msg.list, msg.entry, msg.action);
+        return { success: true, lists };
+      } catch (e: any) {
+        return { success: false, error: e.message };
+      }
+    }
+
     // ---- Approval popup ----
 
     case "GET_PENDING_REQUEST": {
@@ -537,8 +955,25 @@ async function handleMessage(msg: any): Promise<any> {
       return { request };
     }
 
+    case "GET_APPROVAL_QUEUE": {
+      const queue = getApprovalQueue(msg.requestId);
+      if (!queue) return { error: "Request not found or expired" };
+      return { queue };
+    }
+
+    case "PREVIEW_PENDING_REQUEST": {
+      try {
+        return await previewPendingRequest(msg.requestId);
+      } catch (e: any) {
+        return { error: e.message };
+      }
+    }
+
     case "APPROVE_REQUEST": {
-      const result = await approveRequest(msg.requestId);
+      const result = await approveRequest(msg.requestId, {
+        acknowledgedRisk: msg.acknowledgedRisk === true,
+        edits: msg.edits,
+      });
       return result;
     }
 
@@ -547,6 +982,14 @@ async function handleMessage(msg: any): Promise<any> {
       return result;
     }
 
+    case "APPROVE_REQUESTS": {
+      return await approveRequests(msg.requestIds ?? [], { acknowledgedRisk: msg.acknowledgedRisk === true });
+    }
+
+    case "REJECT_REQUESTS": {
+      return rejectRequests(msg.requestIds ?? []);
+    }
+
     // ---- Auto-lock settings ----
 
     case "GET_AUTO_LOCK": {
@@ -637,10 +1080,10 @@ async function handleMessage(msg: any): Promise<any> {
     }
 
     case "VOTE_PROPOSAL": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
       try {
-        const result = await voteProposal(mnemonic, msg.proposalId, msg.option as VoteOption);
+        const result = await voteProposal(key, msg.proposalId, msg.option as VoteOption, txOptions(msg));
         return { success: true, ...result };
       } catch (e: any) {
         return { success: false, error: e.message };
@@ -648,10 +1091,10 @@ async function handleMessage(msg: any): Promise<any> {
     }
 
     case "SUBMIT_PROPOSAL": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
       try {
-        const result = await submitProposal(mnemonic, msg.title, msg.description, msg.deposit || "0");
+        const result = await submitProposal(key, msg.title, msg.description, msg.deposit || "0", txOptions(msg));
         return { success: true, ...result };
       } catch (e: any) {
         return { success: false, error: e.message };
@@ -659,10 +1102,10 @@ async function handleMessage(msg: any): Promise<any> {
     }
 
     case "DEPOSIT_PROPOSAL": {
-      const mnemonic = getMnemonic();
-      if (!mnemonic) return { success: false, error: "Wallet is locked" };
+      const key = getWalletKey();
+      if (!key) return { success: false, error: "Wallet is locked" };
       try {
-        const result = await depositToProposal(mnemonic, msg.proposalId, msg.amount);
+        const result = await depositToProposal(key, msg.proposalId, msg.amount, txOptions(msg));
         return { success: true, ...result };
       } catch (e: any) {
         return { success: false, error: e.message };
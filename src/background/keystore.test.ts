@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { KdfParams } from "@/lib/crypto";
+
+// Default Argon2id takes ~1s per call; tests use cheap parameters instead.
+const FAST_KDF: KdfParams = { name: "argon2id", m: 256, t: 1, p: 1 };
+vi.mock("@/lib/crypto", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/crypto")>();
+  return {
+    ...actual,
+    encrypt: (plaintext: string, password: string, kdf: KdfParams = FAST_KDF) =>
+      actual.encrypt(plaintext, password, kdf),
+  };
+});
+
+// In-memory chrome.storage so the keystore can run end-to-end.
+const local: Record<string, any> = {};
+const session: Record<string, any> = {};
+
+function pick(store: Record<string, any>, keys: string | string[]) {
+  const out: Record<string, any> = {};
+  for (const k of Array.isArray(keys) ? keys : [keys]) {
+    if (k in store) out[k] = store[k];
+  }
+  return out;
+}
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (k: string | string[], cb: (v: any) => void) => cb(pick(local, k)),
+      set: (v: Record<string, any>, cb?: () => void) => {
+        Object.assign(local, structuredClone(v));
+        cb?.();
+      },
+      remove: (k: string | string[], cb?: () => void) => {
+        for (const key of Array.isArray(k) ? k : [k]) delete local[key];
+        cb?.();
+      },
+    },
+    session: {
+      get: async (k: string | string[]) => pick(session, k),
+      set: async (v: Record<string, any>) => {
+        Object.assign(session, v);
+      },
+      remove: async (k: string | string[]) => {
+        for (const key of Array.isArray(k) ? k : [k]) delete session[key];
+      },
+    },
+  },
+};
+
+const keystore = await import("./keystore");
+const { encrypt, decrypt, envelopeInfo, LEGACY_KDF } = await import("@/lib/crypto");
+const { deriveAddress } = await import("@/lib/cosmos");
+
+// Well-known test mnemonics — never use with real funds
+const MNEMONIC_A =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const MNEMONIC_B = "legal winner thank year wave sausage worth useful legal winner thank yellow";
+
+const OLD = "old-password";
+const NEW = "new-password";
+
+function decryptWith(entry: { ciphertext: string; salt: string; iv: string }, password: string) {
+  return decrypt(entry.ciphertext, entry.salt, entry.iv, password);
+}
+
+beforeEach(() => {
+  keystore.lock();
+  for (const k of Object.keys(local)) delete local[k];
+  for (const k of Object.keys(session)) delete session[k];
+});
+
+describe("changePassword", () => {
+  it("re-encrypts every wallet under the new password", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A");
+    await keystore.addWallet(MNEMONIC_B, undefined, "B");
+    await keystore.addViewOnlyWallet("gonka1watchonly000000000000000000000000000", "W");
+    const before = structuredClone(local.gg_wallets);
+
+    await keystore.changePassword(OLD, NEW);
+
+    const after = local.gg_wallets;
+    expect(after).toHaveLength(3);
+    expect(after[0].salt).not.toBe(before[0].salt);
+    expect(after[1].iv).not.toBe(before[1].iv);
+    expect(after[2]).toEqual(before[2]);
+    expect(session.gg_session_pwd).toBe(NEW);
+
+    keystore.lock();
+    await expect(keystore.unlock(OLD)).rejects.toThrow();
+    local.gg_active_index = 1;
+    await keystore.unlock(NEW);
+    expect(keystore.getMnemonic()).toBe(MNEMONIC_B);
+  });
+
+  it("leaves storage untouched when the old password is wrong", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A");
+    const before = structuredClone(local.gg_wallets);
+
+    await expect(keystore.changePassword("not-it", NEW)).rejects.toThrow("Wrong password");
+    expect(local.gg_wallets).toEqual(before);
+    expect(session.gg_session_pwd).toBe(OLD);
+  });
+
+  it("checks the old password when no wallet holds a ciphertext under it", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A");
+    await keystore.addViewOnlyWallet("gonka1watchonly000000000000000000000000000", "W");
+    await keystore.removeWallet(0);
+
+    await expect(keystore.changePassword("not-it", NEW)).rejects.toThrow("Wrong password");
+    expect(session.gg_session_pwd).toBe(OLD);
+    await keystore.changePassword(OLD, NEW);
+    expect(session.gg_session_pwd).toBe(NEW);
+  });
+
+  it("rejects short passwords and locked wallets", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A");
+    await expect(keystore.changePassword(OLD, "short")).rejects.toThrow("at least 8");
+    keystore.lock();
+    await expect(keystore.changePassword(OLD, NEW)).rejects.toThrow("locked");
+  });
+});
+
+describe("unlock attempts", () => {
+  it("are throttled after repeated wrong passwords, even with the right one", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A");
+    keystore.lock();
+    for (let i = 0; i < 3; i++) {
+      await expect(keystore.unlock("not-it")).rejects.toThrow();
+    }
+    await expect(keystore.unlock(OLD)).rejects.toThrow("Too many failed attempts");
+    await expect(keystore.verifyPassword(OLD)).rejects.toThrow("Too many failed attempts");
+    expect(keystore.isUnlocked()).toBe(false);
+  });
+});
+
+describe("BIP39 passphrase", () => {
+  it("is stored encrypted and restored on unlock, including for derived accounts", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A", "secret words");
+    const entry = local.gg_wallets[0];
+    expect(entry.passphrase.ciphertext).not.toContain("secret");
+    expect(entry.address).not.toBe(await deriveAddress({ mnemonic: MNEMONIC_A }));
+    expect(keystore.hasPassphrase()).toBe(true);
+
+    await keystore.addDerivedAccount(0, "A #1");
+    const derived = local.gg_wallets[1].address;
+    expect(derived).toBe(await deriveAddress({ mnemonic: MNEMONIC_A, passphrase: "secret words", index: 1 }));
+
+    keystore.lock();
+    await keystore.unlock(OLD);
+    expect(keystore.getWalletKey()).toEqual({
+      mnemonic: MNEMONIC_A,
+      passphrase: "secret words",
+      account: 0,
+      index: 1,
+    });
+  });
+
+  it("is re-encrypted with the password", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A", "secret words");
+    const before = structuredClone(local.gg_wallets[0].passphrase);
+
+    await keystore.changePassword(OLD, NEW);
+    expect(local.gg_wallets[0].passphrase.salt).not.toBe(before.salt);
+
+    keystore.lock();
+    await keystore.unlock(NEW);
+    expect(keystore.hasPassphrase()).toBe(true);
+    expect(keystore.getWalletKey()).toMatchObject({ passphrase: "secret words" });
+  });
+});
+
+describe("password groups", () => {
+  const COLD = "cold-password";
+
+  async function setUp() {
+    await keystore.addWallet(MNEMONIC_A, OLD, "Hot");
+    await keystore.addWallet(MNEMONIC_B, undefined, "Treasury");
+    await keystore.setWalletGroup(1, "cold", COLD);
+    await keystore.addDerivedAccount(1, "Treasury #1");
+    await keystore.switchWallet(0);
+  }
+
+  it("encrypts a grouped wallet under the group password only", async () => {
+    await setUp();
+    const treasury = local.gg_wallets[1];
+    expect(treasury.group).toBe("cold");
+    await expect(decryptWith(treasury, OLD)).rejects.toThrow();
+    expect(await decryptWith(treasury, COLD)).toBe(MNEMONIC_B);
+    expect(await keystore.verifyPassword(OLD)).toBe(true);
+  });
+
+  it("asks for the group password when switching after unlock", async () => {
+    await setUp();
+    keystore.lock();
+    await keystore.unlock(OLD);
+    expect(keystore.getUnlockedGroups()).toEqual([]);
+    expect(await keystore.getLockedGroup(2)).toBe("cold"); // derived account follows its seed
+    expect((await keystore.getWalletList())[1]).toMatchObject({ group: "cold", locked: true });
+
+    await expect(keystore.switchWallet(1)).rejects.toThrow("its own password");
+    await expect(keystore.switchWallet(1, OLD)).rejects.toThrow("Wrong password");
+    await keystore.switchWallet(1, COLD);
+    expect(keystore.getMnemonic()).toBe(MNEMONIC_B);
+    expect(keystore.getUnlockedGroups()).toEqual(["cold"]);
+
+    // Unlocked for the rest of the session
+    await keystore.switchWallet(2);
+    expect(keystore.getWalletKey()).toMatchObject({ mnemonic: MNEMONIC_B, index: 1 });
+  });
+
+  it("falls back to a main-password wallet when unlocking with a grouped wallet active", async () => {
+    await setUp();
+    await keystore.switchWallet(1);
+    keystore.lock();
+
+    await keystore.unlock(OLD);
+    expect(keystore.getActiveIndex()).toBe(0);
+    expect(keystore.getMnemonic()).toBe(MNEMONIC_A);
+  });
+
+  it("locks a group and switches away from it", async () => {
+    await setUp();
+    await keystore.switchWallet(1);
+    await keystore.lockGroup("cold");
+    expect(keystore.getActiveIndex()).toBe(0);
+    expect(await keystore.getLockedGroup(1)).toBe("cold");
+  });
+
+  it("changes only the group's password and can move wallets back", async () => {
+    await setUp();
+    await keystore.changePassword(COLD, "colder-password", "cold");
+    expect(await decryptWith(local.gg_wallets[1], "colder-password")).toBe(MNEMONIC_B);
+    expect(await decryptWith(local.gg_wallets[0], OLD)).toBe(MNEMONIC_A);
+
+    await keystore.setWalletGroup(1, null);
+    expect(local.gg_wallets[1].group).toBeUndefined();
+    expect(await decryptWith(local.gg_wallets[1], OLD)).toBe(MNEMONIC_B);
+  });
+
+  it("restores a backup's group under a new name unless this group's password opens it", async () => {
+    await setUp();
+    const MNEMONIC_C = "zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong";
+    const backedUp = async (mnemonic: string, password: string) => ({
+      name: "Backup",
+      address: await deriveAddress({ mnemonic }),
+      ...(await encrypt(mnemonic, password)),
+      group: "cold",
+    });
+
+    await keystore.restoreWallets([await backedUp(MNEMONIC_C, "other-password")], OLD);
+    expect(local.gg_wallets[3].group).toBe("cold (restored)");
+    expect(await decryptWith(local.gg_wallets[3], "other-password")).toBe(MNEMONIC_C);
+
+    await keystore.removeWallet(3);
+    await keystore.restoreWallets([await backedUp(MNEMONIC_C, COLD)], OLD);
+    expect(local.gg_wallets[3].group).toBe("cold");
+  });
+
+  it("forgets a group's password when its last wallet is removed", async () => {
+    await setUp();
+    await keystore.removeWallet(2); // derived account first
+    await keystore.removeWallet(1);
+    expect(keystore.getUnlockedGroups()).toEqual([]);
+    expect(session.gg_session_groups).toEqual({});
+  });
+
+  it("keeps at least one wallet under the main password", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "Hot");
+    await expect(keystore.setWalletGroup(0, "cold", COLD)).rejects.toThrow("main password");
+  });
+});
+
+describe("upgradeEncryption", () => {
+  it("moves v1 (PBKDF2) wallets to the current envelope without changing the secret", async () => {
+    await keystore.addWallet(MNEMONIC_A, OLD, "A");
+    // Rewrite the entry as a pre-envelope wallet would have stored it
+    const legacy = await encrypt(MNEMONIC_A, OLD, LEGACY_KDF);
+    local.gg_wallets[0] = { ...local.gg_wallets[0], ...legacy, ciphertext: legacy.ciphertext.split("$")[4] };
+    expect(envelopeInfo(local.gg_wallets[0].ciphertext).version).toBe(1);
+
+    keystore.lock();
+    await keystore.unlock(OLD);
+    await keystore.upgradeEncryption(OLD);
+
+    const info = envelopeInfo(local.gg_wallets[0].ciphertext);
+    expect(info.version).toBe(2);
+    expect(info.kdf.name).toBe("argon2id");
+
+    keystore.lock();
+    await keystore.unlock(OLD);
+    expect(keystore.getMnemonic()).toBe(MNEMONIC_A);
+  });
+});
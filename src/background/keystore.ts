@@ -6,19 +6,41 @@
  *   gg_active_index: number         (index into the wallets array)
  *   gg_initialized:  boolean
  *
- * All wallets share the same password (verified against the active wallet).
- * The decrypted mnemonic of the active wallet is held in memory while unlocked.
+ * Wallets are encrypted under the main password unless they belong to a
+ * password group (entry.group), whose members share the group's own
+ * password. Unlocking opens the main vault; a group is unlocked the first
+ * time one of its wallets is switched to and stays unlocked until lock().
+ * The decrypted key of the active wallet is held in memory while unlocked.
+ *
+ * HD-derived accounts (m/44'/1200'/account'/0/index) don't store a copy of
+ * the seed: they reference their seed wallet by address and decrypt its
+ * ciphertext when they become active.
+ *
+ * Wallets imported from a raw private key (keyType "privateKey") store the
+ * encrypted hex key instead of a mnemonic and have no recovery phrase.
+ *
+ * A seed wallet's optional BIP39 passphrase is encrypted separately in
+ * `entry.passphrase` and is re-encrypted together with the ciphertext.
  */
 
-import { encrypt, decrypt } from "@/lib/crypto";
-import { storageGet, storageSet, storageRemove, KEYS, WalletEntry } from "@/lib/storage";
-import { deriveAddress, derivePrivateKey } from "@/lib/cosmos";
+import { encrypt, decrypt, needsUpgrade } from "@/lib/crypto";
+import { storageGet, storageSet, storageRemove, KEYS, WalletEntry, type WalletKeyType } from "@/lib/storage";
+import {
+  deriveAddress,
+  derivePrivateKey,
+  isPrivateKeyKey,
+  parsePrivateKeyHex,
+  type WalletKey,
+} from "@/lib/cosmos";
+import { toHex } from "@cosmjs/encoding";
+import { guardPasswordAttempt, isWrongPasswordError, WrongPasswordError } from "./unlock-guard";
 
 const DEFAULT_AUTO_LOCK_MINUTES = 0; // Default: never auto-lock while open
 let _autoLockMs = DEFAULT_AUTO_LOCK_MINUTES * 60 * 1000;
 
-let _mnemonic: string | null = null;
+let _key: WalletKey | null = null; // decrypted key material of the active wallet
 let _password: string | null = null; // kept to decrypt when switching wallets
+const _groupPasswords = new Map<string, string>(); // passwords of unlocked groups
 let _address: string = "";
 let _activeIndex: number = 0;
 let _viewOnly: boolean = false;
@@ -38,6 +60,7 @@ const LOCK_DEADLINE_KEY = "gg_lock_deadline";
 // cleared when the browser closes — so secrets never touch disk.
 const SESSION_PASSWORD_KEY = "gg_session_pwd";
 const SESSION_UNLOCKED_KEY = "gg_session_unlocked";
+const SESSION_GROUPS_KEY = "gg_session_groups";
 
 // ------------------------------------------------------------------ //
 //  Wallet CRUD
@@ -47,19 +70,45 @@ const SESSION_UNLOCKED_KEY = "gg_session_unlocked";
  * Add (create or import) a new wallet.
  * If this is the first wallet, it becomes the active one automatically.
  * If `password` is omitted, uses the cached password (must be unlocked).
+ * An empty `passphrase` is the same as none.
  */
 export async function addWallet(
   mnemonic: string,
   password?: string,
+  name?: string,
+  passphrase?: string
+): Promise<{ address: string; index: number }> {
+  return addEncryptedWallet(passphrase ? { mnemonic, passphrase } : { mnemonic }, password, name);
+}
+
+/**
+ * Import a wallet from a hex-encoded secp256k1 private key (the format
+ * exportPrivateKeyHex produces). Same password rules as addWallet.
+ */
+export async function addPrivateKeyWallet(
+  privateKeyHex: string,
+  password?: string,
+  name?: string
+): Promise<{ address: string; index: number }> {
+  return addEncryptedWallet({ privateKey: parsePrivateKeyHex(privateKeyHex) }, password, name);
+}
+
+async function addEncryptedWallet(
+  key: WalletKey,
+  password?: string,
   name?: string
 ): Promise<{ address: string; index: number }> {
   const pwd = password || _password;
   if (!pwd) throw new Error("Wallet is locked — no password available");
 
-  const address = await deriveAddress(mnemonic);
-  const { ciphertext, salt, iv } = await encrypt(mnemonic, pwd);
-
+  const address = await deriveAddress(key);
   const wallets = await getWallets();
+  if (wallets.some((w) => w.address === address)) {
+    throw new Error("This wallet has already been added");
+  }
+
+  const secret = isPrivateKeyKey(key) ? toHex(key.privateKey) : key.mnemonic;
+  const { ciphertext, salt, iv } = await encrypt(secret, pwd);
   const index = wallets.length;
 
   const entry: WalletEntry = {
@@ -69,6 +118,8 @@ export async function addWallet(
     salt,
     iv,
   };
+  if (isPrivateKeyKey(key)) entry.keyType = "privateKey";
+  else if (key.passphrase) entry.passphrase = await encrypt(key.passphrase, pwd);
 
   wallets.push(entry);
 
@@ -81,8 +132,9 @@ export async function addWallet(
   // Migrate: remove legacy single-wallet keys if present
   await storageRemove([KEYS.ENCRYPTED_MNEMONIC, KEYS.SALT, KEYS.IV, KEYS.ADDRESS]);
 
-  _mnemonic = mnemonic;
+  _key = key;
   _password = pwd;
+  _viewOnly = false;
   _address = address;
   _activeIndex = index;
   resetLockTimer();
@@ -91,6 +143,76 @@ export async function addWallet(
   return { address, index };
 }
 
+/**
+ * Derive another account from an existing seed wallet and add it to the list.
+ * The new entry references its parent by address; the seed is not re-encrypted.
+ * If `hdIndex` is omitted, the next unused address index under `hdAccount` is used.
+ * Requires the wallet to be unlocked.
+ */
+export async function addDerivedAccount(
+  parentIndex: number,
+  name?: string,
+  hdAccount = 0,
+  hdIndex?: number
+): Promise<{ address: string; index: number }> {
+  if (!_password) throw new Error("Wallet is locked");
+
+  const wallets = await getWallets();
+  const parent = wallets[parentIndex];
+  if (!parent || !isSeedWallet(parent)) {
+    throw new Error("Accounts can only be derived from a recovery-phrase wallet");
+  }
+
+  const siblings = wallets.filter(
+    (w) => w === parent || w.parentAddress === parent.address
+  );
+  const nextIndex =
+    hdIndex ??
+    Math.max(
+      -1,
+      ...siblings.filter((w) => (w.hdAccount ?? 0) === hdAccount).map((w) => w.hdIndex ?? 0)
+    ) + 1;
+
+  const parentPassword = passwordFor(wallets, parent);
+  if (!parentPassword) throw new Error(`Unlock "${parent.group}" first`);
+
+  const key: WalletKey = {
+    ...(await decryptSeed(parent, parentPassword)),
+    account: hdAccount,
+    index: nextIndex,
+  };
+  const address = await deriveAddress(key);
+  if (wallets.some((w) => w.address === address)) {
+    throw new Error("This account has already been added");
+  }
+
+  const index = wallets.length;
+  const entry: WalletEntry = {
+    name: name || `${parent.name} #${nextIndex}`,
+    address,
+    ciphertext: "",
+    salt: "",
+    iv: "",
+    parentAddress: parent.address,
+    hdAccount,
+    hdIndex: nextIndex,
+  };
+
+  wallets.push(entry);
+  await storageSet({
+    [KEYS.WALLETS]: wallets,
+    [KEYS.ACTIVE_INDEX]: index,
+  });
+
+  _key = key;
+  _viewOnly = false;
+  _address = address;
+  _activeIndex = index;
+  resetLockTimer();
+
+  return { address, index };
+}
+
 /**
  * Add a watch-only wallet (address only, no mnemonic).
  * Can be added while unlocked or without any prior wallet.
@@ -119,7 +241,7 @@ export async function addViewOnlyWallet(
     [KEYS.INITIALIZED]: true,
   });
 
-  _mnemonic = null;
+  _key = null;
   _viewOnly = true;
   _address = address;
   _activeIndex = index;
@@ -130,8 +252,10 @@ export async function addViewOnlyWallet(
 
 /**
  * Switch to a different wallet by index (must be unlocked or switching to view-only).
+ * A wallet in a locked password group needs that group's `password`; on
+ * success the group stays unlocked.
  */
-export async function switchWallet(index: number): Promise<string> {
+export async function switchWallet(index: number, password?: string): Promise<string> {
   const wallets = await getWallets();
   if (index < 0 || index >= wallets.length) {
     throw new Error(`Invalid wallet index: ${index}`);
@@ -140,12 +264,26 @@ export async function switchWallet(index: number): Promise<string> {
   const entry = wallets[index];
 
   if (entry.viewOnly) {
-    _mnemonic = null;
+    _key = null;
     _viewOnly = true;
   } else {
     if (!_password) throw new Error("Wallet is locked");
-    const mnemonic = await decrypt(entry.ciphertext, entry.salt, entry.iv, _password);
-    _mnemonic = mnemonic;
+    const group = groupOf(wallets, entry);
+    const known = passwordFor(wallets, entry);
+    if (known) {
+      _key = await decryptEntryKey(wallets, entry, known);
+    } else {
+      if (!password) throw new Error(`"${group}" is protected by its own password`);
+      try {
+        _key = await guardPasswordAttempt(() => decryptEntryKey(wallets, entry, password));
+      } catch (e) {
+        if (!isWrongPasswordError(e)) throw e;
+        throw new Error("Wrong password");
+      }
+      _groupPasswords.set(group!, password);
+      persistSessionUnlock(_password);
+      upgradeEncryption(password, group).catch(() => {});
+    }
     _viewOnly = false;
   }
 
@@ -169,22 +307,49 @@ export async function renameWallet(index: number, name: string): Promise<void> {
 }
 
 /**
- * Remove a wallet by index. Cannot remove the last wallet.
+ * Remove a wallet by index. Cannot remove the last wallet, nor a seed
+ * wallet that still has derived accounts pointing at it.
  */
 export async function removeWallet(index: number): Promise<void> {
   const wallets = await getWallets();
   if (wallets.length <= 1) throw new Error("Cannot remove the last wallet");
   if (index < 0 || index >= wallets.length) throw new Error("Invalid index");
+  if (wallets.some((w) => w.parentAddress === wallets[index].address)) {
+    throw new Error("Remove the accounts derived from this wallet first");
+  }
+  if (
+    isMainVaultWallet(wallets[index]) &&
+    wallets.filter(isMainVaultWallet).length === 1 &&
+    wallets.some((w) => w.group)
+  ) {
+    throw new Error("At least one wallet must keep the main password");
+  }
+
+  const [removed] = wallets.splice(index, 1);
 
-  wallets.splice(index, 1);
+  // A group left empty has no password to remember
+  if (removed.group && !wallets.some((w) => w.group === removed.group)) {
+    _groupPasswords.delete(removed.group);
+    if (_password) persistSessionUnlock(_password);
+  }
 
   // Adjust active index
   let newActive = _activeIndex;
   if (index === _activeIndex) {
-    newActive = 0;
-    if (_password) {
-      const entry = wallets[0];
-      _mnemonic = await decrypt(entry.ciphertext, entry.salt, entry.iv, _password);
+    // Fall back to the first wallet we can open without another password
+    newActive = Math.max(
+      0,
+      wallets.findIndex((w) => w.viewOnly || passwordFor(wallets, w))
+    );
+    const entry = wallets[newActive];
+    const pwd = passwordFor(wallets, entry);
+    if (entry.viewOnly) {
+      _key = null;
+      _viewOnly = true;
+      _address = entry.address;
+    } else if (pwd) {
+      _key = await decryptEntryKey(wallets, entry, pwd);
+      _viewOnly = false;
       _address = entry.address;
     }
   } else if (index < _activeIndex) {
@@ -198,38 +363,383 @@ export async function removeWallet(index: number): Promise<void> {
   });
 }
 
+/**
+ * Add wallet entries from a backup file. Entries must already be filtered
+ * for duplicates and orphaned derived accounts (see diffBackup). Their
+ * secrets are encrypted under `backupPassword`; they are re-encrypted under
+ * the current password, or — when restoring into an empty wallet — the
+ * backup password becomes the wallet password and the wallet is unlocked.
+ * Wallets in a password group are kept under their group's password. If
+ * this profile already has a group of that name, they join it only when
+ * the group is unlocked and its password opens them; otherwise they are
+ * restored under a new group name (see restoredGroupNames).
+ */
+export async function restoreWallets(
+  entries: WalletEntry[],
+  backupPassword: string
+): Promise<void> {
+  const wallets = await getWallets();
+  const fresh = wallets.length === 0;
+  const pwd = fresh ? backupPassword : _password;
+  if (!pwd) throw new Error("Wallet is locked");
+
+  const groupNames = await restoredGroupNames(wallets, entries);
+  for (const entry of entries) {
+    if (isMainVaultWallet(entry) && !fresh) {
+      try {
+        wallets.push(await reencryptEntry(entry, backupPassword, pwd));
+      } catch {
+        throw new Error(`Could not decrypt "${entry.name}" from the backup`);
+      }
+    } else if (entry.group) {
+      wallets.push({ ...entry, group: groupNames.get(entry.group) });
+    } else {
+      wallets.push(entry);
+    }
+  }
+
+  await storageSet({
+    [KEYS.WALLETS]: wallets,
+    [KEYS.INITIALIZED]: wallets.length > 0,
+    ...(fresh ? { [KEYS.ACTIVE_INDEX]: 0 } : {}),
+  });
+
+  if (fresh && wallets.length > 0) await unlock(backupPassword);
+}
+
+/**
+ * Group name for each password group in a backup. A group whose name is
+ * free here keeps it. One that collides with an existing group keeps the
+ * name only if that group is unlocked and its password decrypts the
+ * backup's wallets; otherwise it gets a free "<name> (restored)" name, so
+ * the wallets stay under the password they were backed up with.
+ */
+async function restoredGroupNames(
+  wallets: WalletEntry[],
+  entries: WalletEntry[]
+): Promise<Map<string, string>> {
+  const taken = new Set(wallets.map((w) => w.group).filter((g): g is string => !!g));
+  const names = new Map<string, string>();
+  for (const group of new Set(entries.map((e) => e.group).filter((g): g is string => !!g))) {
+    const known = _groupPasswords.get(group);
+    const members = entries.filter((e) => e.group === group && isEncryptedWallet(e));
+    let name = group;
+    if (taken.has(group)) {
+      let opens = !!known;
+      for (const m of members) {
+        if (!opens) break;
+        opens = await decrypt(m.ciphertext, m.salt, m.iv, known!).then(
+          () => true,
+          () => false
+        );
+      }
+      if (!opens) {
+        name = `${group} (restored)`;
+        for (let n = 2; taken.has(name); n++) name = `${group} (restored ${n})`;
+      }
+    }
+    taken.add(name);
+    names.set(group, name);
+  }
+  return names;
+}
+
+/**
+ * Change the main password, or the password of `group`. Every wallet that
+ * holds its own ciphertext under that password is decrypted with the old
+ * one and re-encrypted with the new one (fresh salt and IV). All new entries
+ * are prepared in memory and written with a single storage call, so a
+ * failure part-way leaves the old password intact.
+ */
+export async function changePassword(
+  oldPassword: string,
+  newPassword: string,
+  group?: string
+): Promise<void> {
+  if (!_password) throw new Error("Wallet is locked");
+  if (newPassword.length < 8) throw new Error("Password must be at least 8 characters");
+
+  const wallets = await getWallets();
+  if (group && !wallets.some((w) => w.group === group)) {
+    throw new Error(`No wallets in group "${group}"`);
+  }
+  let reencrypted: WalletEntry[];
+  try {
+    reencrypted = await guardPasswordAttempt(async () => {
+      // Checked up front: a vault with no ciphertext of its own (only
+      // view-only wallets) would otherwise accept any old password. A locked
+      // group has no known password; re-encrypting its members checks it.
+      const current = group ? _groupPasswords.get(group) : _password;
+      if (current != null && oldPassword !== current) throw new WrongPasswordError();
+      const out: WalletEntry[] = [];
+      for (const entry of wallets) {
+        const owned = isEncryptedWallet(entry) && entry.group === group;
+        out.push(owned ? await reencryptEntry(entry, oldPassword, newPassword) : entry);
+      }
+      return out;
+    });
+  } catch (e) {
+    if (!isWrongPasswordError(e)) throw e;
+    throw new Error("Wrong password");
+  }
+
+  await storageSet({ [KEYS.WALLETS]: reencrypted });
+
+  if (group) {
+    _groupPasswords.set(group, newPassword);
+  } else {
+    _password = newPassword;
+  }
+  persistSessionUnlock(_password);
+}
+
+/**
+ * Move a wallet (and the accounts derived from it) into a password group,
+ * or back under the main password when `group` is empty. Joining an
+ * existing group needs that group's password; naming a new group sets it.
+ * The wallet's current vault must be unlocked.
+ */
+export async function setWalletGroup(
+  index: number,
+  group: string | null,
+  groupPassword?: string
+): Promise<void> {
+  if (!_password) throw new Error("Wallet is locked");
+
+  const wallets = await getWallets();
+  const entry = wallets[index];
+  if (!entry || !isEncryptedWallet(entry)) {
+    throw new Error("Only wallets with their own recovery phrase or key can have a separate password");
+  }
+  const target = group?.trim() || undefined;
+  if (target === entry.group) return;
+
+  const current = passwordFor(wallets, entry);
+  if (!current) throw new Error(`Unlock "${entry.group}" first`);
+
+  let next = _password;
+  if (target) {
+    if (!entry.group && wallets.filter(isMainVaultWallet).length === 1) {
+      throw new Error("At least one wallet must keep the main password");
+    }
+    if (!groupPassword) throw new Error("Enter the group password");
+    const member = wallets.find((w) => w !== entry && isEncryptedWallet(w) && w.group === target);
+    if (member) {
+      try {
+        await guardPasswordAttempt(() =>
+          decrypt(member.ciphertext, member.salt, member.iv, groupPassword)
+        );
+      } catch (e) {
+        if (!isWrongPasswordError(e)) throw e;
+        throw new Error("Wrong password for this group");
+      }
+    } else if (groupPassword.length < 8) {
+      throw new Error("Password must be at least 8 characters");
+    }
+    next = groupPassword;
+  }
+
+  const moved = await reencryptEntry(entry, current, next);
+  if (target) moved.group = target;
+  else delete moved.group;
+  const previous = entry.group;
+  wallets[index] = moved;
+  await storageSet({ [KEYS.WALLETS]: wallets });
+
+  if (target) _groupPasswords.set(target, next);
+  if (previous && !wallets.some((w) => w.group === previous)) _groupPasswords.delete(previous);
+  persistSessionUnlock(_password);
+}
+
+/**
+ * Forget a group's password. If the active wallet is in the group, the
+ * first wallet that opens without another password becomes active.
+ */
+export async function lockGroup(group: string): Promise<void> {
+  if (!_groupPasswords.delete(group)) return;
+  if (_password) persistSessionUnlock(_password);
+
+  const wallets = await getWallets();
+  const active = wallets[_activeIndex];
+  if (active && !active.viewOnly && groupOf(wallets, active) === group) {
+    await switchWallet(wallets.findIndex((w) => w.viewOnly || passwordFor(wallets, w)));
+  }
+}
+
+/** Names of the password groups that are currently unlocked. */
+export function getUnlockedGroups(): string[] {
+  return [..._groupPasswords.keys()];
+}
+
+/**
+ * The group of the wallet at `index` if it's locked and switching to it
+ * needs a password, otherwise null.
+ */
+export async function getLockedGroup(index: number): Promise<string | null> {
+  const wallets = await getWallets();
+  const entry = wallets[index];
+  if (!entry || entry.viewOnly) return null;
+  const group = groupOf(wallets, entry);
+  return group && !_groupPasswords.has(group) ? group : null;
+}
+
+/**
+ * Check a password against the stored wallets without changing unlock state.
+ * Counts toward the failed-attempt limit; throws UnlockThrottledError while
+ * attempts are blocked.
+ */
+export async function verifyPassword(password: string): Promise<boolean> {
+  const wallets = await getWallets();
+  const entry = wallets.find(isMainVaultWallet);
+  if (!entry) return true;
+  try {
+    await guardPasswordAttempt(() => decrypt(entry.ciphertext, entry.salt, entry.iv, password));
+    return true;
+  } catch (e) {
+    if (!isWrongPasswordError(e)) throw e;
+    return false;
+  }
+}
+
+/** A wallet that holds its own ciphertext (recovery phrase or private key). */
+function isEncryptedWallet(w: WalletEntry): boolean {
+  return !w.viewOnly && !w.parentAddress;
+}
+
+/** A wallet that holds its own encrypted recovery phrase. */
+function isSeedWallet(w: WalletEntry): boolean {
+  return isEncryptedWallet(w) && w.keyType !== "privateKey";
+}
+
+/** A wallet whose ciphertext is under the main password. */
+function isMainVaultWallet(w: WalletEntry): boolean {
+  return isEncryptedWallet(w) && !w.group;
+}
+
+/** Password group of an entry; derived accounts follow their seed wallet. */
+function groupOf(wallets: WalletEntry[], entry: WalletEntry): string | undefined {
+  if (entry.parentAddress) {
+    return wallets.find((w) => w.address === entry.parentAddress)?.group;
+  }
+  return entry.group;
+}
+
+/** Password that opens an entry, or null while its vault is locked. */
+function passwordFor(wallets: WalletEntry[], entry: WalletEntry): string | null {
+  const group = groupOf(wallets, entry);
+  return group ? _groupPasswords.get(group) ?? null : _password;
+}
+
+/**
+ * Decrypt an entry's secret (and passphrase, if any) with `oldPassword` and
+ * encrypt them again under `newPassword` with fresh salts and IVs.
+ */
+async function reencryptEntry(
+  entry: WalletEntry,
+  oldPassword: string,
+  newPassword: string
+): Promise<WalletEntry> {
+  const secret = await decrypt(entry.ciphertext, entry.salt, entry.iv, oldPassword);
+  const next: WalletEntry = { ...entry, ...(await encrypt(secret, newPassword)) };
+  if (entry.passphrase) {
+    const { ciphertext, salt, iv } = entry.passphrase;
+    next.passphrase = await encrypt(await decrypt(ciphertext, salt, iv, oldPassword), newPassword);
+  }
+  return next;
+}
+
+/** Decrypt a seed wallet's recovery phrase and BIP39 passphrase. */
+async function decryptSeed(
+  seed: WalletEntry,
+  password: string
+): Promise<{ mnemonic: string; passphrase?: string }> {
+  const mnemonic = await decrypt(seed.ciphertext, seed.salt, seed.iv, password);
+  if (!seed.passphrase) return { mnemonic };
+  const { ciphertext, salt, iv } = seed.passphrase;
+  return { mnemonic, passphrase: await decrypt(ciphertext, salt, iv, password) };
+}
+
+/**
+ * Decrypt the key material for a non-view-only entry. Derived accounts
+ * decrypt their parent's seed (and passphrase) and carry their own HD indices.
+ */
+async function decryptEntryKey(
+  wallets: WalletEntry[],
+  entry: WalletEntry,
+  password: string
+): Promise<WalletKey> {
+  if (entry.keyType === "privateKey") {
+    const hex = await decrypt(entry.ciphertext, entry.salt, entry.iv, password);
+    return { privateKey: parsePrivateKeyHex(hex) };
+  }
+  const seed = entry.parentAddress
+    ? wallets.find((w) => w.address === entry.parentAddress && isSeedWallet(w))
+    : entry;
+  if (!seed) throw new Error("Seed wallet for this account was not found");
+  return {
+    ...(await decryptSeed(seed, password)),
+    account: entry.hdAccount ?? 0,
+    index: entry.hdIndex ?? 0,
+  };
+}
+
 // ------------------------------------------------------------------ //
 //  Unlock / Lock
 // ------------------------------------------------------------------ //
 
 /**
- * Unlock all wallets using the shared password.
- * Decrypts the active wallet's mnemonic into memory.
+ * Unlock the main vault with the main password.
+ * Decrypts the active wallet's key into memory. If the active wallet is in
+ * a password group, the first wallet that opens with the main password
+ * becomes active instead.
  * For view-only wallets with no regular wallets, no password is needed.
+ * Attempts are rate-limited (see unlock-guard.ts).
  */
 export async function unlock(password: string): Promise<string> {
+  return guardPasswordAttempt(() => openVault(password));
+}
+
+async function openVault(password: string): Promise<string> {
   const wallets = await getWallets();
   if (wallets.length === 0) {
     // Try legacy migration
     const migrated = await migrateLegacy(password);
-    if (migrated) return migrated;
+    if (migrated) {
+      upgradeEncryption(password).catch(() => {});
+      return migrated;
+    }
     throw new Error("No wallet found");
   }
 
-  const activeIdx = (await storageGet<number>(KEYS.ACTIVE_INDEX)) ?? 0;
-  const entry = wallets[activeIdx] || wallets[0];
+  let activeIdx = (await storageGet<number>(KEYS.ACTIVE_INDEX)) ?? 0;
+  if (!wallets[activeIdx]) activeIdx = 0;
+  const group = wallets[activeIdx].viewOnly ? undefined : groupOf(wallets, wallets[activeIdx]);
+  if (group && _groupPasswords.has(group)) {
+    // Already unlocked and re-confirming (e.g. before revealing a secret):
+    // the password must be the active wallet's group password
+    await decryptEntryKey(wallets, wallets[activeIdx], password);
+    resetLockTimer();
+    return _address;
+  }
+  if (group) {
+    activeIdx = Math.max(
+      0,
+      wallets.findIndex((w) => w.viewOnly || !groupOf(wallets, w))
+    );
+    await storageSet({ [KEYS.ACTIVE_INDEX]: activeIdx });
+  }
+  const entry = wallets[activeIdx];
 
   if (entry.viewOnly) {
-    const regularWallet = wallets.find((w) => !w.viewOnly);
+    const regularWallet = wallets.find(isMainVaultWallet);
     if (regularWallet) {
       await decrypt(regularWallet.ciphertext, regularWallet.salt, regularWallet.iv, password);
       _password = password;
     }
-    _mnemonic = null;
+    _key = null;
     _viewOnly = true;
   } else {
-    const mnemonic = await decrypt(entry.ciphertext, entry.salt, entry.iv, password);
-    _mnemonic = mnemonic;
+    _key = await decryptEntryKey(wallets, entry, password);
     _password = password;
     _viewOnly = false;
   }
@@ -241,19 +751,52 @@ export async function unlock(password: string): Promise<string> {
   // Persist unlock state to session storage so we survive SW restarts
   persistSessionUnlock(password);
 
+  // Move wallets on an older ciphertext envelope / KDF to the current one
+  upgradeEncryption(password).catch(() => {});
+
   return _address;
 }
 
+/**
+ * Re-encrypt wallets whose ciphertext uses an older envelope or KDF with
+ * the current defaults. Runs in the background after unlocking the main
+ * vault or a `group`. The list is written in one call, and only entries
+ * whose ciphertext is unchanged since we read them are replaced, so a
+ * concurrent add or password change wins.
+ */
+export async function upgradeEncryption(password: string, group?: string): Promise<void> {
+  const wallets = await getWallets();
+  const upgraded = new Map<string, WalletEntry>(); // old ciphertext -> new entry
+  for (const entry of wallets) {
+    if (!isEncryptedWallet(entry) || entry.group !== group) continue;
+    const stale =
+      needsUpgrade(entry.ciphertext) ||
+      (entry.passphrase !== undefined && needsUpgrade(entry.passphrase.ciphertext));
+    if (!stale) continue;
+    upgraded.set(entry.ciphertext, await reencryptEntry(entry, password, password));
+  }
+  if (upgraded.size === 0) return;
+
+  const latest = await getWallets();
+  await storageSet({ [KEYS.WALLETS]: latest.map((w) => upgraded.get(w.ciphertext) ?? w) });
+}
+
 /**
  * Lock the wallet (clear all in-memory secrets).
  */
 export function lock(): void {
-  _mnemonic = null;
+  _key = null;
   _password = null;
+  _groupPasswords.clear();
   _viewOnly = false;
   clearLockTimer();
   // Clear all persisted session state
-  chrome.storage.session.remove([LOCK_DEADLINE_KEY, SESSION_PASSWORD_KEY, SESSION_UNLOCKED_KEY]).catch(() => {
+  chrome.storage.session.remove([
+    LOCK_DEADLINE_KEY,
+    SESSION_PASSWORD_KEY,
+    SESSION_UNLOCKED_KEY,
+    SESSION_GROUPS_KEY,
+  ]).catch(() => {
     chrome.storage.local.remove(LOCK_DEADLINE_KEY).catch(() => {});
   });
 }
@@ -266,6 +809,7 @@ function persistSessionUnlock(password: string): void {
   chrome.storage.session.set({
     [SESSION_PASSWORD_KEY]: password,
     [SESSION_UNLOCKED_KEY]: true,
+    [SESSION_GROUPS_KEY]: Object.fromEntries(_groupPasswords),
   }).catch(() => {});
 }
 
@@ -281,10 +825,14 @@ export async function rehydrateIfNeeded(): Promise<void> {
   _rehydrated = true;
 
   // Already unlocked in memory — nothing to do
-  if (_mnemonic !== null || _viewOnly) return;
+  if (_key !== null || _viewOnly) return;
 
   try {
-    const session = await chrome.storage.session.get([SESSION_PASSWORD_KEY, SESSION_UNLOCKED_KEY]);
+    const session = await chrome.storage.session.get([
+      SESSION_PASSWORD_KEY,
+      SESSION_UNLOCKED_KEY,
+      SESSION_GROUPS_KEY,
+    ]);
     if (!session[SESSION_UNLOCKED_KEY]) return;
 
     const password = session[SESSION_PASSWORD_KEY] as string | undefined;
@@ -296,14 +844,18 @@ export async function rehydrateIfNeeded(): Promise<void> {
     const activeIdx = (await storageGet<number>(KEYS.ACTIVE_INDEX)) ?? 0;
     const entry = wallets[activeIdx] || wallets[0];
 
+    _password = password;
+    for (const [group, pwd] of Object.entries(session[SESSION_GROUPS_KEY] ?? {})) {
+      _groupPasswords.set(group, pwd as string);
+    }
+
     if (entry.viewOnly) {
       _viewOnly = true;
-      _mnemonic = null;
-      _password = password;
+      _key = null;
     } else {
-      const mnemonic = await decrypt(entry.ciphertext, entry.salt, entry.iv, password);
-      _mnemonic = mnemonic;
-      _password = password;
+      const pwd = passwordFor(wallets, entry);
+      if (!pwd) throw new Error("Wallet is locked");
+      _key = await decryptEntryKey(wallets, entry, pwd);
       _viewOnly = false;
     }
 
@@ -311,7 +863,11 @@ export async function rehydrateIfNeeded(): Promise<void> {
     _activeIndex = activeIdx;
   } catch {
     // Decryption failed (session data stale) — stay locked
-    chrome.storage.session.remove([SESSION_PASSWORD_KEY, SESSION_UNLOCKED_KEY]).catch(() => {});
+    _password = null;
+    _groupPasswords.clear();
+    chrome.storage.session
+      .remove([SESSION_PASSWORD_KEY, SESSION_UNLOCKED_KEY, SESSION_GROUPS_KEY])
+      .catch(() => {});
   }
 }
 
@@ -329,7 +885,7 @@ export async function isInitialized(): Promise<boolean> {
 }
 
 export function isUnlocked(): boolean {
-  return _mnemonic !== null || _viewOnly;
+  return _key !== null || _viewOnly;
 }
 
 export function isViewOnly(): boolean {
@@ -354,31 +910,75 @@ export async function getWallets(): Promise<WalletEntry[]> {
   return (await storageGet<WalletEntry[]>(KEYS.WALLETS)) || [];
 }
 
+export interface WalletListItem {
+  name: string;
+  address: string;
+  index: number;
+  viewOnly?: boolean;
+  keyType?: WalletKeyType;
+  parentAddress?: string;
+  hdAccount?: number;
+  hdIndex?: number;
+  /** Password group, inherited from the seed wallet for derived accounts. */
+  group?: string;
+  /** True while the wallet's group is locked. */
+  locked?: boolean;
+}
+
 /**
  * Return wallet list with only public info (no ciphertext).
  */
-export async function getWalletList(): Promise<
-  Array<{ name: string; address: string; index: number }>
-> {
+export async function getWalletList(): Promise<WalletListItem[]> {
   const wallets = await getWallets();
-  return wallets.map((w, i) => ({
-    name: w.name,
-    address: w.address,
-    index: i,
-  }));
+  return wallets.map((w, i) => {
+    const group = w.viewOnly ? undefined : groupOf(wallets, w);
+    return {
+      name: w.name,
+      address: w.address,
+      index: i,
+      viewOnly: w.viewOnly,
+      keyType: w.keyType,
+      parentAddress: w.parentAddress,
+      hdAccount: w.hdAccount,
+      hdIndex: w.hdIndex,
+      group,
+      locked: !!group && !_groupPasswords.has(group),
+    };
+  });
 }
 
+/**
+ * Mnemonic of the active wallet's seed. For derived accounts this is the
+ * parent wallet's recovery phrase; private-key wallets have none.
+ */
 export function getMnemonic(): string | null {
-  if (_mnemonic) resetLockTimer();
-  return _mnemonic;
+  if (_key) resetLockTimer();
+  if (!_key || isPrivateKeyKey(_key)) return null;
+  return _key.mnemonic;
+}
+
+/** Whether the active wallet's seed is protected by a BIP39 passphrase. */
+export function hasPassphrase(): boolean {
+  return _key !== null && !isPrivateKeyKey(_key) && !!_key.passphrase;
+}
+
+/** Whether the active wallet was imported from a raw private key. */
+export function isPrivateKeyWallet(): boolean {
+  return _key !== null && isPrivateKeyKey(_key);
+}
+
+/**
+ * Key material (mnemonic + HD indices, or a raw private key) for signing
+ * as the active wallet.
+ */
+export function getWalletKey(): WalletKey | null {
+  if (_key) resetLockTimer();
+  return _key;
 }
 
 export async function exportPrivateKeyHex(): Promise<string> {
-  if (!_mnemonic) throw new Error("Wallet is locked");
-  const privkey = await derivePrivateKey(_mnemonic);
-  return Array.from(privkey)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+  if (!_key) throw new Error("Wallet is locked");
+  return toHex(await derivePrivateKey(_key));
 }
 
 // ------------------------------------------------------------------ //
@@ -452,7 +1052,7 @@ export async function setAutoLockTimeout(minutes: number): Promise<void> {
   // -1 = lock immediately on popup close, 0 = never, >0 = minutes after close
   _autoLockMs = minutes <= 0 ? minutes : minutes * 60 * 1000;
   await storageSet({ [KEYS.AUTO_LOCK_MINUTES]: minutes });
-  if (_mnemonic !== null || _viewOnly) resetLockTimer();
+  if (_key !== null || _viewOnly) resetLockTimer();
 }
 
 function clearLockTimer(): void {
@@ -463,7 +1063,7 @@ function clearLockTimer(): void {
 }
 
 export function touchActivity(): void {
-  if (_mnemonic) {
+  if (_key) {
     resetLockTimer();
   }
 }
@@ -518,7 +1118,7 @@ async function migrateLegacy(password: string): Promise<string | null> {
   // Migrate to new format
   const entry: WalletEntry = {
     name: "Wallet 1",
-    address: address || (await deriveAddress(mnemonic)),
+    address: address || (await deriveAddress({ mnemonic })),
     ciphertext,
     salt,
     iv,
@@ -533,7 +1133,7 @@ async function migrateLegacy(password: string): Promise<string | null> {
   // Clean up legacy keys
   await storageRemove([KEYS.ENCRYPTED_MNEMONIC, KEYS.SALT, KEYS.IV, KEYS.ADDRESS]);
 
-  _mnemonic = mnemonic;
+  _key = { mnemonic };
   _password = password;
   _address = entry.address;
   _activeIndex = 0;
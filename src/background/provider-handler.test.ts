@@ -4,7 +4,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 // tests — the anti-spam paths below need an unlocked wallet to reach
 // `requestApproval()` without going through the unlock popup flow.
 vi.mock("./keystore", () => ({
-  getMnemonic: vi.fn(() => null),
+  getWalletKey: vi.fn(() => null),
   getAddress: vi.fn(() => ""),
   isUnlocked: vi.fn(() => true),
   getWalletList: vi.fn(async () => []),
@@ -12,18 +12,22 @@ vi.mock("./keystore", () => ({
 
 // provider-handler imports modules that call chrome.storage at init-time
 // (loadSuggestedChains). Stub the API surface we touch before importing.
+const _local: Record<string, any> = {};
 (globalThis as any).chrome = {
   storage: {
     local: {
-      get: (_k: any, cb: (v: any) => void) => cb({}),
-      set: (_v: any, cb?: () => void) => cb && cb(),
+      get: (k: string, cb: (v: any) => void) => cb(k in _local ? { [k]: _local[k] } : {}),
+      set: (v: Record<string, any>, cb?: () => void) => {
+        Object.assign(_local, structuredClone(v));
+        cb?.();
+      },
     },
     session: {
       remove: vi.fn(() => Promise.resolve()),
       set: vi.fn(() => Promise.resolve()),
     },
   },
-  runtime: { getURL: (p: string) => p },
+  runtime: { getURL: (p: string) => p, sendMessage: vi.fn(() => Promise.resolve()) },
   windows: {
     create: vi.fn(),
     update: vi.fn(() => Promise.resolve()),
@@ -31,10 +35,23 @@ vi.mock("./keystore", () => ({
   },
 };
 
-const { isAllowedDappOrigin, handleProviderRequest, __resetAntiSpamStateForTests } = await import(
-  "./provider-handler"
-);
-const { isUnlocked } = await import("./keystore");
+const {
+  isAllowedDappOrigin,
+  handleProviderRequest,
+  getPendingRequest,
+  getApprovalQueue,
+  approveRequest,
+  approveRequests,
+  updateOriginList,
+  setAutoApprovalRule,
+  __resetAntiSpamStateForTests,
+} = await import("./provider-handler");
+const { isUnlocked, getAddress, getWalletKey } = await import("./keystore");
+const { makeOfflineSigner, registry } = await import("@/lib/cosmos");
+const { encodePubkey, makeAuthInfoBytes } = await import("@cosmjs/proto-signing");
+const { encodeSecp256k1Pubkey } = await import("@cosmjs/amino");
+const { fromBase64 } = await import("@cosmjs/encoding");
+const { TxRaw } = await import("cosmjs-types/cosmos/tx/v1beta1/tx");
 
 describe("isAllowedDappOrigin – HTTPS-only allow-list", () => {
   it("accepts plain https origins", () => {
@@ -109,6 +126,10 @@ describe("handleProviderRequest – HTTPS gate", () => {
 //  rate-limit doesn't leak between cases.
 // ------------------------------------------------------------------
 
+async function flushMicrotasks(): Promise<void> {
+  for (let i = 0; i < 8; i++) await Promise.resolve();
+}
+
 const SIGN_PARAMS = {
   chainId: "gonka-mainnet-1",
   signer: "",
@@ -131,9 +152,9 @@ describe("anti-spam: approval popup queue", () => {
     const p2 = handleProviderRequest("signAmino", SIGN_PARAMS, origin);
     const p3 = handleProviderRequest("signAmino", SIGN_PARAMS, origin);
 
-    // Let the queued promises settle through their microtasks.
-    await Promise.resolve();
-    await Promise.resolve();
+    // Let the queued promises settle through their microtasks (the scope
+    // check reads storage before the approval is queued).
+    await flushMicrotasks();
 
     expect((globalThis as any).chrome.windows.create).toHaveBeenCalledTimes(1);
 
@@ -168,8 +189,7 @@ describe("anti-spam: approval popup queue", () => {
     const pA = handleProviderRequest("signAmino", SIGN_PARAMS, originA);
     const pB = handleProviderRequest("signAmino", SIGN_PARAMS, originB);
 
-    await Promise.resolve();
-    await Promise.resolve();
+    await flushMicrotasks();
 
     expect((globalThis as any).chrome.windows.create).toHaveBeenCalledTimes(2);
 
@@ -207,6 +227,88 @@ describe("anti-spam: approval popup queue", () => {
   });
 });
 
+describe("approval queue review", () => {
+  const origin = "https://queue-review.example.com";
+  const key = { privateKey: new Uint8Array(32).fill(8) };
+
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    vi.mocked(getWalletKey).mockReturnValue(key as any);
+    const chrome = (globalThis as any).chrome;
+    chrome.windows.create.mockReset();
+    chrome.windows.create.mockImplementation((_opts: any, cb?: any) => cb && cb({ id: 2001 }));
+    chrome.windows.onRemoved.addListener.mockClear();
+    chrome.runtime.sendMessage.mockClear();
+  });
+
+  async function queueSends(amounts: string[]) {
+    const [account] = await (await makeOfflineSigner(key)).getAccounts();
+    const pending = amounts.map((amount) =>
+      handleProviderRequest(
+        "signAmino",
+        {
+          chainId: "gonka-mainnet",
+          signer: account.address,
+          signDoc: {
+            chain_id: "gonka-mainnet",
+            account_number: "1",
+            sequence: "0",
+            fee: { amount: [{ denom: "ngonka", amount: "100" }], gas: "200000" },
+            msgs: [
+              {
+                type: "cosmos-sdk/MsgSend",
+                value: {
+                  from_address: account.address,
+                  to_address: account.address,
+                  amount: [{ denom: "ngonka", amount }],
+                },
+              },
+            ],
+            memo: "",
+          },
+        },
+        origin
+      )
+    );
+    await flushMicrotasks();
+    const create = (globalThis as any).chrome.windows.create;
+    const requestId = new URL(create.mock.calls[0][0].url, "https://x").searchParams.get("requestId")!;
+    return { pending, requestId };
+  }
+
+  it("lists every queued request in one popup with the total spend", async () => {
+    const { pending, requestId } = await queueSends(["1000", "2000"]);
+
+    expect((globalThis as any).chrome.windows.create).toHaveBeenCalledTimes(1);
+    expect((globalThis as any).chrome.runtime.sendMessage).toHaveBeenCalledWith({
+      type: "APPROVAL_QUEUE_CHANGED",
+      origin,
+    });
+
+    const queue = getApprovalQueue(requestId)!;
+    expect(queue.items).toHaveLength(2);
+    expect(queue.items[1].outflow).toEqual([{ denom: "ngonka", amount: "2100" }]);
+    expect(queue.total).toEqual([{ denom: "ngonka", amount: "3200" }]);
+    expect(queue.complete).toBe(true);
+
+    const res = await approveRequests(queue.items.map((i) => i.requestId));
+    expect(res.error).toBeUndefined();
+    const results = await Promise.all(pending);
+    expect(results.every((r) => r.result?.signed)).toBe(true);
+  });
+
+  it("rejects everything still queued when the popup is closed", async () => {
+    const { pending } = await queueSends(["1000", "2000"]);
+
+    const onRemoved = (globalThis as any).chrome.windows.onRemoved.addListener.mock.calls[0][0];
+    onRemoved(2001);
+
+    const results = await Promise.all(pending);
+    expect(results.map((r) => r.error)).toEqual(["User rejected the request", "User rejected the request"]);
+  });
+});
+
 describe("anti-spam: unlock popup dedupe", () => {
   beforeEach(() => {
     __resetAntiSpamStateForTests();
@@ -294,3 +396,384 @@ describe("anti-spam: per-origin rate limit", () => {
     expect(ok.error || "").not.toMatch(/too many requests/i);
   });
 });
+
+describe("experimentalSuggestChain", () => {
+  const CHAIN_INFO = {
+    chainId: "osmosis-1",
+    chainName: "Osmosis",
+    rpc: "https://rpc.osmosis.zone",
+    rest: "https://lcd.osmosis.zone",
+    bip44: { coinType: 118 },
+    bech32Config: { bech32PrefixAccAddr: "osmo" },
+    currencies: [{ coinDenom: "OSMO", coinMinimalDenom: "uosmo", coinDecimals: 6 }],
+    feeCurrencies: [{ coinDenom: "OSMO", coinMinimalDenom: "uosmo", coinDecimals: 6 }],
+  };
+
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    (globalThis as any).chrome.windows.create.mockReset();
+  });
+
+  it("rejects invalid chain info without opening a popup", async () => {
+    const res = await handleProviderRequest(
+      "experimentalSuggestChain",
+      { chainInfo: { ...CHAIN_INFO, rpc: "http://rpc.osmosis.zone" } },
+      "https://suggest-invalid.example.com"
+    );
+    expect(res.error).toMatch(/rpc must use https/);
+    expect((globalThis as any).chrome.windows.create).not.toHaveBeenCalled();
+  });
+
+  it("refuses to redefine a built-in chain", async () => {
+    const res = await handleProviderRequest(
+      "experimentalSuggestChain",
+      { chainInfo: { ...CHAIN_INFO, chainId: "cosmoshub-4" } },
+      "https://suggest-builtin.example.com"
+    );
+    expect(res.error).toMatch(/built in/);
+  });
+
+  it("asks for approval with the validated chain info", async () => {
+    const pending = handleProviderRequest(
+      "experimentalSuggestChain",
+      { chainInfo: { ...CHAIN_INFO, walletUrl: "https://x.example" } },
+      "https://suggest-valid.example.com"
+    );
+    await flushMicrotasks();
+
+    const create = (globalThis as any).chrome.windows.create;
+    expect(create).toHaveBeenCalledTimes(1);
+    const requestId = new URL(create.mock.calls[0][0].url, "https://x").searchParams.get("requestId")!;
+    expect(getPendingRequest(requestId)?.params.chainInfo).not.toHaveProperty("walletUrl");
+
+    void pending;
+  });
+});
+
+describe("connected site scopes", () => {
+  const origin = "https://scoped.example.com";
+  const site = { origin, chainIds: ["gonka-mainnet"], connectedAt: 1 };
+
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    vi.mocked(getAddress).mockReturnValue("gonka1active");
+    (globalThis as any).chrome.windows.create.mockReset();
+    delete _local.gg_connected_sites;
+  });
+
+  it("refuses getKey without the address scope", async () => {
+    _local.gg_connected_sites = [{ ...site, permissions: ["sign"] }];
+    const res = await handleProviderRequest("getKey", { chainId: "gonka-mainnet" }, origin);
+    expect(res.error).toMatch(/Read address/);
+  });
+
+  it("hides wallets the site wasn't given", async () => {
+    _local.gg_connected_sites = [{ ...site, wallets: ["gonka1other"] }];
+    const res = await handleProviderRequest("getKey", { chainId: "gonka-mainnet" }, origin);
+    expect(res.error).toMatch(/active wallet isn't shared/);
+  });
+
+  it("requires a live connection with the broadcast scope for sendTx", async () => {
+    const params = { chainId: "gonka-mainnet", tx: [1], mode: "sync" };
+    expect((await handleProviderRequest("sendTx", params, origin)).error).toMatch(/not connected/);
+
+    _local.gg_connected_sites = [{ ...site, permissions: ["address", "sign"] }];
+    expect((await handleProviderRequest("sendTx", params, origin)).error).toMatch(/Broadcast transactions/);
+
+    _local.gg_connected_sites = [{ ...site, expiresAt: Date.now() - 1 }];
+    expect((await handleProviderRequest("sendTx", params, origin)).error).toMatch(/not connected/);
+  });
+
+  it("reports provider state only to connected sites, without counting towards the rate limit", async () => {
+    const state = () => handleProviderRequest("getProviderState", {}, origin);
+    expect((await state()).result).toEqual({ connected: false, chainIds: [], unlocked: false, address: null });
+
+    _local.gg_connected_sites = [site];
+    expect((await state()).result).toEqual({ connected: true, chainIds: ["gonka-mainnet"], unlocked: true, address: "gonka1active" });
+
+    _local.gg_connected_sites = [{ ...site, permissions: ["sign"] }];
+    expect((await state()).result.address).toBeNull();
+
+    for (let i = 0; i < 100; i++) await state();
+    expect((await handleProviderRequest("getKey", { chainId: "gonka-mainnet" }, origin)).error).not.toMatch(/Too many/);
+  });
+
+  it("blocks sign requests when the scope was removed, without opening a popup", async () => {
+    _local.gg_connected_sites = [{ ...site, permissions: ["address"] }];
+    const res = await handleProviderRequest("signAmino", SIGN_PARAMS, origin);
+    expect(res.error).toMatch(/Request signatures/);
+    expect((globalThis as any).chrome.windows.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("phishing protection", () => {
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    (globalThis as any).chrome.windows.create.mockReset();
+    delete _local.gg_audit_log;
+  });
+
+  it("refuses blocklisted origins for every method until they're unblocked", async () => {
+    await updateOriginList("blocked", "https://blocked.example.com", "add");
+    const res = await handleProviderRequest("enable", { chainIds: ["gonka-mainnet"] }, "https://app.blocked.example.com");
+    expect(res.error).toMatch(/blocklist/);
+    expect((globalThis as any).chrome.windows.create).not.toHaveBeenCalled();
+
+    await updateOriginList("blocked", "blocked.example.com", "remove");
+    await flushMicrotasks();
+    expect(_local.gg_origin_lists).toEqual({ blocked: [], allowed: [] });
+    expect(_local.gg_audit_log.at(-1)).toMatchObject({ type: "phishing_override", origin: "blocked.example.com" });
+  });
+
+  it("flags lookalike origins and records the override when the user proceeds", async () => {
+    const pending = handleProviderRequest("signArbitrary", { chainId: "gonka-mainnet", signer: "", data: "hi" }, "https://g0nka.gg");
+    await flushMicrotasks();
+
+    const create = (globalThis as any).chrome.windows.create;
+    expect(create).toHaveBeenCalledTimes(1);
+    const requestId = new URL(create.mock.calls[0][0].url, "https://x").searchParams.get("requestId")!;
+    expect(getPendingRequest(requestId)?.risk).toMatchObject({ level: "suspicious", lookalikeOf: "gonka.gg" });
+
+    expect((await approveRequest(requestId)).error).toMatch(/phishing warning/);
+    expect(getPendingRequest(requestId)).not.toBeNull();
+
+    await approveRequest(requestId, { acknowledgedRisk: true });
+    await pending;
+    await flushMicrotasks();
+    expect(_local.gg_audit_log.map((e: any) => e.type)).toContain("phishing_override");
+  });
+});
+
+describe("fee and memo edits", () => {
+  const origin = "https://edits.example.com";
+  const key = { privateKey: new Uint8Array(32).fill(7) };
+
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    vi.mocked(getWalletKey).mockReturnValue(key as any);
+    (globalThis as any).chrome.windows.create.mockReset();
+  });
+
+  async function openSignAmino(signOptions?: Record<string, boolean>) {
+    const [account] = await (await makeOfflineSigner(key)).getAccounts();
+    const signDoc = {
+      chain_id: "gonka-mainnet",
+      account_number: "3",
+      sequence: "9",
+      fee: { amount: [{ denom: "ngonka", amount: "0" }], gas: "200000" },
+      msgs: [],
+      memo: "from dapp",
+    };
+    const pending = handleProviderRequest(
+      "signAmino",
+      { chainId: "gonka-mainnet", signer: account.address, signDoc, signOptions },
+      origin
+    );
+    await flushMicrotasks();
+    const create = (globalThis as any).chrome.windows.create;
+    const requestId = new URL(create.mock.calls[0][0].url, "https://x").searchParams.get("requestId")!;
+    return { pending, requestId };
+  }
+
+  it("returns the edited Amino doc as the signed doc", async () => {
+    const { pending, requestId } = await openSignAmino();
+    const fee = { amount: [{ denom: "ngonka", amount: "1000" }], gas: "300000" };
+    await approveRequest(requestId, { edits: { fee, memo: "edited" } });
+
+    const res = await pending;
+    expect(res.result.signed.fee).toEqual(fee);
+    expect(res.result.signed.memo).toBe("edited");
+  });
+
+  it("refuses edits the dApp opted out of and keeps the request pending", async () => {
+    const { requestId } = await openSignAmino({ preferNoSetMemo: true });
+    const res = await approveRequest(requestId, { edits: { memo: "edited" } });
+    expect(res.error).toMatch(/memo/);
+    expect(getPendingRequest(requestId)).not.toBeNull();
+  });
+});
+
+describe("auto-approval rules", () => {
+  const origin = "https://auto.example.com";
+  const key = { privateKey: new Uint8Array(32).fill(9) };
+  const rule = {
+    messageTypes: ["/cosmos.bank.v1beta1.MsgSend"],
+    contracts: [],
+    maxSpendPerTx: { ngonka: "1000" },
+    maxSpendPerDay: { ngonka: "1500" },
+  };
+
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    vi.mocked(getWalletKey).mockReturnValue(key as any);
+    (globalThis as any).chrome.windows.create.mockReset();
+    _local.gg_connected_sites = [{ origin, chainIds: ["gonka-mainnet"], connectedAt: 1 }];
+    delete _local.gg_auto_approval_spend;
+    delete _local.gg_audit_log;
+  });
+
+  async function signSend(amount: string) {
+    const [account] = await (await makeOfflineSigner(key)).getAccounts();
+    const signDoc = {
+      chain_id: "gonka-mainnet",
+      account_number: "3",
+      sequence: "9",
+      fee: { amount: [], gas: "200000" },
+      msgs: [
+        {
+          type: "cosmos-sdk/MsgSend",
+          value: { from_address: account.address, to_address: "gonka1x", amount: [{ denom: "ngonka", amount }] },
+        },
+      ],
+      memo: "",
+    };
+    return handleProviderRequest("signAmino", { chainId: "gonka-mainnet", signer: account.address, signDoc }, origin);
+  }
+
+  it("signs matching requests without a popup and logs them", async () => {
+    await setAutoApprovalRule(origin, rule);
+    const res = await signSend("600");
+    expect(res.result.signature).toBeDefined();
+    expect((globalThis as any).chrome.windows.create).not.toHaveBeenCalled();
+    expect(_local.gg_auto_approval_spend[origin].spent).toEqual({ ngonka: "600" });
+    await flushMicrotasks();
+    expect(_local.gg_audit_log.at(-1)).toMatchObject({ type: "auto_approved", origin });
+  });
+
+  it("falls back to the popup once the daily cap is used up, and stops after revoking", async () => {
+    await setAutoApprovalRule(origin, rule);
+    expect((await signSend("1000")).result).toBeDefined();
+
+    void signSend("600");
+    await vi.waitFor(() => expect((globalThis as any).chrome.windows.create).toHaveBeenCalledTimes(1));
+
+    __resetAntiSpamStateForTests();
+    (globalThis as any).chrome.windows.create.mockReset();
+    await setAutoApprovalRule(origin, null);
+    expect(_local.gg_auto_approval_rules).toEqual({});
+    void signSend("1");
+    await vi.waitFor(() => expect((globalThis as any).chrome.windows.create).toHaveBeenCalledTimes(1));
+    expect(_local.gg_auto_approval_spend[origin]).toBeUndefined();
+  });
+
+  it("only accepts rules for connected sites", async () => {
+    await expect(setAutoApprovalRule("https://stranger.example.com", rule)).rejects.toThrow(/connected/);
+  });
+});
+
+describe("signArbitrary / verifyArbitrary", () => {
+  const origin = "https://adr36.example.com";
+  const key = { privateKey: new Uint8Array(32).fill(11) };
+
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    vi.mocked(getWalletKey).mockReturnValue(key as any);
+    (globalThis as any).chrome.windows.create.mockReset();
+  });
+
+  it("verifies what it signed and rejects other data", async () => {
+    const [account] = await (await makeOfflineSigner(key)).getAccounts();
+    const params = { chainId: "gonka-mainnet", signer: account.address, data: "Login nonce 42" };
+    const pending = handleProviderRequest("signArbitrary", params, origin);
+    await vi.waitFor(() => expect((globalThis as any).chrome.windows.create).toHaveBeenCalledTimes(1));
+    const create = (globalThis as any).chrome.windows.create;
+    await approveRequest(new URL(create.mock.calls[0][0].url, "https://x").searchParams.get("requestId")!);
+    const { result: signature } = await pending;
+
+    const verify = (data: unknown) => handleProviderRequest("verifyArbitrary", { ...params, data, signature }, origin);
+    expect((await verify(params.data)).result).toBe(true);
+    expect((await verify(Array.from(new TextEncoder().encode(params.data)))).result).toBe(true);
+    expect((await verify("Login nonce 43")).result).toBe(false);
+  });
+});
+
+describe("sendTx approval", () => {
+  const origin = "https://broadcast.example.com";
+  const site = { origin, chainIds: ["gonka-mainnet"], connectedAt: 1 };
+  const key = { privateKey: new Uint8Array(32).fill(12) };
+  const fetchMock = vi.fn(async () => ({
+    ok: true,
+    json: async () => ({ tx_response: { code: 0, txhash: "ABCD" } }),
+  }));
+
+  beforeEach(() => {
+    __resetAntiSpamStateForTests();
+    vi.mocked(isUnlocked).mockReturnValue(true);
+    vi.mocked(getWalletKey).mockReturnValue(key as any);
+    (globalThis as any).chrome.windows.create.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockClear();
+    _local.gg_connected_sites = [site];
+  });
+
+  /** A Gonka tx signed through a signDirect approval, as TxRaw bytes. */
+  async function signTx(messages: { typeUrl: string; value: any }[]) {
+    const [account] = await (await makeOfflineSigner(key)).getAccounts();
+    const bodyBytes = registry.encodeTxBody({ messages, memo: "" });
+    const authInfoBytes = makeAuthInfoBytes(
+      [{ pubkey: encodePubkey(encodeSecp256k1Pubkey(account.pubkey)), sequence: 0n }],
+      [{ denom: "ngonka", amount: "100" }],
+      200000,
+      undefined,
+      undefined
+    );
+    const pending = handleProviderRequest(
+      "signDirect",
+      {
+        chainId: "gonka-mainnet",
+        signer: account.address,
+        signDoc: { bodyBytes, authInfoBytes, chainId: "gonka-mainnet", accountNumber: "1" },
+      },
+      origin
+    );
+    const create = (globalThis as any).chrome.windows.create;
+    await vi.waitFor(() => expect(create).toHaveBeenCalledTimes(1));
+    await approveRequest(new URL(create.mock.calls[0][0].url, "https://x").searchParams.get("requestId")!);
+    const { result } = await pending;
+    create.mockClear();
+    const tx = TxRaw.encode({ bodyBytes, authInfoBytes, signatures: [fromBase64(result.signature.signature)] }).finish();
+    return { tx: Array.from(tx) };
+  }
+
+  it("broadcasts transactions this wallet just signed when they don't move funds", async () => {
+    const { tx } = await signTx([]);
+    const res = await handleProviderRequest("sendTx", { chainId: "gonka-mainnet", tx, mode: "sync" }, origin);
+    expect(res.result).toEqual([0xab, 0xcd]);
+    expect((globalThis as any).chrome.windows.create).not.toHaveBeenCalled();
+  });
+
+  it("asks before broadcasting a transfer, and skips asking for trusted sites", async () => {
+    const [account] = await (await makeOfflineSigner(key)).getAccounts();
+    const { tx } = await signTx([
+      {
+        typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+        value: { fromAddress: account.address, toAddress: "gonka1dest", amount: [{ denom: "ngonka", amount: "5000" }] },
+      },
+    ]);
+    const params = { chainId: "gonka-mainnet", tx, mode: "sync" };
+
+    const pending = handleProviderRequest("sendTx", params, origin);
+    const create = (globalThis as any).chrome.windows.create;
+    await vi.waitFor(() => expect(create).toHaveBeenCalledTimes(1));
+    const requestId = new URL(create.mock.calls[0][0].url, "https://x").searchParams.get("requestId")!;
+    expect(getPendingRequest(requestId)?.params.review).toMatchObject({
+      outflow: [{ denom: "ngonka", amount: "5000" }],
+      reasons: ["moves_funds"],
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await approveRequest(requestId);
+    expect((await pending).result).toEqual([0xab, 0xcd]);
+
+    create.mockClear();
+    _local.gg_connected_sites = [{ ...site, trustBroadcasts: true }];
+    expect((await handleProviderRequest("sendTx", params, origin)).result).toEqual([0xab, 0xcd]);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -3,47 +3,91 @@
  * received from the content script.
  *
  * Methods that need user approval (enable, signAmino, signDirect,
- * signArbitrary) open a popup window and wait for user consent.
+ * signArbitrary, experimentalSuggestChain) open a popup window and wait
+ * for user consent.
  *
- * Methods that don't need approval (getKey, sendTx,
- * experimentalSuggestChain) execute immediately.
+ * Methods that don't need approval (getKey, verifyArbitrary) execute
+ * immediately, within the scopes granted to the connected site
+ * (lib/site-permissions). sendTx is decoded first and goes through the
+ * popup when lib/broadcast-policy says it needs approval, unless the
+ * user trusts the site.
+ *
+ * Every request's origin is screened for phishing first (lib/phishing):
+ * blocklisted origins are refused and lookalikes are flagged in the
+ * approval popup.
+ *
+ * Sign requests from a site with an auto-approval rule (lib/auto-approval)
+ * are signed without the popup when they match it.
+ *
+ * getProviderState reports what a connected site may know about the
+ * wallet; the content script turns changes into provider events
+ * (lib/provider-events).
  */
 
-import { DirectSecp256k1HdWallet } from "@cosmjs/proto-signing";
+import type { OfflineDirectSigner } from "@cosmjs/proto-signing";
 import { serializeSignDoc } from "@cosmjs/amino";
 import { toBase64, fromHex, fromBech32 } from "@cosmjs/encoding";
 import { Secp256k1, sha256 } from "@cosmjs/crypto";
 import { SignDoc } from "cosmjs-types/cosmos/tx/v1beta1/tx";
 
-import { getMnemonic, getAddress, isUnlocked, getWalletList } from "./keystore";
+import { getWalletKey, getAddress, isUnlocked, getWalletList } from "./keystore";
 import {
   GONKA_CHAIN_ID,
   GONKA_COIN_TYPE,
   GONKA_BECH32_PREFIX,
 } from "@/lib/gonka";
 import { getActiveEndpoint } from "@/lib/rpc";
-import { storageGet, storageSet, KEYS, type ConnectedSite } from "@/lib/storage";
-import { Slip10RawIndex, HdPath, Bip39, EnglishMnemonic, Slip10, Slip10Curve } from "@cosmjs/crypto";
+import { makeHdPath, makeOfflineSigner, isPrivateKeyKey, type WalletKey } from "@/lib/cosmos";
+import { storageGet, storageSet, KEYS, type ConnectedSite, type SitePermission } from "@/lib/storage";
+import { logAuditEvent } from "@/lib/audit-log";
+import type { TxPreview, Coin } from "@/lib/tx-preview";
+import { DISCONNECTED_STATE, type ProviderState } from "@/lib/provider-events";
+import { signAdr036, toSignDataBytes, verifyAdr036 } from "@/lib/adr036";
+import { previewSignRequest, decodeSignRequest, decodeBroadcastTx, type PreviewInput } from "./tx-preview";
+import { validateChainInfo, type SuggestedChainInfo } from "@/lib/chain-info";
+import {
+  applyAminoSignEdits,
+  applyDirectSignEdits,
+  validateSignEdits,
+  type SignDocEdits,
+} from "@/lib/sign-edits";
+import {
+  isSiteExpired,
+  siteAllows,
+  siteCanSeeWallet,
+  applySitePermissionUpdate,
+  SITE_PERMISSION_LABELS,
+  type SitePermissionUpdate,
+} from "@/lib/site-permissions";
+import {
+  assessOrigin,
+  normalizeHostEntry,
+  EMPTY_ORIGIN_LISTS,
+  type OriginLists,
+  type OriginRisk,
+} from "@/lib/phishing";
+import {
+  evaluateAutoApproval,
+  recordSpend,
+  signerOutflows,
+  sumCoins,
+  validateAutoApprovalRule,
+  type AutoApprovalRule,
+  type DailySpend,
+} from "@/lib/auto-approval";
+import { reviewBroadcast, BROADCAST_REASON_LABELS, type BroadcastReview } from "@/lib/broadcast-policy";
+import { Bip39, EnglishMnemonic, Slip10, Slip10Curve } from "@cosmjs/crypto";
 
 // ------------------------------------------------------------------
 //  HD Paths
+//
+//  The active wallet's BIP44 account / address index is applied to every
+//  chain, so a derived account #n signs as account #n on Cosmos Hub and
+//  suggested chains too. Wallets imported from a raw private key have no
+//  HD path and use that key on every chain.
 // ------------------------------------------------------------------
 
-const GONKA_HD: HdPath = [
-  Slip10RawIndex.hardened(44),
-  Slip10RawIndex.hardened(GONKA_COIN_TYPE),
-  Slip10RawIndex.hardened(0),
-  Slip10RawIndex.normal(0),
-  Slip10RawIndex.normal(0),
-];
-
-const COSMOS_HD: HdPath = [
-  Slip10RawIndex.hardened(44),
-  Slip10RawIndex.hardened(118),
-  Slip10RawIndex.hardened(0),
-  Slip10RawIndex.normal(0),
-  Slip10RawIndex.normal(0),
-];
+const COSMOS_COIN_TYPE = 118;
 
 const COSMOSHUB_CHAIN_ID = "cosmoshub-4";
 const COSMOSHUB_BECH32_PREFIX = "cosmos";
@@ -53,10 +97,10 @@ const COSMOSHUB_BECH32_PREFIX = "cosmos";
 //  service worker restarts.
 // ------------------------------------------------------------------
 
-const _suggestedChains = new Map<string, any>();
+const _suggestedChains = new Map<string, SuggestedChainInfo>();
 
 async function loadSuggestedChains(): Promise<void> {
-  const stored = await storageGet<Record<string, any>>(KEYS.SUGGESTED_CHAINS);
+  const stored = await storageGet<Record<string, SuggestedChainInfo>>(KEYS.SUGGESTED_CHAINS);
   if (stored) {
     for (const [chainId, info] of Object.entries(stored)) {
       _suggestedChains.set(chainId, info);
@@ -64,12 +108,29 @@ async function loadSuggestedChains(): Promise<void> {
   }
 }
 
-async function persistSuggestedChain(chainId: string, chainInfo: any): Promise<void> {
-  const stored = (await storageGet<Record<string, any>>(KEYS.SUGGESTED_CHAINS)) || {};
+async function persistSuggestedChain(chainId: string, chainInfo: SuggestedChainInfo): Promise<void> {
+  const stored = (await storageGet<Record<string, SuggestedChainInfo>>(KEYS.SUGGESTED_CHAINS)) || {};
   stored[chainId] = chainInfo;
   await storageSet({ [KEYS.SUGGESTED_CHAINS]: stored });
 }
 
+/** All chains added through experimentalSuggestChain (for Settings). */
+export async function getSuggestedChains(): Promise<SuggestedChainInfo[]> {
+  const stored = (await storageGet<Record<string, SuggestedChainInfo>>(KEYS.SUGGESTED_CHAINS)) || {};
+  return Object.values(stored);
+}
+
+/**
+ * Forget a suggested chain. Sites connected to it keep their grant but
+ * getKey / signing for that chain fail until it's suggested again.
+ */
+export async function removeSuggestedChain(chainId: string): Promise<void> {
+  _suggestedChains.delete(chainId);
+  const stored = (await storageGet<Record<string, SuggestedChainInfo>>(KEYS.SUGGESTED_CHAINS)) || {};
+  delete stored[chainId];
+  await storageSet({ [KEYS.SUGGESTED_CHAINS]: stored });
+}
+
 // Load on module init (service worker startup)
 loadSuggestedChains();
 
@@ -83,16 +144,15 @@ loadSuggestedChains();
 //  Defences, layered from cheap to expensive:
 //
 //    1. Per-origin approval queue. Only one approval popup is ever
-//       visible per origin at a time; additional requests from the same
-//       origin are FIFO-queued. Legitimate sequential flows (e.g. Hex's
-//       enable → signAmino chain on hex.exchange) still pass through
-//       without friction — each step awaits its predecessor, so the
-//       queue rarely holds more than the active entry.
+//       open per origin; further requests from the same origin join its
+//       queue, which the popup shows as a list the user can review item
+//       by item or approve / reject as a whole. Legitimate sequential
+//       flows (e.g. Hex's enable → signAmino chain on hex.exchange)
+//       still pass through without friction.
 //
-//    2. Bounded queue: once the queue reaches MAX_QUEUED_APPROVALS_PER_ORIGIN
-//       (active + waiters), further requests are rejected immediately
-//       and the currently-open popup is re-focused so the user knows
-//       where to respond.
+//    2. Bounded queue: once the queue reaches MAX_QUEUED_APPROVALS_PER_ORIGIN,
+//       further requests are rejected immediately and the open popup
+//       is re-focused so the user knows where to respond.
 //
 //    3. Global approval cap: at most MAX_PENDING_APPROVALS_GLOBAL in
 //       flight across every origin, to stop a group of cooperating
@@ -106,21 +166,14 @@ interface PendingRequest {
   method: string;
   params: any;
   origin: string;
-  resolve: (result: { result?: any; error?: string }) => void;
-}
-
-interface QueuedApproval {
-  requestId: string;
-  method: string;
-  params: any;
-  origin: string;
+  /** Phishing assessment of the origin when the popup opened. */
+  risk: OriginRisk;
   resolve: (result: { result?: any; error?: string }) => void;
 }
 
 interface ApprovalQueueState {
-  active: string | null;        // requestId shown in the active popup
-  windowId: number | null;      // chrome.windows id of the active popup
-  queued: QueuedApproval[];     // FIFO of waiting requests
+  windowId: number | null;      // chrome.windows id of the origin's popup
+  requests: string[];           // pending requestIds shown in it, oldest first
 }
 
 const _pendingRequests = new Map<string, PendingRequest>();
@@ -134,14 +187,14 @@ function generateRequestId(): string {
 function getOrCreateQueue(origin: string): ApprovalQueueState {
   let state = _approvalQueues.get(origin);
   if (!state) {
-    state = { active: null, windowId: null, queued: [] };
+    state = { windowId: null, requests: [] };
     _approvalQueues.set(origin, state);
   }
   return state;
 }
 
 function queueDepth(state: ApprovalQueueState): number {
-  return (state.active ? 1 : 0) + state.queued.length;
+  return state.requests.length;
 }
 
 function totalInFlightApprovals(): number {
@@ -159,16 +212,35 @@ function focusActivePopup(state: ApprovalQueueState): void {
 }
 
 /**
- * Enqueue an approval request. Opens the popup immediately if nothing
- * is pending for the origin, otherwise waits for the current popup to
- * settle. Excess requests (beyond the per-origin or global cap) are
- * rejected synchronously so the dApp gets an explicit error instead of
- * a dangling promise.
+ * Get a request approved. Sign requests matching the origin's
+ * auto-approval rule are signed without a popup; everything else is
+ * enqueued for the approval popup.
  */
 function requestApproval(
   method: string,
   params: any,
   origin: string,
+): Promise<{ result?: any; error?: string }> {
+  const rule = _autoApprovalRules[origin];
+  if (rule && (method === "signAmino" || method === "signDirect")) {
+    return tryAutoApprove(method, params, origin, rule).then(
+      (auto) => auto ?? enqueueApproval(method, params, origin),
+    );
+  }
+  return enqueueApproval(method, params, origin);
+}
+
+/**
+ * Enqueue an approval request. The first request from an origin opens
+ * its popup; later ones join the queue shown in that popup. Excess
+ * requests (beyond the per-origin or global cap) are rejected
+ * synchronously so the dApp gets an explicit error instead of a
+ * dangling promise.
+ */
+function enqueueApproval(
+  method: string,
+  params: any,
+  origin: string,
 ): Promise<{ result?: any; error?: string }> {
   const state = getOrCreateQueue(origin);
 
@@ -189,39 +261,46 @@ function requestApproval(
 
   return new Promise((resolve) => {
     const requestId = generateRequestId();
-    const entry: QueuedApproval = { requestId, method, params, origin, resolve };
+    state.requests.push(requestId);
+    _pendingRequests.set(requestId, {
+      method,
+      params,
+      origin,
+      risk: assessOrigin(origin, _originLists),
+      resolve: (result) => {
+        resolve(result);
+        onApprovalSettled(origin, requestId);
+      },
+    });
 
-    if (state.active) {
-      state.queued.push(entry);
+    if (state.requests.length === 1) {
+      openApprovalWindow(origin, requestId);
     } else {
-      startApproval(entry);
+      notifyApprovalQueueChanged(origin);
+      focusActivePopup(state);
     }
   });
 }
 
 /**
- * Register the approval in _pendingRequests, open its popup, and wire
- * up cleanup so the next queued entry (if any) is processed once this
- * one settles (approve, reject, or window closed).
+ * Open the origin's approval popup and wire up cleanup: closing the
+ * window rejects everything still queued for the origin.
  */
-function startApproval(entry: QueuedApproval): void {
-  const state = getOrCreateQueue(entry.origin);
-  state.active = entry.requestId;
+function openApprovalWindow(origin: string, requestId: string): void {
+  const state = getOrCreateQueue(origin);
 
-  const wrappedResolve = (result: { result?: any; error?: string }) => {
-    entry.resolve(result);
-    onApprovalSettled(entry.origin, entry.requestId);
+  const rejectQueued = (error: string, detail: string) => {
+    for (const id of [...state.requests]) {
+      const pending = _pendingRequests.get(id);
+      if (!pending) continue;
+      _pendingRequests.delete(id);
+      if (detail) logAuditEvent("request_rejected", { origin, detail: `${pending.method} (${detail})` });
+      pending.resolve({ error });
+    }
   };
 
-  _pendingRequests.set(entry.requestId, {
-    method: entry.method,
-    params: entry.params,
-    origin: entry.origin,
-    resolve: wrappedResolve,
-  });
-
   const approvalUrl = chrome.runtime.getURL(
-    `src/popup/approval.html?requestId=${encodeURIComponent(entry.requestId)}`
+    `src/popup/approval.html?requestId=${encodeURIComponent(requestId)}`
   );
 
   chrome.windows.create(
@@ -234,8 +313,7 @@ function startApproval(entry: QueuedApproval): void {
     },
     (win) => {
       if (!win?.id) {
-        _pendingRequests.delete(entry.requestId);
-        wrappedResolve({ error: "Failed to open approval window" });
+        rejectQueued("Failed to open approval window", "");
         return;
       }
       state.windowId = win.id;
@@ -244,11 +322,7 @@ function startApproval(entry: QueuedApproval): void {
       const onRemoved = (windowId: number) => {
         if (windowId !== win.id) return;
         chrome.windows.onRemoved.removeListener(onRemoved);
-        const pending = _pendingRequests.get(entry.requestId);
-        if (pending) {
-          _pendingRequests.delete(entry.requestId);
-          pending.resolve({ error: "User rejected the request" });
-        }
+        rejectQueued("User rejected the request", "window closed");
       };
       chrome.windows.onRemoved.addListener(onRemoved);
     }
@@ -258,18 +332,190 @@ function startApproval(entry: QueuedApproval): void {
 function onApprovalSettled(origin: string, requestId: string): void {
   const state = _approvalQueues.get(origin);
   if (!state) return;
-  if (state.active === requestId) {
-    state.active = null;
-    state.windowId = null;
-  }
-  const next = state.queued.shift();
-  if (next) {
-    startApproval(next);
-  } else if (!state.active && state.queued.length === 0) {
+  state.requests = state.requests.filter((id) => id !== requestId);
+  if (state.requests.length === 0) {
     _approvalQueues.delete(origin);
+  } else {
+    notifyApprovalQueueChanged(origin);
   }
 }
 
+/** Tell the origin's open popup to reload its queue. */
+function notifyApprovalQueueChanged(origin: string): void {
+  chrome.runtime.sendMessage({ type: "APPROVAL_QUEUE_CHANGED", origin }).catch(() => {});
+}
+
+// ------------------------------------------------------------------
+//  Auto-approval rules
+//
+//  Rules are cached in memory (this module is the only writer) so
+//  requests from origins without one skip straight to the popup queue.
+//  Auto-approvals run one at a time so concurrent requests can't both
+//  fit under a daily cap that only one of them should use.
+// ------------------------------------------------------------------
+
+let _autoApprovalRules: Record<string, AutoApprovalRule> = {};
+let _autoApprovalChain: Promise<void> = Promise.resolve();
+
+async function loadAutoApprovalRules(): Promise<void> {
+  _autoApprovalRules = (await storageGet<Record<string, AutoApprovalRule>>(KEYS.AUTO_APPROVAL_RULES)) || {};
+}
+
+const _autoApprovalRulesLoaded = loadAutoApprovalRules();
+
+export async function getAutoApprovalRules(): Promise<Record<string, AutoApprovalRule>> {
+  await _autoApprovalRulesLoaded;
+  return _autoApprovalRules;
+}
+
+/**
+ * Set or (with null) revoke an origin's auto-approval rule. Only connected
+ * sites can have one. Revoking also clears the day's recorded spend.
+ */
+export async function setAutoApprovalRule(origin: string, raw: unknown | null): Promise<AutoApprovalRule | null> {
+  await _autoApprovalRulesLoaded;
+  const next = { ..._autoApprovalRules };
+
+  if (raw === null) {
+    if (!next[origin]) return null;
+    delete next[origin];
+    const spend = (await storageGet<Record<string, DailySpend>>(KEYS.AUTO_APPROVAL_SPEND)) || {};
+    delete spend[origin];
+    await storageSet({ [KEYS.AUTO_APPROVAL_RULES]: next, [KEYS.AUTO_APPROVAL_SPEND]: spend });
+    _autoApprovalRules = next;
+    logAuditEvent("auto_approval_changed", { origin, detail: "revoked" });
+    return null;
+  }
+
+  const site = await getConnectedSite(origin);
+  if (!site || isSiteExpired(site)) throw new Error("Only connected sites can have auto-approval rules");
+  const rule = validateAutoApprovalRule(raw);
+  next[origin] = rule;
+  await storageSet({ [KEYS.AUTO_APPROVAL_RULES]: next });
+  _autoApprovalRules = next;
+  logAuditEvent("auto_approval_changed", {
+    origin,
+    detail: `allows ${rule.messageTypes.map((t) => t.split(".").pop()).join(", ")}`,
+  });
+  return rule;
+}
+
+/**
+ * Sign a request without the popup if it matches `rule`. Resolves null
+ * to fall back to the popup: the site isn't connected with the sign
+ * scope, its origin is flagged, a message can't be decoded, or the rule
+ * doesn't cover the request.
+ */
+function tryAutoApprove(
+  method: "signAmino" | "signDirect",
+  params: any,
+  origin: string,
+  rule: AutoApprovalRule,
+): Promise<{ result?: any; error?: string } | null> {
+  const run = _autoApprovalChain.then(async () => {
+    if (assessOrigin(origin, _originLists).level === "suspicious") return null;
+    const site = await getConnectedSite(origin);
+    if (!site || isSiteExpired(site) || !siteAllows(site, "sign")) return null;
+
+    let decoded: ReturnType<typeof decodeSignRequest>;
+    try {
+      decoded = decodeSignRequest(signRequestInput(method, params));
+    } catch {
+      return null;
+    }
+
+    const [account] = await (await getWalletForChain(params.chainId)).getAccounts();
+    if (account.address !== params.signer) return null;
+
+    const spend = (await storageGet<Record<string, DailySpend>>(KEYS.AUTO_APPROVAL_SPEND)) || {};
+    const decision = evaluateAutoApproval(rule, { signer: account.address, ...decoded }, spend[origin]);
+    if (!decision.approved) return null;
+
+    const result = method === "signAmino" ? await executeSignAmino(params) : await executeSignDirect(params);
+    if (result.error) return result;
+
+    spend[origin] = recordSpend(spend[origin], decision.spend);
+    await storageSet({ [KEYS.AUTO_APPROVAL_SPEND]: spend });
+    logAuditEvent("auto_approved", {
+      origin,
+      address: account.address,
+      detail: `${method}: ${decoded.messages.map((m) => m.typeUrl.split(".").pop()).join(", ")}${
+        decision.spend.length > 0 ? ` (spend ${decision.spend.map((c) => `${c.amount}${c.denom}`).join(", ")})` : ""
+      }`,
+    });
+    return result;
+  });
+  _autoApprovalChain = run.then(
+    () => {},
+    () => {},
+  );
+  return run.catch(() => null);
+}
+
+// ------------------------------------------------------------------
+//  dApp broadcasts (sendTx)
+//
+//  Signatures this wallet makes for dApps are remembered under the
+//  unlocked key, so a broadcast of a transaction the user just approved
+//  doesn't ask twice. Locking drops the key, which ends the session.
+// ------------------------------------------------------------------
+
+const _sessionSignatures = new WeakMap<WalletKey, Set<string>>();
+
+function recordSessionSignature(signature: string): void {
+  const key = getWalletKey();
+  if (!key) return;
+  let signatures = _sessionSignatures.get(key);
+  if (!signatures) {
+    signatures = new Set();
+    _sessionSignatures.set(key, signatures);
+  }
+  signatures.add(signature);
+}
+
+function signedThisSession(signatures: Uint8Array[]): boolean {
+  const key = getWalletKey();
+  const known = key ? _sessionSignatures.get(key) : undefined;
+  return !!known && signatures.length > 0 && signatures.every((sig) => known.has(toBase64(sig)));
+}
+
+function reviewSendTx(params: { tx: unknown }): BroadcastReview {
+  try {
+    const { signatures, ...decoded } = decodeBroadcastTx(toUint8ArrayFromAny(params.tx), GONKA_BECH32_PREFIX);
+    return reviewBroadcast(decoded, signedThisSession(signatures));
+  } catch {
+    return reviewBroadcast(null, false);
+  }
+}
+
+/**
+ * Broadcast a dApp's signed transaction, asking the user first when
+ * lib/broadcast-policy calls for it. Trusted sites skip the check unless
+ * their origin is flagged; skipped checks are recorded in the audit log.
+ */
+async function handleSendTx(
+  params: { chainId: string; tx: number[]; mode: string },
+  origin: string,
+): Promise<{ result?: any; error?: string }> {
+  const denied = await sitePermissionError(origin, "broadcast", true);
+  if (denied) return { error: denied };
+
+  const review = reviewSendTx(params);
+  if (review.reasons.length === 0) return executeSendTx(params);
+
+  const site = await getConnectedSite(origin);
+  if (site?.trustBroadcasts && assessOrigin(origin, _originLists).level !== "suspicious") {
+    logAuditEvent("auto_approved", {
+      origin,
+      address: getAddress(),
+      detail: `sendTx (trusted site): ${review.reasons.map((r) => BROADCAST_REASON_LABELS[r]).join("; ")}`,
+    });
+    return executeSendTx(params);
+  }
+
+  return requestApproval("sendTx", { ...params, review }, origin);
+}
+
 // ------------------------------------------------------------------
 //  Public API for the approval popup (called from background/index.ts)
 // ------------------------------------------------------------------
@@ -281,20 +527,130 @@ export function getPendingRequest(requestId: string): {
   method: string;
   params: any;
   origin: string;
+  risk: OriginRisk;
 } | null {
   const pending = _pendingRequests.get(requestId);
   if (!pending) return null;
-  return { method: pending.method, params: pending.params, origin: pending.origin };
+  return { method: pending.method, params: pending.params, origin: pending.origin, risk: pending.risk };
+}
+
+export interface ApprovalQueueItem {
+  requestId: string;
+  method: string;
+  /** Coins the request sends out of the signer's account, fee included; null if it can't be decoded. */
+  outflow: Coin[] | null;
+}
+
+/**
+ * The queue shown in an origin's approval popup, with what each request
+ * spends and the total. `total` leaves out requests whose spend is
+ * unknown, which `complete` reports.
+ */
+export function getApprovalQueue(requestId: string): {
+  origin: string;
+  items: ApprovalQueueItem[];
+  total: Coin[];
+  complete: boolean;
+} | null {
+  const pending = _pendingRequests.get(requestId);
+  if (!pending) return null;
+  const ids = _approvalQueues.get(pending.origin)?.requests ?? [requestId];
+
+  const items: ApprovalQueueItem[] = [];
+  for (const id of ids) {
+    const item = _pendingRequests.get(id);
+    if (!item) continue;
+    let outflow: Coin[] | null = [];
+    if (item.method === "sendTx") {
+      const { outflow: sent, fee } = item.params.review as BroadcastReview;
+      outflow = sent && sumCoins([...sent, ...fee]);
+    } else if (isSignMethod(item.method)) {
+      try {
+        const { messages, fee } = decodeSignRequest(signRequestInput(item.method, item.params));
+        outflow = signerOutflows(item.params.signer, messages, fee);
+      } catch {
+        outflow = null;
+      }
+    }
+    items.push({ requestId: id, method: item.method, outflow });
+  }
+
+  const known = items.flatMap((i) => i.outflow ?? []);
+  return {
+    origin: pending.origin,
+    items,
+    total: sumCoins(known),
+    complete: items.every((i) => i.outflow !== null),
+  };
+}
+
+/**
+ * Simulate a pending signAmino / signDirect request for the approval popup.
+ * Gonka requests use the active endpoint, suggested chains their own REST.
+ */
+export async function previewPendingRequest(requestId: string): Promise<{ preview?: TxPreview; error?: string }> {
+  const pending = _pendingRequests.get(requestId);
+  if (!pending) return { error: "Request not found or expired" };
+  if (pending.method !== "signAmino" && pending.method !== "signDirect") {
+    return { error: `Nothing to simulate for ${pending.method}` };
+  }
+
+  const { chainId } = pending.params;
+  const wallet = await getWalletForChain(chainId);
+  const [account] = await wallet.getAccounts();
+
+  let restUrl: string | null = null;
+  if (chainId === GONKA_CHAIN_ID) restUrl = (await getActiveEndpoint()).rest;
+  else restUrl = _suggestedChains.get(chainId)?.rest ?? null;
+
+  const preview = await previewSignRequest(signRequestInput(pending.method, pending.params), {
+    signer: account.address,
+    pubkey: account.pubkey,
+    restUrl,
+  });
+  return { preview };
+}
+
+export interface ApproveOptions {
+  /** The user acknowledged the phishing warning for a suspicious origin. */
+  acknowledgedRisk?: boolean;
+  /** Fee / memo changes made in the popup (sign requests only). */
+  edits?: SignDocEdits;
 }
 
 /**
  * Approve a pending request — execute the actual operation and resolve.
+ * Requests from a suspicious origin need `acknowledgedRisk`; proceeding
+ * past the warning is recorded in the audit log. Invalid sign edits
+ * leave the request pending so the user can correct them.
  */
-export async function approveRequest(requestId: string): Promise<{ result?: any; error?: string }> {
+export async function approveRequest(
+  requestId: string,
+  options: ApproveOptions = {},
+): Promise<{ result?: any; error?: string }> {
   const pending = _pendingRequests.get(requestId);
   if (!pending) return { error: "Request not found or expired" };
+  if (pending.risk.level === "suspicious" && !options.acknowledgedRisk) {
+    return { error: "Confirm the phishing warning before approving this request." };
+  }
+
+  let params = pending.params;
+  const edited = isSignMethod(pending.method) && hasSignEdits(options.edits);
+  if (edited) {
+    try {
+      params = applySignEdits(pending.method, pending.params, options.edits!);
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
 
   _pendingRequests.delete(requestId);
+  if (pending.risk.level === "suspicious") {
+    logAuditEvent("phishing_override", {
+      origin: pending.origin,
+      detail: `${pending.method}: ${pending.risk.reasons.join("; ")}`,
+    });
+  }
 
   try {
     let result: { result?: any; error?: string };
@@ -304,28 +660,78 @@ export async function approveRequest(requestId: string): Promise<{ result?: any;
         result = await executeEnable(pending.params, pending.origin);
         break;
       case "signAmino":
-        result = await executeSignAmino(pending.params);
+        result = await executeSignAmino(params);
         break;
       case "signDirect":
-        result = await executeSignDirect(pending.params);
+        result = await executeSignDirect(params);
         break;
       case "signArbitrary":
         result = await executeSignArbitrary(pending.params);
         break;
+      case "experimentalSuggestChain":
+        result = await executeSuggestChain(pending.params);
+        break;
+      case "sendTx":
+        result = await executeSendTx(pending.params);
+        break;
       default:
         result = { error: `Unsupported approval method: ${pending.method}` };
     }
 
+    logAuditEvent("request_approved", {
+      origin: pending.origin,
+      address: getAddress(),
+      detail: result.error
+        ? `${pending.method} (failed: ${result.error})`
+        : edited
+          ? `${pending.method} (fee/memo edited)`
+          : pending.method,
+    });
+
     // Resolve the original promise (unblocks the dApp)
     pending.resolve(result);
     return result;
   } catch (err: any) {
     const errorResult = { error: err.message || String(err) };
+    logAuditEvent("request_approved", {
+      origin: pending.origin,
+      address: getAddress(),
+      detail: `${pending.method} (failed: ${errorResult.error})`,
+    });
     pending.resolve(errorResult);
     return errorResult;
   }
 }
 
+/**
+ * Approve several queued requests from one origin, in order. The ids are
+ * the ones the user reviewed, so requests that arrived since aren't
+ * approved with them. Fee / memo edits only apply to single approvals.
+ */
+export async function approveRequests(
+  requestIds: string[],
+  options: Pick<ApproveOptions, "acknowledgedRisk"> = {},
+): Promise<{ results: { requestId: string; error?: string }[]; error?: string }> {
+  const pending = requestIds.map((id) => _pendingRequests.get(id));
+  if (pending.length === 0 || pending.some((p) => !p)) return { results: [], error: "Request not found or expired" };
+  if (new Set(pending.map((p) => p!.origin)).size > 1) return { results: [], error: "Requests are from different sites" };
+
+  const results: { requestId: string; error?: string }[] = [];
+  for (const requestId of requestIds) {
+    const { error } = await approveRequest(requestId, options);
+    results.push(error ? { requestId, error } : { requestId });
+    // Not approved at all (e.g. the phishing warning): leave the rest pending too
+    if (_pendingRequests.has(requestId)) return { results, error };
+  }
+  return { results };
+}
+
+/** Reject several queued requests. */
+export function rejectRequests(requestIds: string[]): { result: true } {
+  for (const id of requestIds) rejectRequest(id);
+  return { result: true };
+}
+
 /**
  * Reject a pending request.
  */
@@ -334,6 +740,7 @@ export function rejectRequest(requestId: string): { result?: any; error?: string
   if (!pending) return { error: "Request not found or expired" };
 
   _pendingRequests.delete(requestId);
+  logAuditEvent("request_rejected", { origin: pending.origin, detail: pending.method });
   pending.resolve({ error: "User rejected the request" });
   return { result: true };
 }
@@ -346,10 +753,20 @@ export async function getConnectedSites(): Promise<ConnectedSite[]> {
   return (await storageGet<ConnectedSite[]>(KEYS.CONNECTED_SITES)) || [];
 }
 
+async function getConnectedSite(origin: string): Promise<ConnectedSite | undefined> {
+  return (await getConnectedSites()).find((s) => s.origin === origin);
+}
+
 async function addConnectedSite(origin: string, chainIds: string[]): Promise<void> {
   const sites = await getConnectedSites();
   const existing = sites.find((s) => s.origin === origin);
-  if (existing) {
+  if (existing && isSiteExpired(existing)) {
+    // Reconnecting after expiry: a fresh grant that keeps the narrowed
+    // scopes and wallet list but no longer expires
+    existing.chainIds = chainIds;
+    existing.connectedAt = Date.now();
+    delete existing.expiresAt;
+  } else if (existing) {
     const merged = new Set([...existing.chainIds, ...chainIds]);
     existing.chainIds = Array.from(merged);
   } else {
@@ -362,27 +779,70 @@ export async function disconnectSite(origin: string): Promise<void> {
   const sites = await getConnectedSites();
   const filtered = sites.filter((s) => s.origin !== origin);
   await storageSet({ [KEYS.CONNECTED_SITES]: filtered });
+  await setAutoApprovalRule(origin, null);
 }
 
-async function isOriginConnected(origin: string, chainIds: string[]): Promise<boolean> {
+/** Edit a connected site's scopes, expiry and visible wallets (from Settings). */
+export async function updateSitePermissions(
+  origin: string,
+  update: SitePermissionUpdate,
+): Promise<ConnectedSite> {
   const sites = await getConnectedSites();
-  const site = sites.find((s) => s.origin === origin);
-  if (!site) return false;
+  const i = sites.findIndex((s) => s.origin === origin);
+  if (i < 0) throw new Error("Site is not connected");
+  const wasTrusted = !!sites[i].trustBroadcasts;
+  sites[i] = applySitePermissionUpdate(sites[i], update);
+  await storageSet({ [KEYS.CONNECTED_SITES]: sites });
+  if (!!sites[i].trustBroadcasts !== wasTrusted) {
+    logAuditEvent("auto_approval_changed", {
+      origin,
+      detail: sites[i].trustBroadcasts ? "broadcasts skip approval" : "broadcasts need approval",
+    });
+  }
+  return sites[i];
+}
+
+async function isOriginConnected(origin: string, chainIds: string[]): Promise<boolean> {
+  const site = await getConnectedSite(origin);
+  if (!site || isSiteExpired(site)) return false;
   return chainIds.every((id) => site.chainIds.includes(id));
 }
 
+/**
+ * Check a request against the origin's connection scopes. Returns an error
+ * message, or null when the request may proceed.
+ *
+ * Origins without a (live) connection pass unless `requireConnection` is
+ * set — their sign requests still go through the approval popup.
+ */
+async function sitePermissionError(
+  origin: string | undefined,
+  permission: SitePermission,
+  requireConnection = false,
+): Promise<string | null> {
+  const site = origin ? await getConnectedSite(origin) : undefined;
+  if (!site || isSiteExpired(site)) {
+    return requireConnection ? "This site is not connected. Call enable() first." : null;
+  }
+  if (!siteAllows(site, permission)) {
+    return `This site doesn't have the "${SITE_PERMISSION_LABELS[permission]}" permission. You can change this in Settings → Connected Sites.`;
+  }
+  const address = getAddress();
+  if (address && !siteCanSeeWallet(site, address)) {
+    return "The active wallet isn't shared with this site. Switch wallets or change the site's permissions in Settings → Connected Sites.";
+  }
+  return null;
+}
+
 // ------------------------------------------------------------------
 //  Crypto helpers
 // ------------------------------------------------------------------
 
-async function getWalletForChain(_chainId: string): Promise<DirectSecp256k1HdWallet> {
-  const mnemonic = getMnemonic();
-  if (!mnemonic) throw new Error("Wallet is locked");
-
-  const prefix = getBech32Prefix(_chainId);
-  const hdPaths = getHdPaths(_chainId);
+async function getWalletForChain(_chainId: string): Promise<OfflineDirectSigner> {
+  const key = getWalletKey();
+  if (!key) throw new Error("Wallet is locked");
 
-  return DirectSecp256k1HdWallet.fromMnemonic(mnemonic, { prefix, hdPaths });
+  return makeOfflineSigner(key, getBech32Prefix(_chainId), getCoinType(_chainId));
 }
 
 function getBech32Prefix(chainId: string): string {
@@ -395,30 +855,24 @@ function getBech32Prefix(chainId: string): string {
   return GONKA_BECH32_PREFIX;
 }
 
-function getHdPaths(chainId: string): HdPath[] {
-  if (chainId === GONKA_CHAIN_ID) return [GONKA_HD];
-  if (chainId === COSMOSHUB_CHAIN_ID) return [COSMOS_HD];
+function getCoinType(chainId: string): number {
+  if (chainId === GONKA_CHAIN_ID) return GONKA_COIN_TYPE;
+  if (chainId === COSMOSHUB_CHAIN_ID) return COSMOS_COIN_TYPE;
   const suggested = _suggestedChains.get(chainId);
-  if (suggested?.bip44?.coinType) {
-    return [[
-      Slip10RawIndex.hardened(44),
-      Slip10RawIndex.hardened(suggested.bip44.coinType),
-      Slip10RawIndex.hardened(0),
-      Slip10RawIndex.normal(0),
-      Slip10RawIndex.normal(0),
-    ] as HdPath];
-  }
-  return [GONKA_HD];
+  if (suggested?.bip44?.coinType) return suggested.bip44.coinType;
+  return GONKA_COIN_TYPE;
 }
 
 function isSupportedChain(chainId: string): boolean {
   return chainId === GONKA_CHAIN_ID || chainId === COSMOSHUB_CHAIN_ID || _suggestedChains.has(chainId);
 }
 
-async function derivePrivateKeyBytes(mnemonic: string, chainId: string): Promise<Uint8Array> {
-  const seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(mnemonic));
-  const hdPaths = getHdPaths(chainId);
-  const { privkey } = Slip10.derivePath(Slip10Curve.Secp256k1, seed, hdPaths[0]);
+async function derivePrivateKeyBytes(key: WalletKey, chainId: string): Promise<Uint8Array> {
+  // Imported private keys sign with the same key on every chain
+  if (isPrivateKeyKey(key)) return key.privateKey;
+  const seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(key.mnemonic), key.passphrase);
+  const hdPath = makeHdPath(getCoinType(chainId), key.account ?? 0, key.index ?? 0);
+  const { privkey } = Slip10.derivePath(Slip10Curve.Secp256k1, seed, hdPath);
   return privkey;
 }
 
@@ -440,6 +894,61 @@ export function isAllowedDappOrigin(origin: string | undefined | null): boolean
   }
 }
 
+// ------------------------------------------------------------------
+//  Phishing blocklist / allowlist
+//
+//  The user's lists are cached in memory so each request is assessed
+//  without a storage round trip. This module is the only writer, so the
+//  cache is refreshed on every update.
+// ------------------------------------------------------------------
+
+let _originLists: OriginLists = EMPTY_ORIGIN_LISTS;
+
+async function loadOriginLists(): Promise<void> {
+  const stored = await storageGet<OriginLists>(KEYS.ORIGIN_LISTS);
+  if (stored) _originLists = { blocked: stored.blocked ?? [], allowed: stored.allowed ?? [] };
+}
+
+const _originListsLoaded = loadOriginLists();
+
+export async function getOriginLists(): Promise<OriginLists> {
+  await _originListsLoaded;
+  return _originLists;
+}
+
+/**
+ * Add a hostname to, or remove it from, the blocklist or allowlist.
+ * Adding to one list removes it from the other. Allowlisting a host or
+ * unblocking it overrides the phishing checks, so both are audited.
+ */
+export async function updateOriginList(
+  list: keyof OriginLists,
+  entry: string,
+  action: "add" | "remove",
+): Promise<OriginLists> {
+  if (list !== "blocked" && list !== "allowed") throw new Error(`Unknown list: ${list}`);
+  await _originListsLoaded;
+  const host = normalizeHostEntry(entry);
+  const other: keyof OriginLists = list === "blocked" ? "allowed" : "blocked";
+  const next: OriginLists = {
+    ..._originLists,
+    [list]: _originLists[list].filter((h) => h !== host),
+  };
+  if (action === "add") {
+    next[list] = [...next[list], host].sort();
+    next[other] = _originLists[other].filter((h) => h !== host);
+  }
+  _originLists = next;
+  await storageSet({ [KEYS.ORIGIN_LISTS]: next });
+
+  if (list === "allowed" && action === "add") {
+    logAuditEvent("phishing_override", { origin: host, detail: "added to allowlist" });
+  } else if (list === "blocked" && action === "remove") {
+    logAuditEvent("phishing_override", { origin: host, detail: "removed from blocklist" });
+  }
+  return next;
+}
+
 // ------------------------------------------------------------------
 //  Per-origin request rate limit (defence in depth)
 //
@@ -484,6 +993,16 @@ export async function handleProviderRequest(
     };
   }
 
+  await Promise.all([_originListsLoaded, _autoApprovalRulesLoaded]);
+  const risk = assessOrigin(origin as string, _originLists);
+  if (risk.level === "blocked") {
+    return { error: `GG Wallet blocked this site: ${risk.reasons.join("; ")}.` };
+  }
+
+  // Polled by the content script on wallet changes, not by the dApp, so
+  // it doesn't count towards the rate limit
+  if (method === "getProviderState") return { result: await getProviderState(origin as string) };
+
   const rate = recordAndCheckRate(origin as string);
   if (!rate.ok) {
     return {
@@ -499,19 +1018,21 @@ export async function handleProviderRequest(
       case "enable":
         return await handleEnable(params, origin);
       case "signAmino":
-        return await handleWithApproval("signAmino", params, origin);
+        return await handleWithApproval("signAmino", params, origin, "sign");
       case "signDirect":
-        return await handleWithApproval("signDirect", params, origin);
+        return await handleWithApproval("signDirect", params, origin, "sign");
       case "signArbitrary":
-        return await handleWithApproval("signArbitrary", params, origin);
+        return await handleWithApproval("signArbitrary", params, origin, "sign");
+      case "experimentalSuggestChain":
+        return await handleSuggestChain(params, origin);
 
       // --- Methods that don't need approval but do need unlock ---
       case "getKey":
         return await handleGetKey(params, origin);
       case "sendTx":
-        return await executeSendTx(params);
-      case "experimentalSuggestChain":
-        return await executeSuggestChain(params);
+        return await handleSendTx(params, origin as string);
+      case "verifyArbitrary":
+        return await executeVerifyArbitrary(params);
       default:
         return { error: `Unsupported method: ${method}` };
     }
@@ -675,6 +1196,7 @@ async function handleWithApproval(
   method: string,
   params: any,
   origin?: string,
+  permission?: SitePermission,
 ): Promise<{ result?: any; error?: string }> {
   if (!isUnlocked()) {
     try {
@@ -683,6 +1205,11 @@ async function handleWithApproval(
       return { error: "Wallet is locked. Please unlock GG Wallet first." };
     }
   }
+  // Checked after unlock so the active wallet is known
+  if (permission) {
+    const denied = await sitePermissionError(origin, permission);
+    if (denied) return { error: denied };
+  }
   return requestApproval(method, params, origin || "unknown");
 }
 
@@ -690,6 +1217,20 @@ async function handleWithApproval(
 //  enable — auto-approve if already connected, otherwise popup
 // ------------------------------------------------------------------
 
+/**
+ * The wallet state a site may see. Sites without a live connection get
+ * the same empty state whatever the wallet is doing.
+ */
+async function getProviderState(origin: string): Promise<ProviderState> {
+  const site = await getConnectedSite(origin);
+  if (!site || isSiteExpired(site)) return DISCONNECTED_STATE;
+
+  const unlocked = isUnlocked();
+  const address = unlocked ? getAddress() : "";
+  const visible = !!address && siteAllows(site, "address") && siteCanSeeWallet(site, address);
+  return { connected: true, chainIds: site.chainIds, unlocked, address: visible ? address : null };
+}
+
 async function handleEnable(
   params: { chainIds: string[] },
   origin?: string,
@@ -721,6 +1262,42 @@ async function handleEnable(
   return requestApproval("enable", { ...params, chainIds: supported }, origin || "unknown");
 }
 
+// ------------------------------------------------------------------
+//  experimentalSuggestChain — validate, then popup
+//
+//  The chain info is validated before the wallet is unlocked or a popup
+//  opens, so malformed suggestions fail fast. Re-suggesting a chain
+//  that's already stored unchanged resolves without asking again; a
+//  changed definition goes through approval, showing what it replaces.
+// ------------------------------------------------------------------
+
+async function handleSuggestChain(
+  params: { chainInfo: unknown },
+  origin?: string,
+): Promise<{ result?: any; error?: string }> {
+  let chainInfo: SuggestedChainInfo;
+  try {
+    chainInfo = validateChainInfo(params?.chainInfo);
+  } catch (err: any) {
+    return { error: err.message };
+  }
+
+  if (chainInfo.chainId === GONKA_CHAIN_ID || chainInfo.chainId === COSMOSHUB_CHAIN_ID) {
+    return { error: `Chain ${chainInfo.chainId} is built in and can't be replaced.` };
+  }
+
+  const existing = _suggestedChains.get(chainInfo.chainId);
+  if (existing && JSON.stringify(existing) === JSON.stringify(chainInfo)) {
+    return { result: true };
+  }
+
+  return handleWithApproval(
+    "experimentalSuggestChain",
+    { chainInfo, replaces: existing ?? null },
+    origin,
+  );
+}
+
 // ------------------------------------------------------------------
 //  Execution functions (run after approval or directly)
 // ------------------------------------------------------------------
@@ -731,6 +1308,7 @@ async function executeEnable(
 ): Promise<{ result?: any; error?: string }> {
   if (origin) {
     await addConnectedSite(origin, params.chainIds);
+    logAuditEvent("site_connected", { origin, detail: params.chainIds.join(", ") });
   }
   return { result: true };
 }
@@ -755,6 +1333,9 @@ async function handleGetKey(params: { chainId: string }, origin?: string): Promi
       return { error: "Wallet is locked. Please unlock GG Wallet first." };
     }
   }
+
+  const denied = await sitePermissionError(origin, "address");
+  if (denied) return { error: denied };
   return executeGetKey(params);
 }
 
@@ -794,8 +1375,8 @@ async function executeSignAmino(params: {
 }): Promise<{ result?: any; error?: string }> {
   if (!isUnlocked()) return { error: "Wallet is locked" };
 
-  const mnemonic = getMnemonic();
-  if (!mnemonic) return { error: "Wallet is locked" };
+  const key = getWalletKey();
+  if (!key) return { error: "Wallet is locked" };
 
   const wallet = await getWalletForChain(params.chainId);
   const [account] = await wallet.getAccounts();
@@ -812,9 +1393,10 @@ async function executeSignAmino(params: {
     const serialized = serializeSignDoc(signDoc);
     const hash = sha256(serialized);
 
-    const privKey = await derivePrivateKeyBytes(mnemonic, params.chainId);
+    const privKey = await derivePrivateKeyBytes(key, params.chainId);
     const signature = await Secp256k1.createSignature(hash, privKey);
     const signatureBytes = new Uint8Array([...signature.r(32), ...signature.s(32)]);
+    recordSessionSignature(toBase64(signatureBytes));
 
     return {
       result: {
@@ -850,6 +1432,43 @@ function normalizeAminoSignDoc(doc: any): any {
   };
 }
 
+function signRequestInput(method: "signAmino" | "signDirect", params: any): PreviewInput {
+  return method === "signAmino"
+    ? { kind: "amino", signDoc: normalizeAminoSignDoc(params.signDoc) }
+    : {
+        kind: "direct",
+        bodyBytes: toUint8ArrayFromAny(params.signDoc?.bodyBytes),
+        authInfoBytes: toUint8ArrayFromAny(params.signDoc?.authInfoBytes),
+      };
+}
+
+function isSignMethod(method: string): method is "signAmino" | "signDirect" {
+  return method === "signAmino" || method === "signDirect";
+}
+
+function hasSignEdits(edits: SignDocEdits | undefined): boolean {
+  return !!edits && (!!edits.fee || edits.memo !== undefined);
+}
+
+/**
+ * Write the popup's fee / memo edits into a sign request's doc, within
+ * what the dApp's sign options allow. Throws on invalid edits.
+ */
+function applySignEdits(method: string, params: any, edits: SignDocEdits): any {
+  const invalid = validateSignEdits(edits, params.signOptions);
+  if (invalid) throw new Error(invalid);
+
+  if (method === "signAmino") {
+    return { ...params, signDoc: applyAminoSignEdits(normalizeAminoSignDoc(params.signDoc), edits) };
+  }
+  const { bodyBytes, authInfoBytes } = applyDirectSignEdits(
+    toUint8ArrayFromAny(params.signDoc?.bodyBytes),
+    toUint8ArrayFromAny(params.signDoc?.authInfoBytes),
+    edits,
+  );
+  return { ...params, signDoc: { ...params.signDoc, bodyBytes, authInfoBytes } };
+}
+
 async function executeSignDirect(params: {
   chainId: string;
   signer: string;
@@ -858,8 +1477,8 @@ async function executeSignDirect(params: {
 }): Promise<{ result?: any; error?: string }> {
   if (!isUnlocked()) return { error: "Wallet is locked" };
 
-  const mnemonic = getMnemonic();
-  if (!mnemonic) return { error: "Wallet is locked" };
+  const key = getWalletKey();
+  if (!key) return { error: "Wallet is locked" };
 
   const wallet = await getWalletForChain(params.chainId);
   const [account] = await wallet.getAccounts();
@@ -884,9 +1503,10 @@ async function executeSignDirect(params: {
     const signBytes = SignDoc.encode(signDoc).finish();
     const hash = sha256(signBytes);
 
-    const privKey = await derivePrivateKeyBytes(mnemonic, params.chainId);
+    const privKey = await derivePrivateKeyBytes(key, params.chainId);
     const signature = await Secp256k1.createSignature(hash, privKey);
     const signatureBytes = new Uint8Array([...signature.r(32), ...signature.s(32)]);
+    recordSessionSignature(toBase64(signatureBytes));
 
     return {
       result: {
@@ -934,7 +1554,7 @@ async function executeSendTx(params: {
   mode: string;
 }): Promise<{ result?: any; error?: string }> {
   const endpoint = await getActiveEndpoint();
-  const txBytes = toBase64(new Uint8Array(params.tx));
+  const txBytes = toBase64(toUint8ArrayFromAny(params.tx));
 
   let broadcastMode = "BROADCAST_MODE_SYNC";
   switch (params.mode) {
@@ -966,11 +1586,10 @@ async function executeSendTx(params: {
   return { result: Array.from(hashBytes) };
 }
 
-async function executeSuggestChain(params: { chainInfo: any }): Promise<{ result?: any; error?: string }> {
-  const chainInfo = params.chainInfo;
-  if (!chainInfo || !chainInfo.chainId) {
-    return { error: "Invalid chain info: missing chainId" };
-  }
+async function executeSuggestChain(params: {
+  chainInfo: SuggestedChainInfo;
+}): Promise<{ result?: any; error?: string }> {
+  const { chainInfo } = params;
   _suggestedChains.set(chainInfo.chainId, chainInfo);
   await persistSuggestedChain(chainInfo.chainId, chainInfo);
   return { result: true };
@@ -979,58 +1598,48 @@ async function executeSuggestChain(params: { chainInfo: any }): Promise<{ result
 async function executeSignArbitrary(params: {
   chainId: string;
   signer: string;
-  data: string | number[];
+  data: unknown;
 }): Promise<{ result?: any; error?: string }> {
   if (!isUnlocked()) return { error: "Wallet is locked" };
 
-  const mnemonic = getMnemonic();
-  if (!mnemonic) return { error: "Wallet is locked" };
+  const key = getWalletKey();
+  if (!key) return { error: "Wallet is locked" };
 
   const wallet = await getWalletForChain(params.chainId);
   const [account] = await wallet.getAccounts();
 
   let dataBytes: Uint8Array;
-  if (Array.isArray(params.data)) {
-    dataBytes = new Uint8Array(params.data);
-  } else if (typeof params.data === "string") {
-    dataBytes = new TextEncoder().encode(params.data);
-  } else {
-    return { error: "Invalid data format" };
+  try {
+    dataBytes = toSignDataBytes(params.data);
+  } catch (err: any) {
+    return { error: err.message };
   }
 
-  const signDoc = {
-    chain_id: "",
-    account_number: "0",
-    sequence: "0",
-    fee: { gas: "0", amount: [] },
-    msgs: [
-      {
-        type: "sign/MsgSignData",
-        value: {
-          signer: params.signer,
-          data: toBase64(dataBytes),
-        },
-      },
-    ],
-    memo: "",
-  };
-
-  const serialized = serializeSignDoc(signDoc);
-  const hash = sha256(serialized);
+  const privKey = await derivePrivateKeyBytes(key, params.chainId);
+  return { result: await signAdr036(privKey, account.pubkey, params.signer, dataBytes) };
+}
 
-  const privKey = await derivePrivateKeyBytes(mnemonic, params.chainId);
-  const signature = await Secp256k1.createSignature(hash, privKey);
-  const signatureBytes = new Uint8Array([...signature.r(32), ...signature.s(32)]);
+/**
+ * Sign a message with the active wallet from the wallet's own Sign
+ * Message page (no dApp involved, so no approval popup).
+ */
+export async function signMessage(chainId: string, data: string): Promise<{ result?: any; error?: string }> {
+  if (!isUnlocked()) return { error: "Wallet is locked" };
+  const [account] = await (await getWalletForChain(chainId)).getAccounts();
+  const res = await executeSignArbitrary({ chainId, signer: account.address, data });
+  return res.error ? res : { result: { signer: account.address, ...res.result } };
+}
 
-  return {
-    result: {
-      pub_key: {
-        type: "tendermint/PubKeySecp256k1",
-        value: toBase64(account.pubkey),
-      },
-      signature: toBase64(signatureBytes),
-    },
-  };
+async function executeVerifyArbitrary(params: {
+  signer: string;
+  data: unknown;
+  signature: any;
+}): Promise<{ result?: any; error?: string }> {
+  try {
+    return { result: (await verifyAdr036(params.signer, toSignDataBytes(params.data), params.signature)) === null };
+  } catch (err: any) {
+    return { error: err.message || String(err) };
+  }
 }
 
 // ------------------------------------------------------------------
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Secp256k1 } from "@cosmjs/crypto";
+import { fromBase64 } from "@cosmjs/encoding";
+import { makeAuthInfoBytes, encodePubkey } from "@cosmjs/proto-signing";
+import { encodeSecp256k1Pubkey } from "@cosmjs/amino";
+import { TxRaw, TxBody } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { registry } from "@/lib/cosmos";
+import { previewSignRequest } from "./tx-preview";
+
+const { pubkey } = await Secp256k1.makeKeypair(new Uint8Array(32).fill(7));
+const compressed = Secp256k1.compressPubkey(pubkey);
+const ME = "gonka1me";
+const REST = "https://api.example.com";
+
+const sendAmino = {
+  type: "cosmos-sdk/MsgSend",
+  value: { from_address: ME, to_address: "gonka1you", amount: [{ denom: "ngonka", amount: "500" }] },
+};
+
+function aminoDoc(msgs: any[]) {
+  return {
+    chain_id: "gonka-mainnet",
+    account_number: "1",
+    sequence: "4",
+    fee: { amount: [{ denom: "ngonka", amount: "20" }], gas: "100000" },
+    msgs,
+    memo: "hi",
+  };
+}
+
+const fetchMock = vi.fn();
+globalThis.fetch = fetchMock as any;
+
+function respond(status: number, body: any) {
+  fetchMock.mockResolvedValueOnce({ ok: status < 300, status, json: async () => body });
+}
+
+beforeEach(() => fetchMock.mockReset());
+
+describe("previewSignRequest", () => {
+  it("converts Amino docs to an unsigned tx and reads the simulated changes", async () => {
+    respond(200, {
+      gas_info: { gas_used: "61000" },
+      result: {
+        events: [
+          { type: "coin_spent", attributes: [{ key: "spender", value: ME }, { key: "amount", value: "500ngonka" }] },
+        ],
+      },
+    });
+
+    const preview = await previewSignRequest(
+      { kind: "amino", signDoc: aminoDoc([sendAmino]) },
+      { signer: ME, pubkey: compressed, restUrl: REST }
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe(`${REST}/cosmos/tx/v1beta1/simulate`);
+    const txRaw = TxRaw.decode(fromBase64(JSON.parse(fetchMock.mock.calls[0][1].body).tx_bytes));
+    const body = TxBody.decode(txRaw.bodyBytes);
+    expect(body.memo).toBe("hi");
+    expect(body.messages[0].typeUrl).toBe("/cosmos.bank.v1beta1.MsgSend");
+
+    expect(preview).toMatchObject({ simulated: true, success: true, gasUsed: 61000, gasLimit: 100000, estimated: false });
+    expect(preview.changes).toEqual([{ denom: "ngonka", amount: "-520" }]);
+  });
+
+  it("reports the chain's failure reason and falls back to an estimate", async () => {
+    respond(400, { message: "rpc error: code = Unknown desc = insufficient funds [x/bank/send.go:1]" });
+
+    const bodyBytes = registry.encodeTxBody({
+      messages: [
+        {
+          typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+          value: { fromAddress: ME, toAddress: "gonka1you", amount: [{ denom: "ngonka", amount: "500" }] },
+        },
+      ],
+      memo: "",
+    });
+    const authInfoBytes = makeAuthInfoBytes(
+      [{ pubkey: encodePubkey(encodeSecp256k1Pubkey(compressed)), sequence: 0 }],
+      [{ denom: "ngonka", amount: "20" }],
+      200000,
+      undefined,
+      undefined
+    );
+
+    const preview = await previewSignRequest(
+      { kind: "direct", bodyBytes, authInfoBytes },
+      { signer: ME, pubkey: compressed, restUrl: REST }
+    );
+    expect(preview).toMatchObject({ simulated: true, success: false, error: "insufficient funds", estimated: true });
+    expect(preview.changes).toEqual([{ denom: "ngonka", amount: "-520" }]);
+  });
+
+  it("skips simulation for unknown Amino types and chains without an endpoint", async () => {
+    const unknown = await previewSignRequest(
+      { kind: "amino", signDoc: aminoDoc([{ type: "custom/MsgThing", value: {} }]) },
+      { signer: ME, pubkey: compressed, restUrl: REST }
+    );
+    expect(unknown.error).toMatch(/custom\/MsgThing/);
+
+    const noEndpoint = await previewSignRequest(
+      { kind: "amino", signDoc: aminoDoc([sendAmino]) },
+      { signer: ME, pubkey: compressed, restUrl: null }
+    );
+    expect(noEndpoint).toMatchObject({ simulated: false, error: "Simulation isn't available for this chain" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
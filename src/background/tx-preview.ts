@@ -0,0 +1,225 @@
+/**
+ * Simulation of dApp sign requests for the approval popup.
+ *
+ * The request is rebuilt into an unsigned TxRaw (Amino docs are converted
+ * to protobuf first) and sent to /cosmos/tx/v1beta1/simulate, which skips
+ * signature checks. Balance-change math lives in lib/tx-preview.ts.
+ */
+
+import { AminoTypes, createDefaultAminoConverters } from "@cosmjs/stargate";
+import { encodeSecp256k1Pubkey, pubkeyToAddress, type StdSignDoc } from "@cosmjs/amino";
+import { decodePubkey, encodePubkey, makeAuthInfoBytes, type EncodeObject } from "@cosmjs/proto-signing";
+import { fromUtf8, toUtf8, toBase64 } from "@cosmjs/encoding";
+import { AuthInfo, TxBody, TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { SignMode } from "cosmjs-types/cosmos/tx/signing/v1beta1/signing";
+
+import { registry } from "@/lib/cosmos";
+import type { DecodedBroadcast } from "@/lib/broadcast-policy";
+import {
+  attachedFunds,
+  balanceChangesFromEvents,
+  estimateBalanceChanges,
+  simulationErrorMessage,
+  type Coin,
+  type PreviewMessage,
+  type SimulationEvent,
+  type TxPreview,
+} from "@/lib/tx-preview";
+
+const aminoTypes = new AminoTypes({
+  ...createDefaultAminoConverters(),
+  "/cosmwasm.wasm.v1.MsgExecuteContract": {
+    aminoType: "wasm/MsgExecuteContract",
+    toAmino: ({ sender, contract, msg, funds }: any) => ({
+      sender,
+      contract,
+      msg: JSON.parse(fromUtf8(msg)),
+      funds,
+    }),
+    fromAmino: ({ sender, contract, msg, funds }: any) => ({
+      sender,
+      contract,
+      msg: toUtf8(JSON.stringify(msg)),
+      funds,
+    }),
+  },
+});
+
+export type PreviewInput =
+  | { kind: "amino"; signDoc: StdSignDoc }
+  | { kind: "direct"; bodyBytes: Uint8Array; authInfoBytes: Uint8Array };
+
+export interface PreviewContext {
+  signer: string;
+  pubkey: Uint8Array;
+  /** REST endpoint of the request's chain; null when we don't know one. */
+  restUrl: string | null;
+}
+
+interface BuiltTx {
+  messages: PreviewMessage[];
+  fee: Coin[];
+  gasLimit: number;
+  /** Unsigned TxRaw, or null when a message couldn't be converted. */
+  txBytes: Uint8Array | null;
+  /** Why txBytes is null. */
+  buildError?: string;
+}
+
+function buildFromAmino(signDoc: StdSignDoc, pubkey: Uint8Array): BuiltTx {
+  const fee = [...(signDoc.fee?.amount ?? [])];
+  const gasLimit = Number(signDoc.fee?.gas ?? 0);
+  const messages: EncodeObject[] = [];
+  let buildError: string | undefined;
+
+  for (const msg of signDoc.msgs) {
+    try {
+      messages.push(aminoTypes.fromAmino(msg));
+    } catch {
+      buildError = `Can't simulate message type ${msg.type}`;
+    }
+  }
+  if (buildError) return { messages, fee, gasLimit, txBytes: null, buildError };
+
+  const bodyBytes = registry.encodeTxBody({ messages, memo: signDoc.memo });
+  const authInfoBytes = makeAuthInfoBytes(
+    [{ pubkey: encodePubkey(encodeSecp256k1Pubkey(pubkey)), sequence: BigInt(signDoc.sequence) }],
+    fee,
+    gasLimit,
+    signDoc.fee?.granter,
+    signDoc.fee?.payer,
+    SignMode.SIGN_MODE_LEGACY_AMINO_JSON,
+  );
+  return { messages, fee, gasLimit, txBytes: unsignedTx(bodyBytes, authInfoBytes) };
+}
+
+function buildFromDirect(bodyBytes: Uint8Array, authInfoBytes: Uint8Array): BuiltTx {
+  const body = TxBody.decode(bodyBytes);
+  const authInfo = AuthInfo.decode(authInfoBytes);
+  const messages: PreviewMessage[] = [];
+  for (const any of body.messages) {
+    try {
+      messages.push({ typeUrl: any.typeUrl, value: registry.decode(any) });
+    } catch {
+      // Unknown type: simulation still covers it, the static estimate can't
+    }
+  }
+  return {
+    messages,
+    fee: authInfo.fee?.amount ?? [],
+    gasLimit: Number(authInfo.fee?.gasLimit ?? 0n),
+    txBytes: unsignedTx(bodyBytes, authInfoBytes),
+  };
+}
+
+/**
+ * Decode a sign request's messages into protobuf form (Amino messages are
+ * converted) along with its fee. Throws when any message can't be
+ * decoded, so callers that must see every message fail closed.
+ */
+export function decodeSignRequest(input: PreviewInput): { messages: PreviewMessage[]; fee: Coin[] } {
+  if (input.kind === "amino") {
+    return {
+      messages: input.signDoc.msgs.map((msg) => aminoTypes.fromAmino(msg)),
+      fee: [...(input.signDoc.fee?.amount ?? [])],
+    };
+  }
+  const body = TxBody.decode(input.bodyBytes);
+  const authInfo = AuthInfo.decode(input.authInfoBytes);
+  return {
+    messages: body.messages.map((any) => ({ typeUrl: any.typeUrl, value: registry.decode(any) })),
+    fee: authInfo.fee?.amount ?? [],
+  };
+}
+
+/**
+ * Decode a signed TxRaw the way sign requests are decoded, plus its
+ * signers' addresses (under `prefix`) and signatures. Throws when a
+ * message or a signer's public key can't be decoded.
+ */
+export function decodeBroadcastTx(
+  txBytes: Uint8Array,
+  prefix: string,
+): DecodedBroadcast & { signatures: Uint8Array[] } {
+  const tx = TxRaw.decode(txBytes);
+  const { messages, fee } = decodeSignRequest({
+    kind: "direct",
+    bodyBytes: tx.bodyBytes,
+    authInfoBytes: tx.authInfoBytes,
+  });
+  const signers = AuthInfo.decode(tx.authInfoBytes).signerInfos.map((info) => {
+    if (!info.publicKey) throw new Error("Signer without a public key");
+    return pubkeyToAddress(decodePubkey(info.publicKey), prefix);
+  });
+  return { signers, messages, fee, signatures: tx.signatures };
+}
+
+function unsignedTx(bodyBytes: Uint8Array, authInfoBytes: Uint8Array): Uint8Array {
+  return TxRaw.encode(
+    TxRaw.fromPartial({ bodyBytes, authInfoBytes, signatures: [new Uint8Array()] })
+  ).finish();
+}
+
+/**
+ * Build, simulate and summarize a sign request. Never throws: problems
+ * (unknown chain endpoint, unconvertible messages, network errors) are
+ * reported in `error` and the changes fall back to a static estimate.
+ */
+export async function previewSignRequest(input: PreviewInput, ctx: PreviewContext): Promise<TxPreview> {
+  let built: BuiltTx;
+  try {
+    built =
+      input.kind === "amino"
+        ? buildFromAmino(input.signDoc, ctx.pubkey)
+        : buildFromDirect(input.bodyBytes, input.authInfoBytes);
+  } catch (err: any) {
+    return {
+      simulated: false,
+      success: false,
+      error: `Couldn't decode the transaction: ${err.message || err}`,
+      changes: [],
+      estimated: true,
+      fee: [],
+      attachedFunds: [],
+    };
+  }
+
+  const preview: TxPreview = {
+    simulated: false,
+    success: false,
+    gasLimit: built.gasLimit || undefined,
+    changes: estimateBalanceChanges(ctx.signer, built.messages, built.fee),
+    estimated: true,
+    fee: built.fee,
+    attachedFunds: attachedFunds(ctx.signer, built.messages),
+  };
+
+  if (!built.txBytes) return { ...preview, error: built.buildError };
+  if (!ctx.restUrl) return { ...preview, error: "Simulation isn't available for this chain" };
+
+  let resp: Response;
+  try {
+    resp = await fetch(`${ctx.restUrl.replace(/\/?$/, "/")}cosmos/tx/v1beta1/simulate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tx_bytes: toBase64(built.txBytes) }),
+    });
+  } catch (err: any) {
+    return { ...preview, error: `Simulation request failed: ${err.message || err}` };
+  }
+
+  const data = await resp.json().catch(() => ({}));
+  if (!resp.ok) {
+    return { ...preview, simulated: true, error: simulationErrorMessage(data, resp.status) };
+  }
+
+  const events: SimulationEvent[] = data.result?.events ?? [];
+  return {
+    ...preview,
+    simulated: true,
+    success: true,
+    gasUsed: Number(data.gas_info?.gas_used ?? 0) || undefined,
+    changes: balanceChangesFromEvents(ctx.signer, events, built.fee),
+    estimated: false,
+  };
+}
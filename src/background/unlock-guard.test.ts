@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+// In-memory chrome.storage (local + session) for the failure counter.
+const local: Record<string, any> = {};
+const session: Record<string, any> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (k: string, cb: (v: any) => void) => cb(k in local ? { [k]: local[k] } : {}),
+      set: (v: Record<string, any>, cb?: () => void) => {
+        Object.assign(local, structuredClone(v));
+        cb?.();
+      },
+      remove: (k: string | string[], cb?: () => void) => {
+        for (const key of Array.isArray(k) ? k : [k]) delete local[key];
+        cb?.();
+      },
+    },
+    session: {
+      get: async (k: string) => (k in session ? { [k]: session[k] } : {}),
+      set: async (v: Record<string, any>) => {
+        Object.assign(session, v);
+      },
+    },
+  },
+};
+
+const {
+  backoffDelayMs,
+  guardPasswordAttempt,
+  getUnlockGuardState,
+  setReloadAfterFailures,
+  UnlockThrottledError,
+  WrongPasswordError,
+  FREE_ATTEMPTS,
+  MAX_DELAY_MS,
+} = await import("./unlock-guard");
+
+const wrong = () => Promise.reject(new WrongPasswordError());
+const right = () => Promise.resolve("ok");
+
+async function fail(times: number) {
+  for (let i = 0; i < times; i++) {
+    await expect(guardPasswordAttempt(wrong)).rejects.toThrow("Wrong password");
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(1_700_000_000_000);
+  for (const k of Object.keys(local)) delete local[k];
+  for (const k of Object.keys(session)) delete session[k];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("backoffDelayMs", () => {
+  it("allows a few free attempts, then doubles up to the cap", () => {
+    expect(backoffDelayMs(FREE_ATTEMPTS - 1)).toBe(0);
+    expect(backoffDelayMs(FREE_ATTEMPTS)).toBe(1000);
+    expect(backoffDelayMs(FREE_ATTEMPTS + 1)).toBe(2000);
+    expect(backoffDelayMs(FREE_ATTEMPTS + 4)).toBe(16_000);
+    expect(backoffDelayMs(100)).toBe(MAX_DELAY_MS);
+  });
+});
+
+describe("guardPasswordAttempt", () => {
+  it("blocks attempts during the backoff without trying the password", async () => {
+    await fail(FREE_ATTEMPTS);
+    const check = vi.fn(right);
+
+    await expect(guardPasswordAttempt(check)).rejects.toBeInstanceOf(UnlockThrottledError);
+    expect(check).not.toHaveBeenCalled();
+    expect((await getUnlockGuardState()).retryAfterMs).toBe(1000);
+
+    vi.setSystemTime(Date.now() + 1000);
+    await expect(guardPasswordAttempt(check)).resolves.toBe("ok");
+    expect(await getUnlockGuardState()).toMatchObject({ failures: 0, retryAfterMs: 0 });
+  });
+
+  it("keeps counting across restarts because the counter is in storage", async () => {
+    await fail(FREE_ATTEMPTS);
+    expect(local.gg_unlock_failures.failures).toBe(FREE_ATTEMPTS);
+    vi.setSystemTime(Date.now() + 1000);
+    await fail(1);
+    expect((await getUnlockGuardState()).retryAfterMs).toBe(2000);
+  });
+
+  it("serializes parallel guesses", async () => {
+    const check = vi.fn(wrong);
+    const results = await Promise.allSettled(
+      Array.from({ length: 6 }, () => guardPasswordAttempt(check))
+    );
+    expect(check).toHaveBeenCalledTimes(FREE_ATTEMPTS);
+    expect(results.filter((r) => r.status === "rejected" && r.reason instanceof UnlockThrottledError))
+      .toHaveLength(6 - FREE_ATTEMPTS);
+  });
+
+  it("counts only wrong passwords, including failed AES-GCM decryption", async () => {
+    await expect(guardPasswordAttempt(() => Promise.reject(new Error("No wallet found")))).rejects.toThrow();
+    expect(local.gg_unlock_failures).toBeUndefined();
+
+    const gcmFailure = Object.assign(new Error("The operation failed"), { name: "OperationError" });
+    await expect(guardPasswordAttempt(() => Promise.reject(gcmFailure))).rejects.toThrow();
+    expect(local.gg_unlock_failures.failures).toBe(1);
+  });
+
+  it("requires a reload after the configured number of failures", async () => {
+    await setReloadAfterFailures(2);
+    await fail(2);
+
+    vi.setSystemTime(Date.now() + MAX_DELAY_MS);
+    const err = await guardPasswordAttempt(right).catch((e) => e);
+    expect(err).toBeInstanceOf(UnlockThrottledError);
+    expect(err.reloadRequired).toBe(true);
+
+    // A reload clears session storage; the backoff counter stays
+    for (const k of Object.keys(session)) delete session[k];
+    await expect(guardPasswordAttempt(right)).resolves.toBe("ok");
+  });
+
+  it("rejects a reload threshold that isn't a whole number", async () => {
+    for (const count of [undefined, NaN, -1, 2.5, "3"]) {
+      await expect(setReloadAfterFailures(count as any)).rejects.toThrow("whole number");
+    }
+    expect(local.gg_unlock_reload_after).toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Brute-force protection for password checks (unlock, password
+ * verification, group passwords).
+ *
+ * Failed attempts are counted in chrome.storage.local, so neither a service
+ * worker restart nor a browser restart resets them. After FREE_ATTEMPTS
+ * failures each further attempt must wait an exponentially growing delay
+ * (1s, 2s, 4s, ... up to MAX_DELAY_MS). The delay is enforced here, before
+ * the password is tried, so messaging the background directly doesn't
+ * bypass it. Attempts are also serialized, so parallel guesses queue up.
+ *
+ * Only wrong passwords count as failures: a failed AES-GCM decryption or a
+ * WrongPasswordError. Other errors (no wallet, storage, validation) pass
+ * through without touching the counter.
+ *
+ * Optionally (KEYS.UNLOCK_RELOAD_AFTER > 0), that many consecutive failures
+ * disable password checks until the extension is reloaded. The flag lives in
+ * chrome.storage.session, which a reload clears; the failure count does not.
+ */
+
+import { storageGet, storageSet, storageRemove, KEYS } from "@/lib/storage";
+
+export const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+export const MAX_DELAY_MS = 15 * 60_000;
+
+const SESSION_RELOAD_REQUIRED_KEY = "gg_session_reload_required";
+
+interface FailureRecord {
+  failures: number;
+  /** Timestamp (ms) of the last failed attempt */
+  lastFailureAt: number;
+}
+
+export interface UnlockGuardState {
+  failures: number;
+  /** How long until the next attempt is accepted (0 = now). */
+  retryAfterMs: number;
+  /** Attempts are refused until the extension is reloaded. */
+  reloadRequired: boolean;
+  /** Failures that trigger the reload requirement (0 = off). */
+  reloadAfter: number;
+}
+
+export class UnlockThrottledError extends Error {
+  constructor(
+    public readonly retryAfterMs: number,
+    public readonly reloadRequired = false
+  ) {
+    super(
+      reloadRequired
+        ? "Too many failed attempts. Reload the extension to try again."
+        : `Too many failed attempts. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`
+    );
+    this.name = "UnlockThrottledError";
+  }
+}
+
+/** A password that was checked and didn't match. */
+export class WrongPasswordError extends Error {
+  constructor() {
+    super("Wrong password");
+    this.name = "WrongPasswordError";
+  }
+}
+
+/**
+ * Whether an error means the password was wrong: WrongPasswordError, or
+ * the OperationError WebCrypto throws when AES-GCM authentication fails.
+ */
+export function isWrongPasswordError(e: unknown): boolean {
+  return e instanceof WrongPasswordError || (e instanceof Error && e.name === "OperationError");
+}
+
+/** Delay required after `failures` consecutive failed attempts. */
+export function backoffDelayMs(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+async function getRecord(): Promise<FailureRecord> {
+  return (await storageGet<FailureRecord>(KEYS.UNLOCK_FAILURES)) ?? { failures: 0, lastFailureAt: 0 };
+}
+
+async function isReloadRequired(): Promise<boolean> {
+  const session = await chrome.storage.session.get(SESSION_RELOAD_REQUIRED_KEY).catch(() => ({}));
+  return !!(session as Record<string, unknown>)[SESSION_RELOAD_REQUIRED_KEY];
+}
+
+export async function getUnlockGuardState(now = Date.now()): Promise<UnlockGuardState> {
+  const { failures, lastFailureAt } = await getRecord();
+  const retryAt = lastFailureAt + backoffDelayMs(failures);
+  return {
+    failures,
+    retryAfterMs: Math.max(0, retryAt - now),
+    reloadRequired: await isReloadRequired(),
+    reloadAfter: (await storageGet<number>(KEYS.UNLOCK_RELOAD_AFTER)) ?? 0,
+  };
+}
+
+/** Set how many consecutive failures require an extension reload (0 = never). */
+export async function setReloadAfterFailures(count: number): Promise<void> {
+  if (!Number.isInteger(count) || count < 0) throw new Error("Failure count must be a whole number, 0 or more");
+  await storageSet({ [KEYS.UNLOCK_RELOAD_AFTER]: count });
+}
+
+async function recordFailure(): Promise<void> {
+  const { failures } = await getRecord();
+  const next: FailureRecord = { failures: failures + 1, lastFailureAt: Date.now() };
+  await storageSet({ [KEYS.UNLOCK_FAILURES]: next });
+
+  const reloadAfter = (await storageGet<number>(KEYS.UNLOCK_RELOAD_AFTER)) ?? 0;
+  if (reloadAfter > 0 && next.failures >= reloadAfter) {
+    await chrome.storage.session.set({ [SESSION_RELOAD_REQUIRED_KEY]: true }).catch(() => {});
+  }
+}
+
+// Serializes attempts so parallel guesses can't all pass the check at once
+let _attemptChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a password check under the guard. Throws UnlockThrottledError without
+ * running `check` while attempts are blocked. A wrong-password error from
+ * `check` counts as a failed attempt; every error is rethrown. Success
+ * resets the counter.
+ */
+export function guardPasswordAttempt<T>(check: () => Promise<T>): Promise<T> {
+  const attempt = _attemptChain.then(async () => {
+    const state = await getUnlockGuardState();
+    if (state.reloadRequired) throw new UnlockThrottledError(0, true);
+    if (state.retryAfterMs > 0) throw new UnlockThrottledError(state.retryAfterMs);
+
+    let result: T;
+    try {
+      result = await check();
+    } catch (e) {
+      if (isWrongPasswordError(e)) await recordFailure();
+      throw e;
+    }
+    if (state.failures > 0) await storageRemove(KEYS.UNLOCK_FAILURES);
+    return result;
+  });
+  _attemptChain = attempt.catch(() => {});
+  return attempt;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { Secp256k1 } from "@cosmjs/crypto";
+import { pubkeyToAddress } from "@cosmjs/amino";
+import { toBase64, toBech32 } from "@cosmjs/encoding";
+import { describeSignData, signAdr036, toSignDataBytes, verifyAdr036 } from "./adr036";
+
+const PRIVKEY = new Uint8Array(32).fill(5);
+
+async function account() {
+  const { pubkey } = await Secp256k1.makeKeypair(PRIVKEY);
+  const compressed = Secp256k1.compressPubkey(pubkey);
+  const address = pubkeyToAddress({ type: "tendermint/PubKeySecp256k1", value: toBase64(compressed) }, "gonka");
+  return { pubkey: compressed, address };
+}
+
+describe("ADR-036", () => {
+  it("verifies signatures it makes and rejects tampering", async () => {
+    const { pubkey, address } = await account();
+    const data = toSignDataBytes("Login to gonka.gg");
+    const sig = await signAdr036(PRIVKEY, pubkey, address, data);
+
+    expect(await verifyAdr036(address, data, sig)).toBeNull();
+    expect(await verifyAdr036(address, toSignDataBytes("Login to g0nka.gg"), sig)).toMatch(/doesn't match/);
+    expect(await verifyAdr036(toBech32("gonka", new Uint8Array(20)), data, sig)).toMatch(/doesn't belong/);
+    expect(await verifyAdr036(address, data, { ...sig, signature: "AAAA" })).toMatch(/64 bytes/);
+  });
+
+  it("accepts byte arrays flattened by postMessage", () => {
+    expect(toSignDataBytes([1, 2])).toEqual(new Uint8Array([1, 2]));
+    expect(toSignDataBytes({ 0: 1, 1: 2 })).toEqual(new Uint8Array([1, 2]));
+    expect(() => toSignDataBytes(42)).toThrow();
+  });
+});
+
+describe("describeSignData", () => {
+  it("shows text, pretty-printed JSON and hex", () => {
+    expect(describeSignData(toSignDataBytes("hello\nworld"))).toEqual({ kind: "text", display: "hello\nworld" });
+    expect(describeSignData(toSignDataBytes('{"nonce":1}'))).toEqual({ kind: "json", display: '{\n  "nonce": 1\n}' });
+    expect(describeSignData(new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0, 1, 2, 3, 4]))).toEqual({
+      kind: "hex",
+      display: "deadbeef 00010203 04",
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * ADR-036 arbitrary message signing (Keplr's signArbitrary / verifyArbitrary).
+ *
+ * The data is wrapped in an Amino sign doc with no chain id, zero fee and
+ * a single sign/MsgSignData message, so a signature over it can never be
+ * replayed as a transaction signature.
+ */
+
+import { pubkeyToAddress, serializeSignDoc, type StdSignDoc } from "@cosmjs/amino";
+import { Secp256k1, Secp256k1Signature, sha256 } from "@cosmjs/crypto";
+import { fromBase64, fromBech32, toBase64, toHex } from "@cosmjs/encoding";
+import { hasControlChars } from "./format";
+
+export interface Adr036Signature {
+  pub_key: { type: string; value: string };
+  signature: string;
+}
+
+export type SignDataKind = "text" | "json" | "hex";
+
+const PUBKEY_TYPE = "tendermint/PubKeySecp256k1";
+
+/**
+ * Bytes to sign from a dApp's data: strings are UTF-8 encoded, byte
+ * arrays (possibly flattened to number[] or a numeric-key object by
+ * postMessage) are taken as is.
+ */
+export function toSignDataBytes(data: unknown): Uint8Array {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  if (Array.isArray(data)) return new Uint8Array(data);
+  if (data && typeof data === "object") {
+    const keys = Object.keys(data);
+    if (keys.every((k) => /^\d+$/.test(k))) return new Uint8Array(keys.map((k) => (data as any)[k]));
+  }
+  throw new Error("Invalid data format");
+}
+
+export function makeAdr036SignDoc(signer: string, data: Uint8Array): StdSignDoc {
+  return {
+    chain_id: "",
+    account_number: "0",
+    sequence: "0",
+    fee: { gas: "0", amount: [] },
+    msgs: [{ type: "sign/MsgSignData", value: { signer, data: toBase64(data) } }],
+    memo: "",
+  };
+}
+
+/** Sign `data` for `signer` with a secp256k1 private key. */
+export async function signAdr036(
+  privkey: Uint8Array,
+  pubkey: Uint8Array,
+  signer: string,
+  data: Uint8Array,
+): Promise<Adr036Signature> {
+  const hash = sha256(serializeSignDoc(makeAdr036SignDoc(signer, data)));
+  const signature = await Secp256k1.createSignature(hash, privkey);
+  return {
+    pub_key: { type: PUBKEY_TYPE, value: toBase64(pubkey) },
+    signature: toBase64(new Uint8Array([...signature.r(32), ...signature.s(32)])),
+  };
+}
+
+/**
+ * Verify an ADR-036 signature: the public key must belong to `signer`
+ * and the signature must cover `data`. Returns an error message, or null
+ * when the signature is valid.
+ */
+export async function verifyAdr036(signer: string, data: Uint8Array, signature: Adr036Signature): Promise<string | null> {
+  let prefix: string;
+  try {
+    prefix = fromBech32(signer).prefix;
+  } catch {
+    return "Invalid signer address";
+  }
+  if (signature?.pub_key?.type && signature.pub_key.type !== PUBKEY_TYPE) {
+    return `Unsupported public key type ${signature.pub_key.type}`;
+  }
+
+  let pubkey: Uint8Array;
+  let sigBytes: Uint8Array;
+  try {
+    pubkey = fromBase64(signature.pub_key.value);
+    sigBytes = fromBase64(signature.signature);
+  } catch {
+    return "Public key and signature must be base64";
+  }
+  if (pubkey.length !== 33) return "Public key must be a 33-byte compressed secp256k1 key";
+  if (sigBytes.length !== 64) return "Signature must be 64 bytes";
+
+  if (pubkeyToAddress({ type: PUBKEY_TYPE, value: toBase64(pubkey) }, prefix) !== signer) {
+    return "Public key doesn't belong to the signer address";
+  }
+
+  const hash = sha256(serializeSignDoc(makeAdr036SignDoc(signer, data)));
+  const valid = await Secp256k1.verifySignature(Secp256k1Signature.fromFixedLength(sigBytes), hash, pubkey);
+  return valid ? null : "Signature doesn't match the message";
+}
+
+/**
+ * How to show signed data: UTF-8 text (pretty-printed when it's JSON),
+ * or hex for anything that isn't readable text.
+ */
+export function describeSignData(bytes: Uint8Array): { kind: SignDataKind; display: string } {
+  let text: string | null = null;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    // not UTF-8
+  }
+  if (text === null || hasControlChars(text)) {
+    return { kind: "hex", display: toHex(bytes).replace(/(.{8})/g, "$1 ").trim() };
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return { kind: "json", display: JSON.stringify(JSON.parse(trimmed), null, 2) };
+    } catch {
+      // not JSON after all
+    }
+  }
+  return { kind: "text", display: text };
+}
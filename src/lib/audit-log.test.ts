@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+// audit-log persists through chrome.storage.local; stub it before importing.
+const _store: Record<string, any> = {};
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (v: any) => void) => cb(key in _store ? { [key]: _store[key] } : {}),
+      set: (items: Record<string, any>, cb?: () => void) => {
+        Object.assign(_store, structuredClone(items));
+        cb?.();
+      },
+    },
+  },
+};
+
+const { logAuditEvent, getAuditLog, exportAuditLog, MAX_AUDIT_ENTRIES } = await import("./audit-log");
+
+beforeEach(() => {
+  for (const k of Object.keys(_store)) delete _store[k];
+});
+
+describe("audit log", () => {
+  it("appends entries with increasing sequence numbers", async () => {
+    await logAuditEvent("unlock_failed");
+    await logAuditEvent("site_connected", { origin: "https://app.example", detail: "gonka-mainnet" });
+
+    const log = await getAuditLog();
+    expect(log.map((e) => e.seq)).toEqual([1, 2]);
+    expect(log[1]).toMatchObject({ type: "site_connected", origin: "https://app.example" });
+    expect(typeof log[0].at).toBe("number");
+  });
+
+  it("keeps concurrent events instead of overwriting them", async () => {
+    await Promise.all([
+      logAuditEvent("request_approved", { detail: "signDirect" }),
+      logAuditEvent("request_rejected", { detail: "signAmino" }),
+      logAuditEvent("mnemonic_revealed"),
+    ]);
+    expect((await getAuditLog()).map((e) => e.type)).toEqual([
+      "request_approved",
+      "request_rejected",
+      "mnemonic_revealed",
+    ]);
+  });
+
+  it("drops the oldest entries past the cap but keeps counting", async () => {
+    for (let i = 0; i < MAX_AUDIT_ENTRIES + 3; i++) {
+      logAuditEvent("unlock_failed");
+    }
+    await logAuditEvent("wallet_removed");
+
+    const log = await getAuditLog();
+    expect(log).toHaveLength(MAX_AUDIT_ENTRIES);
+    expect(log[0].seq).toBe(5);
+    expect(log[log.length - 1]).toMatchObject({ seq: MAX_AUDIT_ENTRIES + 4, type: "wallet_removed" });
+  });
+
+  it("exports ISO timestamps", async () => {
+    await logAuditEvent("private_key_exported", { address: "gonka1abc" });
+    const exported = JSON.parse(exportAuditLog(await getAuditLog()));
+    expect(exported.format).toBe("ggwallet-audit-log");
+    expect(exported.entries[0].at).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(exported.entries[0].address).toBe("gonka1abc");
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Local security audit log.
+ *
+ * An append-only record of sensitive keystore and provider events (secrets
+ * revealed, failed unlocks, dApp approvals, ...). Entries are never edited
+ * or deleted individually; once the log holds MAX_AUDIT_ENTRIES, the oldest
+ * entries are dropped. Every entry gets a sequence number, so a log whose
+ * first entry isn't #1 shows how much was rotated out.
+ *
+ * Entries hold no secrets — only what happened, when, and for which
+ * wallet address or dApp origin.
+ */
+
+import { storageGet, storageSet, KEYS } from "@/lib/storage";
+
+export const MAX_AUDIT_ENTRIES = 500;
+
+export type AuditEventType =
+  | "mnemonic_revealed"
+  | "private_key_exported"
+  | "unlock_failed"
+  | "wallet_removed"
+  | "password_changed"
+  | "backup_exported"
+  | "site_connected"
+  | "request_approved"
+  | "request_rejected"
+  | "phishing_override"
+  | "auto_approved"
+  | "auto_approval_changed"
+  | "offline_tx_signed";
+
+export interface AuditEntry {
+  /** Monotonic sequence number, starting at 1. */
+  seq: number;
+  /** Timestamp (ms) */
+  at: number;
+  type: AuditEventType;
+  /** Wallet address the event concerns, if any. */
+  address?: string;
+  /** dApp origin for provider events. */
+  origin?: string;
+  /** Short human-readable context, e.g. the approved method. */
+  detail?: string;
+}
+
+export type AuditEventFields = Pick<AuditEntry, "address" | "origin" | "detail">;
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  mnemonic_revealed: "Recovery phrase revealed",
+  private_key_exported: "Private key exported",
+  unlock_failed: "Failed unlock attempt",
+  wallet_removed: "Wallet removed",
+  password_changed: "Password changed",
+  backup_exported: "Backup exported",
+  site_connected: "Site connected",
+  request_approved: "Request approved",
+  request_rejected: "Request rejected",
+  phishing_override: "Phishing warning overridden",
+  auto_approved: "Request auto-approved",
+  auto_approval_changed: "Auto-approval rule changed",
+  offline_tx_signed: "Offline transaction signed",
+};
+
+// Appends are serialized so concurrent events don't overwrite each other
+// between the read and the write.
+let _writeChain: Promise<void> = Promise.resolve();
+
+/**
+ * Append an event to the log. Fire-and-forget: a failed write never
+ * blocks or fails the operation being recorded.
+ */
+export function logAuditEvent(type: AuditEventType, fields: AuditEventFields = {}): Promise<void> {
+  _writeChain = _writeChain
+    .then(async () => {
+      const log = await getAuditLog();
+      const seq = (log[log.length - 1]?.seq ?? 0) + 1;
+      log.push({ seq, at: Date.now(), type, ...fields });
+      await storageSet({ [KEYS.AUDIT_LOG]: log.slice(-MAX_AUDIT_ENTRIES) });
+    })
+    .catch(() => {});
+  return _writeChain;
+}
+
+/** All retained entries, oldest first. */
+export async function getAuditLog(): Promise<AuditEntry[]> {
+  return (await storageGet<AuditEntry[]>(KEYS.AUDIT_LOG)) || [];
+}
+
+/** Serialize the log for export. */
+export function exportAuditLog(entries: AuditEntry[]): string {
+  return JSON.stringify(
+    {
+      format: "ggwallet-audit-log",
+      exportedAt: new Date().toISOString(),
+      entries: entries.map((e) => ({ ...e, at: new Date(e.at).toISOString() })),
+    },
+    null,
+    2
+  );
+}
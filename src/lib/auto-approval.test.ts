@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateAutoApproval,
+  recordSpend,
+  signerOutflows,
+  spendDay,
+  validateAutoApprovalRule,
+  type AutoApprovalRule,
+} from "./auto-approval";
+
+const ME = "gonka1me";
+const CONTRACT = "gonka1" + "q".repeat(58);
+const NOON = new Date(2026, 5, 1, 12).getTime();
+
+const rule: AutoApprovalRule = {
+  messageTypes: ["/cosmos.bank.v1beta1.MsgSend", "/cosmwasm.wasm.v1.MsgExecuteContract"],
+  contracts: [CONTRACT],
+  maxSpendPerTx: { ngonka: "1000" },
+  maxSpendPerDay: { ngonka: "1500" },
+  hours: { start: 9, end: 17 },
+  createdAt: 0,
+};
+
+function send(amount: string) {
+  return {
+    typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+    value: { fromAddress: ME, toAddress: "gonka1x", amount: [{ denom: "ngonka", amount }] },
+  };
+}
+
+describe("evaluateAutoApproval", () => {
+  it("approves matching requests within the caps", () => {
+    const decision = evaluateAutoApproval(rule, { signer: ME, messages: [send("600")], fee: [] }, undefined, NOON);
+    expect(decision).toEqual({ approved: true, spend: [{ denom: "ngonka", amount: "600" }] });
+  });
+
+  it("rejects other message types, contracts, denoms and hours", () => {
+    const vote = { typeUrl: "/cosmos.gov.v1beta1.MsgVote", value: {} };
+    const exec = { typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract", value: { sender: ME, contract: "gonka1other", funds: [] } };
+    const ibcFee = [{ denom: "uatom", amount: "1" }];
+    const evening = new Date(2026, 5, 1, 20).getTime();
+
+    expect(evaluateAutoApproval(rule, { signer: ME, messages: [vote], fee: [] }, undefined, NOON)).toMatchObject({ approved: false });
+    expect(evaluateAutoApproval(rule, { signer: ME, messages: [exec], fee: [] }, undefined, NOON)).toMatchObject({
+      reason: expect.stringMatching(/contract/),
+    });
+    expect(evaluateAutoApproval(rule, { signer: ME, messages: [send("1")], fee: ibcFee }, undefined, NOON)).toMatchObject({
+      reason: expect.stringMatching(/no limit/),
+    });
+    expect(evaluateAutoApproval(rule, { signer: ME, messages: [send("1")], fee: [] }, undefined, evening)).toMatchObject({
+      reason: "outside allowed hours",
+    });
+  });
+
+  it("enforces the per-transaction and daily caps, resetting each day", () => {
+    expect(evaluateAutoApproval(rule, { signer: ME, messages: [send("900")], fee: [{ denom: "ngonka", amount: "200" }] }, undefined, NOON))
+      .toMatchObject({ reason: expect.stringMatching(/per-transaction/) });
+
+    const spent = recordSpend(undefined, [{ denom: "ngonka", amount: "1000" }], NOON);
+    expect(spent).toEqual({ day: spendDay(NOON), spent: { ngonka: "1000" } });
+    expect(evaluateAutoApproval(rule, { signer: ME, messages: [send("600")], fee: [] }, spent, NOON)).toMatchObject({
+      reason: expect.stringMatching(/daily/),
+    });
+
+    const tomorrow = NOON + 24 * 3600_000;
+    expect(evaluateAutoApproval(rule, { signer: ME, messages: [send("600")], fee: [] }, spent, tomorrow).approved).toBe(true);
+  });
+});
+
+describe("signerOutflows", () => {
+  it("counts only coins leaving the signer, plus the fee", () => {
+    const messages = [
+      send("5"),
+      { typeUrl: "/cosmos.bank.v1beta1.MsgSend", value: { fromAddress: "gonka1x", toAddress: ME, amount: [{ denom: "ngonka", amount: "99" }] } },
+      { typeUrl: "/ibc.applications.transfer.v1.MsgTransfer", value: { sender: ME, token: { denom: "ngonka", amount: "7" } } },
+    ];
+    expect(signerOutflows(ME, messages, [{ denom: "ngonka", amount: "1" }])).toEqual([{ denom: "ngonka", amount: "13" }]);
+  });
+});
+
+describe("validateAutoApprovalRule", () => {
+  it("normalizes valid rules and rejects unsafe ones", () => {
+    const valid = validateAutoApprovalRule({ ...rule, messageTypes: [...rule.messageTypes, rule.messageTypes[0]], createdAt: undefined }, 5);
+    expect(valid.messageTypes).toHaveLength(2);
+    expect(valid.createdAt).toBe(5);
+
+    expect(() => validateAutoApprovalRule({ ...rule, messageTypes: [] })).toThrow(/at least one/);
+    expect(() => validateAutoApprovalRule({ ...rule, contracts: [] })).toThrow(/contracts/);
+    expect(() => validateAutoApprovalRule({ ...rule, messageTypes: ["/cosmos.authz.v1beta1.MsgExec"] })).toThrow(/can't be auto-approved/);
+    expect(() => validateAutoApprovalRule({ ...rule, maxSpendPerTx: { ngonka: "1.5" } })).toThrow(/whole number/);
+    expect(() => validateAutoApprovalRule({ ...rule, hours: { start: 9, end: 9 } })).toThrow(/hours/);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Per-origin auto-approval rules for dApp sign requests.
+ *
+ * A rule lets a connected site get signAmino / signDirect requests signed
+ * without the approval popup when every message is of an allowed type,
+ * contract calls only target allowed contracts, the spend stays under the
+ * per-transaction and per-day caps, and the request arrives inside the
+ * rule's hours and before it expires. Anything else still goes through
+ * the popup.
+ *
+ * Spend is what leaves the signer's account: sent and delegated coins,
+ * funds attached to contract calls, IBC transfers, deposits and the fee.
+ * A denom without a per-transaction cap can't be spent at all.
+ *
+ * Everything here is pure so it can be unit-tested; the background keeps
+ * the rules and the daily spend in storage.
+ */
+
+export interface Coin {
+  denom: string;
+  amount: string;
+}
+
+export interface AutoApprovalRule {
+  /** Allowed protobuf type URLs, e.g. "/cosmos.bank.v1beta1.MsgSend". */
+  messageTypes: string[];
+  /** Contracts that wasm messages may target. */
+  contracts: string[];
+  /** Per-denom cap (minimal units) for a single transaction. */
+  maxSpendPerTx: Record<string, string>;
+  /** Optional per-denom cap (minimal units) per local calendar day. */
+  maxSpendPerDay: Record<string, string>;
+  /** Local hours [start, end) during which requests qualify; wraps past midnight. */
+  hours?: { start: number; end: number };
+  /** Rule stops applying at this time (ms). */
+  expiresAt?: number;
+  createdAt: number;
+}
+
+/** Spend already auto-approved for an origin on `day` (local YYYY-MM-DD). */
+export interface DailySpend {
+  day: string;
+  spent: Record<string, string>;
+}
+
+export interface AutoApprovalMessage {
+  typeUrl: string;
+  value: any;
+}
+
+export type AutoApprovalDecision =
+  | { approved: true; spend: Coin[] }
+  | { approved: false; reason: string };
+
+/** Message types offered in the rule editor. */
+export const COMMON_AUTO_APPROVAL_TYPES: { typeUrl: string; label: string }[] = [
+  { typeUrl: "/cosmos.bank.v1beta1.MsgSend", label: "Send" },
+  { typeUrl: "/cosmos.staking.v1beta1.MsgDelegate", label: "Delegate" },
+  { typeUrl: "/cosmos.staking.v1beta1.MsgUndelegate", label: "Undelegate" },
+  { typeUrl: "/cosmos.staking.v1beta1.MsgBeginRedelegate", label: "Redelegate" },
+  { typeUrl: "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward", label: "Claim rewards" },
+  { typeUrl: "/cosmos.gov.v1beta1.MsgVote", label: "Vote" },
+  { typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract", label: "Execute contract" },
+  { typeUrl: "/ibc.applications.transfer.v1.MsgTransfer", label: "IBC transfer" },
+];
+
+// Messages that carry other messages; their effects can't be bounded here
+const NEVER_AUTO_APPROVED = new Set(["/cosmos.authz.v1beta1.MsgExec"]);
+
+const CONTRACT_MESSAGES = new Set([
+  "/cosmwasm.wasm.v1.MsgExecuteContract",
+  "/cosmwasm.wasm.v1.MsgMigrateContract",
+  "/cosmwasm.wasm.v1.MsgUpdateAdmin",
+  "/cosmwasm.wasm.v1.MsgClearAdmin",
+]);
+
+const TYPE_URL_RE = /^\/[A-Za-z0-9_.]+$/;
+const AMOUNT_RE = /^\d+$/;
+const DENOM_RE = /^[a-zA-Z][a-zA-Z0-9/:._-]{1,127}$/;
+
+function validCaps(raw: unknown, field: string): Record<string, string> {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error(`Invalid rule: ${field} must be an object`);
+  const caps: Record<string, string> = {};
+  for (const [denom, amount] of Object.entries(raw)) {
+    if (!DENOM_RE.test(denom)) throw new Error(`Invalid rule: bad denom "${denom}" in ${field}`);
+    if (typeof amount !== "string" || !AMOUNT_RE.test(amount)) {
+      throw new Error(`Invalid rule: ${field}.${denom} must be a whole number of minimal units`);
+    }
+    caps[denom] = amount;
+  }
+  return caps;
+}
+
+/**
+ * Validate a rule from the settings UI and return a normalized copy.
+ * Throws `Invalid rule: ...` errors.
+ */
+export function validateAutoApprovalRule(raw: any, now = Date.now()): AutoApprovalRule {
+  if (!raw || typeof raw !== "object") throw new Error("Invalid rule");
+
+  const messageTypes = [...new Set<string>(Array.isArray(raw.messageTypes) ? raw.messageTypes : [])];
+  if (messageTypes.length === 0) throw new Error("Invalid rule: allow at least one message type");
+  for (const t of messageTypes) {
+    if (typeof t !== "string" || !TYPE_URL_RE.test(t)) throw new Error(`Invalid rule: bad message type "${t}"`);
+    if (NEVER_AUTO_APPROVED.has(t)) throw new Error(`Invalid rule: ${t} can't be auto-approved`);
+  }
+
+  const contracts = [...new Set<string>(Array.isArray(raw.contracts) ? raw.contracts : [])];
+  for (const c of contracts) {
+    if (typeof c !== "string" || !/^[a-z0-9]+1[a-z0-9]{38,}$/.test(c)) {
+      throw new Error(`Invalid rule: bad contract address "${c}"`);
+    }
+  }
+  if (messageTypes.some((t) => CONTRACT_MESSAGES.has(t)) && contracts.length === 0) {
+    throw new Error("Invalid rule: list the contracts that contract messages may call");
+  }
+
+  const rule: AutoApprovalRule = {
+    messageTypes: messageTypes.sort(),
+    contracts: contracts.sort(),
+    maxSpendPerTx: validCaps(raw.maxSpendPerTx, "maxSpendPerTx"),
+    maxSpendPerDay: validCaps(raw.maxSpendPerDay, "maxSpendPerDay"),
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : now,
+  };
+
+  if (raw.hours !== undefined && raw.hours !== null) {
+    const { start, end } = raw.hours;
+    const hour = (h: unknown) => Number.isInteger(h) && (h as number) >= 0 && (h as number) <= 23;
+    if (!hour(start) || !hour(end) || start === end) throw new Error("Invalid rule: hours must be two different hours 0-23");
+    rule.hours = { start, end };
+  }
+  if (raw.expiresAt !== undefined && raw.expiresAt !== null) {
+    if (typeof raw.expiresAt !== "number" || raw.expiresAt <= now) throw new Error("Invalid rule: expiry must be in the future");
+    rule.expiresAt = raw.expiresAt;
+  }
+  return rule;
+}
+
+function add(totals: Map<string, bigint>, coins: readonly Coin[] | Coin | undefined | null): void {
+  for (const c of Array.isArray(coins) ? coins : coins ? [coins] : []) {
+    if (!c?.denom || !AMOUNT_RE.test(String(c.amount))) continue;
+    totals.set(c.denom, (totals.get(c.denom) ?? 0n) + BigInt(c.amount));
+  }
+}
+
+/** Coins leaving `signer`'s account through `messages` plus the fee. */
+export function signerOutflows(signer: string, messages: AutoApprovalMessage[], fee: Coin[]): Coin[] {
+  const totals = new Map<string, bigint>();
+  for (const { typeUrl, value: v } of messages) {
+    if (!v) continue;
+    switch (typeUrl) {
+      case "/cosmos.bank.v1beta1.MsgSend":
+        if (v.fromAddress === signer) add(totals, v.amount);
+        break;
+      case "/cosmos.bank.v1beta1.MsgMultiSend":
+        for (const input of v.inputs ?? []) if (input.address === signer) add(totals, input.coins);
+        break;
+      case "/cosmos.staking.v1beta1.MsgDelegate":
+        if (v.delegatorAddress === signer) add(totals, v.amount);
+        break;
+      case "/cosmwasm.wasm.v1.MsgExecuteContract":
+      case "/cosmwasm.wasm.v1.MsgInstantiateContract":
+      case "/cosmwasm.wasm.v1.MsgInstantiateContract2":
+        if (v.sender === signer) add(totals, v.funds);
+        break;
+      case "/ibc.applications.transfer.v1.MsgTransfer":
+        if (v.sender === signer) add(totals, v.token);
+        break;
+      case "/cosmos.distribution.v1beta1.MsgFundCommunityPool":
+        if (v.depositor === signer) add(totals, v.amount);
+        break;
+      case "/cosmos.gov.v1beta1.MsgDeposit":
+      case "/cosmos.gov.v1.MsgDeposit":
+        if (v.depositor === signer) add(totals, v.amount);
+        break;
+      case "/cosmos.gov.v1beta1.MsgSubmitProposal":
+      case "/cosmos.gov.v1.MsgSubmitProposal":
+        if (v.proposer === signer) add(totals, v.initialDeposit);
+        break;
+    }
+  }
+  add(totals, fee);
+  return toCoins(totals);
+}
+
+/** Per-denom totals of `coins`. */
+export function sumCoins(coins: Coin[]): Coin[] {
+  const totals = new Map<string, bigint>();
+  add(totals, coins);
+  return toCoins(totals);
+}
+
+function toCoins(totals: Map<string, bigint>): Coin[] {
+  return [...totals.entries()]
+    .filter(([, amount]) => amount > 0n)
+    .map(([denom, amount]) => ({ denom, amount: amount.toString() }))
+    .sort((a, b) => a.denom.localeCompare(b.denom));
+}
+
+/** Local calendar day used for the daily caps. */
+export function spendDay(now: number): string {
+  const d = new Date(now);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function inHours(hours: { start: number; end: number }, now: number): boolean {
+  const h = new Date(now).getHours();
+  return hours.start < hours.end ? h >= hours.start && h < hours.end : h >= hours.start || h < hours.end;
+}
+
+function contractOf(msg: AutoApprovalMessage): string | undefined {
+  return msg.value?.contract;
+}
+
+/**
+ * Decide whether a sign request qualifies for auto-approval. `spent` is the
+ * origin's spend so far (ignored when it's from another day).
+ */
+export function evaluateAutoApproval(
+  rule: AutoApprovalRule,
+  request: { signer: string; messages: AutoApprovalMessage[]; fee: Coin[] },
+  spent: DailySpend | undefined,
+  now = Date.now(),
+): AutoApprovalDecision {
+  if (rule.expiresAt !== undefined && now >= rule.expiresAt) return { approved: false, reason: "rule expired" };
+  if (rule.hours && !inHours(rule.hours, now)) return { approved: false, reason: "outside allowed hours" };
+  if (request.messages.length === 0) return { approved: false, reason: "no messages" };
+
+  for (const msg of request.messages) {
+    if (NEVER_AUTO_APPROVED.has(msg.typeUrl) || !rule.messageTypes.includes(msg.typeUrl)) {
+      return { approved: false, reason: `${msg.typeUrl} isn't allowed` };
+    }
+    if (CONTRACT_MESSAGES.has(msg.typeUrl) && !rule.contracts.includes(contractOf(msg) ?? "")) {
+      return { approved: false, reason: `contract ${contractOf(msg) ?? "(none)"} isn't allowed` };
+    }
+  }
+
+  const spend = signerOutflows(request.signer, request.messages, request.fee);
+  const today = spent?.day === spendDay(now) ? spent.spent : {};
+  for (const { denom, amount } of spend) {
+    const perTx = rule.maxSpendPerTx[denom];
+    if (perTx === undefined) return { approved: false, reason: `spends ${denom}, which has no limit` };
+    if (BigInt(amount) > BigInt(perTx)) return { approved: false, reason: `${denom} spend is over the per-transaction limit` };
+    const perDay = rule.maxSpendPerDay[denom];
+    if (perDay !== undefined && BigInt(today[denom] ?? "0") + BigInt(amount) > BigInt(perDay)) {
+      return { approved: false, reason: `${denom} spend is over the daily limit` };
+    }
+  }
+  return { approved: true, spend };
+}
+
+/** Add an approved spend to the origin's running daily total. */
+export function recordSpend(spent: DailySpend | undefined, spend: Coin[], now = Date.now()): DailySpend {
+  const day = spendDay(now);
+  const totals: Record<string, string> = spent?.day === day ? { ...spent.spent } : {};
+  for (const { denom, amount } of spend) {
+    totals[denom] = (BigInt(totals[denom] ?? "0") + BigInt(amount)).toString();
+  }
+  return { day, spent: totals };
+}
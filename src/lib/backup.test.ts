@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  sealBackup,
+  parseBackupFile,
+  openBackup,
+  validateBackupData,
+  diffBackup,
+  BACKUP_FORMAT,
+  type BackupData,
+} from "./backup";
+import type { WalletEntry } from "./storage";
+
+function wallet(address: string, extra: Partial<WalletEntry> = {}): WalletEntry {
+  return { name: address, address, ciphertext: "c", salt: "s", iv: "i", ...extra };
+}
+
+function data(overrides: Partial<BackupData> = {}): BackupData {
+  return {
+    wallets: [],
+    addressBook: [],
+    connectedSites: [],
+    rpc: { provider: "gonka", endpoint: null, apiKey: null },
+    ...overrides,
+  };
+}
+
+describe("backup file – seal / parse / open", () => {
+  const password = "backup-password";
+
+  it("round-trips the payload through the encrypted file", async () => {
+    const payload = data({
+      wallets: [wallet("gonka1aaa")],
+      addressBook: [{ name: "Ops", address: "gonka1bbb" }],
+    });
+    const file = await sealBackup(payload, password);
+    const parsed = parseBackupFile(JSON.stringify(file));
+    expect(parsed.format).toBe(BACKUP_FORMAT);
+    expect(await openBackup(parsed, password)).toEqual(payload);
+  });
+
+  it("rejects a wrong password", async () => {
+    const file = await sealBackup(data(), password);
+    await expect(openBackup(file, "nope")).rejects.toThrow("Wrong password");
+  });
+
+  it("rejects files that aren't backups", () => {
+    expect(() => parseBackupFile("not json")).toThrow("not valid JSON");
+    expect(() => parseBackupFile(JSON.stringify({ format: "other" }))).toThrow("Not a GG Wallet backup");
+    expect(() =>
+      parseBackupFile(JSON.stringify({ format: BACKUP_FORMAT, version: 99, ciphertext: "a", salt: "b", iv: "c" }))
+    ).toThrow("newer version");
+    expect(() => parseBackupFile(JSON.stringify({ format: BACKUP_FORMAT, version: 1 }))).toThrow("incomplete");
+  });
+});
+
+describe("validateBackupData", () => {
+  it("requires wallet entries to carry their encrypted key", () => {
+    expect(() => validateBackupData({ wallets: [wallet("gonka1aaa", { ciphertext: "" })] })).toThrow(
+      "missing its encrypted key"
+    );
+    // View-only and derived entries have no ciphertext of their own
+    expect(() =>
+      validateBackupData({
+        wallets: [
+          wallet("gonka1aaa", { ciphertext: "", viewOnly: true }),
+          wallet("gonka1bbb", { ciphertext: "", parentAddress: "gonka1ccc" }),
+        ],
+      })
+    ).not.toThrow();
+  });
+
+  it("defaults missing sections", () => {
+    const out = validateBackupData({ wallets: [] });
+    expect(out.addressBook).toEqual([]);
+    expect(out.connectedSites).toEqual([]);
+    expect(out.rpc).toEqual({ provider: "gonka", endpoint: null, apiKey: null });
+  });
+});
+
+describe("diffBackup", () => {
+  it("skips wallets whose address is already present", () => {
+    const current = data({ wallets: [wallet("gonka1aaa")] });
+    const incoming = data({ wallets: [wallet("gonka1aaa"), wallet("gonka1bbb")] });
+    const diff = diffBackup(current, incoming);
+    expect(diff.newWallets.map((w) => w.address)).toEqual(["gonka1bbb"]);
+    expect(diff.existingWallets.map((w) => w.address)).toEqual(["gonka1aaa"]);
+  });
+
+  it("keeps derived accounts only when their seed is present after the merge", () => {
+    const incoming = data({
+      wallets: [
+        wallet("gonka1seed"),
+        wallet("gonka1child", { ciphertext: "", parentAddress: "gonka1seed", hdIndex: 1 }),
+        wallet("gonka1lost", { ciphertext: "", parentAddress: "gonka1gone", hdIndex: 1 }),
+      ],
+    });
+    const diff = diffBackup(data(), incoming);
+    expect(diff.newWallets.map((w) => w.address)).toEqual(["gonka1seed", "gonka1child"]);
+    expect(diff.orphanedWallets.map((w) => w.address)).toEqual(["gonka1lost"]);
+  });
+
+  it("adds only new contacts and sites and flags RPC differences", () => {
+    const current = data({
+      addressBook: [{ name: "A", address: "gonka1aaa" }],
+      connectedSites: [{ origin: "https://a.example", chainIds: ["gonka-mainnet"], connectedAt: 1 }],
+    });
+    const incoming = data({
+      addressBook: [
+        { name: "A", address: "gonka1aaa" },
+        { name: "B", address: "gonka1bbb" },
+      ],
+      connectedSites: [
+        { origin: "https://a.example", chainIds: ["gonka-mainnet"], connectedAt: 1 },
+        { origin: "https://b.example", chainIds: ["gonka-mainnet"], connectedAt: 2 },
+      ],
+      rpc: { provider: "public", endpoint: null, apiKey: null },
+    });
+    const diff = diffBackup(current, incoming);
+    expect(diff.newContacts.map((c) => c.name)).toEqual(["B"]);
+    expect(diff.newSites.map((s) => s.origin)).toEqual(["https://b.example"]);
+    expect(diff.rpcChanged).toBe(true);
+    expect(diffBackup(current, current).rpcChanged).toBe(false);
+  });
+});
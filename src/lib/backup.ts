@@ -0,0 +1,269 @@
+/**
+ * Full-wallet backup file: every wallet entry plus address book, connected
+ * sites and RPC preferences, sealed with the wallet password using the same
+ * AES-GCM/PBKDF2 helpers as the keystore.
+ *
+ * Wallet entries are copied as stored (their secrets stay encrypted under
+ * the password the backup was made with); the keystore re-encrypts them on
+ * restore. Everything here is pure so it can be unit-tested.
+ */
+
+import { encrypt, decrypt } from "./crypto";
+import type {
+  WalletEntry,
+  AddressBookEntry,
+  ConnectedSite,
+  GonkaRpcProviderPref,
+} from "./storage";
+import type { RpcEndpoint } from "./rpc";
+
+export const BACKUP_FORMAT = "ggwallet-backup";
+export const BACKUP_VERSION = 1;
+
+export interface BackupRpcPrefs {
+  provider: GonkaRpcProviderPref;
+  /** Last picked public endpoint, if any. */
+  endpoint: RpcEndpoint | null;
+  /** Manually pasted rpc.gonka.gg key. The auto-issued key is per-install and not backed up. */
+  apiKey: string | null;
+}
+
+export interface BackupData {
+  wallets: WalletEntry[];
+  addressBook: AddressBookEntry[];
+  connectedSites: ConnectedSite[];
+  rpc: BackupRpcPrefs;
+}
+
+/** What is written to disk. */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  ciphertext: string;
+  salt: string;
+  iv: string;
+}
+
+/** What a restore would change, computed before anything is written. */
+export interface BackupDiff {
+  /** Wallets that will be added, in backup order. */
+  newWallets: WalletEntry[];
+  /** Wallets skipped because the address is already in this wallet. */
+  existingWallets: WalletEntry[];
+  /** Derived accounts skipped because their seed wallet is missing. */
+  orphanedWallets: WalletEntry[];
+  newContacts: AddressBookEntry[];
+  newSites: ConnectedSite[];
+  rpcChanged: boolean;
+}
+
+export async function sealBackup(data: BackupData, password: string): Promise<BackupFile> {
+  const { ciphertext, salt, iv } = await encrypt(JSON.stringify(data), password);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    ciphertext,
+    salt,
+    iv,
+  };
+}
+
+/**
+ * Parse and validate the outer file. Throws a user-facing error if the
+ * text isn't a GG Wallet backup.
+ */
+export function parseBackupFile(text: string): BackupFile {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Backup file is not valid JSON");
+  }
+  if (!raw || typeof raw !== "object" || raw.format !== BACKUP_FORMAT) {
+    throw new Error("Not a GG Wallet backup file");
+  }
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of GG Wallet");
+  }
+  for (const field of ["ciphertext", "salt", "iv"]) {
+    if (typeof raw[field] !== "string" || !raw[field]) {
+      throw new Error("Backup file is incomplete");
+    }
+  }
+  return raw as BackupFile;
+}
+
+/**
+ * Decrypt a parsed backup file and validate its contents.
+ */
+export async function openBackup(file: BackupFile, password: string): Promise<BackupData> {
+  let plaintext: string;
+  try {
+    plaintext = await decrypt(file.ciphertext, file.salt, file.iv, password);
+  } catch {
+    throw new Error("Wrong password or corrupted backup");
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(plaintext);
+  } catch {
+    throw new Error("Backup contents are corrupted");
+  }
+  return validateBackupData(data);
+}
+
+function isString(v: unknown): v is string {
+  return typeof v === "string";
+}
+
+function validateWalletEntry(w: any): WalletEntry {
+  if (!w || !isString(w.name) || !isString(w.address) || !w.address.startsWith("gonka1")) {
+    throw new Error("Backup contains an invalid wallet entry");
+  }
+  if (!isString(w.ciphertext) || !isString(w.salt) || !isString(w.iv)) {
+    throw new Error(`Backup wallet "${w.name}" is missing its encrypted key`);
+  }
+  const ownsSecret = !w.viewOnly && !w.parentAddress;
+  if (ownsSecret && !w.ciphertext) {
+    throw new Error(`Backup wallet "${w.name}" is missing its encrypted key`);
+  }
+  const p = w.passphrase;
+  if (p !== undefined && (!p || !isString(p.ciphertext) || !isString(p.salt) || !isString(p.iv))) {
+    throw new Error(`Backup wallet "${w.name}" has a malformed passphrase`);
+  }
+  return w as WalletEntry;
+}
+
+/**
+ * Validate the decrypted payload shape. Unknown fields are kept; missing
+ * optional sections default to empty.
+ */
+export function validateBackupData(data: any): BackupData {
+  if (!data || typeof data !== "object" || !Array.isArray(data.wallets)) {
+    throw new Error("Backup contents are corrupted");
+  }
+  const wallets = data.wallets.map(validateWalletEntry);
+
+  const addressBook = Array.isArray(data.addressBook) ? data.addressBook : [];
+  for (const e of addressBook) {
+    if (!e || !isString(e.name) || !isString(e.address)) {
+      throw new Error("Backup contains an invalid address book entry");
+    }
+  }
+
+  const connectedSites = Array.isArray(data.connectedSites) ? data.connectedSites : [];
+  for (const s of connectedSites) {
+    if (!s || !isString(s.origin) || !Array.isArray(s.chainIds)) {
+      throw new Error("Backup contains an invalid connected site");
+    }
+    if (
+      (s.permissions !== undefined && !Array.isArray(s.permissions)) ||
+      (s.wallets !== undefined && !Array.isArray(s.wallets)) ||
+      (s.expiresAt !== undefined && typeof s.expiresAt !== "number")
+    ) {
+      throw new Error(`Backup site ${s.origin} has malformed permissions`);
+    }
+  }
+
+  const rpc = data.rpc ?? {};
+  return {
+    wallets,
+    addressBook,
+    connectedSites,
+    rpc: {
+      provider: rpc.provider === "public" ? "public" : "gonka",
+      endpoint: rpc.endpoint && isString(rpc.endpoint.rpc) && isString(rpc.endpoint.rest) ? rpc.endpoint : null,
+      apiKey: isString(rpc.apiKey) && rpc.apiKey ? rpc.apiKey : null,
+    },
+  };
+}
+
+/**
+ * Compare a backup against the current wallet. Entries are matched by
+ * address (wallets, contacts) or origin (sites); nothing is ever replaced.
+ */
+export function diffBackup(current: BackupData, incoming: BackupData): BackupDiff {
+  const have = new Set(current.wallets.map((w) => w.address));
+  const newWallets: WalletEntry[] = [];
+  const existingWallets: WalletEntry[] = [];
+  const orphanedWallets: WalletEntry[] = [];
+
+  // Seeds first so derived accounts can find parents added by this restore
+  for (const w of incoming.wallets) {
+    if (w.parentAddress) continue;
+    if (have.has(w.address)) {
+      existingWallets.push(w);
+    } else {
+      newWallets.push(w);
+      have.add(w.address);
+    }
+  }
+  const seeds = new Set(
+    [...current.wallets, ...newWallets]
+      .filter((w) => !w.viewOnly && !w.parentAddress && w.keyType !== "privateKey")
+      .map((w) => w.address)
+  );
+  for (const w of incoming.wallets) {
+    if (!w.parentAddress) continue;
+    if (have.has(w.address)) {
+      existingWallets.push(w);
+    } else if (!seeds.has(w.parentAddress)) {
+      orphanedWallets.push(w);
+    } else {
+      newWallets.push(w);
+      have.add(w.address);
+    }
+  }
+
+  const contacts = new Set(current.addressBook.map((e) => e.address));
+  const sites = new Set(current.connectedSites.map((s) => s.origin));
+
+  return {
+    newWallets,
+    existingWallets,
+    orphanedWallets,
+    newContacts: incoming.addressBook.filter((e) => !contacts.has(e.address)),
+    newSites: incoming.connectedSites.filter((s) => !sites.has(s.origin)),
+    rpcChanged:
+      incoming.rpc.provider !== current.rpc.provider ||
+      incoming.rpc.apiKey !== current.rpc.apiKey ||
+      incoming.rpc.endpoint?.rpc !== current.rpc.endpoint?.rpc,
+  };
+}
+
+/** A wallet as shown in the restore preview — public fields only. */
+export interface BackupWalletSummary {
+  name: string;
+  address: string;
+  viewOnly?: boolean;
+  derived: boolean;
+}
+
+/** BackupDiff without any ciphertext, safe to hand to the popup. */
+export interface BackupDiffSummary {
+  newWallets: BackupWalletSummary[];
+  existingWallets: BackupWalletSummary[];
+  orphanedWallets: BackupWalletSummary[];
+  newContacts: AddressBookEntry[];
+  newSites: string[];
+  rpcChanged: boolean;
+}
+
+export function summarizeDiff(diff: BackupDiff): BackupDiffSummary {
+  const wallet = (w: WalletEntry): BackupWalletSummary => ({
+    name: w.name,
+    address: w.address,
+    viewOnly: w.viewOnly,
+    derived: !!w.parentAddress,
+  });
+  return {
+    newWallets: diff.newWallets.map(wallet),
+    existingWallets: diff.existingWallets.map(wallet),
+    orphanedWallets: diff.orphanedWallets.map(wallet),
+    newContacts: diff.newContacts,
+    newSites: diff.newSites.map((s) => s.origin),
+    rpcChanged: diff.rpcChanged,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { toBech32 } from "@cosmjs/encoding";
+import { batchTxMessages, moveBatchItem, validateBatch, type BatchItem } from "./batch";
+
+const ME = toBech32("gonka", new Uint8Array(20).fill(1));
+const FRIEND = toBech32("gonka", new Uint8Array(20).fill(2));
+const VALIDATOR = toBech32("gonkavaloper", new Uint8Array(20).fill(3));
+
+const ITEMS: BatchItem[] = [
+  { id: "a", kind: "withdraw_rewards", validators: [VALIDATOR] },
+  { id: "b", kind: "delegate", validator: VALIDATOR, amount: "5000" },
+  { id: "c", kind: "send", recipient: FRIEND, amount: "100", denom: "ngonka" },
+  { id: "d", kind: "execute", contract: FRIEND, msg: '{"ping":{}}', funds: [] },
+];
+
+describe("batch", () => {
+  it("builds the messages in order and reorders items", () => {
+    const msgs = batchTxMessages(ITEMS)(ME);
+    expect(msgs.map((m) => m.typeUrl.split(".").pop())).toEqual([
+      "MsgWithdrawDelegatorReward",
+      "MsgDelegate",
+      "MsgSend",
+      "MsgExecuteContract",
+    ]);
+    expect(msgs[1].value.delegatorAddress).toBe(ME);
+
+    expect(moveBatchItem(ITEMS, 2, -2).map((i) => i.id)).toEqual(["c", "a", "b", "d"]);
+    expect(moveBatchItem(ITEMS, 3, 1)).toBe(ITEMS);
+  });
+
+  it("points at the first invalid message", () => {
+    expect(validateBatch(ITEMS)).toBeNull();
+    expect(validateBatch([])).toMatch(/empty/);
+    expect(validateBatch([ITEMS[0], { ...ITEMS[1], validator: FRIEND } as BatchItem])).toBe(
+      "Message 2: Choose a validator",
+    );
+    expect(validateBatch([{ ...ITEMS[3], msg: "[1]" } as BatchItem])).toMatch(/JSON object/);
+    expect(validateBatch([{ ...ITEMS[2], amount: "0" } as BatchItem])).toMatch(/amount/);
+  });
+});
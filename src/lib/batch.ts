@@ -0,0 +1,147 @@
+/**
+ * Batch transactions: messages of different kinds composed in the popup
+ * and signed once, so they all apply or none do.
+ *
+ * The draft is kept in storage per wallet (KEYS.BATCH_DRAFTS) so the
+ * popup can close mid-composition; it is cleared once the batch lands.
+ */
+
+import { fromBech32 } from "@cosmjs/encoding";
+import { GONKA_BECH32_CONFIG, GONKA_BECH32_PREFIX } from "./gonka";
+import {
+  makeDelegateMsg,
+  makeExecuteContractMsg,
+  makeSendMsg,
+  makeUndelegateMsg,
+  makeVoteMsg,
+  makeWithdrawRewardsMsgs,
+  type TxMessages,
+  type VoteOption,
+} from "./cosmos";
+import type { Coin } from "./tx-preview";
+
+/** Amounts are in minimal denom. `id` only identifies the item in the draft. */
+export type BatchItem = { id: string } & (
+  | { kind: "send"; recipient: string; amount: string; denom: string }
+  | { kind: "delegate"; validator: string; amount: string }
+  | { kind: "undelegate"; validator: string; amount: string }
+  | { kind: "withdraw_rewards"; validators: string[] }
+  | { kind: "vote"; proposalId: string; option: VoteOption }
+  | {
+      kind: "execute";
+      contract: string;
+      /** The contract's execute message as JSON text, as typed. */
+      msg: string;
+      funds: Coin[];
+    }
+);
+
+export type BatchItemKind = BatchItem["kind"];
+
+export const BATCH_ITEM_LABELS: Record<BatchItemKind, string> = {
+  send: "Send",
+  delegate: "Delegate",
+  undelegate: "Undelegate",
+  withdraw_rewards: "Claim rewards",
+  vote: "Vote",
+  execute: "Execute contract",
+};
+
+/** Most messages one batch may hold. */
+export const MAX_BATCH_ITEMS = 50;
+
+const VOTE_OPTIONS: VoteOption[] = [
+  "VOTE_OPTION_YES",
+  "VOTE_OPTION_NO",
+  "VOTE_OPTION_ABSTAIN",
+  "VOTE_OPTION_NO_WITH_VETO",
+];
+
+function hasPrefix(address: string, prefix: string): boolean {
+  try {
+    return fromBech32(address).prefix === prefix;
+  } catch {
+    return false;
+  }
+}
+
+function isPositiveAmount(amount: string): boolean {
+  return /^\d+$/.test(amount) && BigInt(amount) > 0n;
+}
+
+/** Returns an error message, or null when the item can be signed. */
+export function validateBatchItem(item: BatchItem): string | null {
+  switch (item.kind) {
+    case "send":
+      if (!hasPrefix(item.recipient, GONKA_BECH32_PREFIX)) return "Recipient must be a Gonka address";
+      if (!item.denom) return "Choose a token";
+      return isPositiveAmount(item.amount) ? null : "Enter an amount";
+    case "delegate":
+    case "undelegate":
+      if (!hasPrefix(item.validator, GONKA_BECH32_CONFIG.bech32PrefixValAddr)) return "Choose a validator";
+      return isPositiveAmount(item.amount) ? null : "Enter an amount";
+    case "withdraw_rewards":
+      if (item.validators.length === 0) return "No validators to claim from";
+      return item.validators.every((v) => hasPrefix(v, GONKA_BECH32_CONFIG.bech32PrefixValAddr))
+        ? null
+        : "Invalid validator address";
+    case "vote":
+      if (!/^\d+$/.test(item.proposalId)) return "Enter a proposal number";
+      return VOTE_OPTIONS.includes(item.option) ? null : "Choose a vote";
+    case "execute": {
+      if (!hasPrefix(item.contract, GONKA_BECH32_PREFIX)) return "Contract must be a Gonka address";
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(item.msg);
+      } catch {
+        return "Execute message must be JSON";
+      }
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return "Execute message must be a JSON object";
+      return item.funds.every((f) => f.denom && isPositiveAmount(f.amount)) ? null : "Invalid funds";
+    }
+    default:
+      return "Unknown message kind";
+  }
+}
+
+/** Returns an error message for the first invalid item, or null when the batch can be signed. */
+export function validateBatch(items: BatchItem[]): string | null {
+  if (items.length === 0) return "The batch is empty";
+  if (items.length > MAX_BATCH_ITEMS) return `A batch can hold at most ${MAX_BATCH_ITEMS} messages`;
+  for (const [i, item] of items.entries()) {
+    const error = validateBatchItem(item);
+    if (error) return `Message ${i + 1}: ${error}`;
+  }
+  return null;
+}
+
+/** The items with the one at `index` moved by `delta` places (clamped to the list). */
+export function moveBatchItem(items: BatchItem[], index: number, delta: number): BatchItem[] {
+  const to = Math.min(Math.max(index + delta, 0), items.length - 1);
+  if (index < 0 || index >= items.length || to === index) return items;
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/** The batch's messages, in order, for broadcastTx. */
+export function batchTxMessages(items: BatchItem[]): TxMessages {
+  return (address) =>
+    items.flatMap((item) => {
+      switch (item.kind) {
+        case "send":
+          return [makeSendMsg(address, item.recipient, item.amount, item.denom)];
+        case "delegate":
+          return [makeDelegateMsg(address, item.validator, item.amount)];
+        case "undelegate":
+          return [makeUndelegateMsg(address, item.validator, item.amount)];
+        case "withdraw_rewards":
+          return makeWithdrawRewardsMsgs(address, item.validators);
+        case "vote":
+          return [makeVoteMsg(address, item.proposalId, item.option)];
+        case "execute":
+          return [makeExecuteContractMsg(address, item.contract, JSON.parse(item.msg), item.funds)];
+      }
+    });
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { reviewBroadcast } from "./broadcast-policy";
+
+const SEND = {
+  typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+  value: { fromAddress: "gonka1a", toAddress: "gonka1b", amount: [{ denom: "ngonka", amount: "500" }] },
+};
+const VOTE = { typeUrl: "/cosmos.gov.v1.MsgVote", value: { voter: "gonka1a", proposalId: 1n, option: 1 } };
+const FEE = [{ denom: "ngonka", amount: "100" }];
+
+describe("reviewBroadcast", () => {
+  it("passes transactions this wallet signed that don't move funds", () => {
+    expect(reviewBroadcast({ signers: ["gonka1a"], messages: [VOTE], fee: FEE }, true)).toEqual({
+      outflow: [],
+      fee: FEE,
+      reasons: [],
+    });
+  });
+
+  it("flags fund movements from a signer, foreign signatures and undecodable bytes", () => {
+    const send = reviewBroadcast({ signers: ["gonka1a"], messages: [SEND, VOTE], fee: FEE }, true);
+    expect(send.reasons).toEqual(["moves_funds"]);
+    expect(send.outflow).toEqual([{ denom: "ngonka", amount: "500" }]);
+
+    // Funds sent from an address that didn't sign aren't leaving a signer's account
+    expect(reviewBroadcast({ signers: ["gonka1c"], messages: [SEND], fee: FEE }, false).reasons).toEqual([
+      "foreign_signature",
+    ]);
+    expect(reviewBroadcast(null, true)).toEqual({ outflow: null, fee: [], reasons: ["undecodable"] });
+  });
+});
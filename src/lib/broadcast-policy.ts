@@ -0,0 +1,50 @@
+/**
+ * When a dApp's sendTx needs the user's approval.
+ *
+ * sendTx broadcasts a transaction the site has already signed, so there
+ * is nothing left to edit — only to allow or refuse. By default the user
+ * confirms broadcasts that move funds out of a signer's account, carry a
+ * signature this wallet didn't make in the current session, or can't be
+ * decoded. Sites marked as trusted (ConnectedSite.trustBroadcasts) skip
+ * the check.
+ */
+
+import type { Coin } from "./tx-preview";
+import { signerOutflows, sumCoins, type AutoApprovalMessage } from "./auto-approval";
+
+export type BroadcastReason = "moves_funds" | "foreign_signature" | "undecodable";
+
+export const BROADCAST_REASON_LABELS: Record<BroadcastReason, string> = {
+  moves_funds: "Sends funds out of the signing account",
+  foreign_signature: "Wasn't signed by this wallet since it was unlocked",
+  undecodable: "Couldn't be decoded",
+};
+
+export interface DecodedBroadcast {
+  /** Addresses of the transaction's signers, from their public keys. */
+  signers: string[];
+  messages: AutoApprovalMessage[];
+  fee: Coin[];
+}
+
+export interface BroadcastReview {
+  /** Coins the messages move out of the signers' accounts, fee excluded; null when undecodable. */
+  outflow: Coin[] | null;
+  fee: Coin[];
+  /** Why the broadcast needs approval; empty when it doesn't. */
+  reasons: BroadcastReason[];
+}
+
+export function reviewBroadcast(decoded: DecodedBroadcast | null, signedThisSession: boolean): BroadcastReview {
+  const reasons: BroadcastReason[] = [];
+  if (!decoded) {
+    reasons.push("undecodable");
+    if (!signedThisSession) reasons.push("foreign_signature");
+    return { outflow: null, fee: [], reasons };
+  }
+
+  const outflow = sumCoins(decoded.signers.flatMap((signer) => signerOutflows(signer, decoded.messages, [])));
+  if (outflow.length > 0) reasons.push("moves_funds");
+  if (!signedThisSession) reasons.push("foreign_signature");
+  return { outflow, fee: decoded.fee, reasons };
+}
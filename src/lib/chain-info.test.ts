@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { validateChainInfo, endpointHost } from "./chain-info";
+
+const OSMO = {
+  denom: "OSMO",
+  coinDenom: "OSMO",
+  coinMinimalDenom: "uosmo",
+  coinDecimals: 6,
+};
+
+function chainInfo(overrides: Record<string, any> = {}) {
+  return {
+    chainId: "osmosis-1",
+    chainName: "Osmosis",
+    rpc: "https://rpc.osmosis.zone/",
+    rest: "https://lcd.osmosis.zone",
+    bip44: { coinType: 118 },
+    bech32Config: {
+      bech32PrefixAccAddr: "osmo",
+      bech32PrefixAccPub: "osmopub",
+      bech32PrefixValAddr: "osmovaloper",
+    },
+    currencies: [OSMO],
+    feeCurrencies: [{ ...OSMO, gasPriceStep: { low: 0.0025, average: 0.025, high: 0.04 } }],
+    stakeCurrency: OSMO,
+    features: ["ibc-transfer"],
+    ...overrides,
+  };
+}
+
+describe("validateChainInfo", () => {
+  it("accepts a well-formed chain and keeps only known fields", () => {
+    const info = validateChainInfo({ ...chainInfo(), walletUrl: "https://evil.example" });
+    expect(info.chainId).toBe("osmosis-1");
+    expect(info.rpc).toBe("https://rpc.osmosis.zone");
+    expect(info.bech32Config).toEqual({
+      bech32PrefixAccAddr: "osmo",
+      bech32PrefixAccPub: "osmopub",
+      bech32PrefixValAddr: "osmovaloper",
+    });
+    expect(info.feeCurrencies[0]).toEqual({ coinDenom: "OSMO", coinMinimalDenom: "uosmo", coinDecimals: 6 });
+    expect(info).not.toHaveProperty("walletUrl");
+  });
+
+  it("rejects missing or malformed identifiers", () => {
+    expect(() => validateChainInfo(null)).toThrow(/expected an object/);
+    expect(() => validateChainInfo({})).toThrow(/missing chainId/);
+    expect(() => validateChainInfo(chainInfo({ chainId: "osmo 1" }))).toThrow(/chainId/);
+    expect(() => validateChainInfo(chainInfo({ chainName: "" }))).toThrow(/chainName/);
+  });
+
+  it("requires https endpoints without credentials", () => {
+    expect(() => validateChainInfo(chainInfo({ rpc: "http://rpc.osmosis.zone" }))).toThrow(/rpc must use https/);
+    expect(() => validateChainInfo(chainInfo({ rest: "not a url" }))).toThrow(/rest is not a valid URL/);
+    expect(() => validateChainInfo(chainInfo({ rpc: "https://u:p@rpc.osmosis.zone" }))).toThrow(/credentials/);
+  });
+
+  it("checks coin type, bech32 prefixes and currencies", () => {
+    expect(() => validateChainInfo(chainInfo({ bip44: { coinType: -1 } }))).toThrow(/coinType/);
+    expect(() => validateChainInfo(chainInfo({ bip44: { coinType: 2 ** 31 } }))).toThrow(/coinType/);
+    expect(() =>
+      validateChainInfo(chainInfo({ bech32Config: { bech32PrefixAccAddr: "Osmo" } }))
+    ).toThrow(/bech32PrefixAccAddr/);
+    expect(() => validateChainInfo(chainInfo({ currencies: [] }))).toThrow(/currencies must be a non-empty list/);
+    expect(() =>
+      validateChainInfo(chainInfo({ feeCurrencies: [{ ...OSMO, coinDecimals: 40 }] }))
+    ).toThrow(/feeCurrencies\[0\]\.coinDecimals/);
+    expect(() =>
+      validateChainInfo(chainInfo({ stakeCurrency: { ...OSMO, coinMinimalDenom: "u" } }))
+    ).toThrow(/stakeCurrency\.coinMinimalDenom/);
+  });
+});
+
+describe("endpointHost", () => {
+  it("returns the host, or the input when it isn't a URL", () => {
+    expect(endpointHost("https://rpc.osmosis.zone:443/")).toBe("rpc.osmosis.zone");
+    expect(endpointHost("https://rpc.example.com:26657")).toBe("rpc.example.com:26657");
+    expect(endpointHost("garbage")).toBe("garbage");
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Validation for Keplr-style `ChainInfo` objects suggested by dApps via
+ * `experimentalSuggestChain`.
+ *
+ * A suggested chain decides which RPC/REST endpoints we talk to and which
+ * bech32 prefix / BIP44 coin type we derive keys with, so the dApp-provided
+ * object is checked field by field and reduced to the fields we understand
+ * before it's shown for approval or persisted. Everything here is pure so
+ * it can be unit-tested.
+ */
+
+export interface ChainCurrency {
+  coinDenom: string;
+  coinMinimalDenom: string;
+  coinDecimals: number;
+  coinGeckoId?: string;
+}
+
+export interface Bech32Config {
+  bech32PrefixAccAddr: string;
+  bech32PrefixAccPub?: string;
+  bech32PrefixValAddr?: string;
+  bech32PrefixValPub?: string;
+  bech32PrefixConsAddr?: string;
+  bech32PrefixConsPub?: string;
+}
+
+export interface SuggestedChainInfo {
+  chainId: string;
+  chainName: string;
+  rpc: string;
+  rest: string;
+  bip44: { coinType: number };
+  bech32Config: Bech32Config;
+  currencies: ChainCurrency[];
+  feeCurrencies: ChainCurrency[];
+  stakeCurrency?: ChainCurrency;
+  features?: string[];
+}
+
+const CHAIN_ID_RE = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,63}$/;
+const BECH32_PREFIX_RE = /^[a-z][a-z0-9]{0,31}$/;
+// Cosmos SDK denom rule (sdk.Coin regex), e.g. "uatom", "ibc/27394F...".
+const DENOM_RE = /^[a-zA-Z][a-zA-Z0-9/:._-]{2,127}$/;
+const MAX_CHAIN_NAME = 64;
+const MAX_CURRENCIES = 32;
+const MAX_DECIMALS = 18;
+const HARDENED_LIMIT = 0x80000000;
+
+const OPTIONAL_PREFIXES = [
+  "bech32PrefixAccPub",
+  "bech32PrefixValAddr",
+  "bech32PrefixValPub",
+  "bech32PrefixConsAddr",
+  "bech32PrefixConsPub",
+] as const;
+
+function invalid(reason: string): never {
+  throw new Error(`Invalid chain info: ${reason}`);
+}
+
+function isPlainObject(v: unknown): v is Record<string, any> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Endpoints must be absolute https URLs without embedded credentials. */
+function validateEndpoint(value: unknown, field: string): string {
+  if (typeof value !== "string") invalid(`${field} must be a URL`);
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    invalid(`${field} is not a valid URL`);
+  }
+  if (url.protocol !== "https:") invalid(`${field} must use https`);
+  if (url.username || url.password) invalid(`${field} must not contain credentials`);
+  return value.replace(/\/+$/, "");
+}
+
+function validateCurrency(value: unknown, field: string): ChainCurrency {
+  if (!isPlainObject(value)) invalid(`${field} must be an object`);
+  const { coinDenom, coinMinimalDenom, coinDecimals, coinGeckoId } = value;
+  if (typeof coinDenom !== "string" || !coinDenom.trim() || coinDenom.length > 32) {
+    invalid(`${field}.coinDenom is missing or too long`);
+  }
+  if (typeof coinMinimalDenom !== "string" || !DENOM_RE.test(coinMinimalDenom)) {
+    invalid(`${field}.coinMinimalDenom is not a valid denom`);
+  }
+  if (!Number.isInteger(coinDecimals) || coinDecimals < 0 || coinDecimals > MAX_DECIMALS) {
+    invalid(`${field}.coinDecimals must be an integer between 0 and ${MAX_DECIMALS}`);
+  }
+  const currency: ChainCurrency = { coinDenom: coinDenom.trim(), coinMinimalDenom, coinDecimals };
+  if (typeof coinGeckoId === "string" && coinGeckoId) currency.coinGeckoId = coinGeckoId;
+  return currency;
+}
+
+function validateCurrencyList(value: unknown, field: string): ChainCurrency[] {
+  if (!Array.isArray(value) || value.length === 0) invalid(`${field} must be a non-empty list`);
+  if (value.length > MAX_CURRENCIES) invalid(`${field} has more than ${MAX_CURRENCIES} entries`);
+  return value.map((c, i) => validateCurrency(c, `${field}[${i}]`));
+}
+
+/**
+ * Check a dApp-provided ChainInfo and return a normalized copy containing
+ * only the known fields. Throws an Error describing the first problem.
+ */
+export function validateChainInfo(raw: unknown): SuggestedChainInfo {
+  if (!isPlainObject(raw)) invalid("expected an object");
+
+  const { chainId, chainName, bip44, bech32Config, stakeCurrency, features } = raw;
+
+  if (typeof chainId !== "string" || !chainId) invalid("missing chainId");
+  if (!CHAIN_ID_RE.test(chainId)) invalid(`chainId "${chainId}" contains unsupported characters`);
+  if (typeof chainName !== "string" || !chainName.trim() || chainName.length > MAX_CHAIN_NAME) {
+    invalid("chainName is missing or too long");
+  }
+
+  const rpc = validateEndpoint(raw.rpc, "rpc");
+  const rest = validateEndpoint(raw.rest, "rest");
+
+  if (!isPlainObject(bip44)) invalid("missing bip44");
+  const { coinType } = bip44;
+  if (!Number.isInteger(coinType) || coinType < 0 || coinType >= HARDENED_LIMIT) {
+    invalid("bip44.coinType must be a non-negative integer");
+  }
+
+  if (!isPlainObject(bech32Config)) invalid("missing bech32Config");
+  const accPrefix = bech32Config.bech32PrefixAccAddr;
+  if (typeof accPrefix !== "string" || !BECH32_PREFIX_RE.test(accPrefix)) {
+    invalid("bech32Config.bech32PrefixAccAddr is not a valid bech32 prefix");
+  }
+  const bech32: Bech32Config = { bech32PrefixAccAddr: accPrefix };
+  for (const key of OPTIONAL_PREFIXES) {
+    const prefix = bech32Config[key];
+    if (prefix === undefined) continue;
+    if (typeof prefix !== "string" || !BECH32_PREFIX_RE.test(prefix)) {
+      invalid(`bech32Config.${key} is not a valid bech32 prefix`);
+    }
+    bech32[key] = prefix;
+  }
+
+  const info: SuggestedChainInfo = {
+    chainId,
+    chainName: chainName.trim(),
+    rpc,
+    rest,
+    bip44: { coinType },
+    bech32Config: bech32,
+    currencies: validateCurrencyList(raw.currencies, "currencies"),
+    feeCurrencies: validateCurrencyList(raw.feeCurrencies, "feeCurrencies"),
+  };
+
+  if (stakeCurrency !== undefined) {
+    info.stakeCurrency = validateCurrency(stakeCurrency, "stakeCurrency");
+  }
+  if (features !== undefined) {
+    if (!Array.isArray(features) || !features.every((f) => typeof f === "string")) {
+      invalid("features must be a list of strings");
+    }
+    info.features = features.slice(0, MAX_CURRENCIES);
+  }
+
+  return info;
+}
+
+/** Host part of an endpoint URL, for compact display. */
+export function endpointHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
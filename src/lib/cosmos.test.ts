@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { toHex } from "@cosmjs/encoding";
+import { deriveAddress, derivePrivateKey, parsePrivateKeyHex, makeOfflineSigner } from "./cosmos";
+
+// Well-known test mnemonic — never use with real funds
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+describe("parsePrivateKeyHex", () => {
+  const hex = "1".repeat(64);
+
+  it("accepts 64 hex characters, with or without 0x", () => {
+    expect(toHex(parsePrivateKeyHex(hex))).toBe(hex);
+    expect(toHex(parsePrivateKeyHex(`0x${hex}`))).toBe(hex);
+    expect(toHex(parsePrivateKeyHex(`  ${hex.toUpperCase()}\n`))).toBe(hex);
+  });
+
+  it("rejects wrong length or non-hex input", () => {
+    expect(() => parsePrivateKeyHex("abcd")).toThrow("64 hex characters");
+    expect(() => parsePrivateKeyHex("z".repeat(64))).toThrow("64 hex characters");
+  });
+});
+
+describe("wallet keys", () => {
+  it("a private-key wallet resolves to the same account as its source mnemonic", async () => {
+    const privateKey = await derivePrivateKey({ mnemonic: MNEMONIC });
+    const fromMnemonic = await deriveAddress({ mnemonic: MNEMONIC });
+    const fromKey = await deriveAddress({ privateKey });
+
+    expect(fromKey).toBe(fromMnemonic);
+    expect(fromKey.startsWith("gonka1")).toBe(true);
+    expect(await derivePrivateKey({ privateKey })).toBe(privateKey);
+  });
+
+  it("a BIP39 passphrase derives a different account, consistently across helpers", async () => {
+    const plain = await deriveAddress({ mnemonic: MNEMONIC });
+    const key = { mnemonic: MNEMONIC, passphrase: "TREZOR" };
+    const withPassphrase = await deriveAddress(key);
+    expect(withPassphrase).not.toBe(plain);
+
+    // The signer and the raw-key path must agree on the passphrase seed
+    const privateKey = await derivePrivateKey(key);
+    expect(await deriveAddress({ privateKey })).toBe(withPassphrase);
+    expect(await deriveAddress({ mnemonic: MNEMONIC, passphrase: "" })).toBe(plain);
+  });
+
+  it("different HD indices derive different accounts", async () => {
+    const first = await deriveAddress({ mnemonic: MNEMONIC, index: 0 });
+    const second = await deriveAddress({ mnemonic: MNEMONIC, index: 1 });
+    expect(second).not.toBe(first);
+  });
+
+  it("private-key signers use the requested bech32 prefix", async () => {
+    const privateKey = await derivePrivateKey({ mnemonic: MNEMONIC });
+    const signer = await makeOfflineSigner({ privateKey }, "cosmos");
+    const [account] = await signer.getAccounts();
+    expect(account.address.startsWith("cosmos1")).toBe(true);
+  });
+});
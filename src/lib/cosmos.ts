@@ -1,15 +1,52 @@
-import { StargateClient, SigningStargateClient, GasPrice, coin, defaultRegistryTypes } from "@cosmjs/stargate";
-import { DirectSecp256k1HdWallet, Registry } from "@cosmjs/proto-signing";
-import { Slip10RawIndex, HdPath, Bip39, EnglishMnemonic, Slip10, Slip10Curve, stringToPath } from "@cosmjs/crypto";
-import { MsgExecuteContract, MsgInstantiateContract } from "cosmjs-types/cosmwasm/wasm/v1/tx";
+import {
+  StargateClient,
+  SigningStargateClient,
+  GasPrice,
+  coin,
+  defaultRegistryTypes,
+  type DeliverTxResponse,
+  type StdFee,
+} from "@cosmjs/stargate";
+import {
+  DirectSecp256k1HdWallet,
+  DirectSecp256k1Wallet,
+  Registry,
+  type EncodeObject,
+  type OfflineDirectSigner,
+} from "@cosmjs/proto-signing";
+import { Slip10RawIndex, HdPath, Bip39, EnglishMnemonic, Slip10, Slip10Curve } from "@cosmjs/crypto";
+import { fromHex } from "@cosmjs/encoding";
+import {
+  MsgExecuteContract,
+  MsgInstantiateContract,
+  MsgInstantiateContract2,
+  MsgMigrateContract,
+  MsgUpdateAdmin,
+  MsgClearAdmin,
+  MsgStoreCode,
+} from "cosmjs-types/cosmwasm/wasm/v1/tx";
 import { MsgBeginRedelegate } from "cosmjs-types/cosmos/staking/v1beta1/tx";
-import { GONKA_DENOM, GONKA_BECH32_PREFIX, GONKA_COIN_TYPE, GONKA_DECIMALS, GONKA_DISPLAY_DENOM } from "./gonka";
+import {
+  GONKA_DENOM,
+  GONKA_BECH32_PREFIX,
+  GONKA_COIN_TYPE,
+  GONKA_DECIMALS,
+  GONKA_DISPLAY_DENOM,
+  GONKA_GAS_PRICE,
+} from "./gonka";
 import { getActiveEndpoint } from "./rpc";
+import { txFee, txGasLimit, validateTxOptions, type TxOptions } from "./tx-options";
 
-const registry = new Registry([
+/** Protobuf registry for every message type the wallet signs or decodes. */
+export const registry = new Registry([
   ...defaultRegistryTypes,
   ["/cosmwasm.wasm.v1.MsgExecuteContract", MsgExecuteContract],
   ["/cosmwasm.wasm.v1.MsgInstantiateContract", MsgInstantiateContract],
+  ["/cosmwasm.wasm.v1.MsgInstantiateContract2", MsgInstantiateContract2],
+  ["/cosmwasm.wasm.v1.MsgMigrateContract", MsgMigrateContract],
+  ["/cosmwasm.wasm.v1.MsgUpdateAdmin", MsgUpdateAdmin],
+  ["/cosmwasm.wasm.v1.MsgClearAdmin", MsgClearAdmin],
+  ["/cosmwasm.wasm.v1.MsgStoreCode", MsgStoreCode],
   ["/cosmos.staking.v1beta1.MsgBeginRedelegate", MsgBeginRedelegate],
 ]);
 
@@ -28,15 +65,72 @@ let _client: StargateClient | null = null;
 let _clientRpc: string | null = null;
 
 /**
- * HD path for Gonka: m/44'/1200'/0'/0/0
+ * Secret material for one account derived from a seed: the mnemonic, an
+ * optional BIP39 passphrase ("25th word"), and the BIP44 account / address
+ * index to derive under it. Both indices default to 0, which is the path
+ * `inferenced keys add` uses (m/44'/1200'/0'/0/0).
  */
-const GONKA_HD: HdPath = [
-  Slip10RawIndex.hardened(44),
-  Slip10RawIndex.hardened(GONKA_COIN_TYPE),
-  Slip10RawIndex.hardened(0),
-  Slip10RawIndex.normal(0),
-  Slip10RawIndex.normal(0),
-];
+export interface MnemonicKey {
+  mnemonic: string;
+  passphrase?: string;
+  account?: number;
+  index?: number;
+}
+
+/** Secret material for an account imported as a raw secp256k1 private key. */
+export interface PrivateKeyKey {
+  privateKey: Uint8Array;
+}
+
+export type WalletKey = MnemonicKey | PrivateKeyKey;
+
+export function isPrivateKeyKey(key: WalletKey): key is PrivateKeyKey {
+  return "privateKey" in key;
+}
+
+/**
+ * Parse a hex-encoded secp256k1 private key (optionally 0x-prefixed), the
+ * same format `exportPrivateKeyHex` produces. Throws on malformed input.
+ */
+export function parsePrivateKeyHex(hex: string): Uint8Array {
+  const clean = hex.trim().replace(/^0x/i, "");
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new Error("Private key must be 64 hex characters");
+  }
+  return fromHex(clean);
+}
+
+/**
+ * Build a BIP44 path m/44'/{coinType}'/{account}'/0/{index}.
+ */
+export function makeHdPath(coinType: number, account = 0, index = 0): HdPath {
+  return [
+    Slip10RawIndex.hardened(44),
+    Slip10RawIndex.hardened(coinType),
+    Slip10RawIndex.hardened(account),
+    Slip10RawIndex.normal(0),
+    Slip10RawIndex.normal(index),
+  ];
+}
+
+/**
+ * Build an offline signer for a wallet key. Mnemonic keys derive under
+ * the given coin type; private keys are used as-is for every chain.
+ */
+export async function makeOfflineSigner(
+  key: WalletKey,
+  prefix: string = GONKA_BECH32_PREFIX,
+  coinType: number = GONKA_COIN_TYPE
+): Promise<OfflineDirectSigner> {
+  if (isPrivateKeyKey(key)) {
+    return DirectSecp256k1Wallet.fromKey(key.privateKey, prefix);
+  }
+  return DirectSecp256k1HdWallet.fromMnemonic(key.mnemonic, {
+    bip39Password: key.passphrase ?? "",
+    prefix,
+    hdPaths: [makeHdPath(coinType, key.account ?? 0, key.index ?? 0)],
+  });
+}
 
 /**
  * Get a read-only Stargate client (singleton, reconnects if needed).
@@ -59,46 +153,250 @@ export function resetClient(): void {
 }
 
 /**
- * Get a signing client from a mnemonic.
+ * Get a signing client for a wallet key.
  */
-export async function getSigningClient(mnemonic: string): Promise<{
+export async function getSigningClient(key: WalletKey): Promise<{
   client: SigningStargateClient;
   address: string;
 }> {
-  const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
-    prefix: GONKA_BECH32_PREFIX,
-    hdPaths: [GONKA_HD],
-  });
+  const wallet = await makeOfflineSigner(key);
 
   const [account] = await wallet.getAccounts();
   const { rpc } = await getActiveEndpoint();
   const client = await SigningStargateClient.connectWithSigner(rpc, wallet, {
     registry,
-    gasPrice: GasPrice.fromString(`0${GONKA_DENOM}`),
+    gasPrice: GasPrice.fromString(GONKA_GAS_PRICE),
   });
 
   return { client, address: account.address };
 }
 
+// ---- Transaction builder ----
+//
+// Every transaction the wallet signs itself goes through broadcastTx:
+// the messages are simulated for gas unless a gas limit is given, and
+// the fee, memo, timeout height and fee granter come from TxOptions
+// (lib/tx-options).
+
+/** Builds a transaction's messages for the signing address. */
+export type TxMessages = (address: string) => EncodeObject[];
+
+export interface TxEstimate {
+  /** Gas used in simulation; null when the options fix the gas limit. */
+  gasUsed: number | null;
+  fee: StdFee;
+}
+
+async function prepareTx(key: WalletKey, messages: TxMessages, options: TxOptions) {
+  const invalid = validateTxOptions(options);
+  if (invalid) throw new Error(invalid);
+
+  const { client, address } = await getSigningClient(key);
+  try {
+    const msgs = messages(address);
+    const gasUsed = options.gasLimit === undefined ? await client.simulate(address, msgs, options.memo) : null;
+    const fee = txFee(txGasLimit(gasUsed ?? 0, options), options);
+    return { client, address, msgs, gasUsed, fee };
+  } catch (e) {
+    client.disconnect();
+    throw e;
+  }
+}
+
+/** Simulate a transaction and work out its fee, for the "review fee" step. */
+export async function estimateTx(key: WalletKey, messages: TxMessages, options: TxOptions = {}): Promise<TxEstimate> {
+  const { client, gasUsed, fee } = await prepareTx(key, messages, options);
+  client.disconnect();
+  return { gasUsed, fee };
+}
+
+/** Sign and broadcast a transaction. The caller checks the result code. */
+export async function broadcastTx(
+  key: WalletKey,
+  messages: TxMessages,
+  options: TxOptions = {},
+): Promise<DeliverTxResponse> {
+  const { client, address, msgs, fee } = await prepareTx(key, messages, options);
+  try {
+    return await client.signAndBroadcast(
+      address,
+      msgs,
+      fee,
+      options.memo ?? "",
+      options.timeoutHeight ? BigInt(options.timeoutHeight) : undefined,
+    );
+  } finally {
+    client.disconnect();
+  }
+}
+
+export function makeSendMsg(from: string, to: string, amount: string, denom: string = GONKA_DENOM): EncodeObject {
+  return {
+    typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+    value: { fromAddress: from, toAddress: to, amount: [coin(amount, denom)] },
+  };
+}
+
+/** One sender paying several recipients; `outputs` may mix denoms. */
+export function makeMultiSendMsg(
+  from: string,
+  outputs: { address: string; coins: { denom: string; amount: string }[] }[],
+): EncodeObject {
+  const totals = new Map<string, bigint>();
+  for (const o of outputs) {
+    for (const c of o.coins) totals.set(c.denom, (totals.get(c.denom) ?? 0n) + BigInt(c.amount));
+  }
+  // The SDK rejects coin lists that aren't sorted by denom
+  const byDenom = (a: { denom: string }, b: { denom: string }) => (a.denom < b.denom ? -1 : a.denom > b.denom ? 1 : 0);
+  return {
+    typeUrl: "/cosmos.bank.v1beta1.MsgMultiSend",
+    value: {
+      inputs: [
+        {
+          address: from,
+          coins: [...totals].map(([denom, amount]) => coin(amount.toString(), denom)).sort(byDenom),
+        },
+      ],
+      outputs: outputs.map((o) => ({
+        address: o.address,
+        coins: o.coins.map((c) => coin(c.amount, c.denom)).sort(byDenom),
+      })),
+    },
+  };
+}
+
+export function makeDelegateMsg(delegator: string, validator: string, amount: string): EncodeObject {
+  return {
+    typeUrl: "/cosmos.staking.v1beta1.MsgDelegate",
+    value: { delegatorAddress: delegator, validatorAddress: validator, amount: coin(amount, GONKA_DENOM) },
+  };
+}
+
+export function makeUndelegateMsg(delegator: string, validator: string, amount: string): EncodeObject {
+  return {
+    typeUrl: "/cosmos.staking.v1beta1.MsgUndelegate",
+    value: { delegatorAddress: delegator, validatorAddress: validator, amount: coin(amount, GONKA_DENOM) },
+  };
+}
+
+export function makeRedelegateMsg(delegator: string, src: string, dst: string, amount: string): EncodeObject {
+  return {
+    typeUrl: "/cosmos.staking.v1beta1.MsgBeginRedelegate",
+    value: {
+      delegatorAddress: delegator,
+      validatorSrcAddress: src,
+      validatorDstAddress: dst,
+      amount: coin(amount, GONKA_DENOM),
+    },
+  };
+}
+
+export function makeWithdrawRewardsMsgs(delegator: string, validators: string[]): EncodeObject[] {
+  return validators.map((validator) => ({
+    typeUrl: "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward",
+    value: { delegatorAddress: delegator, validatorAddress: validator },
+  }));
+}
+
+const VOTE_OPTION_VALUES: Record<VoteOption, number> = {
+  VOTE_OPTION_YES: 1,
+  VOTE_OPTION_ABSTAIN: 2,
+  VOTE_OPTION_NO: 3,
+  VOTE_OPTION_NO_WITH_VETO: 4,
+};
+
+export function makeVoteMsg(voter: string, proposalId: string, option: VoteOption): EncodeObject {
+  return {
+    typeUrl: "/cosmos.gov.v1beta1.MsgVote",
+    value: { proposalId: BigInt(proposalId), voter, option: VOTE_OPTION_VALUES[option] },
+  };
+}
+
+export function makeSubmitProposalMsg(
+  proposer: string,
+  title: string,
+  description: string,
+  initialDeposit: string,
+): EncodeObject {
+  return {
+    typeUrl: "/cosmos.gov.v1beta1.MsgSubmitProposal",
+    value: {
+      content: {
+        typeUrl: "/cosmos.gov.v1beta1.TextProposal",
+        value: {
+          title,
+          description,
+        },
+      },
+      initialDeposit: initialDeposit !== "0" ? [coin(initialDeposit, GONKA_DENOM)] : [],
+      proposer,
+    },
+  };
+}
+
+export function makeDepositMsg(depositor: string, proposalId: string, amount: string): EncodeObject {
+  return {
+    typeUrl: "/cosmos.gov.v1beta1.MsgDeposit",
+    value: { proposalId: BigInt(proposalId), depositor, amount: [coin(amount, GONKA_DENOM)] },
+  };
+}
+
+export function makeExecuteContractMsg(
+  sender: string,
+  contract: string,
+  msg: object,
+  funds: { denom: string; amount: string }[] = [],
+): EncodeObject {
+  return {
+    typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract",
+    value: {
+      sender,
+      contract,
+      msg: new TextEncoder().encode(JSON.stringify(msg)),
+      funds: funds.map((f) => coin(f.amount, f.denom)),
+    },
+  };
+}
+
+export function makeInstantiateContractMsg(
+  sender: string,
+  codeId: string,
+  initMsg: object,
+  label: string,
+  admin: string | null,
+  funds: { denom: string; amount: string }[] = [],
+): EncodeObject {
+  return {
+    typeUrl: "/cosmwasm.wasm.v1.MsgInstantiateContract",
+    value: {
+      sender,
+      admin: admin || "",
+      codeId: BigInt(codeId),
+      label,
+      msg: new TextEncoder().encode(JSON.stringify(initMsg)),
+      funds: funds.map((f) => coin(f.amount, f.denom)),
+    },
+  };
+}
+
 /**
- * Derive a Gonka address from a mnemonic (without connecting to RPC).
+ * Derive a Gonka address from a wallet key (without connecting to RPC).
  */
-export async function deriveAddress(mnemonic: string): Promise<string> {
-  const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
-    prefix: GONKA_BECH32_PREFIX,
-    hdPaths: [GONKA_HD],
-  });
+export async function deriveAddress(key: WalletKey): Promise<string> {
+  const wallet = await makeOfflineSigner(key);
   const [account] = await wallet.getAccounts();
   return account.address;
 }
 
 /**
- * Derive the raw secp256k1 private key bytes from a mnemonic.
+ * Derive the raw secp256k1 private key bytes from a wallet key.
  * Used for exporting and for the Gonka inference signer.
  */
-export async function derivePrivateKey(mnemonic: string): Promise<Uint8Array> {
-  const seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(mnemonic));
-  const { privkey } = Slip10.derivePath(Slip10Curve.Secp256k1, seed, stringToPath("m/44'/1200'/0'/0/0"));
+export async function derivePrivateKey(key: WalletKey): Promise<Uint8Array> {
+  if (isPrivateKeyKey(key)) return key.privateKey;
+  const seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(key.mnemonic), key.passphrase);
+  const hdPath = makeHdPath(GONKA_COIN_TYPE, key.account ?? 0, key.index ?? 0);
+  const { privkey } = Slip10.derivePath(Slip10Curve.Secp256k1, seed, hdPath);
   return privkey;
 }
 
@@ -196,19 +494,16 @@ export async function queryAllBalances(address: string): Promise<TokenBalance[]>
  * Send tokens from the wallet. Defaults to native GNK but accepts any denom (IBC included).
  */
 export async function sendTokens(
-  mnemonic: string,
+  key: WalletKey,
   recipientAddress: string,
   amount: string,
   denom: string = GONKA_DENOM,
-  memo = ""
+  options: TxOptions = {}
 ): Promise<{ txHash: string; height: number }> {
-  const { client, address } = await getSigningClient(mnemonic);
-  const result = await client.sendTokens(
-    address,
-    recipientAddress,
-    [coin(amount, denom)],
-    "auto",
-    memo
+  const result = await broadcastTx(
+    key,
+    (address) => [makeSendMsg(address, recipientAddress, amount, denom)],
+    options
   );
 
   if (result.code !== 0) {
@@ -225,16 +520,15 @@ export async function sendTokens(
  * Delegate tokens to a validator.
  */
 export async function delegateTokens(
-  mnemonic: string,
+  key: WalletKey,
   validatorAddress: string,
-  amount: string
+  amount: string,
+  options: TxOptions = {}
 ): Promise<{ txHash: string }> {
-  const { client, address } = await getSigningClient(mnemonic);
-  const result = await client.delegateTokens(
-    address,
-    validatorAddress,
-    coin(amount, GONKA_DENOM),
-    "auto"
+  const result = await broadcastTx(
+    key,
+    (address) => [makeDelegateMsg(address, validatorAddress, amount)],
+    options
   );
 
   if (result.code !== 0) {
@@ -248,16 +542,15 @@ export async function delegateTokens(
  * Undelegate tokens from a validator.
  */
 export async function undelegateTokens(
-  mnemonic: string,
+  key: WalletKey,
   validatorAddress: string,
-  amount: string
+  amount: string,
+  options: TxOptions = {}
 ): Promise<{ txHash: string }> {
-  const { client, address } = await getSigningClient(mnemonic);
-  const result = await client.undelegateTokens(
-    address,
-    validatorAddress,
-    coin(amount, GONKA_DENOM),
-    "auto"
+  const result = await broadcastTx(
+    key,
+    (address) => [makeUndelegateMsg(address, validatorAddress, amount)],
+    options
   );
 
   if (result.code !== 0) {
@@ -411,29 +704,12 @@ export async function queryVote(proposalId: string, voter: string): Promise<stri
 }
 
 export async function voteProposal(
-  mnemonic: string,
+  key: WalletKey,
   proposalId: string,
-  option: VoteOption
+  option: VoteOption,
+  options: TxOptions = {}
 ): Promise<{ txHash: string }> {
-  const { client, address } = await getSigningClient(mnemonic);
-
-  const optionMap: Record<VoteOption, number> = {
-    VOTE_OPTION_YES: 1,
-    VOTE_OPTION_ABSTAIN: 2,
-    VOTE_OPTION_NO: 3,
-    VOTE_OPTION_NO_WITH_VETO: 4,
-  };
-
-  const msg = {
-    typeUrl: "/cosmos.gov.v1beta1.MsgVote",
-    value: {
-      proposalId: BigInt(proposalId),
-      voter: address,
-      option: optionMap[option],
-    },
-  };
-
-  const result = await client.signAndBroadcast(address, [msg], "auto");
+  const result = await broadcastTx(key, (address) => [makeVoteMsg(address, proposalId, option)], options);
   if (result.code !== 0) {
     throw new Error(`Vote failed: ${result.rawLog}`);
   }
@@ -441,29 +717,17 @@ export async function voteProposal(
 }
 
 export async function submitProposal(
-  mnemonic: string,
+  key: WalletKey,
   title: string,
   description: string,
-  initialDeposit: string
+  initialDeposit: string,
+  options: TxOptions = {}
 ): Promise<{ txHash: string; proposalId?: string }> {
-  const { client, address } = await getSigningClient(mnemonic);
-
-  const msg = {
-    typeUrl: "/cosmos.gov.v1beta1.MsgSubmitProposal",
-    value: {
-      content: {
-        typeUrl: "/cosmos.gov.v1beta1.TextProposal",
-        value: {
-          title,
-          description,
-        },
-      },
-      initialDeposit: initialDeposit !== "0" ? [coin(initialDeposit, GONKA_DENOM)] : [],
-      proposer: address,
-    },
-  };
-
-  const result = await client.signAndBroadcast(address, [msg], "auto");
+  const result = await broadcastTx(
+    key,
+    (address) => [makeSubmitProposalMsg(address, title, description, initialDeposit)],
+    options
+  );
   if (result.code !== 0) {
     throw new Error(`Submit proposal failed: ${result.rawLog}`);
   }
@@ -471,22 +735,12 @@ export async function submitProposal(
 }
 
 export async function depositToProposal(
-  mnemonic: string,
+  key: WalletKey,
   proposalId: string,
-  amount: string
+  amount: string,
+  options: TxOptions = {}
 ): Promise<{ txHash: string }> {
-  const { client, address } = await getSigningClient(mnemonic);
-
-  const msg = {
-    typeUrl: "/cosmos.gov.v1beta1.MsgDeposit",
-    value: {
-      proposalId: BigInt(proposalId),
-      depositor: address,
-      amount: [coin(amount, GONKA_DENOM)],
-    },
-  };
-
-  const result = await client.signAndBroadcast(address, [msg], "auto");
+  const result = await broadcastTx(key, (address) => [makeDepositMsg(address, proposalId, amount)], options);
   if (result.code !== 0) {
     throw new Error(`Deposit failed: ${result.rawLog}`);
   }
@@ -553,20 +807,15 @@ export async function queryRewards(address: string): Promise<{
  * Withdraw all staking rewards.
  */
 export async function withdrawRewards(
-  mnemonic: string,
-  validatorAddresses: string[]
+  key: WalletKey,
+  validatorAddresses: string[],
+  options: TxOptions = {}
 ): Promise<{ txHash: string }> {
-  const { client, address } = await getSigningClient(mnemonic);
-
-  const msgs = validatorAddresses.map((valAddr) => ({
-    typeUrl: "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward",
-    value: {
-      delegatorAddress: address,
-      validatorAddress: valAddr,
-    },
-  }));
-
-  const result = await client.signAndBroadcast(address, msgs, "auto");
+  const result = await broadcastTx(
+    key,
+    (address) => makeWithdrawRewardsMsgs(address, validatorAddresses),
+    options
+  );
 
   if (result.code !== 0) {
     throw new Error(`Withdraw rewards failed: ${result.rawLog}`);
@@ -580,25 +829,17 @@ export async function withdrawRewards(
  * inferenced-runner's `tx staking redelegate` mapping.
  */
 export async function redelegateTokens(
-  mnemonic: string,
+  key: WalletKey,
   srcValidator: string,
   dstValidator: string,
   amount: string,
-  memo = ""
+  options: TxOptions = {}
 ): Promise<{ txHash: string }> {
-  const { client, address } = await getSigningClient(mnemonic);
-
-  const msg = {
-    typeUrl: "/cosmos.staking.v1beta1.MsgBeginRedelegate",
-    value: {
-      delegatorAddress: address,
-      validatorSrcAddress: srcValidator,
-      validatorDstAddress: dstValidator,
-      amount: coin(amount, GONKA_DENOM),
-    },
-  };
-
-  const result = await client.signAndBroadcast(address, [msg], "auto", memo);
+  const result = await broadcastTx(
+    key,
+    (address) => [makeRedelegateMsg(address, srcValidator, dstValidator, amount)],
+    options
+  );
   if (result.code !== 0) {
     throw new Error(`Redelegation failed: ${result.rawLog}`);
   }
@@ -610,29 +851,19 @@ export async function redelegateTokens(
  * Mirrors `inferenced tx wasm instantiate <code-id> <init-json> --label …`.
  */
 export async function instantiateContract(
-  mnemonic: string,
+  key: WalletKey,
   codeId: string,
   initMsg: object,
   label: string,
   admin: string | null,
   funds: { denom: string; amount: string }[] = [],
-  memo = ""
+  options: TxOptions = {}
 ): Promise<{ txHash: string; height: number; contractAddress: string | null }> {
-  const { client, address } = await getSigningClient(mnemonic);
-
-  const msg = {
-    typeUrl: "/cosmwasm.wasm.v1.MsgInstantiateContract",
-    value: {
-      sender: address,
-      admin: admin || "",
-      codeId: BigInt(codeId),
-      label,
-      msg: new TextEncoder().encode(JSON.stringify(initMsg)),
-      funds: funds.map((f) => coin(f.amount, f.denom)),
-    },
-  };
-
-  const result = await client.signAndBroadcast(address, [msg], "auto", memo);
+  const result = await broadcastTx(
+    key,
+    (address) => [makeInstantiateContractMsg(address, codeId, initMsg, label, admin, funds)],
+    options
+  );
   if (result.code !== 0) {
     throw new Error(`Contract instantiation failed: ${result.rawLog}`);
   }
@@ -654,24 +885,17 @@ export async function instantiateContract(
  * `funds` is an optional array of coins to send along (e.g. for Buy on GNS marketplace).
  */
 export async function executeContract(
-  mnemonic: string,
+  key: WalletKey,
   contractAddress: string,
   msg: object,
-  funds: { denom: string; amount: string }[] = []
+  funds: { denom: string; amount: string }[] = [],
+  options: TxOptions = {}
 ): Promise<{ txHash: string; height: number }> {
-  const { client, address } = await getSigningClient(mnemonic);
-
-  const executeMsg = {
-    typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract",
-    value: {
-      sender: address,
-      contract: contractAddress,
-      msg: new TextEncoder().encode(JSON.stringify(msg)),
-      funds: funds.map((f) => coin(f.amount, f.denom)),
-    },
-  };
-
-  const result = await client.signAndBroadcast(address, [executeMsg], "auto");
+  const result = await broadcastTx(
+    key,
+    (address) => [makeExecuteContractMsg(address, contractAddress, msg, funds)],
+    options
+  );
 
   if (result.code !== 0) {
     throw new Error(`Contract execution failed: ${result.rawLog}`);
@@ -1,5 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { encrypt, decrypt } from "./crypto";
+import {
+  encrypt,
+  decrypt,
+  envelopeInfo,
+  needsUpgrade,
+  DEFAULT_KDF,
+  LEGACY_KDF,
+  ENVELOPE_VERSION,
+  type KdfParams,
+} from "./crypto";
 
 describe("crypto – AES-GCM encrypt/decrypt", () => {
   const password = "test-password-123";
@@ -37,3 +46,61 @@ describe("crypto – AES-GCM encrypt/decrypt", () => {
     expect(result).toBe(unicode);
   });
 });
+
+describe("crypto – versioned envelope", () => {
+  const password = "test-password-123";
+  const plaintext = "abandon badge camera donate elephant fabric";
+
+  // Cheap parameters so the suite stays fast; the envelope records them.
+  const kdfs: KdfParams[] = [
+    { name: "pbkdf2-sha256", i: 1000 },
+    { name: "argon2id", m: 256, t: 1, p: 1 },
+    { name: "scrypt", n: 1024, r: 8, p: 1 },
+  ];
+
+  it("encrypts with the default KDF in a current-version envelope", async () => {
+    const { ciphertext } = await encrypt(plaintext, password);
+    expect(ciphertext.startsWith(`$v${ENVELOPE_VERSION}$argon2id$`)).toBe(true);
+    expect(envelopeInfo(ciphertext)).toEqual({ version: ENVELOPE_VERSION, kdf: DEFAULT_KDF });
+    expect(needsUpgrade(ciphertext)).toBe(false);
+  });
+
+  for (const kdf of kdfs) {
+    it(`v${ENVELOPE_VERSION} ${kdf.name} round-trips and records its parameters`, async () => {
+      const { ciphertext, salt, iv } = await encrypt(plaintext, password, kdf);
+      expect(envelopeInfo(ciphertext)).toEqual({ version: ENVELOPE_VERSION, kdf });
+      expect(await decrypt(ciphertext, salt, iv, password)).toBe(plaintext);
+      await expect(decrypt(ciphertext, salt, iv, "wrong-password")).rejects.toThrow();
+    });
+  }
+
+  it("v1 (bare base64, PBKDF2 600k) still decrypts and is flagged for upgrade", async () => {
+    // A v2 PBKDF2-600k envelope minus its header is byte-for-byte a v1 ciphertext
+    const { ciphertext, salt, iv } = await encrypt(plaintext, password, LEGACY_KDF);
+    const v1 = ciphertext.split("$")[4];
+
+    expect(envelopeInfo(v1)).toEqual({ version: 1, kdf: LEGACY_KDF });
+    expect(await decrypt(v1, salt, iv, password)).toBe(plaintext);
+    expect(needsUpgrade(v1)).toBe(true);
+  });
+
+  it("flags non-default algorithms for upgrade", async () => {
+    for (const kdf of kdfs.filter((k) => k.name !== DEFAULT_KDF.name)) {
+      const { ciphertext } = await encrypt(plaintext, password, kdf);
+      expect(needsUpgrade(ciphertext)).toBe(true);
+    }
+  });
+
+  it("rejects unknown versions and out-of-range parameters", async () => {
+    const { salt, iv } = await encrypt(plaintext, password, kdfs[0]);
+    await expect(decrypt("$v9$argon2id$m=256,t=1,p=1$AAAA", salt, iv, password)).rejects.toThrow(
+      "Unsupported encryption format"
+    );
+    await expect(
+      decrypt("$v2$argon2id$m=99999999,t=1,p=1$AAAA", salt, iv, password)
+    ).rejects.toThrow("Unsupported encryption parameters");
+    await expect(decrypt("$v2$md5$i=1$AAAA", salt, iv, password)).rejects.toThrow(
+      "Unsupported encryption parameters"
+    );
+  });
+});
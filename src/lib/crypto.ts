@@ -1,51 +1,100 @@
 /**
  * AES-GCM encryption/decryption for mnemonic storage.
- * Uses PBKDF2 to derive an encryption key from the user's password.
+ * The AES key is derived from the user's password with a configurable KDF.
+ *
+ * Ciphertext envelope versions:
+ *   v1  plain base64 ciphertext — PBKDF2-SHA256, 600k iterations (implicit).
+ *   v2  "$v2$<kdf>$<params>$<base64 ciphertext>", e.g.
+ *       "$v2$argon2id$m=19456,t=2,p=1$..." — the KDF and its parameters
+ *       travel with the ciphertext, so they can be raised later without
+ *       breaking existing wallets.
+ *
+ * Salt and IV stay separate base64 strings in both versions.
  */
 
-const PBKDF2_ITERATIONS = 600_000;
+import { argon2idAsync } from "@noble/hashes/argon2";
+import { scryptAsync } from "@noble/hashes/scrypt";
+
+const LEGACY_PBKDF2_ITERATIONS = 600_000;
 const SALT_LENGTH = 16;
 const IV_LENGTH = 12;
 
+export const ENVELOPE_VERSION = 2;
+
+export type KdfParams =
+  | { name: "pbkdf2-sha256"; i: number }
+  | { name: "argon2id"; m: number; t: number; p: number }
+  | { name: "scrypt"; n: number; r: number; p: number };
+
+/** Argon2id at the OWASP-recommended minimum (19 MiB, 2 passes). */
+export const DEFAULT_KDF: KdfParams = { name: "argon2id", m: 19456, t: 2, p: 1 };
+
+/** What v1 ciphertexts were encrypted with. */
+export const LEGACY_KDF: KdfParams = { name: "pbkdf2-sha256", i: LEGACY_PBKDF2_ITERATIONS };
+
+// Upper bounds for parameters read back from an envelope. Backups can come
+// from anywhere; this stops a crafted file from hanging the service worker.
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const MAX_ARGON2_MEMORY_KIB = 256 * 1024;
+const MAX_ARGON2_PASSES = 10;
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_R = 16;
+const MAX_PARALLELISM = 4;
+
 /**
- * Derive an AES-GCM key from a password using PBKDF2.
+ * Derive an AES-GCM key from a password using the given KDF.
  */
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+async function deriveKey(password: string, salt: Uint8Array, kdf: KdfParams): Promise<CryptoKey> {
   const enc = new TextEncoder();
-  const keyMaterial = await crypto.subtle.importKey(
-    "raw",
-    enc.encode(password),
-    "PBKDF2",
-    false,
-    ["deriveKey"]
-  );
 
-  return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: salt as BufferSource,
-      iterations: PBKDF2_ITERATIONS,
-      hash: "SHA-256",
-    },
-    keyMaterial,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["encrypt", "decrypt"]
-  );
+  if (kdf.name === "pbkdf2-sha256") {
+    const keyMaterial = await crypto.subtle.importKey(
+      "raw",
+      enc.encode(password),
+      "PBKDF2",
+      false,
+      ["deriveKey"]
+    );
+
+    return crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt: salt as BufferSource,
+        iterations: kdf.i,
+        hash: "SHA-256",
+      },
+      keyMaterial,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  const raw =
+    kdf.name === "argon2id"
+      ? await argon2idAsync(enc.encode(password), salt, { m: kdf.m, t: kdf.t, p: kdf.p, dkLen: 32 })
+      : await scryptAsync(enc.encode(password), salt, { N: kdf.n, r: kdf.r, p: kdf.p, dkLen: 32 });
+
+  return crypto.subtle.importKey("raw", raw as BufferSource, { name: "AES-GCM" }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
 }
 
 /**
  * Encrypt a plaintext string with AES-GCM.
- * Returns { ciphertext, salt, iv } as base64 strings.
+ * Returns { ciphertext, salt, iv } as strings; the ciphertext is a v2
+ * envelope recording `kdf`.
  */
 export async function encrypt(
   plaintext: string,
-  password: string
+  password: string,
+  kdf: KdfParams = DEFAULT_KDF
 ): Promise<{ ciphertext: string; salt: string; iv: string }> {
   const enc = new TextEncoder();
   const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-  const key = await deriveKey(password, salt);
+  const key = await deriveKey(password, salt, kdf);
 
   const cipherBuffer = await crypto.subtle.encrypt(
     { name: "AES-GCM", iv },
@@ -54,14 +103,14 @@ export async function encrypt(
   );
 
   return {
-    ciphertext: bufToBase64(new Uint8Array(cipherBuffer)),
+    ciphertext: formatEnvelope(kdf, bufToBase64(new Uint8Array(cipherBuffer))),
     salt: bufToBase64(salt),
     iv: bufToBase64(iv),
   };
 }
 
 /**
- * Decrypt a ciphertext with AES-GCM.
+ * Decrypt a ciphertext (any envelope version) with AES-GCM.
  * Returns the decrypted plaintext string.
  * Throws if password is wrong.
  */
@@ -71,18 +120,96 @@ export async function decrypt(
   iv: string,
   password: string
 ): Promise<string> {
-  const key = await deriveKey(password, base64ToBuf(salt));
+  const { kdf, body } = parseEnvelope(ciphertext);
+  const key = await deriveKey(password, base64ToBuf(salt), kdf);
   const dec = new TextDecoder();
 
   const plainBuffer = await crypto.subtle.decrypt(
     { name: "AES-GCM", iv: base64ToBuf(iv) as BufferSource },
     key,
-    base64ToBuf(ciphertext) as BufferSource
+    base64ToBuf(body) as BufferSource
   );
 
   return dec.decode(plainBuffer);
 }
 
+/**
+ * Envelope version and KDF a ciphertext was produced with.
+ */
+export function envelopeInfo(ciphertext: string): { version: number; kdf: KdfParams } {
+  const { version, kdf } = parseEnvelope(ciphertext);
+  return { version, kdf };
+}
+
+/**
+ * Whether a ciphertext should be re-encrypted with the current defaults:
+ * older envelope versions, or a different KDF algorithm.
+ */
+export function needsUpgrade(ciphertext: string): boolean {
+  const { version, kdf } = envelopeInfo(ciphertext);
+  return version < ENVELOPE_VERSION || kdf.name !== DEFAULT_KDF.name;
+}
+
+// ---- Envelope ----
+
+function formatEnvelope(kdf: KdfParams, body: string): string {
+  let params: string;
+  switch (kdf.name) {
+    case "pbkdf2-sha256":
+      params = `i=${kdf.i}`;
+      break;
+    case "argon2id":
+      params = `m=${kdf.m},t=${kdf.t},p=${kdf.p}`;
+      break;
+    case "scrypt":
+      params = `n=${kdf.n},r=${kdf.r},p=${kdf.p}`;
+      break;
+  }
+  return `$v${ENVELOPE_VERSION}$${kdf.name}$${params}$${body}`;
+}
+
+function parseEnvelope(ciphertext: string): { version: number; kdf: KdfParams; body: string } {
+  // Base64 never contains "$", so anything without the prefix is v1
+  if (!ciphertext.startsWith("$")) {
+    return { version: 1, kdf: LEGACY_KDF, body: ciphertext };
+  }
+
+  const [, version, name, rawParams, body] = ciphertext.split("$");
+  if (version !== `v${ENVELOPE_VERSION}` || body === undefined) {
+    throw new Error("Unsupported encryption format");
+  }
+
+  const params: Record<string, number> = {};
+  for (const pair of rawParams.split(",")) {
+    const [k, v] = pair.split("=");
+    params[k] = Number(v);
+  }
+  const within = (v: number, max: number) => Number.isInteger(v) && v >= 1 && v <= max;
+
+  let kdf: KdfParams;
+  if (name === "pbkdf2-sha256" && within(params.i, MAX_PBKDF2_ITERATIONS)) {
+    kdf = { name, i: params.i };
+  } else if (
+    name === "argon2id" &&
+    within(params.m, MAX_ARGON2_MEMORY_KIB) &&
+    within(params.t, MAX_ARGON2_PASSES) &&
+    within(params.p, MAX_PARALLELISM)
+  ) {
+    kdf = { name, m: params.m, t: params.t, p: params.p };
+  } else if (
+    name === "scrypt" &&
+    within(params.n, MAX_SCRYPT_N) &&
+    within(params.r, MAX_SCRYPT_R) &&
+    within(params.p, MAX_PARALLELISM)
+  ) {
+    kdf = { name, n: params.n, r: params.r, p: params.p };
+  } else {
+    throw new Error("Unsupported encryption parameters");
+  }
+
+  return { version: ENVELOPE_VERSION, kdf, body };
+}
+
 // ---- Helpers ----
 
 function bufToBase64(buf: Uint8Array): string {
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { toDisplay, toMinimal, formatGNK, formatCompact, truncateAddress } from "./format";
+import { toDisplay, toMinimal, formatGNK, formatCompact, truncateAddress, hasControlChars } from "./format";
 
 describe("toDisplay – ngonka to GNK", () => {
   it("converts whole numbers", () => {
@@ -87,3 +87,13 @@ describe("truncateAddress", () => {
     expect(truncateAddress(short)).toBe(short);
   });
 });
+
+describe("hasControlChars", () => {
+  it("allows the given whitespace and flags other control codes", () => {
+    expect(hasControlChars("line one\n\tline two\r\n")).toBe(false);
+    expect(hasControlChars("page\fbreak")).toBe(true);
+    expect(hasControlChars("page\fbreak", "\f")).toBe(false);
+    expect(hasControlChars("nul\u0000")).toBe(true);
+    expect(hasControlChars("del\u007f")).toBe(true);
+  });
+});
@@ -112,3 +112,15 @@ export function formatTimestamp(ts: string | number): string {
     year: date.getFullYear() !== new Date().getFullYear() ? "numeric" : undefined,
   });
 }
+
+/**
+ * Whether `text` contains control characters (C0 codes and DEL) other than
+ * the whitespace in `allowed` — i.e. it's binary data rather than text.
+ */
+export function hasControlChars(text: string, allowed = "\t\n\r"): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if ((code < 0x20 || code === 0x7f) && !allowed.includes(text[i])) return true;
+  }
+  return false;
+}
@@ -1,7 +1,8 @@
 /**
  * Dispatches a parsed `inferenced` Intent (from inferenced-parser.ts)
  * to the wallet's existing signing helpers in cosmos.ts. No new chain
- * code lives here — this module is a thin glue layer.
+ * code lives here — this module is a thin glue layer. `--memo` and
+ * `--fees` are passed through as TxOptions.
  *
  * The executor lives in the service worker; the popup calls into it via
  * the `RUN_INFERENCED_CMD` message handler in background/index.ts.
@@ -17,9 +18,11 @@ import {
   depositToProposal,
   executeContract,
   instantiateContract,
+  type WalletKey,
 } from "./cosmos";
 import { getActiveEndpoint } from "./rpc";
-import type { Intent, QueryIntent } from "./inferenced-parser";
+import type { TxOptions } from "./tx-options";
+import type { Intent, QueryIntent, TxIntent } from "./inferenced-parser";
 import { isQueryIntent } from "./inferenced-parser";
 
 export interface RunResult {
@@ -38,6 +41,10 @@ export interface QueryResult {
   intentKind: Intent["kind"];
 }
 
+function intentTxOptions(intent: TxIntent): TxOptions {
+  return intent.fees ? { memo: intent.memo, fee: intent.fees } : { memo: intent.memo };
+}
+
 /**
  * Run a parsed Intent. Throws on validation / execution errors —
  * callers should catch and surface a friendly message.
@@ -47,69 +54,71 @@ export interface QueryResult {
  */
 export async function executeIntent(
   intent: Intent,
-  mnemonic: string,
+  key: WalletKey,
 ): Promise<RunResult> {
   if (isQueryIntent(intent)) {
     throw new Error("executeIntent received a query intent. Call runQuery() instead.");
   }
+  const options = intentTxOptions(intent);
   switch (intent.kind) {
     case "bank.send": {
       const r = await sendTokens(
-        mnemonic,
+        key,
         intent.toAddress,
         intent.amount,
         intent.denom,
-        intent.memo,
+        options,
       );
       return { ...r, intentKind: intent.kind };
     }
 
     case "wasm.execute": {
       const r = await executeContract(
-        mnemonic,
+        key,
         intent.contract,
         intent.msg,
         intent.funds,
+        options,
       );
       return { ...r, intentKind: intent.kind };
     }
 
     case "wasm.instantiate": {
       const r = await instantiateContract(
-        mnemonic,
+        key,
         intent.codeId,
         intent.initMsg,
         intent.label,
         intent.admin,
         intent.funds,
-        intent.memo,
+        options,
       );
       return { ...r, intentKind: intent.kind };
     }
 
     case "staking.delegate": {
-      const r = await delegateTokens(mnemonic, intent.validator, intent.amount);
+      const r = await delegateTokens(key, intent.validator, intent.amount, options);
       return { ...r, intentKind: intent.kind };
     }
 
     case "staking.unbond": {
-      const r = await undelegateTokens(mnemonic, intent.validator, intent.amount);
+      const r = await undelegateTokens(key, intent.validator, intent.amount, options);
       return { ...r, intentKind: intent.kind };
     }
 
     case "staking.redelegate": {
       const r = await redelegateTokens(
-        mnemonic,
+        key,
         intent.srcValidator,
         intent.dstValidator,
         intent.amount,
-        intent.memo,
+        options,
       );
       return { ...r, intentKind: intent.kind };
     }
 
     case "distribution.withdraw-rewards": {
-      const r = await withdrawRewards(mnemonic, [intent.validator]);
+      const r = await withdrawRewards(key, [intent.validator], options);
       return { ...r, intentKind: intent.kind };
     }
 
@@ -124,12 +133,12 @@ export async function executeIntent(
     }
 
     case "gov.vote": {
-      const r = await voteProposal(mnemonic, intent.proposalId, intent.option);
+      const r = await voteProposal(key, intent.proposalId, intent.option, options);
       return { ...r, intentKind: intent.kind };
     }
 
     case "gov.deposit": {
-      const r = await depositToProposal(mnemonic, intent.proposalId, intent.amount);
+      const r = await depositToProposal(key, intent.proposalId, intent.amount, options);
       return { ...r, intentKind: intent.kind };
     }
 
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { Secp256k1, Secp256k1Signature, sha256 } from "@cosmjs/crypto";
+import { makeSignBytes } from "@cosmjs/proto-signing";
+import { fromBase64, toBech32 } from "@cosmjs/encoding";
+import { AuthInfo, TxBody } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { makeOfflineSigner, makeSendMsg } from "./cosmos";
+import { decodeSignedTx, makeUnsignedTx, parseSignedTx, parseUnsignedTx, signUnsignedTx } from "./offline-tx";
+
+// Well-known test mnemonic — never use with real funds
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const RECIPIENT = toBech32("gonka", new Uint8Array(20).fill(9));
+
+describe("offline signing", () => {
+  it("signs an exported transaction with the given account number and sequence", async () => {
+    const wallet = await makeOfflineSigner({ mnemonic: MNEMONIC });
+    const [account] = await wallet.getAccounts();
+
+    const unsigned = makeUnsignedTx("gonka-mainnet", account.address, [makeSendMsg(account.address, RECIPIENT, "5")], {
+      memo: "payroll",
+      timeoutHeight: "900",
+    });
+    expect(unsigned.fee.gas).toBe("200000");
+
+    const file = parseUnsignedTx(JSON.stringify(unsigned));
+    const signed = parseSignedTx(JSON.stringify(await signUnsignedTx(file, wallet, "42", "7")));
+
+    const raw = decodeSignedTx(signed);
+    expect(TxBody.decode(raw.bodyBytes).memo).toBe("payroll");
+    const authInfo = AuthInfo.decode(raw.authInfoBytes);
+    expect(authInfo.signerInfos[0].sequence).toBe(7n);
+    expect(authInfo.fee?.gasLimit).toBe(200000n);
+
+    const signBytes = makeSignBytes({
+      bodyBytes: fromBase64(unsigned.body_bytes),
+      authInfoBytes: raw.authInfoBytes,
+      chainId: "gonka-mainnet",
+      accountNumber: 42n,
+    });
+    const valid = await Secp256k1.verifySignature(
+      Secp256k1Signature.fromFixedLength(raw.signatures[0]),
+      sha256(signBytes),
+      account.pubkey,
+    );
+    expect(valid).toBe(true);
+
+    await expect(
+      signUnsignedTx({ ...file, signer: RECIPIENT }, wallet, "42", "7"),
+    ).rejects.toThrow(`must be signed by ${RECIPIENT}`);
+    await expect(signUnsignedTx(file, wallet, "", "7")).rejects.toThrow(/Account number/);
+  });
+
+  it("rejects files of the wrong kind", () => {
+    expect(() => parseUnsignedTx("not json")).toThrow(/isn't JSON/);
+    expect(() => parseSignedTx('{"type":"gg-wallet/unsigned-tx","chain_id":"x","signer":"y"}')).toThrow(
+      /Not a signed/,
+    );
+    expect(() =>
+      parseUnsignedTx('{"type":"gg-wallet/unsigned-tx","chain_id":"x","signer":"y","body_bytes":"@@"}'),
+    ).toThrow(/damaged/);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Offline (air-gapped) signing through files, in three steps:
+ *
+ * 1. An online wallet — view-only ones included — exports an unsigned
+ *    transaction: the encoded body, the fee and gas, the chain id and the
+ *    signer. Like `inferenced tx … --generate-only` there is no simulation,
+ *    so the gas limit is given or defaults per message.
+ * 2. An offline wallet holding the signer's key signs it in
+ *    SIGN_MODE_DIRECT with an account number and sequence the user enters
+ *    (an offline machine can't query them), and exports the signed TxRaw.
+ * 3. Any wallet broadcasts the signed bytes.
+ *
+ * Files are JSON with base64 bytes so they survive copying between
+ * machines; the popup decodes them with lib/tx-decoder at every step.
+ */
+
+import {
+  encodePubkey,
+  makeAuthInfoBytes,
+  makeSignDoc,
+  type EncodeObject,
+  type OfflineDirectSigner,
+} from "@cosmjs/proto-signing";
+import { encodeSecp256k1Pubkey, type StdFee } from "@cosmjs/amino";
+import { fromBase64, toBase64 } from "@cosmjs/encoding";
+import { TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { registry } from "./cosmos";
+import { txFee, validateTxOptions, type TxOptions } from "./tx-options";
+
+export const UNSIGNED_TX_TYPE = "gg-wallet/unsigned-tx";
+export const SIGNED_TX_TYPE = "gg-wallet/signed-tx";
+
+/** Gas per message when the unsigned transaction doesn't set a limit (the SDK's --gas default). */
+export const DEFAULT_OFFLINE_GAS_PER_MSG = 200_000;
+
+export interface UnsignedTxFile {
+  type: typeof UNSIGNED_TX_TYPE;
+  chain_id: string;
+  signer: string;
+  /** Encoded TxBody (messages, memo, timeout height), base64. */
+  body_bytes: string;
+  fee: StdFee;
+  created_at: string;
+}
+
+export interface SignedTxFile {
+  type: typeof SIGNED_TX_TYPE;
+  chain_id: string;
+  signer: string;
+  account_number: string;
+  sequence: string;
+  /** Encoded TxRaw, ready to broadcast, base64. */
+  tx_bytes: string;
+}
+
+export function makeUnsignedTx(
+  chainId: string,
+  signer: string,
+  messages: EncodeObject[],
+  options: TxOptions = {},
+): UnsignedTxFile {
+  const invalid = validateTxOptions(options);
+  if (invalid) throw new Error(invalid);
+  if (messages.length === 0) throw new Error("The transaction has no messages");
+
+  const bodyBytes = registry.encodeTxBody({
+    messages,
+    memo: options.memo ?? "",
+    timeoutHeight: options.timeoutHeight ? BigInt(options.timeoutHeight) : undefined,
+  });
+  const gasLimit = options.gasLimit ?? DEFAULT_OFFLINE_GAS_PER_MSG * messages.length;
+  return {
+    type: UNSIGNED_TX_TYPE,
+    chain_id: chainId,
+    signer,
+    body_bytes: toBase64(bodyBytes),
+    fee: txFee(gasLimit, options),
+    created_at: new Date().toISOString(),
+  };
+}
+
+function parseFile(text: string, type: string): any {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't JSON");
+  }
+  if (file?.type !== type) {
+    throw new Error(
+      type === UNSIGNED_TX_TYPE ? "Not an unsigned GG Wallet transaction" : "Not a signed GG Wallet transaction",
+    );
+  }
+  if (typeof file.chain_id !== "string" || typeof file.signer !== "string") {
+    throw new Error("The file is missing its chain id or signer");
+  }
+  return file;
+}
+
+function isBase64(value: unknown): value is string {
+  if (typeof value !== "string" || value.length === 0) return false;
+  try {
+    fromBase64(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function parseUnsignedTx(text: string): UnsignedTxFile {
+  const file = parseFile(text, UNSIGNED_TX_TYPE);
+  if (!isBase64(file.body_bytes)) throw new Error("The file's transaction body is missing or damaged");
+  if (!Array.isArray(file.fee?.amount) || !/^\d+$/.test(String(file.fee?.gas))) {
+    throw new Error("The file's fee is missing or damaged");
+  }
+  return file;
+}
+
+export function parseSignedTx(text: string): SignedTxFile {
+  const file = parseFile(text, SIGNED_TX_TYPE);
+  if (!isBase64(file.tx_bytes)) throw new Error("The file's signed transaction is missing or damaged");
+  return file;
+}
+
+/**
+ * Sign an unsigned transaction with the signer's key. The account number
+ * and sequence are taken as given: a wrong pair makes the chain reject
+ * the signature, it can't sign anything else.
+ */
+export async function signUnsignedTx(
+  file: UnsignedTxFile,
+  wallet: OfflineDirectSigner,
+  accountNumber: string,
+  sequence: string,
+): Promise<SignedTxFile> {
+  if (!/^\d+$/.test(accountNumber)) throw new Error("Account number must be a whole number");
+  if (!/^\d+$/.test(sequence)) throw new Error("Sequence must be a whole number");
+
+  const account = (await wallet.getAccounts()).find((a) => a.address === file.signer);
+  if (!account) throw new Error(`This transaction must be signed by ${file.signer}`);
+
+  const pubkey = encodePubkey(encodeSecp256k1Pubkey(account.pubkey));
+  const authInfoBytes = makeAuthInfoBytes(
+    [{ pubkey, sequence: BigInt(sequence) }],
+    file.fee.amount,
+    Number(file.fee.gas),
+    file.fee.granter,
+    file.fee.payer,
+  );
+  const signDoc = makeSignDoc(fromBase64(file.body_bytes), authInfoBytes, file.chain_id, Number(accountNumber));
+  const { signed, signature } = await wallet.signDirect(account.address, signDoc);
+
+  const txBytes = TxRaw.encode(
+    TxRaw.fromPartial({
+      bodyBytes: signed.bodyBytes,
+      authInfoBytes: signed.authInfoBytes,
+      signatures: [fromBase64(signature.signature)],
+    }),
+  ).finish();
+
+  return {
+    type: SIGNED_TX_TYPE,
+    chain_id: file.chain_id,
+    signer: file.signer,
+    account_number: accountNumber,
+    sequence,
+    tx_bytes: toBase64(txBytes),
+  };
+}
+
+/** The body and auth info of a signed file, for display. */
+export function decodeSignedTx(file: SignedTxFile): TxRaw {
+  return TxRaw.decode(fromBase64(file.tx_bytes));
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { toBech32 } from "@cosmjs/encoding";
+import { makeMultiSendMsg, type TokenBalance } from "./cosmos";
+import { checkPayout, chunkPayout, parsePayoutCsv, payoutReceiptCsv } from "./payout";
+
+const A = toBech32("gonka", new Uint8Array(20).fill(1));
+const B = toBech32("gonka", new Uint8Array(20).fill(2));
+const C = toBech32("gonka", new Uint8Array(20).fill(3));
+
+const TOKENS: TokenBalance[] = [
+  { denom: "ngonka", amount: "10000000000", symbol: "GNK", decimals: 9, isIbc: false },
+  { denom: "ibc/ABC", amount: "5000000", symbol: "USDC", decimals: 6, isIbc: true },
+];
+
+describe("payout CSV", () => {
+  it("parses rows and checks each one", () => {
+    const rows = parsePayoutCsv(
+      [
+        "recipient,amount,denom",
+        `${A},1.5`,
+        "",
+        "# bonus",
+        `bob.gnk,2,USDC`,
+        `${A},1`,
+        `cosmos1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq,1`,
+        `nobody.gnk,1`,
+        `${C},abc`,
+      ].join("\n"),
+    );
+    expect(rows.map((r) => r.line)).toEqual([2, 5, 6, 7, 8, 9]);
+
+    const check = checkPayout(rows, { "bob.gnk": B, "nobody.gnk": null }, TOKENS);
+    expect(check.rows.map((r) => r.error)).toEqual([
+      null,
+      null,
+      "Duplicate of line 2",
+      "Not a Gonka address",
+      "Name not found",
+      "Invalid amount",
+    ]);
+    expect(check.rows[1].coin).toEqual({ denom: "ibc/ABC", amount: "2000000" });
+    expect(check.totals).toEqual([
+      { denom: "ngonka", amount: "1500000000" },
+      { denom: "ibc/ABC", amount: "2000000" },
+    ]);
+    expect(check.balanceErrors).toEqual([]);
+
+    expect(checkPayout(parsePayoutCsv(`${A},11`), {}, TOKENS).balanceErrors[0]).toMatch(/more than your balance of 10 GNK/);
+  });
+
+  it("chunks valid rows and writes a receipt", () => {
+    const check = checkPayout(parsePayoutCsv(`${A},1\n${B},2\n${C},x\n${C},3`), {}, TOKENS);
+    const chunks = chunkPayout(check.rows, 2);
+    expect(chunks.map((c) => c.map((o) => o.line))).toEqual([[1, 2], [4]]);
+
+    const receipt = payoutReceiptCsv([
+      { ...chunks[0][0], recipient: A, status: "sent", txHash: "ABC" },
+      { ...chunks[1][0], recipient: C, status: "failed", txHash: null, error: "out of gas, retry" },
+    ]);
+    expect(receipt.split("\n")).toEqual([
+      "line,recipient,address,amount,denom,status,tx_hash,error",
+      `1,${A},${A},1000000000,ngonka,sent,ABC,`,
+      `4,${C},${C},3000000000,ngonka,failed,,"out of gas, retry"`,
+      "",
+    ]);
+  });
+
+  it("reserves fees for every chunk from the GNK balance", () => {
+    const rows = parsePayoutCsv(`${A},4\n${B},6`);
+    expect(checkPayout(rows, {}, TOKENS).feeWarning).toMatch(/leaves no GNK for fees/);
+
+    const priced = checkPayout(rows, {}, TOKENS, "1ngonka");
+    expect(BigInt(priced.estimatedFee)).toBeGreaterThan(0n);
+    expect(priced.balanceErrors[0]).toMatch(/^Total 10 GNK plus about .* in fees is more than your balance of 10 GNK/);
+
+    expect(checkPayout(parsePayoutCsv(`${A},4`), {}, TOKENS, "1ngonka")).toMatchObject({
+      balanceErrors: [],
+      feeWarning: null,
+    });
+  });
+
+  it("sorts multi-send coins by denom", () => {
+    const check = checkPayout(parsePayoutCsv(`${A},1\n${B},2,USDC\n${C},3`), {}, TOKENS);
+    const outputs = chunkPayout(check.rows)[0].map((o) => ({ address: o.address, coins: [o.coin] }));
+    outputs.push({
+      address: A,
+      coins: [
+        { denom: "ngonka", amount: "5" },
+        { denom: "ibc/ABC", amount: "6" },
+      ],
+    });
+    const { value } = makeMultiSendMsg(A, outputs);
+    expect(value.inputs[0].coins).toEqual([
+      { denom: "ibc/ABC", amount: "2000006" },
+      { denom: "ngonka", amount: "4000000005" },
+    ]);
+    expect(value.outputs[3].coins.map((c: { denom: string }) => c.denom)).toEqual(["ibc/ABC", "ngonka"]);
+  });
+});
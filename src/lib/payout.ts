@@ -0,0 +1,237 @@
+/**
+ * Bulk payouts from a CSV of `recipient,amount[,denom]` rows.
+ *
+ * Recipients are Gonka addresses or `.gnk` names (the popup resolves
+ * names before checking). Amounts are in display units of the token
+ * (GNK when the denom column is empty). Valid rows are paid in chunks,
+ * one MsgMultiSend transaction per chunk, and the result of every row is
+ * written to a downloadable receipt.
+ */
+
+import { calculateFee, GasPrice } from "@cosmjs/stargate";
+import { fromBech32 } from "@cosmjs/encoding";
+import { GONKA_BECH32_PREFIX, GONKA_DENOM, GONKA_GAS_PRICE } from "./gonka";
+import { isGnsName } from "./gns";
+import { formatGNK, toDisplayDecimals, toMinimalDecimals } from "./format";
+import { DEFAULT_GAS_ADJUSTMENT } from "./tx-options";
+import type { TokenBalance } from "./cosmos";
+import type { Coin } from "./tx-preview";
+
+export interface PayoutRow {
+  /** 1-based line number in the CSV. */
+  line: number;
+  /** Address or `.gnk` name, as written. */
+  recipient: string;
+  /** Amount in display units, as written. */
+  amount: string;
+  /** Denom or token symbol, as written; empty means GNK. */
+  denom: string;
+}
+
+export interface CheckedPayoutRow extends PayoutRow {
+  address: string | null;
+  coin: Coin | null;
+  /** Why the row can't be paid; null when it's valid. */
+  error: string | null;
+}
+
+export interface PayoutCheck {
+  rows: CheckedPayoutRow[];
+  /** Sum of the valid rows per denom. */
+  totals: Coin[];
+  /** Estimated GNK fees (ngonka) for all chunk transactions. */
+  estimatedFee: string;
+  /** Totals that, with the estimated fees, exceed the wallet's balance. */
+  balanceErrors: string[];
+  /** The payout fits, but leaves no GNK for fees if they cost more than estimated. */
+  feeWarning: string | null;
+}
+
+export interface PayoutOutput {
+  line: number;
+  address: string;
+  coin: Coin;
+}
+
+export type PayoutStatus = "sent" | "failed" | "not_sent";
+
+export interface PayoutReceiptRow extends PayoutOutput {
+  recipient: string;
+  status: PayoutStatus;
+  txHash: string | null;
+  error?: string;
+}
+
+/** Outputs per MsgMultiSend transaction. */
+export const PAYOUT_CHUNK_SIZE = 25;
+export const MAX_PAYOUT_ROWS = 1000;
+
+/** Rough gas of a MsgMultiSend: a fixed part plus each output. */
+const PAYOUT_GAS_BASE = 100_000;
+const PAYOUT_GAS_PER_OUTPUT = 25_000;
+
+/**
+ * Estimated fee in ngonka for paying `chunks`. The real fee comes from
+ * simulating each chunk when it is sent; this is only enough to reserve
+ * room for it when checking the balance.
+ */
+export function estimatePayoutFee(chunks: PayoutOutput[][], gasPrice = GONKA_GAS_PRICE): bigint {
+  const price = GasPrice.fromString(gasPrice);
+  let total = 0n;
+  for (const chunk of chunks) {
+    const gas = Math.ceil((PAYOUT_GAS_BASE + PAYOUT_GAS_PER_OUTPUT * chunk.length) * DEFAULT_GAS_ADJUSTMENT);
+    total += BigInt(calculateFee(gas, price).amount[0]?.amount ?? "0");
+  }
+  return total;
+}
+
+function splitCsvLine(line: string): string[] {
+  const sep = line.includes("\t") ? "\t" : line.includes(";") && !line.includes(",") ? ";" : ",";
+  return line.split(sep).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+}
+
+/**
+ * Rows of a payout CSV. Blank lines, `#` comments and a header row (one
+ * whose amount column isn't a number) are skipped.
+ */
+export function parsePayoutCsv(text: string): PayoutRow[] {
+  const rows: PayoutRow[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const [recipient = "", amount = "", denom = ""] = splitCsvLine(line);
+    if (rows.length === 0 && !/\d/.test(amount) && /amount/i.test(amount)) return;
+    rows.push({ line: i + 1, recipient, amount, denom });
+  });
+  return rows;
+}
+
+function findToken(denom: string, tokens: TokenBalance[]): TokenBalance | undefined {
+  const wanted = denom || GONKA_DENOM;
+  return tokens.find((t) => t.denom === wanted) ?? tokens.find((t) => t.symbol.toLowerCase() === wanted.toLowerCase());
+}
+
+function isGonkaAddress(address: string): boolean {
+  try {
+    return fromBech32(address).prefix === GONKA_BECH32_PREFIX;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate payout rows: recipient, amount and token of each row,
+ * duplicate recipients, and the totals against the wallet's balances
+ * with the estimated fees of every chunk reserved from the GNK balance.
+ * `resolved` maps each `.gnk` name to its address (null when not found).
+ */
+export function checkPayout(
+  rows: PayoutRow[],
+  resolved: Record<string, string | null>,
+  tokens: TokenBalance[],
+  gasPrice = GONKA_GAS_PRICE,
+): PayoutCheck {
+  const seen = new Map<string, number>();
+  const totals = new Map<string, bigint>();
+
+  const checked = rows.map((row): CheckedPayoutRow => {
+    const fail = (error: string, address: string | null = null): CheckedPayoutRow => ({
+      ...row,
+      address,
+      coin: null,
+      error,
+    });
+
+    if (!row.recipient) return fail("Missing recipient");
+    let address: string | null = row.recipient;
+    if (isGnsName(row.recipient)) {
+      address = resolved[row.recipient] ?? null;
+      if (!address) return fail("Name not found");
+    }
+    if (!isGonkaAddress(address)) return fail("Not a Gonka address");
+
+    const token = findToken(row.denom, tokens);
+    if (!token) return fail(`No ${row.denom || "GNK"} balance`, address);
+    const decimalPart = row.amount.split(".")[1] ?? "";
+    if (!/^\d+(\.\d+)?$/.test(row.amount) || decimalPart.length > token.decimals) {
+      return fail("Invalid amount", address);
+    }
+    const amount = toMinimalDecimals(row.amount, token.decimals);
+    if (BigInt(amount) === 0n) return fail("Amount must be more than 0", address);
+
+    const duplicateOf = seen.get(address);
+    if (duplicateOf !== undefined) return fail(`Duplicate of line ${duplicateOf}`, address);
+    seen.set(address, row.line);
+
+    totals.set(token.denom, (totals.get(token.denom) ?? 0n) + BigInt(amount));
+    return { ...row, address, coin: { denom: token.denom, amount }, error: null };
+  });
+
+  const chunks = chunkPayout(checked);
+  const fee = estimatePayoutFee(chunks, gasPrice);
+
+  const balanceErrors: string[] = [];
+  for (const [denom, total] of totals) {
+    if (denom === GONKA_DENOM) continue;
+    const token = tokens.find((t) => t.denom === denom)!;
+    if (total > BigInt(token.amount)) {
+      balanceErrors.push(
+        `Total ${toDisplayDecimals(total, token.decimals)} ${token.symbol} is more than your balance of ` +
+          `${toDisplayDecimals(token.amount, token.decimals)} ${token.symbol}`,
+      );
+    }
+  }
+
+  // Fees are paid in GNK, so they come out of the same balance as GNK rows
+  const gnkTotal = totals.get(GONKA_DENOM) ?? 0n;
+  const gnkBalance = BigInt(tokens.find((t) => t.denom === GONKA_DENOM)?.amount ?? "0");
+  const gnkLeft = gnkBalance - gnkTotal - fee;
+  if (gnkLeft < 0n) {
+    const parts = [gnkTotal > 0n && `Total ${formatGNK(gnkTotal)}`, fee > 0n && `about ${formatGNK(fee)} in fees`];
+    balanceErrors.push(`${parts.filter(Boolean).join(" plus ")} is more than your balance of ${formatGNK(gnkBalance)}`);
+  }
+
+  // Less left over than one chunk's fee: if fees come out above the
+  // estimate, the last chunks fail after the first ones are paid.
+  let feeWarning: string | null = null;
+  if (chunks.length > 0 && gnkLeft >= 0n && gnkLeft <= fee / BigInt(chunks.length)) {
+    feeWarning =
+      `This payout leaves ${gnkLeft === 0n ? "no" : "little"} GNK for fees. If the ${chunks.length} ` +
+      `transaction${chunks.length === 1 ? "" : "s"} cost more than estimated, the last ones will fail.`;
+  }
+
+  return {
+    rows: checked,
+    totals: [...totals].map(([denom, amount]) => ({ denom, amount: amount.toString() })),
+    estimatedFee: fee.toString(),
+    balanceErrors,
+    feeWarning,
+  };
+}
+
+/** The valid rows, split into chunks of at most `size` outputs. */
+export function chunkPayout(rows: CheckedPayoutRow[], size = PAYOUT_CHUNK_SIZE): PayoutOutput[][] {
+  const outputs = rows
+    .filter((r) => !r.error && r.address && r.coin)
+    .map((r) => ({ line: r.line, address: r.address!, coin: r.coin! }));
+  const chunks: PayoutOutput[][] = [];
+  for (let i = 0; i < outputs.length; i += size) chunks.push(outputs.slice(i, i + size));
+  return chunks;
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** The receipt as CSV: one line per paid (or attempted) row. */
+export function payoutReceiptCsv(rows: PayoutReceiptRow[]): string {
+  const lines = [["line", "recipient", "address", "amount", "denom", "status", "tx_hash", "error"].join(",")];
+  for (const r of rows) {
+    lines.push(
+      [String(r.line), r.recipient, r.address, r.coin.amount, r.coin.denom, r.status, r.txHash ?? "", r.error ?? ""]
+        .map(csvCell)
+        .join(","),
+    );
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  assessOrigin,
+  editDistance,
+  normalizeHostEntry,
+  registrableDomain,
+  skeleton,
+} from "./phishing";
+
+describe("lookalike detection", () => {
+  it("trusts known Gonka dApps and their subdomains", () => {
+    expect(assessOrigin("https://gonka.gg").level).toBe("trusted");
+    expect(assessOrigin("https://app.gonkalabs.com").level).toBe("trusted");
+    expect(assessOrigin("https://hex.exchange").level).toBe("none");
+  });
+
+  it("flags homoglyphs, typos, other TLDs and embedded brand domains", () => {
+    for (const origin of [
+      "https://g0nka.gg",
+      "https://gonkka.gg",
+      "https://gonka.gq",
+      "https://gonka.com",
+      "https://gonkalabz.com",
+      "https://gonka.gg.claim-airdrop.io",
+    ]) {
+      const risk = assessOrigin(origin);
+      expect(risk.level, origin).toBe("suspicious");
+      expect(risk.lookalikeOf, origin).toBeDefined();
+    }
+    expect(assessOrigin("https://xn--gnka-6qa.gg").level).toBe("suspicious");
+  });
+
+  it("lets the user's lists override the heuristics", () => {
+    const lists = { blocked: ["gonka.gg", "evil.example"], allowed: ["gonka.com"] };
+    expect(assessOrigin("https://gonka.com", lists).level).toBe("trusted");
+    expect(assessOrigin("https://gonka.gg", lists).level).toBe("blocked");
+    expect(assessOrigin("https://app.evil.example", lists).level).toBe("blocked");
+  });
+});
+
+describe("helpers", () => {
+  it("normalizes list entries", () => {
+    expect(normalizeHostEntry(" https://App.Example.com/path ")).toBe("app.example.com");
+    expect(normalizeHostEntry("*.example.com")).toBe("example.com");
+    expect(() => normalizeHostEntry("not a domain")).toThrow();
+  });
+
+  it("computes registrable domains, skeletons and edit distance", () => {
+    expect(registrableDomain("a.b.example.com")).toBe("example.com");
+    expect(registrableDomain("shop.example.co.uk")).toBe("example.co.uk");
+    expect(skeleton("g0nka-1abs")).toBe(skeleton("gonkalabs"));
+    expect(editDistance("gonka", "gokna")).toBe(1);
+    expect(editDistance("gonka", "gonka")).toBe(0);
+  });
+});
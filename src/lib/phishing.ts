@@ -0,0 +1,168 @@
+/**
+ * Phishing and scam-origin checks for dApp connections.
+ *
+ * Every provider request's origin is assessed against the user's local
+ * blocklist and allowlist (hostnames; an entry also covers its
+ * subdomains) and against the known Gonka dApps, looking for lookalikes:
+ * punycode hostnames, homoglyph spellings ("g0nka.gg"), small typos
+ * ("gonkka.gg", "gonka.gq") and known domains embedded in a different
+ * site ("gonka.gg.example.com").
+ *
+ * Blocked origins are refused outright; suspicious ones reach the
+ * approval popup with a warning the user has to acknowledge.
+ */
+
+/** Official Gonka sites; never flagged, and the reference for lookalikes. */
+export const KNOWN_GONKA_DAPPS = ["gonka.gg", "gonka.ai", "gonkalabs.com"];
+
+export interface OriginLists {
+  blocked: string[];
+  allowed: string[];
+}
+
+export const EMPTY_ORIGIN_LISTS: OriginLists = { blocked: [], allowed: [] };
+
+export type OriginRiskLevel = "trusted" | "none" | "suspicious" | "blocked";
+
+export interface OriginRisk {
+  level: OriginRiskLevel;
+  /** Why the origin was flagged, for display. */
+  reasons: string[];
+  /** The known dApp this origin imitates, if any. */
+  lookalikeOf?: string;
+}
+
+/** Hostname entry: lowercase labels, optional leading "*." is dropped. */
+const HOST_RE = /^(?=.{1,253}$)([a-z0-9-]{1,63}\.)+[a-z0-9-]{2,63}$/;
+
+/**
+ * Normalize user input ("https://App.Example.com/path", "*.example.com")
+ * into a hostname list entry. Throws on anything that isn't a hostname.
+ */
+export function normalizeHostEntry(input: string): string {
+  let value = input.trim().toLowerCase();
+  if (value.includes("://")) {
+    try {
+      value = new URL(value).hostname;
+    } catch {
+      throw new Error("Enter a domain like app.example.com");
+    }
+  }
+  value = value.replace(/^\*\./, "").replace(/\.$/, "");
+  if (!HOST_RE.test(value)) throw new Error("Enter a domain like app.example.com");
+  return value;
+}
+
+/** True when `host` is `entry` or one of its subdomains. */
+export function hostMatches(host: string, entry: string): boolean {
+  return host === entry || host.endsWith(`.${entry}`);
+}
+
+// Second-level labels under which registrations happen one level deeper
+// (example.co.uk, example.com.au).
+const SECOND_LEVEL_LABELS = new Set(["co", "com", "net", "org", "gov", "edu", "ac"]);
+
+/** Registrable domain of a hostname, approximated without a suffix list. */
+export function registrableDomain(host: string): string {
+  const labels = host.split(".");
+  if (labels.length <= 2) return host;
+  const take = labels[labels.length - 1].length === 2 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-take).join(".");
+}
+
+// Character sequences that read as each other in most UI fonts
+const CONFUSABLE_SEQUENCES: [RegExp, string][] = [
+  [/rn/g, "m"],
+  [/vv/g, "w"],
+  [/cl/g, "d"],
+  [/[0]/g, "o"],
+  [/[1i|]/g, "l"],
+  [/[3]/g, "e"],
+  [/[5]/g, "s"],
+  [/[8]/g, "b"],
+  [/[9q]/g, "g"],
+  [/-/g, ""],
+];
+
+/** Collapse visually confusable characters so lookalikes compare equal. */
+export function skeleton(label: string): string {
+  let s = label.toLowerCase();
+  for (const [re, to] of CONFUSABLE_SEQUENCES) s = s.replace(re, to);
+  return s;
+}
+
+/** Optimal string alignment distance (Levenshtein plus transpositions). */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function hostOf(origin: string): string | null {
+  try {
+    return new URL(origin).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/** Lookalike check of a registrable domain against one known dApp domain. */
+function imitates(domain: string, known: string): boolean {
+  if (domain === known) return false;
+  const label = domain.split(".")[0];
+  const knownLabel = known.split(".")[0];
+  if (skeleton(domain) === skeleton(known)) return true;
+  // Same name under another TLD ("gonka.com")
+  if (label === knownLabel) return true;
+  if (skeleton(label) === skeleton(knownLabel)) return true;
+  // Typos: one edit for short names, two for longer ones
+  const allowed = knownLabel.length >= 8 ? 2 : 1;
+  return editDistance(domain, known) <= allowed || editDistance(label, knownLabel) <= allowed;
+}
+
+/**
+ * Assess an origin. The user's lists win over heuristics: an allowlisted
+ * host is trusted even if it looks like a known dApp, a blocklisted one is
+ * blocked even if it is one.
+ */
+export function assessOrigin(origin: string, lists: OriginLists = EMPTY_ORIGIN_LISTS): OriginRisk {
+  const host = hostOf(origin);
+  if (!host) return { level: "blocked", reasons: ["The site address couldn't be read"] };
+
+  if (lists.allowed.some((entry) => hostMatches(host, entry))) return { level: "trusted", reasons: [] };
+  if (lists.blocked.some((entry) => hostMatches(host, entry))) {
+    return { level: "blocked", reasons: ["This site is on your blocklist"] };
+  }
+  if (KNOWN_GONKA_DAPPS.some((known) => hostMatches(host, known))) return { level: "trusted", reasons: [] };
+
+  const reasons: string[] = [];
+  let lookalikeOf: string | undefined;
+  const domain = registrableDomain(host);
+
+  if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    reasons.push("The address uses international characters that can imitate ordinary letters");
+  }
+  for (const known of KNOWN_GONKA_DAPPS) {
+    if (imitates(domain, known)) {
+      lookalikeOf = known;
+      reasons.push(`The address looks like ${known} but is a different site`);
+      break;
+    }
+    if (host.startsWith(`${known}.`) || host.includes(`.${known}.`)) {
+      lookalikeOf = known;
+      reasons.push(`The address contains ${known} but belongs to ${domain}`);
+      break;
+    }
+  }
+
+  return reasons.length > 0 ? { level: "suspicious", reasons, lookalikeOf } : { level: "none", reasons: [] };
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { DISCONNECTED_STATE, diffProviderState, type ProviderState } from "./provider-events";
+
+const CONNECTED: ProviderState = {
+  connected: true,
+  chainIds: ["gonka-mainnet"],
+  unlocked: true,
+  address: "gonka1a",
+};
+
+function events(prev: ProviderState, next: ProviderState) {
+  return diffProviderState(prev, next).events.map((e) => e.event);
+}
+
+describe("diffProviderState", () => {
+  it("reports lock, unlock, account and chain changes for connected sites", () => {
+    expect(events(CONNECTED, { ...CONNECTED, address: "gonka1b" })).toEqual(["accountsChanged"]);
+    expect(events(CONNECTED, { ...CONNECTED, chainIds: ["gonka-mainnet", "cosmoshub-4"] })).toEqual(["chainChanged"]);
+    expect(events(DISCONNECTED_STATE, CONNECTED)).toEqual(["unlock", "chainChanged", "accountsChanged"]);
+    expect(events(CONNECTED, DISCONNECTED_STATE)).toEqual(["disconnect"]);
+    expect(events(DISCONNECTED_STATE, DISCONNECTED_STATE)).toEqual([]);
+  });
+
+  it("keeps the address across a lock so unlocking into the same wallet is quiet", () => {
+    const locked = diffProviderState(CONNECTED, { ...CONNECTED, unlocked: false, address: null });
+    expect(locked.events.map((e) => e.event)).toEqual(["lock"]);
+    expect(locked.state.address).toBe("gonka1a");
+
+    expect(events(locked.state, CONNECTED)).toEqual(["unlock"]);
+    expect(diffProviderState(locked.state, { ...CONNECTED, address: "gonka1b" }).events).toContainEqual({
+      event: "accountsChanged",
+      data: { address: "gonka1b" },
+    });
+  });
+});
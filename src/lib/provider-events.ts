@@ -0,0 +1,75 @@
+/**
+ * Provider events for dApps (`window.gonkaWallet.on(...)`).
+ *
+ * The background reports a per-origin snapshot of what a site may know
+ * about the wallet; the content script diffs successive snapshots into
+ * events. Sites that aren't connected always get the same empty
+ * snapshot, so they never see lock state or account changes.
+ */
+
+export type ProviderEventName = "accountsChanged" | "chainChanged" | "lock" | "unlock" | "disconnect";
+
+export const PROVIDER_EVENT_NAMES: readonly ProviderEventName[] = [
+  "accountsChanged",
+  "chainChanged",
+  "lock",
+  "unlock",
+  "disconnect",
+];
+
+export interface ProviderState {
+  /** The origin has a live (unexpired) connection. */
+  connected: boolean;
+  /** Chains the origin is connected for. */
+  chainIds: string[];
+  unlocked: boolean;
+  /**
+   * Active Gonka address, when the site may read it (address scope and
+   * wallet shared). Null while locked.
+   */
+  address: string | null;
+}
+
+export const DISCONNECTED_STATE: ProviderState = {
+  connected: false,
+  chainIds: [],
+  unlocked: false,
+  address: null,
+};
+
+export type ProviderEvent =
+  | { event: "accountsChanged"; data: { address: string | null } }
+  | { event: "chainChanged"; data: { chainIds: string[] } }
+  | { event: "lock" | "unlock" | "disconnect"; data: Record<string, never> };
+
+function sameChains(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+/**
+ * Events between two snapshots, plus the snapshot to diff against next
+ * time. The last known address is kept across a lock so unlocking into
+ * the same wallet doesn't report an account change.
+ */
+export function diffProviderState(
+  prev: ProviderState,
+  next: ProviderState,
+): { events: ProviderEvent[]; state: ProviderState } {
+  if (!next.connected) {
+    return {
+      events: prev.connected ? [{ event: "disconnect", data: {} }] : [],
+      state: DISCONNECTED_STATE,
+    };
+  }
+
+  const events: ProviderEvent[] = [];
+  if (prev.unlocked && !next.unlocked) events.push({ event: "lock", data: {} });
+  if (!prev.unlocked && next.unlocked) events.push({ event: "unlock", data: {} });
+  if (!sameChains(prev.chainIds, next.chainIds)) {
+    events.push({ event: "chainChanged", data: { chainIds: next.chainIds } });
+  }
+
+  if (!next.unlocked) return { events, state: { ...next, address: prev.address } };
+  if (next.address !== prev.address) events.push({ event: "accountsChanged", data: { address: next.address } });
+  return { events, state: next };
+}
@@ -143,6 +143,11 @@ export async function setActiveEndpoint(ep: RpcEndpoint): Promise<void> {
   await storageSet({ [STORAGE_KEY_RPC]: ep });
 }
 
+/** The raw saved public-endpoint pick, or null if the user never picked one. */
+export async function getSavedEndpoint(): Promise<RpcEndpoint | null> {
+  return (await storageGet<RpcEndpoint>(STORAGE_KEY_RPC)) ?? null;
+}
+
 async function getSavedPublicEndpoint(): Promise<RpcEndpoint> {
   const saved = await storageGet<RpcEndpoint>(STORAGE_KEY_RPC);
   if (saved && saved.rpc && saved.rest && !saved.isGonkaRpc) return saved;
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { splitMnemonic, combineShares, parseShare, SHARE_PREFIX } from "./shamir";
+
+// Well-known test mnemonics — never use with real funds
+const MNEMONIC_12 =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const MNEMONIC_24 =
+  "legal winner thank year wave sausage worth useful legal winner thank year wave sausage worth useful legal winner thank year wave sausage worth title";
+
+describe("splitMnemonic / combineShares", () => {
+  it("recovers a 12-word phrase from any 2 of 3 shares", () => {
+    const shares = splitMnemonic(MNEMONIC_12, 2, 3);
+    expect(shares).toHaveLength(3);
+    expect(combineShares([shares[0], shares[1]])).toBe(MNEMONIC_12);
+    expect(combineShares([shares[2], shares[0]])).toBe(MNEMONIC_12);
+    expect(combineShares([shares[1], shares[2]])).toBe(MNEMONIC_12);
+  });
+
+  it("recovers a 24-word phrase from 3 of 5 shares", () => {
+    const shares = splitMnemonic(MNEMONIC_24, 3, 5);
+    expect(combineShares([shares[4], shares[1], shares[3]])).toBe(MNEMONIC_24);
+  });
+
+  it("formats shares with the set id, threshold and index", () => {
+    const [first] = splitMnemonic(MNEMONIC_12, 2, 3);
+    expect(first.startsWith(`${SHARE_PREFIX} `)).toBe(true);
+    const parsed = parseShare(first);
+    expect(parsed.threshold).toBe(2);
+    expect(parsed.index).toBe(1);
+    expect(parsed.data).toHaveLength(16);
+  });
+
+  it("checks extra shares against the others", () => {
+    const shares = splitMnemonic(MNEMONIC_12, 2, 3);
+    expect(combineShares(shares)).toBe(MNEMONIC_12);
+
+    // Keep share #3's header but swap in the payload of a share from another phrase
+    const header = shares[2].split(" ").slice(0, 2).join(" ");
+    const foreignWords = splitMnemonic("zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong", 2, 3)[2]
+      .split(" ")
+      .slice(2)
+      .join(" ");
+    expect(() => combineShares([shares[0], shares[1], `${header} ${foreignWords}`])).toThrow(
+      "doesn't match"
+    );
+  });
+});
+
+describe("combineShares – errors", () => {
+  const shares = splitMnemonic(MNEMONIC_12, 3, 4);
+
+  it("needs at least the threshold", () => {
+    expect(() => combineShares([shares[0], shares[1]])).toThrow("3 shares are needed");
+  });
+
+  it("rejects duplicates and shares from another split", () => {
+    expect(() => combineShares([shares[0], shares[0], shares[1]])).toThrow("entered twice");
+    const other = splitMnemonic(MNEMONIC_12, 3, 4);
+    expect(() => combineShares([shares[0], shares[1], other[2]])).toThrow("different backups");
+  });
+
+  it("rejects typos and foreign text", () => {
+    const words = shares[0].split(" ");
+    words[5] = "walet"; // not in the BIP39 list
+    expect(() => parseShare(words.join(" "))).toThrow("typo");
+    expect(() => parseShare(MNEMONIC_12)).toThrow("Not a GG Wallet share");
+  });
+
+  it("validates split parameters", () => {
+    expect(() => splitMnemonic(MNEMONIC_12, 1, 3)).toThrow("at least 2");
+    expect(() => splitMnemonic(MNEMONIC_12, 4, 3)).toThrow("lower than the threshold");
+    expect(() => splitMnemonic(MNEMONIC_12, 2, 17)).toThrow("At most 16");
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Shamir secret sharing for recovery phrases.
+ *
+ * The BIP39 entropy (16 or 32 bytes) is split byte-by-byte over GF(256)
+ * (AES polynomial x^8 + x^4 + x^3 + x + 1): each byte is the constant term
+ * of a random polynomial of degree threshold-1, and share #x holds the
+ * polynomial values at x. Any `threshold` shares recover the entropy by
+ * Lagrange interpolation at 0; fewer reveal nothing about it.
+ *
+ * Share text format (one line):
+ *
+ *   gg-share-v1 <set>-<threshold>-<index> <words...>
+ *
+ *   set        4 hex chars, random per split — shares from different
+ *              splits can't be mixed by accident
+ *   threshold  shares needed to recover (2-16)
+ *   index      this share's x coordinate (1-16)
+ *   words      the share bytes encoded as a BIP39 phrase, so each share
+ *              carries its own checksum against typos
+ *
+ * This is not SLIP-39 and isn't compatible with hardware wallets that use it.
+ */
+
+import { Bip39, EnglishMnemonic, Random } from "@cosmjs/crypto";
+import { toHex } from "@cosmjs/encoding";
+
+export const SHARE_PREFIX = "gg-share-v1";
+export const MAX_SHARES = 16;
+
+export interface Share {
+  setId: string;
+  threshold: number;
+  index: number;
+  data: Uint8Array;
+}
+
+// ---- GF(256) arithmetic ----
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // multiply by the generator 3: x*2 ^ x, reduced mod 0x11b
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+})();
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error("Division by zero");
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+// ---- Split / combine ----
+
+/**
+ * Split a recovery phrase into `count` shares, any `threshold` of which
+ * recover it. Returns the shares in text form.
+ */
+export function splitMnemonic(mnemonic: string, threshold: number, count: number): string[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count)) {
+    throw new Error("Threshold and share count must be whole numbers");
+  }
+  if (threshold < 2) throw new Error("Threshold must be at least 2");
+  if (count < threshold) throw new Error("Share count can't be lower than the threshold");
+  if (count > MAX_SHARES) throw new Error(`At most ${MAX_SHARES} shares are supported`);
+
+  const secret = Bip39.decode(new EnglishMnemonic(mnemonic.trim()));
+  const setId = toHex(Random.getBytes(2));
+  const shares: Uint8Array[] = Array.from({ length: count }, () => new Uint8Array(secret.length));
+
+  for (let b = 0; b < secret.length; b++) {
+    const coeffs = [secret[b], ...Random.getBytes(threshold - 1)];
+    for (let s = 0; s < count; s++) {
+      const x = s + 1;
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = coeffs.length - 1; c >= 0; c--) {
+        y = mul(y, x) ^ coeffs[c];
+      }
+      shares[s][b] = y;
+    }
+  }
+
+  return shares.map((data, s) =>
+    formatShare({ setId, threshold, index: s + 1, data })
+  );
+}
+
+/**
+ * Recombine shares into the recovery phrase. Throws if the shares are
+ * malformed, come from different splits, or are fewer than the threshold.
+ * Extra shares beyond the threshold are checked for consistency.
+ */
+export function combineShares(texts: string[]): string {
+  const shares = texts.map((t) => t.trim()).filter(Boolean).map(parseShare);
+  if (shares.length === 0) throw new Error("Enter at least one share");
+
+  const { setId, threshold } = shares[0];
+  const len = shares[0].data.length;
+  const seen = new Set<number>();
+  for (const s of shares) {
+    if (s.setId !== setId || s.threshold !== threshold || s.data.length !== len) {
+      throw new Error("These shares come from different backups");
+    }
+    if (seen.has(s.index)) throw new Error(`Share #${s.index} was entered twice`);
+    seen.add(s.index);
+  }
+  if (shares.length < threshold) {
+    throw new Error(`${threshold} shares are needed, only ${shares.length} entered`);
+  }
+
+  const used = shares.slice(0, threshold);
+  const secret = interpolate(used, 0);
+
+  for (const extra of shares.slice(threshold)) {
+    const expected = interpolate(used, extra.index);
+    if (expected.some((byte, i) => byte !== extra.data[i])) {
+      throw new Error(`Share #${extra.index} doesn't match the others`);
+    }
+  }
+
+  return Bip39.encode(secret).toString();
+}
+
+/** Evaluate the polynomial through `shares` at x, byte by byte. */
+function interpolate(shares: Share[], x: number): Uint8Array {
+  const out = new Uint8Array(shares[0].data.length);
+  for (let b = 0; b < out.length; b++) {
+    let acc = 0;
+    for (let i = 0; i < shares.length; i++) {
+      let basis = 1;
+      for (let j = 0; j < shares.length; j++) {
+        if (i === j) continue;
+        // Subtraction is XOR in GF(256)
+        basis = mul(basis, div(x ^ shares[j].index, shares[i].index ^ shares[j].index));
+      }
+      acc ^= mul(shares[i].data[b], basis);
+    }
+    out[b] = acc;
+  }
+  return out;
+}
+
+// ---- Text encoding ----
+
+export function formatShare(share: Share): string {
+  const header = `${share.setId}-${share.threshold}-${share.index}`;
+  return `${SHARE_PREFIX} ${header} ${Bip39.encode(share.data).toString()}`;
+}
+
+export function parseShare(text: string): Share {
+  const [prefix, header, ...words] = text.trim().toLowerCase().split(/\s+/);
+  if (prefix !== SHARE_PREFIX) throw new Error("Not a GG Wallet share");
+
+  const match = /^([0-9a-f]{4})-(\d{1,2})-(\d{1,2})$/.exec(header ?? "");
+  if (!match) throw new Error("Share header is malformed");
+  const threshold = Number(match[2]);
+  const index = Number(match[3]);
+  if (threshold < 2 || threshold > MAX_SHARES || index < 1 || index > MAX_SHARES) {
+    throw new Error("Share header is malformed");
+  }
+
+  let data: Uint8Array;
+  try {
+    data = Bip39.decode(new EnglishMnemonic(words.join(" ")));
+  } catch {
+    throw new Error(`Share #${index} has a typo (checksum mismatch)`);
+  }
+  return { setId: match[1], threshold, index, data };
+}
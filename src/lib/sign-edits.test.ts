@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { makeAuthInfoBytes, encodePubkey } from "@cosmjs/proto-signing";
+import { encodeSecp256k1Pubkey } from "@cosmjs/amino";
+import { AuthInfo, TxBody } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { registry } from "./cosmos";
+import {
+  applyAminoSignEdits,
+  applyDirectSignEdits,
+  editableSignFields,
+  validateSignEdits,
+} from "./sign-edits";
+
+const FEE = { amount: [{ denom: "ngonka", amount: "500" }], gas: "250000" };
+
+describe("sign edits", () => {
+  it("respects preferNoSetFee / preferNoSetMemo", () => {
+    expect(editableSignFields(undefined)).toEqual({ fee: true, memo: true });
+    expect(editableSignFields({ preferNoSetFee: true })).toEqual({ fee: false, memo: true });
+    expect(validateSignEdits({ fee: FEE }, { preferNoSetFee: true })).toMatch(/fee/);
+    expect(validateSignEdits({ memo: "x" }, { preferNoSetMemo: true })).toMatch(/memo/);
+    expect(validateSignEdits({ fee: { ...FEE, gas: "0" } }, {})).toMatch(/Gas limit/);
+    expect(validateSignEdits({ memo: "x".repeat(257) }, {})).toMatch(/256/);
+    expect(validateSignEdits({ fee: FEE, memo: "hi" }, {})).toBeNull();
+  });
+
+  it("writes edits into the Amino doc and keeps the granter", () => {
+    const doc = {
+      chain_id: "gonka-mainnet",
+      account_number: "1",
+      sequence: "2",
+      fee: { amount: [], gas: "100000", granter: "gonka1granter" },
+      msgs: [],
+      memo: "",
+    };
+    expect(applyAminoSignEdits(doc, { fee: FEE, memo: "edited" })).toEqual({
+      ...doc,
+      fee: { ...FEE, granter: "gonka1granter" },
+      memo: "edited",
+    });
+    expect(applyAminoSignEdits(doc, {})).toEqual(doc);
+  });
+
+  it("re-encodes only the edited signDirect bytes", () => {
+    const bodyBytes = registry.encodeTxBody({ messages: [], memo: "original" });
+    const pubkey = encodePubkey(encodeSecp256k1Pubkey(new Uint8Array(33).fill(2)));
+    const authInfoBytes = makeAuthInfoBytes([{ pubkey, sequence: 4n }], [], 100000, "gonka1granter", undefined);
+
+    const memoOnly = applyDirectSignEdits(bodyBytes, authInfoBytes, { memo: "edited" });
+    expect(TxBody.decode(memoOnly.bodyBytes).memo).toBe("edited");
+    expect(memoOnly.authInfoBytes).toBe(authInfoBytes);
+
+    const feeOnly = applyDirectSignEdits(bodyBytes, authInfoBytes, { fee: FEE });
+    expect(feeOnly.bodyBytes).toBe(bodyBytes);
+    const authInfo = AuthInfo.decode(feeOnly.authInfoBytes);
+    expect(authInfo.fee?.amount).toEqual(FEE.amount);
+    expect(authInfo.fee?.gasLimit).toBe(250000n);
+    expect(authInfo.fee?.granter).toBe("gonka1granter");
+    expect(authInfo.signerInfos[0].sequence).toBe(4n);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Fee and memo edits made in the approval popup.
+ *
+ * Like Keplr, the user may change a sign request's fee and memo unless
+ * the dApp opted out with `preferNoSetFee` / `preferNoSetMemo`. Edits are
+ * written back into the doc before signing — the Amino doc itself, or
+ * re-encoded body / auth_info bytes for signDirect — so the `signed` doc
+ * returned to the dApp shows what was actually signed.
+ */
+
+import type { StdSignDoc } from "@cosmjs/amino";
+import { AuthInfo, TxBody } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+
+export interface SignOptions {
+  preferNoSetFee?: boolean;
+  preferNoSetMemo?: boolean;
+}
+
+export interface FeeEdit {
+  /** Fee coins in minimal denom. */
+  amount: { denom: string; amount: string }[];
+  /** Gas limit as an integer string. */
+  gas: string;
+}
+
+/** Only the fields the user changed; absent fields are left untouched. */
+export interface SignDocEdits {
+  fee?: FeeEdit;
+  memo?: string;
+}
+
+// Cosmos SDK default for auth params max_memo_characters
+export const MAX_MEMO_LENGTH = 256;
+const MAX_GAS_LIMIT = 100_000_000n;
+
+/** Which fields the dApp lets the user edit. */
+export function editableSignFields(options: SignOptions | undefined): { fee: boolean; memo: boolean } {
+  return { fee: !options?.preferNoSetFee, memo: !options?.preferNoSetMemo };
+}
+
+/**
+ * Check edits against the dApp's sign options and basic sanity limits.
+ * Returns an error message, or null when the edits can be applied.
+ */
+export function validateSignEdits(edits: SignDocEdits, options: SignOptions | undefined): string | null {
+  const editable = editableSignFields(options);
+  if (edits.fee) {
+    if (!editable.fee) return "This site doesn't allow changing the fee";
+    if (!/^\d+$/.test(edits.fee.gas) || BigInt(edits.fee.gas) === 0n) return "Gas limit must be a positive whole number";
+    if (BigInt(edits.fee.gas) > MAX_GAS_LIMIT) return "Gas limit is too high";
+    for (const coin of edits.fee.amount) {
+      if (!coin.denom || !/^\d+$/.test(coin.amount)) return "Fee amount must be a non-negative amount";
+    }
+  }
+  if (edits.memo !== undefined) {
+    if (!editable.memo) return "This site doesn't allow changing the memo";
+    if (edits.memo.length > MAX_MEMO_LENGTH) return `Memo can be at most ${MAX_MEMO_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** Copy of an Amino sign doc with the edits applied (granter / payer are kept). */
+export function applyAminoSignEdits(doc: StdSignDoc, edits: SignDocEdits): StdSignDoc {
+  return {
+    ...doc,
+    fee: edits.fee ? { ...doc.fee, amount: edits.fee.amount, gas: edits.fee.gas } : doc.fee,
+    memo: edits.memo ?? doc.memo,
+  };
+}
+
+/**
+ * Apply edits to signDirect bytes. Only the parts that changed are
+ * re-encoded, so unedited requests keep their exact bytes.
+ */
+export function applyDirectSignEdits(
+  bodyBytes: Uint8Array,
+  authInfoBytes: Uint8Array,
+  edits: SignDocEdits,
+): { bodyBytes: Uint8Array; authInfoBytes: Uint8Array } {
+  let nextBody = bodyBytes;
+  let nextAuthInfo = authInfoBytes;
+
+  if (edits.memo !== undefined) {
+    const body = TxBody.decode(bodyBytes);
+    nextBody = TxBody.encode({ ...body, memo: edits.memo }).finish();
+  }
+  if (edits.fee) {
+    const authInfo = AuthInfo.decode(authInfoBytes);
+    nextAuthInfo = AuthInfo.encode({
+      ...authInfo,
+      fee: {
+        payer: authInfo.fee?.payer ?? "",
+        granter: authInfo.fee?.granter ?? "",
+        amount: edits.fee.amount,
+        gasLimit: BigInt(edits.fee.gas),
+      },
+    }).finish();
+  }
+  return { bodyBytes: nextBody, authInfoBytes: nextAuthInfo };
+}
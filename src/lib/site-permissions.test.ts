@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  sitePermissions,
+  siteAllows,
+  siteCanSeeWallet,
+  isSiteExpired,
+  applySitePermissionUpdate,
+  ALL_SITE_PERMISSIONS,
+} from "./site-permissions";
+import type { ConnectedSite } from "./storage";
+
+const legacy: ConnectedSite = { origin: "https://app.example", chainIds: ["gonka-mainnet"], connectedAt: 1 };
+
+describe("site permissions", () => {
+  it("gives sites without scopes full access to every wallet", () => {
+    expect(sitePermissions(legacy)).toEqual(ALL_SITE_PERMISSIONS);
+    expect(siteAllows(legacy, "broadcast")).toBe(true);
+    expect(siteCanSeeWallet(legacy, "gonka1any")).toBe(true);
+  });
+
+  it("enforces scopes, wallet visibility and expiry", () => {
+    const site: ConnectedSite = { ...legacy, permissions: ["address"], wallets: ["gonka1a"], expiresAt: 1000 };
+    expect(siteAllows(site, "address", 999)).toBe(true);
+    expect(siteAllows(site, "sign", 999)).toBe(false);
+    expect(siteAllows(site, "address", 1000)).toBe(false);
+    expect(isSiteExpired(site, 1000)).toBe(true);
+    expect(siteCanSeeWallet(site, "gonka1a")).toBe(true);
+    expect(siteCanSeeWallet(site, "gonka1b")).toBe(false);
+  });
+
+  it("stores defaults as absent fields and drops unknown scopes", () => {
+    const narrowed = applySitePermissionUpdate(legacy, {
+      permissions: ["sign", "address", "admin" as any],
+      expiresAt: 5000,
+      wallets: ["gonka1a", "gonka1a"],
+    });
+    expect(narrowed).toEqual({ ...legacy, permissions: ["address", "sign"], expiresAt: 5000, wallets: ["gonka1a"] });
+
+    const reset = applySitePermissionUpdate(narrowed, {
+      permissions: [...ALL_SITE_PERMISSIONS],
+      expiresAt: null,
+      wallets: null,
+    });
+    expect(reset).toEqual(legacy);
+  });
+
+  it("keeps broadcast trust unless the update changes it", () => {
+    const trusted = applySitePermissionUpdate(legacy, {
+      permissions: ["broadcast"],
+      expiresAt: null,
+      wallets: null,
+      trustBroadcasts: true,
+    });
+    expect(trusted.trustBroadcasts).toBe(true);
+    expect(applySitePermissionUpdate(trusted, { permissions: ["broadcast"], expiresAt: null, wallets: null })).toEqual(
+      trusted
+    );
+    expect(
+      applySitePermissionUpdate(trusted, {
+        permissions: ["broadcast"],
+        expiresAt: null,
+        wallets: null,
+        trustBroadcasts: false,
+      }).trustBroadcasts
+    ).toBeUndefined();
+  });
+});
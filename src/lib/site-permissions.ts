@@ -0,0 +1,68 @@
+/**
+ * Scopes, expiry and wallet visibility of connected dApp sites.
+ *
+ * A ConnectedSite without `permissions` / `wallets` (every site connected
+ * before scopes existed, and every new connection until the user narrows
+ * it in Settings) has all scopes and sees all wallets. Everything here is
+ * pure so it can be unit-tested.
+ */
+
+import type { ConnectedSite, SitePermission } from "./storage";
+
+export const ALL_SITE_PERMISSIONS: SitePermission[] = ["address", "sign", "broadcast"];
+
+export const SITE_PERMISSION_LABELS: Record<SitePermission, string> = {
+  address: "Read address",
+  sign: "Request signatures",
+  broadcast: "Broadcast transactions",
+};
+
+/** Expiry presets offered in Settings (ms; 0 = never expires). */
+export const SITE_EXPIRY_OPTIONS: { label: string; ms: number }[] = [
+  { label: "Never", ms: 0 },
+  { label: "1h", ms: 60 * 60_000 },
+  { label: "1d", ms: 24 * 60 * 60_000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60_000 },
+  { label: "30d", ms: 30 * 24 * 60 * 60_000 },
+];
+
+export function sitePermissions(site: ConnectedSite): SitePermission[] {
+  return site.permissions ?? ALL_SITE_PERMISSIONS;
+}
+
+export function isSiteExpired(site: ConnectedSite, now = Date.now()): boolean {
+  return site.expiresAt !== undefined && site.expiresAt <= now;
+}
+
+export function siteAllows(site: ConnectedSite, permission: SitePermission, now = Date.now()): boolean {
+  return !isSiteExpired(site, now) && sitePermissions(site).includes(permission);
+}
+
+export function siteCanSeeWallet(site: ConnectedSite, address: string): boolean {
+  return !site.wallets || site.wallets.includes(address);
+}
+
+export interface SitePermissionUpdate {
+  permissions: SitePermission[];
+  /** null = never expires */
+  expiresAt: number | null;
+  /** null = every wallet */
+  wallets: string[] | null;
+  /** Unset keeps the site's current setting. */
+  trustBroadcasts?: boolean;
+}
+
+/**
+ * Apply an edit from Settings. Unknown scopes are dropped; the default
+ * (all scopes / all wallets / no expiry) is stored as an absent field so
+ * the site keeps following future defaults.
+ */
+export function applySitePermissionUpdate(site: ConnectedSite, update: SitePermissionUpdate): ConnectedSite {
+  const permissions = ALL_SITE_PERMISSIONS.filter((p) => update.permissions.includes(p));
+  const next: ConnectedSite = { origin: site.origin, chainIds: site.chainIds, connectedAt: site.connectedAt };
+  if (permissions.length !== ALL_SITE_PERMISSIONS.length) next.permissions = permissions;
+  if (update.expiresAt !== null) next.expiresAt = update.expiresAt;
+  if (update.wallets !== null) next.wallets = [...new Set(update.wallets)];
+  if (update.trustBroadcasts ?? site.trustBroadcasts) next.trustBroadcasts = true;
+  return next;
+}
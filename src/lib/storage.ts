@@ -15,7 +15,7 @@ const KEYS = {
   AUTO_LOCK_MINUTES: "gg_auto_lock_minutes",
   /** Address book entries: AddressBookEntry[] */
   ADDRESS_BOOK: "gg_address_book",
-  /** Suggested chains from dApps: Record<chainId, ChainInfo> */
+  /** Chains suggested by dApps and approved by the user: Record<chainId, SuggestedChainInfo> */
   SUGGESTED_CHAINS: "gg_suggested_chains",
   /** Manually-pasted rpc.gonka.gg API key (string). Power-user override. */
   GONKA_RPC_API_KEY: "gg_rpc_gonka_gg_api_key",
@@ -31,6 +31,20 @@ const KEYS = {
   GONKA_RPC_LAST_NEAR_LIMIT_NOTICE: "gg_rpc_gonka_gg_last_near_limit",
   /** RPC provider preference: "gonka" (default) | "public" (opt-out). */
   GONKA_RPC_PROVIDER_PREF: "gg_rpc_gonka_gg_provider_pref",
+  /** Security audit log, oldest first: AuditEntry[] (see lib/audit-log.ts) */
+  AUDIT_LOG: "gg_audit_log",
+  /** Consecutive failed password attempts: { failures, lastFailureAt } */
+  UNLOCK_FAILURES: "gg_unlock_failures",
+  /** Failed attempts that require an extension reload (0 = off) */
+  UNLOCK_RELOAD_AFTER: "gg_unlock_reload_after",
+  /** User blocklist / allowlist of dApp hostnames: OriginLists (see lib/phishing.ts) */
+  ORIGIN_LISTS: "gg_origin_lists",
+  /** Per-origin auto-approval rules: Record<origin, AutoApprovalRule> (see lib/auto-approval.ts) */
+  AUTO_APPROVAL_RULES: "gg_auto_approval_rules",
+  /** Spend auto-approved today per origin: Record<origin, DailySpend> */
+  AUTO_APPROVAL_SPEND: "gg_auto_approval_spend",
+  /** Batch transaction drafts per wallet address: Record<address, BatchItem[]> (see lib/batch.ts) */
+  BATCH_DRAFTS: "gg_batch_drafts",
 
   // --- Legacy single-wallet keys (migration) ---
   ENCRYPTED_MNEMONIC: "gg_encrypted_mnemonic",
@@ -84,11 +98,34 @@ export interface ConnectedSite {
   chainIds: string[];
   /** Timestamp of first connection (ms) */
   connectedAt: number;
+  /**
+   * Granted scopes. Unset on sites connected before scopes existed, which
+   * keep full access (see lib/site-permissions).
+   */
+  permissions?: SitePermission[];
+  /** The connection lapses at this timestamp (ms); unset = never. */
+  expiresAt?: number;
+  /** Wallet addresses the site may see; unset = every wallet. */
+  wallets?: string[];
+  /** Broadcasts (sendTx) skip the approval check (see lib/broadcast-policy). */
+  trustBroadcasts?: boolean;
 }
 
+/**
+ * What a connected site may do: read the active address (getKey), ask for
+ * signatures (signAmino / signDirect / signArbitrary), broadcast (sendTx).
+ */
+export type SitePermission = "address" | "sign" | "broadcast";
+
+export type WalletKeyType = "mnemonic" | "privateKey";
+
 /**
  * A single wallet entry stored encrypted.
+ * By default the ciphertext is the recovery phrase; for keyType "privateKey"
+ * it is the hex-encoded secp256k1 private key.
  * For watch-only wallets, viewOnly is true and ciphertext/salt/iv are empty strings.
+ * For HD-derived accounts, parentAddress points at the seed wallet whose
+ * mnemonic is decrypted to derive them; ciphertext/salt/iv are empty strings.
  */
 export interface WalletEntry {
   name: string;
@@ -97,6 +134,25 @@ export interface WalletEntry {
   salt: string;
   iv: string;
   viewOnly?: boolean;
+  /** What the ciphertext holds. Defaults to "mnemonic". */
+  keyType?: WalletKeyType;
+  /**
+   * BIP39 passphrase of a seed wallet, encrypted under the same password
+   * with its own salt and IV. Absent when the seed has no passphrase.
+   */
+  passphrase?: { ciphertext: string; salt: string; iv: string };
+  /**
+   * Password group this wallet belongs to. Wallets in a group are encrypted
+   * under the group's own password instead of the main wallet password.
+   * Derived accounts always follow their seed wallet's group.
+   */
+  group?: string;
+  /** Address of the seed wallet this account is derived from. */
+  parentAddress?: string;
+  /** BIP44 account index — m/44'/1200'/{hdAccount}'/0/{hdIndex}. Defaults to 0. */
+  hdAccount?: number;
+  /** BIP44 address index. Defaults to 0. */
+  hdIndex?: number;
 }
 
 export interface AddressBookEntry {
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { toUtf8 } from "@cosmjs/encoding";
+import { makeAuthInfoBytes, encodePubkey } from "@cosmjs/proto-signing";
+import { encodeSecp256k1Pubkey } from "@cosmjs/amino";
+import { SignMode } from "cosmjs-types/cosmos/tx/signing/v1beta1/signing";
+import { MsgExec, MsgGrant } from "cosmjs-types/cosmos/authz/v1beta1/tx";
+import { GenericAuthorization } from "cosmjs-types/cosmos/authz/v1beta1/authz";
+import { MsgSend } from "cosmjs-types/cosmos/bank/v1beta1/tx";
+import { MsgVote } from "cosmjs-types/cosmos/gov/v1beta1/tx";
+import { MsgTransfer } from "cosmjs-types/ibc/applications/transfer/v1/tx";
+import { registry } from "./cosmos";
+import {
+  decodeTxBodyBytes,
+  decodeAuthInfoBytes,
+  decodeAnyMessage,
+  decodeUnknownFields,
+  describeMessage,
+} from "./tx-decoder";
+
+const ME = "gonka1me";
+
+function any(typeUrl: string, value: Uint8Array) {
+  return { typeUrl, value };
+}
+
+describe("decodeTxBodyBytes", () => {
+  it("decodes registry messages, memo and timeout height", () => {
+    const bodyBytes = registry.encodeTxBody({
+      messages: [
+        {
+          typeUrl: "/cosmwasm.wasm.v1.MsgMigrateContract",
+          value: { sender: ME, contract: "gonka1contract", codeId: 7n, msg: toUtf8('{"migrate":{}}') },
+        },
+      ],
+      memo: "hello",
+      timeoutHeight: 900n,
+    });
+    const body = decodeTxBodyBytes(bodyBytes);
+    expect(body.memo).toBe("hello");
+    expect(body.timeoutHeight).toBe("900");
+    expect(body.messages[0]).toEqual({
+      typeUrl: "/cosmwasm.wasm.v1.MsgMigrateContract",
+      value: { sender: ME, contract: "gonka1contract", codeId: "7", msg: { migrate: {} } },
+      known: true,
+    });
+
+    const described = describeMessage(body.messages[0]);
+    expect(described.title).toBe("Migrate contract");
+    expect(described.fields.find((f) => f.label === "New code ID")?.value).toBe("7");
+  });
+});
+
+describe("nested messages", () => {
+  it("decodes authz MsgExec payloads as children", () => {
+    const send = MsgSend.encode(
+      MsgSend.fromPartial({ fromAddress: ME, toAddress: "gonka1to", amount: [{ denom: "ngonka", amount: "1500000000" }] })
+    ).finish();
+    const exec = MsgExec.encode(
+      MsgExec.fromPartial({ grantee: "gonka1grantee", msgs: [any("/cosmos.bank.v1beta1.MsgSend", send)] })
+    ).finish();
+
+    const described = describeMessage(decodeAnyMessage(any("/cosmos.authz.v1beta1.MsgExec", exec)));
+    expect(described.title).toBe("Execute as grantee");
+    expect(described.children).toHaveLength(1);
+    expect(described.children![0].title).toBe("Send");
+    expect(described.children![0].fields).toContainEqual({ label: "Amount", value: "1.5 GNK", kind: "amount" });
+  });
+
+  it("shows the authorization inside a grant", () => {
+    const grant = MsgGrant.encode(
+      MsgGrant.fromPartial({
+        granter: ME,
+        grantee: "gonka1bot",
+        grant: {
+          authorization: any(
+            "/cosmos.authz.v1beta1.GenericAuthorization",
+            GenericAuthorization.encode({ msg: "/cosmos.gov.v1beta1.MsgVote" }).finish()
+          ),
+          expiration: { seconds: 1_700_000_000n, nanos: 0 },
+        },
+      })
+    ).finish();
+
+    const fields = describeMessage(decodeAnyMessage(any("/cosmos.authz.v1beta1.MsgGrant", grant))).fields;
+    expect(fields).toContainEqual({ label: "Authorization", value: "GenericAuthorization", kind: "text" });
+    expect(fields).toContainEqual({ label: "Allowed message", value: "/cosmos.gov.v1beta1.MsgVote", kind: "text" });
+    expect(fields).toContainEqual({ label: "Expires", value: "2023-11-14T22:13:20.000Z", kind: "text" });
+  });
+});
+
+describe("describeMessage", () => {
+  it("renders votes and IBC transfers readably", () => {
+    const vote = MsgVote.encode(MsgVote.fromPartial({ proposalId: 12n, voter: ME, option: 4 })).finish();
+    const voteFields = describeMessage(decodeAnyMessage(any("/cosmos.gov.v1beta1.MsgVote", vote))).fields;
+    expect(voteFields).toContainEqual({ label: "Proposal", value: "#12", kind: "text" });
+    expect(voteFields).toContainEqual({ label: "Option", value: "No with veto", kind: "text" });
+
+    const transfer = MsgTransfer.encode(
+      MsgTransfer.fromPartial({
+        sourcePort: "transfer",
+        sourceChannel: "channel-0",
+        token: { denom: "ngonka", amount: "1000000000" },
+        sender: ME,
+        receiver: "cosmos1dest",
+        timeoutTimestamp: 1_700_000_000_000_000_000n,
+      })
+    ).finish();
+    const described = describeMessage(decodeAnyMessage(any("/ibc.applications.transfer.v1.MsgTransfer", transfer)));
+    expect(described.title).toBe("IBC transfer");
+    expect(described.fields).toContainEqual({ label: "Channel", value: "transfer/channel-0", kind: "text" });
+    expect(described.fields).toContainEqual({ label: "Timeout", value: "2023-11-14T22:13:20.000Z", kind: "text" });
+  });
+});
+
+describe("schema-less fallback", () => {
+  it("walks unknown messages field by field", () => {
+    // field 1: "gonka1creator", field 2: nested { 1: 42 }, field 3 repeated: 1, 2
+    const bytes = new Uint8Array([
+      0x0a, 13, ...toUtf8("gonka1creator"),
+      0x12, 2, 0x08, 42,
+      0x18, 1, 0x18, 2,
+    ]);
+    expect(decodeUnknownFields(bytes)).toEqual({ "#1": "gonka1creator", "#2": { "#1": "42" }, "#3": ["1", "2"] });
+
+    const decoded = decodeAnyMessage(any("/inference.inference.MsgStartInference", bytes));
+    expect(decoded.known).toBe(false);
+    expect(describeMessage(decoded).title).toBe("MsgStartInference");
+    expect(() => decodeUnknownFields(new Uint8Array([0x0a, 5, 1]))).toThrow();
+  });
+});
+
+describe("decodeAuthInfoBytes", () => {
+  it("reads fee, gas limit and signer sequence", () => {
+    const pubkey = encodePubkey(encodeSecp256k1Pubkey(new Uint8Array(33).fill(2)));
+    const bytes = makeAuthInfoBytes(
+      [{ pubkey, sequence: 17n }],
+      [{ denom: "ngonka", amount: "250" }],
+      200000,
+      undefined,
+      undefined,
+      SignMode.SIGN_MODE_DIRECT
+    );
+    const info = decodeAuthInfoBytes(bytes);
+    expect(info.fee).toEqual([{ denom: "ngonka", amount: "250" }]);
+    expect(info.gasLimit).toBe("200000");
+    expect(info.signers).toEqual([
+      { sequence: "17", keyType: "secp256k1", publicKey: expect.any(String), mode: "SIGN_MODE_DIRECT" },
+    ]);
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * Protobuf transaction decoding for the approval popup.
+ *
+ * Messages are decoded with the wallet's proto Registry (lib/cosmos.ts:
+ * every cosmjs default type plus wasm). Nested `Any`s — authz grants and
+ * MsgExec payloads, fee allowances, proposal contents — are decoded
+ * recursively. Types without generated code (e.g. Gonka's inference module)
+ * fall back to a schema-less wire-format walk, so their strings, numbers
+ * and nested messages are still readable.
+ *
+ * `describeMessage` turns a decoded message into labelled fields for
+ * display. Everything here is pure so it can be unit-tested.
+ */
+
+import type { GeneratedType } from "@cosmjs/proto-signing";
+import { toBase64, fromUtf8 } from "@cosmjs/encoding";
+import { TxBody, AuthInfo } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { signModeToJSON } from "cosmjs-types/cosmos/tx/signing/v1beta1/signing";
+import { GenericAuthorization } from "cosmjs-types/cosmos/authz/v1beta1/authz";
+import { SendAuthorization } from "cosmjs-types/cosmos/bank/v1beta1/authz";
+import { StakeAuthorization } from "cosmjs-types/cosmos/staking/v1beta1/authz";
+import {
+  BasicAllowance,
+  PeriodicAllowance,
+  AllowedMsgAllowance,
+} from "cosmjs-types/cosmos/feegrant/v1beta1/feegrant";
+import { TextProposal } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+import { PubKey as Secp256k1PubKey } from "cosmjs-types/cosmos/crypto/secp256k1/keys";
+import { registry } from "./cosmos";
+import { hasControlChars, toDisplay } from "./format";
+import { GONKA_DENOM, GONKA_DISPLAY_DENOM } from "./gonka";
+
+/** Non-message types that appear inside `Any` fields. */
+const NESTED_TYPES: Record<string, GeneratedType> = {
+  "/cosmos.authz.v1beta1.GenericAuthorization": GenericAuthorization,
+  "/cosmos.bank.v1beta1.SendAuthorization": SendAuthorization,
+  "/cosmos.staking.v1beta1.StakeAuthorization": StakeAuthorization,
+  "/cosmos.feegrant.v1beta1.BasicAllowance": BasicAllowance,
+  "/cosmos.feegrant.v1beta1.PeriodicAllowance": PeriodicAllowance,
+  "/cosmos.feegrant.v1beta1.AllowedMsgAllowance": AllowedMsgAllowance,
+  "/cosmos.gov.v1beta1.TextProposal": TextProposal,
+  "/cosmos.crypto.secp256k1.PubKey": Secp256k1PubKey,
+};
+
+// Byte fields longer than this (e.g. wasm bytecode) are shown by size only
+const MAX_BYTES_SHOWN = 256;
+const MAX_UNKNOWN_DEPTH = 6;
+
+export interface DecodedMessage {
+  typeUrl: string;
+  /** JSON-safe value: bigints as strings, JSON bytes parsed, other bytes base64. */
+  value: any;
+  /** False when no schema was found and `value` is a raw field walk. */
+  known: boolean;
+}
+
+export interface DecodedSigner {
+  sequence: string;
+  /** Short key type, e.g. "secp256k1". */
+  keyType?: string;
+  publicKey?: string;
+  mode?: string;
+}
+
+export interface DecodedAuthInfo {
+  fee: { denom: string; amount: string }[];
+  gasLimit: string;
+  payer?: string;
+  granter?: string;
+  signers: DecodedSigner[];
+}
+
+export interface DecodedTxBody {
+  messages: DecodedMessage[];
+  memo: string;
+  timeoutHeight?: string;
+}
+
+// ------------------------------------------------------------------
+//  Decoding
+// ------------------------------------------------------------------
+
+function isAny(v: any): v is { typeUrl: string; value: Uint8Array } {
+  return v && typeof v.typeUrl === "string" && v.value instanceof Uint8Array;
+}
+
+function isTimestamp(v: any): boolean {
+  return v && typeof v.seconds === "bigint" && typeof v.nanos === "number" && Object.keys(v).length === 2;
+}
+
+function normalizeBytes(bytes: Uint8Array): any {
+  if (bytes.length > MAX_BYTES_SHOWN) return `<${bytes.length} bytes>`;
+  if (bytes.length > 0 && (bytes[0] === 0x7b || bytes[0] === 0x5b)) {
+    try {
+      return JSON.parse(fromUtf8(bytes));
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return toBase64(bytes);
+}
+
+/** Make a decoded proto object JSON-safe, decoding nested Anys. */
+function normalize(v: any): any {
+  if (typeof v === "bigint") return v.toString();
+  if (v instanceof Uint8Array) return normalizeBytes(v);
+  if (v instanceof Date) return v.toISOString();
+  if (Array.isArray(v)) return v.map(normalize);
+  if (isAny(v)) return decodeAnyMessage(v);
+  if (isTimestamp(v)) return new Date(Number(v.seconds) * 1000 + Math.floor(v.nanos / 1e6)).toISOString();
+  if (v && typeof v === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, val] of Object.entries(v)) out[k] = normalize(val);
+    return out;
+  }
+  return v;
+}
+
+function readVarint(bytes: Uint8Array, pos: number): [bigint, number] {
+  let result = 0n;
+  let shift = 0n;
+  while (pos < bytes.length) {
+    const b = bytes[pos++];
+    result |= BigInt(b & 0x7f) << shift;
+    if ((b & 0x80) === 0) return [result, pos];
+    shift += 7n;
+    if (shift > 63n) break;
+  }
+  throw new Error("Malformed varint");
+}
+
+function isPrintable(s: string): boolean {
+  return !hasControlChars(s, "\t\n\v\f\r") && !s.includes("\ufffd");
+}
+
+/**
+ * Walk protobuf wire format without a schema. Fields are keyed "#<number>";
+ * repeated fields become arrays. Length-delimited fields are shown as text
+ * when they're printable UTF-8, as a nested message when they parse as
+ * one, and as base64 otherwise. Throws on malformed input.
+ */
+export function decodeUnknownFields(bytes: Uint8Array, depth = 0): Record<string, any> {
+  const seen = new Map<string, any[]>();
+  const add = (field: number, value: any) => {
+    const key = `#${field}`;
+    const values = seen.get(key);
+    if (values) values.push(value);
+    else seen.set(key, [value]);
+  };
+
+  let pos = 0;
+  while (pos < bytes.length) {
+    const [tag, afterTag] = readVarint(bytes, pos);
+    pos = afterTag;
+    const field = Number(tag >> 3n);
+    const wireType = Number(tag & 7n);
+    if (field === 0) throw new Error("Invalid field number");
+
+    if (wireType === 0) {
+      const [v, next] = readVarint(bytes, pos);
+      add(field, v.toString());
+      pos = next;
+    } else if (wireType === 1 || wireType === 5) {
+      const size = wireType === 1 ? 8 : 4;
+      if (pos + size > bytes.length) throw new Error("Truncated field");
+      add(field, `0x${Array.from(bytes.slice(pos, pos + size), (b) => b.toString(16).padStart(2, "0")).join("")}`);
+      pos += size;
+    } else if (wireType === 2) {
+      const [len, afterLen] = readVarint(bytes, pos);
+      const end = afterLen + Number(len);
+      if (end > bytes.length) throw new Error("Truncated field");
+      const chunk = bytes.slice(afterLen, end);
+      add(field, decodeLengthDelimited(chunk, depth));
+      pos = end;
+    } else {
+      throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  const fields: Record<string, any> = {};
+  for (const [key, values] of seen) fields[key] = values.length === 1 ? values[0] : values;
+  return fields;
+}
+
+function decodeLengthDelimited(chunk: Uint8Array, depth: number): any {
+  if (chunk.length === 0) return "";
+  let text: string | null = null;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(chunk);
+  } catch {
+    text = null;
+  }
+  if (text !== null && isPrintable(text)) {
+    if (text.startsWith("{") || text.startsWith("[")) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        // Plain text that happens to start with a bracket
+      }
+    }
+    return text;
+  }
+  if (depth < MAX_UNKNOWN_DEPTH) {
+    try {
+      return decodeUnknownFields(chunk, depth + 1);
+    } catch {
+      // Not a nested message
+    }
+  }
+  return normalizeBytes(chunk);
+}
+
+/** Decode one `Any` with the registry, the nested-type table or schema-less. */
+export function decodeAnyMessage(any: { typeUrl: string; value: Uint8Array }): DecodedMessage {
+  const type = registry.lookupType(any.typeUrl) ?? NESTED_TYPES[any.typeUrl];
+  if (type) {
+    try {
+      return { typeUrl: any.typeUrl, value: normalize(type.decode(any.value)), known: true };
+    } catch {
+      // Fall through to the schema-less walk
+    }
+  }
+  try {
+    return { typeUrl: any.typeUrl, value: decodeUnknownFields(any.value), known: false };
+  } catch {
+    return { typeUrl: any.typeUrl, value: normalizeBytes(any.value), known: false };
+  }
+}
+
+export function decodeTxBodyBytes(bytes: Uint8Array): DecodedTxBody {
+  const body = TxBody.decode(bytes);
+  return {
+    messages: body.messages.map(decodeAnyMessage),
+    memo: body.memo,
+    timeoutHeight: body.timeoutHeight ? body.timeoutHeight.toString() : undefined,
+  };
+}
+
+export function decodeAuthInfoBytes(bytes: Uint8Array): DecodedAuthInfo {
+  const authInfo = AuthInfo.decode(bytes);
+  return {
+    fee: (authInfo.fee?.amount ?? []).map((c) => ({ denom: c.denom, amount: c.amount })),
+    gasLimit: (authInfo.fee?.gasLimit ?? 0n).toString(),
+    payer: authInfo.fee?.payer || undefined,
+    granter: authInfo.fee?.granter || undefined,
+    signers: authInfo.signerInfos.map((info) => {
+      const key = info.publicKey ? decodeAnyMessage(info.publicKey) : undefined;
+      const mode = info.modeInfo?.single?.mode;
+      return {
+        sequence: info.sequence.toString(),
+        keyType: key ? key.typeUrl.split(".").slice(-2, -1)[0] : undefined,
+        publicKey: typeof key?.value?.key === "string" ? key.value.key : undefined,
+        mode: mode !== undefined ? signModeToJSON(mode) : info.modeInfo?.multi ? "MULTI" : undefined,
+      };
+    }),
+  };
+}
+
+// ------------------------------------------------------------------
+//  Readable descriptions
+// ------------------------------------------------------------------
+
+export type FieldKind = "text" | "address" | "amount" | "json";
+
+export interface DescribedField {
+  label: string;
+  value: string;
+  kind: FieldKind;
+}
+
+export interface MessageDescription {
+  title: string;
+  typeUrl: string;
+  known: boolean;
+  fields: DescribedField[];
+  /** Messages wrapped by this one (authz MsgExec, gov v1 proposals). */
+  children?: MessageDescription[];
+}
+
+export function formatCoin(c: { denom: string; amount: string } | undefined | null): string {
+  if (!c) return "0";
+  if (c.denom === GONKA_DENOM) return `${toDisplay(c.amount)} ${GONKA_DISPLAY_DENOM}`;
+  return `${c.amount} ${c.denom}`;
+}
+
+export function formatCoins(coins: { denom: string; amount: string }[] | undefined | null): string {
+  return coins && coins.length > 0 ? coins.map(formatCoin).join(", ") : "none";
+}
+
+const VOTE_OPTIONS: Record<string, string> = {
+  "1": "Yes",
+  "2": "Abstain",
+  "3": "No",
+  "4": "No with veto",
+};
+
+function voteLabel(option: any): string {
+  return VOTE_OPTIONS[String(option)] ?? String(option);
+}
+
+function shortType(typeUrl: string): string {
+  return typeUrl.split(".").pop() || typeUrl;
+}
+
+/** Builds the field list, skipping empty values. */
+class Fields {
+  readonly list: DescribedField[] = [];
+  add(label: string, value: any, kind: FieldKind = "text"): this {
+    if (value === undefined || value === null || value === "") return this;
+    const str = kind === "json" ? JSON.stringify(value, null, 2) : String(value);
+    this.list.push({ label, value: str, kind });
+    return this;
+  }
+  address(label: string, value: any): this {
+    return this.add(label, value, "address");
+  }
+  amount(label: string, value: any): this {
+    if (value === undefined || value === null) return this;
+    return this.add(label, Array.isArray(value) ? formatCoins(value) : formatCoin(value), "amount");
+  }
+}
+
+function describeAuthorization(f: Fields, auth: DecodedMessage | undefined): void {
+  if (!auth) return;
+  f.add("Authorization", shortType(auth.typeUrl));
+  const v = auth.value ?? {};
+  f.add("Allowed message", v.msg);
+  f.amount("Spend limit", v.spendLimit?.length ? v.spendLimit : undefined);
+  f.amount("Max tokens", v.maxTokens ?? undefined);
+  if (v.allowList?.address?.length) f.add("Validators", v.allowList.address.join(", "), "address");
+  if (v.denyList?.address?.length) f.add("Denied validators", v.denyList.address.join(", "), "address");
+  if (!auth.known) f.add("Details", v, "json");
+}
+
+function describeAllowance(f: Fields, allowance: DecodedMessage | undefined): void {
+  if (!allowance) return;
+  f.add("Allowance", shortType(allowance.typeUrl));
+  const v = allowance.value ?? {};
+  if (allowance.typeUrl.endsWith("AllowedMsgAllowance")) {
+    f.add("Allowed messages", (v.allowedMessages ?? []).join(", "));
+    describeAllowance(f, v.allowance);
+    return;
+  }
+  const basic = v.basic ?? v;
+  f.amount("Spend limit", basic.spendLimit?.length ? basic.spendLimit : undefined);
+  f.add("Expires", basic.expiration);
+  if (v.period) {
+    f.add("Period", v.period.seconds ? `${v.period.seconds}s` : v.period, v.period.seconds ? "text" : "json");
+    f.amount("Per-period limit", v.periodSpendLimit);
+  }
+  if (!allowance.known) f.add("Details", v, "json");
+}
+
+/** Turn a decoded message into a title plus labelled fields. */
+export function describeMessage(msg: DecodedMessage): MessageDescription {
+  const v = msg.value ?? {};
+  const f = new Fields();
+  let title = shortType(msg.typeUrl);
+  let children: MessageDescription[] | undefined;
+
+  switch (msg.typeUrl) {
+    case "/cosmos.bank.v1beta1.MsgSend":
+      title = "Send";
+      f.address("From", v.fromAddress).address("To", v.toAddress).amount("Amount", v.amount);
+      break;
+    case "/cosmos.bank.v1beta1.MsgMultiSend":
+      title = "Multi-send";
+      for (const input of v.inputs ?? []) f.address("From", input.address).amount("Amount", input.coins);
+      for (const output of v.outputs ?? []) f.address("To", output.address).amount("Amount", output.coins);
+      break;
+
+    case "/cosmos.staking.v1beta1.MsgDelegate":
+    case "/cosmos.staking.v1beta1.MsgUndelegate":
+      title = msg.typeUrl.endsWith("MsgDelegate") ? "Delegate" : "Undelegate";
+      f.address("Delegator", v.delegatorAddress).address("Validator", v.validatorAddress).amount("Amount", v.amount);
+      break;
+    case "/cosmos.staking.v1beta1.MsgBeginRedelegate":
+      title = "Redelegate";
+      f.address("Delegator", v.delegatorAddress)
+        .address("From validator", v.validatorSrcAddress)
+        .address("To validator", v.validatorDstAddress)
+        .amount("Amount", v.amount);
+      break;
+    case "/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation":
+      title = "Cancel unbonding";
+      f.address("Delegator", v.delegatorAddress)
+        .address("Validator", v.validatorAddress)
+        .amount("Amount", v.amount)
+        .add("Creation height", v.creationHeight);
+      break;
+
+    case "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward":
+      title = "Withdraw rewards";
+      f.address("Delegator", v.delegatorAddress).address("Validator", v.validatorAddress);
+      break;
+    case "/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission":
+      title = "Withdraw commission";
+      f.address("Validator", v.validatorAddress);
+      break;
+    case "/cosmos.distribution.v1beta1.MsgSetWithdrawAddress":
+      title = "Set reward address";
+      f.address("Delegator", v.delegatorAddress).address("Rewards go to", v.withdrawAddress);
+      break;
+    case "/cosmos.distribution.v1beta1.MsgFundCommunityPool":
+      title = "Fund community pool";
+      f.address("Depositor", v.depositor).amount("Amount", v.amount);
+      break;
+
+    case "/cosmos.gov.v1beta1.MsgVote":
+    case "/cosmos.gov.v1.MsgVote":
+      title = "Vote";
+      f.add("Proposal", v.proposalId ? `#${v.proposalId}` : undefined)
+        .add("Option", voteLabel(v.option))
+        .address("Voter", v.voter)
+        .add("Metadata", v.metadata);
+      break;
+    case "/cosmos.gov.v1beta1.MsgVoteWeighted":
+    case "/cosmos.gov.v1.MsgVoteWeighted":
+      title = "Weighted vote";
+      f.add("Proposal", v.proposalId ? `#${v.proposalId}` : undefined).address("Voter", v.voter);
+      for (const o of v.options ?? []) f.add(voteLabel(o.option), `weight ${o.weight}`);
+      break;
+    case "/cosmos.gov.v1beta1.MsgDeposit":
+    case "/cosmos.gov.v1.MsgDeposit":
+      title = "Deposit";
+      f.add("Proposal", v.proposalId ? `#${v.proposalId}` : undefined)
+        .address("Depositor", v.depositor)
+        .amount("Amount", v.amount);
+      break;
+    case "/cosmos.gov.v1beta1.MsgSubmitProposal":
+      title = "Submit proposal";
+      f.address("Proposer", v.proposer)
+        .amount("Initial deposit", v.initialDeposit)
+        .add("Type", v.content ? shortType(v.content.typeUrl) : undefined)
+        .add("Title", v.content?.value?.title)
+        .add("Description", v.content?.value?.description);
+      if (v.content && !v.content.known) f.add("Content", v.content.value, "json");
+      break;
+    case "/cosmos.gov.v1.MsgSubmitProposal":
+      title = "Submit proposal";
+      f.add("Title", v.title)
+        .add("Summary", v.summary)
+        .address("Proposer", v.proposer)
+        .amount("Initial deposit", v.initialDeposit)
+        .add("Metadata", v.metadata)
+        .add("Expedited", v.expedited ? "yes" : undefined);
+      children = (v.messages ?? []).map(describeMessage);
+      break;
+
+    case "/cosmos.authz.v1beta1.MsgGrant":
+      title = "Grant authorization";
+      f.address("Granter", v.granter).address("Grantee", v.grantee);
+      describeAuthorization(f, v.grant?.authorization);
+      f.add("Expires", v.grant?.expiration ?? "never");
+      break;
+    case "/cosmos.authz.v1beta1.MsgRevoke":
+      title = "Revoke authorization";
+      f.address("Granter", v.granter).address("Grantee", v.grantee).add("Message type", v.msgTypeUrl);
+      break;
+    case "/cosmos.authz.v1beta1.MsgExec":
+      title = "Execute as grantee";
+      f.address("Grantee", v.grantee);
+      children = (v.msgs ?? []).map(describeMessage);
+      break;
+
+    case "/cosmos.feegrant.v1beta1.MsgGrantAllowance":
+      title = "Grant fee allowance";
+      f.address("Granter", v.granter).address("Grantee", v.grantee);
+      describeAllowance(f, v.allowance);
+      break;
+    case "/cosmos.feegrant.v1beta1.MsgRevokeAllowance":
+      title = "Revoke fee allowance";
+      f.address("Granter", v.granter).address("Grantee", v.grantee);
+      break;
+
+    case "/ibc.applications.transfer.v1.MsgTransfer": {
+      title = "IBC transfer";
+      const timeoutNs = BigInt(v.timeoutTimestamp || 0);
+      const height = v.timeoutHeight;
+      f.address("Sender", v.sender)
+        .address("Receiver", v.receiver)
+        .amount("Amount", v.token)
+        .add("Channel", v.sourcePort && v.sourceChannel ? `${v.sourcePort}/${v.sourceChannel}` : undefined)
+        .add(
+          "Timeout height",
+          height && height.revisionHeight !== "0" ? `${height.revisionNumber}-${height.revisionHeight}` : undefined
+        )
+        .add("Timeout", timeoutNs > 0n ? new Date(Number(timeoutNs / 1_000_000n)).toISOString() : undefined)
+        .add("Memo", v.memo);
+      break;
+    }
+
+    case "/cosmwasm.wasm.v1.MsgExecuteContract":
+      title = "Execute contract";
+      f.add("Action", v.msg && typeof v.msg === "object" ? Object.keys(v.msg)[0] : undefined)
+        .address("Contract", v.contract)
+        .address("Sender", v.sender)
+        .add("Message", v.msg, "json");
+      if (v.funds?.length) f.amount("Funds", v.funds);
+      break;
+    case "/cosmwasm.wasm.v1.MsgInstantiateContract":
+    case "/cosmwasm.wasm.v1.MsgInstantiateContract2":
+      title = "Instantiate contract";
+      f.add("Code ID", v.codeId)
+        .add("Label", v.label)
+        .address("Admin", v.admin || "none")
+        .address("Sender", v.sender)
+        .add("Salt", v.salt)
+        .add("Message", v.msg, "json");
+      if (v.funds?.length) f.amount("Funds", v.funds);
+      break;
+    case "/cosmwasm.wasm.v1.MsgMigrateContract":
+      title = "Migrate contract";
+      f.address("Contract", v.contract)
+        .add("New code ID", v.codeId)
+        .address("Sender", v.sender)
+        .add("Message", v.msg, "json");
+      break;
+    case "/cosmwasm.wasm.v1.MsgUpdateAdmin":
+      title = "Change contract admin";
+      f.address("Contract", v.contract).address("New admin", v.newAdmin).address("Sender", v.sender);
+      break;
+    case "/cosmwasm.wasm.v1.MsgClearAdmin":
+      title = "Remove contract admin";
+      f.address("Contract", v.contract).address("Sender", v.sender);
+      break;
+    case "/cosmwasm.wasm.v1.MsgStoreCode":
+      title = "Upload contract code";
+      f.address("Sender", v.sender).add("Code", v.wasmByteCode);
+      break;
+
+    default:
+      // Anything else (including schema-less messages): show the raw fields
+      f.add("Fields", v, "json");
+  }
+
+  return { title, typeUrl: msg.typeUrl, known: msg.known, fields: f.list, children };
+}
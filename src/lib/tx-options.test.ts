@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { toBech32 } from "@cosmjs/encoding";
+import { DEFAULT_GAS_ADJUSTMENT, txFee, txGasLimit, validateTxOptions } from "./tx-options";
+
+const GRANTER = toBech32("gonka", new Uint8Array(20).fill(7));
+
+describe("validateTxOptions", () => {
+  it("accepts empty and complete options", () => {
+    expect(validateTxOptions({})).toBeNull();
+    expect(
+      validateTxOptions({
+        fee: [{ denom: "ngonka", amount: "500" }],
+        gasLimit: 200000,
+        memo: "hi",
+        timeoutHeight: "1200",
+        feeGranter: GRANTER,
+      }),
+    ).toBeNull();
+  });
+
+  it("rejects malformed values", () => {
+    expect(validateTxOptions({ fee: [{ denom: "ngonka", amount: "-1" }] })).toMatch(/Fee/);
+    expect(validateTxOptions({ gasLimit: 1.5 })).toMatch(/Gas limit/);
+    expect(validateTxOptions({ gasAdjustment: 0.5 })).toMatch(/Gas adjustment/);
+    expect(validateTxOptions({ memo: "x".repeat(1000) })).toMatch(/Memo/);
+    expect(validateTxOptions({ timeoutHeight: "0" })).toMatch(/Timeout height/);
+    expect(validateTxOptions({ feeGranter: toBech32("cosmos", new Uint8Array(20)) })).toMatch(/Gonka address/);
+    expect(validateTxOptions({ feeGranter: "not-an-address" })).toMatch(/Gonka address/);
+  });
+});
+
+describe("txGasLimit / txFee", () => {
+  it("adjusts simulated gas unless a gas limit is given", () => {
+    expect(txGasLimit(100000, {})).toBe(Math.ceil(100000 * DEFAULT_GAS_ADJUSTMENT));
+    expect(txGasLimit(100000, { gasAdjustment: 2 })).toBe(200000);
+    expect(txGasLimit(100000, { gasLimit: 123, gasAdjustment: 2 })).toBe(123);
+  });
+
+  it("uses the given fee coins and granter", () => {
+    expect(txFee(1000, {})).toEqual({ amount: [{ denom: "ngonka", amount: "0" }], gas: "1000" });
+    expect(txFee(1000, { fee: [{ denom: "ngonka", amount: "7" }], feeGranter: GRANTER })).toEqual({
+      amount: [{ denom: "ngonka", amount: "7" }],
+      gas: "1000",
+      granter: GRANTER,
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Fee, gas and memo options for transactions the wallet builds itself
+ * (popup actions and `inferenced` commands).
+ *
+ * lib/cosmos.ts simulates the messages and signs with the result; this
+ * module holds the pure parts: validation, the gas limit from a
+ * simulation, and the fee.
+ */
+
+import { calculateFee, GasPrice, type StdFee } from "@cosmjs/stargate";
+import { fromBech32 } from "@cosmjs/encoding";
+import { GONKA_BECH32_PREFIX, GONKA_GAS_PRICE } from "./gonka";
+import { MAX_MEMO_LENGTH } from "./sign-edits";
+import type { Coin } from "./tx-preview";
+
+export interface TxOptions {
+  /** Fee coins in minimal denom; unset = gas limit × GONKA_GAS_PRICE. */
+  fee?: Coin[];
+  /** Gas limit; unset = simulated gas × gasAdjustment. */
+  gasLimit?: number;
+  /** Multiplier on simulated gas; unset = DEFAULT_GAS_ADJUSTMENT. */
+  gasAdjustment?: number;
+  memo?: string;
+  /** Last block height the tx may be included in, as an integer string. */
+  timeoutHeight?: string;
+  /** Address paying the fee through a fee grant. */
+  feeGranter?: string;
+}
+
+/** What "auto" gas used before: CosmJS's default multiplier. */
+export const DEFAULT_GAS_ADJUSTMENT = 1.4;
+const MAX_GAS_LIMIT = 100_000_000;
+const MAX_GAS_ADJUSTMENT = 10;
+
+/** Returns an error message, or null when the options can be used. */
+export function validateTxOptions(options: TxOptions): string | null {
+  if (options.fee) {
+    for (const coin of options.fee) {
+      if (!coin.denom || !/^\d+$/.test(coin.amount)) return "Fee amount must be a non-negative amount";
+    }
+  }
+  if (options.gasLimit !== undefined) {
+    if (!Number.isInteger(options.gasLimit) || options.gasLimit <= 0) return "Gas limit must be a positive whole number";
+    if (options.gasLimit > MAX_GAS_LIMIT) return "Gas limit is too high";
+  }
+  if (options.gasAdjustment !== undefined) {
+    const adj = options.gasAdjustment;
+    if (!Number.isFinite(adj) || adj < 1 || adj > MAX_GAS_ADJUSTMENT) {
+      return `Gas adjustment must be between 1 and ${MAX_GAS_ADJUSTMENT}`;
+    }
+  }
+  if (options.memo && options.memo.length > MAX_MEMO_LENGTH) {
+    return `Memo can be at most ${MAX_MEMO_LENGTH} characters`;
+  }
+  if (options.timeoutHeight !== undefined && !/^[1-9]\d*$/.test(options.timeoutHeight)) {
+    return "Timeout height must be a positive block height";
+  }
+  if (options.feeGranter) {
+    try {
+      if (fromBech32(options.feeGranter).prefix !== GONKA_BECH32_PREFIX) return "Fee granter must be a Gonka address";
+    } catch {
+      return "Fee granter must be a Gonka address";
+    }
+  }
+  return null;
+}
+
+/** Gas limit for a transaction: the explicit one, or the simulated gas with the adjustment. */
+export function txGasLimit(simulatedGas: number, options: TxOptions): number {
+  if (options.gasLimit !== undefined) return options.gasLimit;
+  return Math.ceil(simulatedGas * (options.gasAdjustment ?? DEFAULT_GAS_ADJUSTMENT));
+}
+
+export function txFee(gasLimit: number, options: TxOptions): StdFee {
+  const fee = options.fee
+    ? { amount: options.fee, gas: String(gasLimit) }
+    : calculateFee(gasLimit, GasPrice.fromString(GONKA_GAS_PRICE));
+  return options.feeGranter ? { ...fee, granter: options.feeGranter } : fee;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCoins,
+  balanceChangesFromEvents,
+  estimateBalanceChanges,
+  attachedFunds,
+  simulationErrorMessage,
+  type SimulationEvent,
+} from "./tx-preview";
+
+const ME = "gonka1me";
+const FEE = [{ denom: "ngonka", amount: "200" }];
+
+function event(type: string, attrs: Record<string, string>): SimulationEvent {
+  return { type, attributes: Object.entries(attrs).map(([key, value]) => ({ key, value })) };
+}
+
+describe("parseCoins", () => {
+  it("parses SDK coin strings including IBC denoms", () => {
+    expect(parseCoins("100ngonka,5ibc/27A6")).toEqual([
+      { amount: "100", denom: "ngonka" },
+      { amount: "5", denom: "ibc/27A6" },
+    ]);
+    expect(parseCoins("")).toEqual([]);
+  });
+});
+
+describe("balanceChangesFromEvents", () => {
+  it("nets spent and received coins and subtracts the fee", () => {
+    const events = [
+      event("coin_spent", { spender: ME, amount: "1000ngonka" }),
+      event("coin_received", { receiver: "gonka1other", amount: "1000ngonka" }),
+      event("coin_received", { receiver: ME, amount: "7uatom" }),
+    ];
+    expect(balanceChangesFromEvents(ME, events, FEE)).toEqual([
+      { denom: "ngonka", amount: "-1200" },
+      { denom: "uatom", amount: "7" },
+    ]);
+  });
+
+  it("doesn't count the fee twice when the ante events are included", () => {
+    const events = [
+      event("coin_spent", { spender: ME, amount: "200ngonka" }),
+      event("tx", { fee: "200ngonka", fee_payer: ME }),
+    ];
+    expect(balanceChangesFromEvents(ME, events, FEE)).toEqual([{ denom: "ngonka", amount: "-200" }]);
+  });
+});
+
+describe("estimateBalanceChanges", () => {
+  it("sums sends, delegations and contract funds from the signer", () => {
+    const messages = [
+      {
+        typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+        value: { fromAddress: ME, toAddress: "gonka1x", amount: [{ denom: "ngonka", amount: "500" }] },
+      },
+      {
+        typeUrl: "/cosmos.staking.v1beta1.MsgDelegate",
+        value: { delegatorAddress: ME, amount: { denom: "ngonka", amount: "300" } },
+      },
+      {
+        typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract",
+        value: { sender: ME, funds: [{ denom: "ibc/ABC", amount: "9" }] },
+      },
+    ];
+    expect(estimateBalanceChanges(ME, messages, FEE)).toEqual([
+      { denom: "ibc/ABC", amount: "-9" },
+      { denom: "ngonka", amount: "-1000" },
+    ]);
+    expect(attachedFunds(ME, messages)).toEqual([{ denom: "ibc/ABC", amount: "9" }]);
+  });
+});
+
+describe("simulationErrorMessage", () => {
+  it("extracts the ABCI reason", () => {
+    const body = {
+      code: 2,
+      message:
+        "rpc error: code = Unknown desc = failed to execute message; message index: 0: 10ngonka is smaller than 500ngonka: insufficient funds [cosmos/cosmos-sdk@v0.50.1/x/bank/keeper/send.go:278] With gas wanted: '0' and gas used: '61234' : unknown request",
+    };
+    expect(simulationErrorMessage(body, 400)).toBe(
+      "failed to execute message; message index: 0: 10ngonka is smaller than 500ngonka: insufficient funds"
+    );
+    expect(simulationErrorMessage({}, 502)).toBe("Simulation failed (502)");
+  });
+});
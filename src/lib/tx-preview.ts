@@ -0,0 +1,177 @@
+/**
+ * Balance-change preview for dApp sign requests.
+ *
+ * The background simulates the transaction (POST /cosmos/tx/v1beta1/simulate)
+ * and turns the resulting `coin_spent` / `coin_received` events into net
+ * per-denom changes for the signer. When simulation isn't possible, the
+ * changes are estimated from the decoded messages instead. Everything here
+ * is pure so it can be unit-tested.
+ */
+
+export interface Coin {
+  denom: string;
+  amount: string;
+}
+
+/** Signed net change of one denom ("-1500" = 1500 leaves the wallet). */
+export interface BalanceChange {
+  denom: string;
+  amount: string;
+}
+
+export interface TxPreview {
+  /** The endpoint accepted the simulation request (success or failure). */
+  simulated: boolean;
+  /** Simulation ran without error. */
+  success: boolean;
+  /** Failure reason from the chain, or why simulation was skipped. */
+  error?: string;
+  gasUsed?: number;
+  /** Gas limit in the sign doc's fee. */
+  gasLimit?: number;
+  /** Net changes; from simulation events when successful, else estimated. */
+  changes: BalanceChange[];
+  /** True when `changes` come from the messages, not a simulation. */
+  estimated: boolean;
+  fee: Coin[];
+  /** Funds sent along with contract executions / instantiations. */
+  attachedFunds: Coin[];
+}
+
+export interface SimulationEvent {
+  type: string;
+  attributes: { key: string; value: string }[];
+}
+
+/** A decoded protobuf message (camelCase fields, as from the proto Registry). */
+export interface PreviewMessage {
+  typeUrl: string;
+  value: any;
+}
+
+const COIN_RE = /^(\d+)([a-zA-Z][a-zA-Z0-9/:._-]*)$/;
+
+/** Parse an SDK coin string ("100ngonka,5ibc/27A..."). Malformed parts are skipped. */
+export function parseCoins(str: string): Coin[] {
+  const coins: Coin[] = [];
+  for (const part of str.split(",")) {
+    const m = part.trim().match(COIN_RE);
+    if (m) coins.push({ amount: m[1], denom: m[2] });
+  }
+  return coins;
+}
+
+function addTo(totals: Map<string, bigint>, coins: readonly Coin[] | undefined, sign: 1n | -1n): void {
+  for (const c of coins ?? []) {
+    if (!c?.denom || !/^\d+$/.test(String(c.amount))) continue;
+    totals.set(c.denom, (totals.get(c.denom) ?? 0n) + sign * BigInt(c.amount));
+  }
+}
+
+function toChanges(totals: Map<string, bigint>): BalanceChange[] {
+  return [...totals.entries()]
+    .filter(([, amount]) => amount !== 0n)
+    .map(([denom, amount]) => ({ denom, amount: amount.toString() }))
+    .sort((a, b) => a.denom.localeCompare(b.denom));
+}
+
+function attr(event: SimulationEvent, key: string): string | undefined {
+  return event.attributes.find((a) => a.key === key)?.value;
+}
+
+/**
+ * Net balance changes for `signer` from simulation events. Depending on the
+ * SDK version the events include the ante handler's fee deduction (marked by
+ * a `tx` event with a `fee` attribute); when they don't, the fee is
+ * subtracted here so the total always reflects what the signer pays.
+ */
+export function balanceChangesFromEvents(
+  signer: string,
+  events: SimulationEvent[],
+  fee: Coin[],
+): BalanceChange[] {
+  const totals = new Map<string, bigint>();
+  let feeIncluded = false;
+
+  for (const event of events) {
+    if (event.type === "coin_spent" && attr(event, "spender") === signer) {
+      addTo(totals, parseCoins(attr(event, "amount") ?? ""), -1n);
+    } else if (event.type === "coin_received" && attr(event, "receiver") === signer) {
+      addTo(totals, parseCoins(attr(event, "amount") ?? ""), 1n);
+    } else if (event.type === "tx" && attr(event, "fee") !== undefined) {
+      feeIncluded = true;
+    }
+  }
+  if (!feeIncluded) addTo(totals, fee, -1n);
+  return toChanges(totals);
+}
+
+function typeName(typeUrl: string): string {
+  return typeUrl.split(".").pop() ?? typeUrl;
+}
+
+/** Funds attached to contract calls in `messages` sent by `signer`. */
+export function attachedFunds(signer: string, messages: PreviewMessage[]): Coin[] {
+  const totals = new Map<string, bigint>();
+  for (const { typeUrl, value } of messages) {
+    const name = typeName(typeUrl);
+    if ((name === "MsgExecuteContract" || name === "MsgInstantiateContract") && value?.sender === signer) {
+      addTo(totals, value.funds, 1n);
+    }
+  }
+  return toChanges(totals);
+}
+
+/**
+ * Static estimate of the signer's net changes from the messages alone:
+ * sends, multi-sends, delegations and attached contract funds, plus the fee.
+ * Reward withdrawals, swaps and other effects only show up in simulation.
+ */
+export function estimateBalanceChanges(
+  signer: string,
+  messages: PreviewMessage[],
+  fee: Coin[],
+): BalanceChange[] {
+  const totals = new Map<string, bigint>();
+
+  for (const { typeUrl, value } of messages) {
+    if (!value) continue;
+    switch (typeName(typeUrl)) {
+      case "MsgSend":
+        if (value.fromAddress === signer) addTo(totals, value.amount, -1n);
+        if (value.toAddress === signer) addTo(totals, value.amount, 1n);
+        break;
+      case "MsgMultiSend":
+        for (const input of value.inputs ?? []) {
+          if (input.address === signer) addTo(totals, input.coins, -1n);
+        }
+        for (const output of value.outputs ?? []) {
+          if (output.address === signer) addTo(totals, output.coins, 1n);
+        }
+        break;
+      case "MsgDelegate":
+        if (value.delegatorAddress === signer && value.amount) addTo(totals, [value.amount], -1n);
+        break;
+      case "MsgExecuteContract":
+      case "MsgInstantiateContract":
+        if (value.sender === signer) addTo(totals, value.funds, -1n);
+        break;
+    }
+  }
+  addTo(totals, fee, -1n);
+  return toChanges(totals);
+}
+
+/**
+ * Pull a readable reason out of a failed simulate response. The SDK wraps
+ * the ABCI error as "rpc error: code = Unknown desc = <reason> [stack]".
+ */
+export function simulationErrorMessage(body: any, status: number): string {
+  const raw = typeof body?.message === "string" ? body.message : "";
+  if (!raw) return `Simulation failed (${status})`;
+  const desc = raw.match(/desc = (.*)$/s)?.[1] ?? raw;
+  return desc
+    .replace(/\s*With gas wanted:.*$/s, "")
+    .replace(/\s*\[[^\]]*\]\s*$/s, "")
+    .trim();
+}
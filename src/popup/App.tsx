@@ -12,11 +12,16 @@ import Receive from "@/popup/pages/Receive";
 import Transactions from "@/popup/pages/Transactions";
 import Settings from "@/popup/pages/Settings";
 import AddWallet from "@/popup/pages/AddWallet";
+import RestoreBackup from "@/popup/pages/RestoreBackup";
 import Proposals from "@/popup/pages/Proposals";
 import ProposalDetail from "@/popup/pages/ProposalDetail";
 import CreateProposal from "@/popup/pages/CreateProposal";
 import GnsNames from "@/popup/pages/GnsNames";
 import RunCommand from "@/popup/pages/RunCommand";
+import SignMessage from "@/popup/pages/SignMessage";
+import Batch from "@/popup/pages/Batch";
+import Payout from "@/popup/pages/Payout";
+import OfflineSigning from "@/popup/pages/OfflineSigning";
 import Spinner from "@/popup/components/Spinner";
 import SystemUpdateOverlay from "@/popup/components/SystemUpdateOverlay";
 
@@ -57,6 +62,7 @@ export default function App() {
             <Route path="/create" element={<CreateWallet />} />
             <Route path="/import" element={<ImportWallet />} />
             <Route path="/set-password" element={<SetPassword />} />
+            <Route path="/restore" element={<RestoreBackup />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </>
         ) : !isUnlocked ? (
@@ -76,7 +82,12 @@ export default function App() {
             <Route path="/proposals/:id" element={<ProposalDetail />} />
             <Route path="/names" element={<GnsNames />} />
             <Route path="/run-command" element={<RunCommand />} />
+            <Route path="/sign-message" element={<SignMessage />} />
+            <Route path="/batch" element={<Batch />} />
+            <Route path="/payout" element={<Payout />} />
+            <Route path="/offline-signing" element={<OfflineSigning />} />
             <Route path="/add-wallet" element={<AddWallet />} />
+            <Route path="/restore" element={<RestoreBackup />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </>
         )}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Two queued amino sign requests from one site, with different fees and memos
+const REQUESTS: Record<string, any> = {
+  a: {
+    method: "signAmino",
+    origin: "https://dapp.example",
+    params: {
+      chainId: "gonka-mainnet",
+      signDoc: { chain_id: "gonka-mainnet", msgs: [], memo: "first", fee: { amount: [{ denom: "ngonka", amount: "1000" }], gas: "100000" } },
+    },
+  },
+  b: {
+    method: "signAmino",
+    origin: "https://dapp.example",
+    params: {
+      chainId: "gonka-mainnet",
+      signDoc: { chain_id: "gonka-mainnet", msgs: [], memo: "second", fee: { amount: [{ denom: "ngonka", amount: "5000" }], gas: "250000" } },
+    },
+  },
+};
+
+const QUEUE = {
+  origin: "https://dapp.example",
+  items: [
+    { requestId: "a", method: "signAmino", outflow: [] },
+    { requestId: "b", method: "signAmino", outflow: [] },
+  ],
+  total: [],
+  complete: true,
+};
+
+let sent: any[] = [];
+
+(globalThis as any).chrome = {
+  runtime: {
+    onMessage: { addListener: () => {}, removeListener: () => {} },
+    sendMessage: (msg: any, cb: (resp: any) => void) => {
+      sent.push(msg);
+      const reply = (resp: any) => setTimeout(() => cb(resp), 0);
+      switch (msg.type) {
+        case "GET_PENDING_REQUEST":
+          return reply({ request: REQUESTS[msg.requestId] });
+        case "GET_APPROVAL_QUEUE":
+          return reply({ queue: QUEUE });
+        default:
+          return reply({});
+      }
+    },
+  },
+};
+
+const { default: ApprovalApp } = await import("./ApprovalApp");
+
+let container: HTMLDivElement;
+let root: Root;
+
+async function settle() {
+  for (let i = 0; i < 5; i++) {
+    await act(() => new Promise((r) => setTimeout(r, 0)));
+  }
+}
+
+function button(text: string | RegExp): HTMLButtonElement {
+  const found = [...container.querySelectorAll("button")].find((b) =>
+    typeof text === "string" ? b.textContent?.trim() === text : text.test(b.textContent ?? "")
+  );
+  if (!found) throw new Error(`No button ${text}`);
+  return found;
+}
+
+beforeEach(async () => {
+  sent = [];
+  window.history.replaceState(null, "", "/approval.html?requestId=a");
+  container = document.createElement("div");
+  document.body.appendChild(container);
+  root = createRoot(container);
+  await act(async () => root.render(<ApprovalApp />));
+  await settle();
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+describe("ApprovalApp queue", () => {
+  it("edits the fee and memo of the request being shown after switching", async () => {
+    await act(async () => button(/^2\./).click());
+    await settle();
+
+    await act(async () => button(/^Edit fee & memo$/).click());
+    const memo = container.querySelector("textarea")!;
+    expect(memo.value).toBe("second");
+    const [fee, gas] = container.querySelectorAll("input");
+    expect(gas.value).toBe("250000");
+    expect(fee.value).toBe("0.000005");
+
+    await act(async () => {
+      Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, "value")!.set!.call(memo, "changed");
+      memo.dispatchEvent(new Event("input", { bubbles: true }));
+    });
+    await act(async () => button("Approve").click());
+    await settle();
+
+    const approve = sent.find((m) => m.type === "APPROVE_REQUEST");
+    expect(approve).toMatchObject({ requestId: "b", edits: { memo: "changed" } });
+    expect(approve.edits.fee).toBeUndefined();
+  });
+});
@@ -1,21 +1,68 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import Spinner from "@/popup/components/Spinner";
+import MessageCard from "@/popup/components/MessageCard";
 import logo from "@/assets/ggwallet.png";
+import { endpointHost, type SuggestedChainInfo, type ChainCurrency } from "@/lib/chain-info";
+import type { TxPreview, Coin } from "@/lib/tx-preview";
+import { toDisplay, toMinimal } from "@/lib/format";
+import { GONKA_CHAIN_ID, GONKA_DENOM, GONKA_DISPLAY_DENOM } from "@/lib/gonka";
+import {
+  editableSignFields,
+  validateSignEdits,
+  MAX_MEMO_LENGTH,
+  type SignDocEdits,
+  type SignOptions,
+} from "@/lib/sign-edits";
+import type { OriginRisk } from "@/lib/phishing";
+import { describeSignData, toSignDataBytes, type SignDataKind } from "@/lib/adr036";
+import { BROADCAST_REASON_LABELS, type BroadcastReview } from "@/lib/broadcast-policy";
+import { TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import {
+  decodeTxBodyBytes,
+  decodeAuthInfoBytes,
+  describeMessage,
+  formatCoins,
+  type DecodedTxBody,
+  type DecodedAuthInfo,
+} from "@/lib/tx-decoder";
 
 /**
  * Approval popup — shown in a separate window when a dApp requests
- * a sensitive operation (enable, signAmino, signDirect, signArbitrary).
+ * a sensitive operation (enable, signAmino, signDirect, signArbitrary,
+ * experimentalSuggestChain, and sendTx when lib/broadcast-policy asks
+ * for it).
  *
  * Reads `requestId` from the URL search params, fetches the pending
  * request details from background, and lets the user approve or reject.
+ * Further requests from the same site join this window's queue: each can
+ * be reviewed on its own, or the whole queue approved / rejected at once
+ * with the total it spends.
  */
 
 interface PendingRequest {
   method: string;
   params: any;
   origin: string;
+  /** Phishing assessment of the origin (lib/phishing). */
+  risk?: OriginRisk;
 }
 
+interface ApprovalQueue {
+  origin: string;
+  items: { requestId: string; method: string; outflow: Coin[] | null }[];
+  total: Coin[];
+  complete: boolean;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  enable: "Connect",
+  signAmino: "Sign transaction",
+  signDirect: "Sign transaction",
+  signArbitrary: "Sign message",
+  experimentalSuggestChain: "Add chain",
+  sendTx: "Broadcast transaction",
+};
+
 function sendMessage(msg: Record<string, unknown>): Promise<any> {
   return new Promise((resolve, reject) => {
     chrome.runtime.sendMessage(msg, (response) => {
@@ -29,12 +76,37 @@ function sendMessage(msg: Record<string, unknown>): Promise<any> {
 }
 
 export default function ApprovalApp() {
+  const [requestId, setRequestId] = useState(
+    () => new URLSearchParams(window.location.search).get("requestId") || ""
+  );
   const [request, setRequest] = useState<PendingRequest | null>(null);
+  // Id of the request in `request`; it lags `requestId` while the next one loads
+  const [loadedId, setLoadedId] = useState("");
+  const [queue, setQueue] = useState<ApprovalQueue | null>(null);
   const [loading, setLoading] = useState(true);
   const [responding, setResponding] = useState(false);
   const [error, setError] = useState("");
-
-  const requestId = new URLSearchParams(window.location.search).get("requestId") || "";
+  const [actionError, setActionError] = useState("");
+  const [riskAcknowledged, setRiskAcknowledged] = useState(false);
+  const [signEdits, setSignEdits] = useState<SignEditsState>({ edits: {}, error: "" });
+
+  const queueRef = useRef<ApprovalQueue | null>(null);
+
+  // Any request that's still pending identifies the site's queue
+  const loadQueue = useCallback(async (preferredId: string): Promise<ApprovalQueue | null> => {
+    const candidates = [preferredId, ...(queueRef.current?.items.map((i) => i.requestId) ?? [])];
+    for (const id of candidates) {
+      const resp = await sendMessage({ type: "GET_APPROVAL_QUEUE", requestId: id });
+      if (resp.queue) {
+        queueRef.current = resp.queue;
+        setQueue(resp.queue);
+        return resp.queue;
+      }
+    }
+    queueRef.current = null;
+    setQueue(null);
+    return null;
+  }, []);
 
   useEffect(() => {
     if (!requestId) {
@@ -43,23 +115,90 @@ export default function ApprovalApp() {
       return;
     }
 
+    // Nothing of the previous request may stay on screen (or be approved)
+    // while this one loads
+    let cancelled = false;
+    setRequest(null);
+    setLoadedId("");
+    setLoading(true);
+    setError("");
+    setSignEdits({ edits: {}, error: "" });
+
+    // A request that can't be loaded only ends the window if nothing else is queued
+    const fail = async (message: string) => {
+      const next = await loadQueue(requestId).catch(() => null);
+      if (cancelled) return;
+      const other = next?.items.find((i) => i.requestId !== requestId);
+      if (other) {
+        setRequestId(other.requestId);
+        setActionError(message);
+      } else {
+        setError(message);
+        setLoading(false);
+      }
+    };
+
     sendMessage({ type: "GET_PENDING_REQUEST", requestId })
       .then((resp) => {
+        if (cancelled) return;
         if (resp.error || !resp.request) {
-          setError(resp.error || "Request not found or expired");
-        } else {
-          setRequest(resp.request);
+          return fail(resp.error || "Request not found or expired");
         }
+        setRequest(resp.request);
+        setLoadedId(requestId);
+        setLoading(false);
       })
-      .catch((err) => setError(err.message))
-      .finally(() => setLoading(false));
-  }, [requestId]);
+      .catch((err) => {
+        if (!cancelled) return fail(err.message);
+      });
+    loadQueue(requestId).catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, loadQueue]);
+
+  const selectRequest = (id: string) => {
+    setActionError("");
+    setRequestId(id);
+  };
+
+  // New requests from the site join this window
+  useEffect(() => {
+    const listener = (message: any) => {
+      if (message?.type === "APPROVAL_QUEUE_CHANGED" && message.origin === queueRef.current?.origin) {
+        loadQueue(requestId).catch(() => {});
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [requestId, loadQueue]);
+
+  // After responding: show the next queued request, or close when done
+  const advance = async (failedId?: string, failure?: string) => {
+    const next = await loadQueue(requestId);
+    if (!next || next.items.length === 0) {
+      window.close();
+      return;
+    }
+    if (failedId && failure && next.items.some((i) => i.requestId === failedId)) {
+      setRequestId(failedId);
+      setActionError(failure);
+    } else if (!next.items.some((i) => i.requestId === requestId)) {
+      selectRequest(next.items[0].requestId);
+    }
+    setResponding(false);
+  };
 
   const handleApprove = async () => {
     setResponding(true);
     try {
-      await sendMessage({ type: "APPROVE_REQUEST", requestId });
-      window.close();
+      const resp = await sendMessage({
+        type: "APPROVE_REQUEST",
+        requestId,
+        acknowledgedRisk: riskAcknowledged,
+        edits: signEdits.edits,
+      });
+      await advance(requestId, resp.error);
     } catch (err: any) {
       setError(err.message);
       setResponding(false);
@@ -70,14 +209,43 @@ export default function ApprovalApp() {
     setResponding(true);
     try {
       await sendMessage({ type: "REJECT_REQUEST", requestId });
-      window.close();
+      await advance();
     } catch (err: any) {
       setError(err.message);
       setResponding(false);
     }
   };
 
-  if (loading) {
+  const handleApproveAll = async () => {
+    if (!queue) return;
+    setResponding(true);
+    try {
+      const resp = await sendMessage({
+        type: "APPROVE_REQUESTS",
+        requestIds: queue.items.map((i) => i.requestId),
+        acknowledgedRisk: riskAcknowledged,
+      });
+      const failed = resp.results?.find((r: { error?: string }) => r.error);
+      await advance(failed?.requestId, resp.error ?? failed?.error);
+    } catch (err: any) {
+      setError(err.message);
+      setResponding(false);
+    }
+  };
+
+  const handleRejectAll = async () => {
+    if (!queue) return;
+    setResponding(true);
+    try {
+      await sendMessage({ type: "REJECT_REQUESTS", requestIds: queue.items.map((i) => i.requestId) });
+      await advance();
+    } catch (err: any) {
+      setError(err.message);
+      setResponding(false);
+    }
+  };
+
+  if (loading || (!error && loadedId !== requestId)) {
     return (
       <div className="w-[380px] h-[600px] flex items-center justify-center bg-surface-950">
         <Spinner size="lg" />
@@ -103,6 +271,8 @@ export default function ApprovalApp() {
 
   if (!request) return null;
 
+  const suspicious = request.risk?.level === "suspicious";
+
   return (
     <div className="w-[380px] h-[600px] flex flex-col bg-surface-950 text-white overflow-hidden">
       {/* Header */}
@@ -117,19 +287,63 @@ export default function ApprovalApp() {
         </span>
       </header>
 
+      {queue && queue.items.length > 1 && (
+        <QueueBar queue={queue} currentId={requestId} onSelect={selectRequest} disabled={responding} />
+      )}
+
       {/* Body */}
-      <main className="flex-1 overflow-y-auto px-5 py-4">
+      <main key={loadedId} className="flex-1 overflow-y-auto px-5 py-4">
         {request.method === "enable" && <EnableApproval request={request} />}
-        {request.method === "signAmino" && <SignAminoApproval request={request} />}
-        {request.method === "signDirect" && <SignDirectApproval request={request} />}
+        {request.method === "signAmino" && (
+          <SignAminoApproval request={request} requestId={requestId} onEditsChange={setSignEdits} />
+        )}
+        {request.method === "signDirect" && (
+          <SignDirectApproval request={request} requestId={requestId} onEditsChange={setSignEdits} />
+        )}
         {request.method === "signArbitrary" && <SignArbitraryApproval request={request} />}
+        {request.method === "experimentalSuggestChain" && <SuggestChainApproval request={request} />}
+        {request.method === "sendTx" && <SendTxApproval request={request} />}
       </main>
 
       {/* Actions */}
       <div className="shrink-0 px-5 pb-5 pt-3 space-y-2 border-t border-white/[0.04]">
+        {suspicious && (
+          <label className="flex items-start gap-2 pb-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={riskAcknowledged}
+              onChange={(e) => setRiskAcknowledged(e.target.checked)}
+              className="mt-0.5 rounded border-surface-600 bg-surface-800 text-red-500 focus:ring-red-500"
+            />
+            <span className="text-[11px] text-red-300/90">
+              I understand this site may be impersonating{" "}
+              {request.risk?.lookalikeOf ?? "another site"} and I want to continue
+            </span>
+          </label>
+        )}
+        {signEdits.error && <p className="text-xs text-red-400">{signEdits.error}</p>}
+        {actionError && <p className="text-xs text-red-400">{actionError}</p>}
+        {queue && queue.items.length > 1 && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleApproveAll}
+              disabled={responding || (suspicious && !riskAcknowledged)}
+              className="flex-1 py-2 text-xs font-semibold rounded-xl border border-gonka-500/40 text-gonka-400 hover:bg-gonka-500/10 disabled:opacity-40 transition-colors"
+            >
+              Approve all ({queue.items.length})
+            </button>
+            <button
+              onClick={handleRejectAll}
+              disabled={responding}
+              className="flex-1 py-2 text-xs font-semibold rounded-xl border border-red-500/30 text-red-400 hover:bg-red-500/10 disabled:opacity-40 transition-colors"
+            >
+              Reject all
+            </button>
+          </div>
+        )}
         <button
           onClick={handleApprove}
-          disabled={responding}
+          disabled={responding || (suspicious && !riskAcknowledged) || !!signEdits.error}
           className="btn-primary flex items-center justify-center gap-2"
         >
           {responding ? (
@@ -139,6 +353,10 @@ export default function ApprovalApp() {
             </>
           ) : request.method === "enable" ? (
             "Connect"
+          ) : request.method === "experimentalSuggestChain" ? (
+            "Add Chain"
+          ) : request.method === "sendTx" ? (
+            "Broadcast"
           ) : (
             "Approve"
           )}
@@ -155,11 +373,66 @@ export default function ApprovalApp() {
   );
 }
 
+// ------------------------------------------------------------------
+//  Queue of requests from the site
+// ------------------------------------------------------------------
+
+function QueueBar({
+  queue,
+  currentId,
+  onSelect,
+  disabled,
+}: {
+  queue: ApprovalQueue;
+  currentId: string;
+  onSelect: (requestId: string) => void;
+  disabled: boolean;
+}) {
+  const unknown = queue.items.filter((i) => i.outflow === null).length;
+
+  return (
+    <div className="shrink-0 px-5 py-3 border-b border-white/[0.04] space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-surface-300">{queue.items.length} requests from this site</p>
+        <p className="text-[11px] text-surface-500">Review each, or approve all</p>
+      </div>
+      <div className="flex gap-1.5 overflow-x-auto">
+        {queue.items.map((item, i) => (
+          <button
+            key={item.requestId}
+            onClick={() => onSelect(item.requestId)}
+            disabled={disabled}
+            className={`shrink-0 px-2.5 py-1.5 rounded-lg border text-left transition-colors ${
+              item.requestId === currentId
+                ? "border-gonka-500/50 bg-gonka-500/10"
+                : "border-white/[0.06] bg-surface-900 hover:border-white/20"
+            }`}
+          >
+            <p className="text-[11px] font-medium text-surface-200">
+              {i + 1}. {METHOD_LABELS[item.method] ?? item.method}
+            </p>
+            <p className="text-[10px] text-surface-500">
+              {item.outflow === null ? "Unknown spend" : item.outflow.length > 0 ? formatCoins(item.outflow) : "No spend"}
+            </p>
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs">
+        <span className="text-surface-500">Total leaving wallet</span>
+        <span className="font-mono text-surface-200 text-right">
+          {queue.total.length > 0 ? formatCoins(queue.total) : "0"}
+          {unknown > 0 && <span className="text-yellow-400"> + {unknown} unknown</span>}
+        </span>
+      </div>
+    </div>
+  );
+}
+
 // ------------------------------------------------------------------
 //  Approval views per method
 // ------------------------------------------------------------------
 
-function OriginBadge({ origin }: { origin: string }) {
+function OriginBadge({ origin, risk }: { origin: string; risk?: OriginRisk }) {
   let hostname: string;
   try {
     hostname = new URL(origin).hostname;
@@ -167,17 +440,43 @@ function OriginBadge({ origin }: { origin: string }) {
     hostname = origin;
   }
 
+  const suspicious = risk?.level === "suspicious";
+
   return (
-    <div className="flex items-center gap-3 mb-5">
-      <div className="w-10 h-10 rounded-2xl bg-surface-800 border border-white/[0.06] flex items-center justify-center shrink-0">
-        <span className="text-base font-bold text-surface-300">
-          {hostname.charAt(0).toUpperCase()}
-        </span>
-      </div>
-      <div className="min-w-0">
-        <p className="text-sm font-semibold truncate">{hostname}</p>
-        <p className="text-[11px] text-surface-600 truncate">{origin}</p>
+    <div className="mb-5 space-y-3">
+      <div className="flex items-center gap-3">
+        <div
+          className={`w-10 h-10 rounded-2xl border flex items-center justify-center shrink-0 ${
+            suspicious ? "bg-red-500/10 border-red-500/30" : "bg-surface-800 border-white/[0.06]"
+          }`}
+        >
+          <span className={`text-base font-bold ${suspicious ? "text-red-400" : "text-surface-300"}`}>
+            {hostname.charAt(0).toUpperCase()}
+          </span>
+        </div>
+        <div className="min-w-0">
+          <p className={`text-sm font-semibold truncate ${suspicious ? "text-red-400" : ""}`}>{hostname}</p>
+          <p className="text-[11px] text-surface-600 truncate">{origin}</p>
+        </div>
       </div>
+
+      {suspicious && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/30 space-y-1.5">
+          <p className="text-xs font-bold text-red-400">Possible phishing site</p>
+          <ul className="space-y-1">
+            {risk.reasons.map((reason) => (
+              <li key={reason} className="text-[11px] text-red-300/90">
+                {reason}
+              </li>
+            ))}
+          </ul>
+          {risk.lookalikeOf && (
+            <p className="text-[11px] text-surface-400">
+              If you meant to use {risk.lookalikeOf}, reject this request and open it directly.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -187,7 +486,7 @@ function EnableApproval({ request }: { request: PendingRequest }) {
 
   return (
     <div>
-      <OriginBadge origin={request.origin} />
+      <OriginBadge origin={request.origin} risk={request.risk} />
 
       <div className="text-center mb-5">
         <div className="w-14 h-14 bg-gonka-500/10 border border-gonka-500/25 rounded-full flex items-center justify-center mx-auto mb-3">
@@ -242,13 +541,28 @@ function EnableApproval({ request }: { request: PendingRequest }) {
   );
 }
 
-function SignAminoApproval({ request }: { request: PendingRequest }) {
-  const { signDoc, chainId } = request.params || {};
+interface SignEditsState {
+  edits: SignDocEdits;
+  error: string;
+}
+
+interface SignApprovalProps {
+  request: PendingRequest;
+  requestId: string;
+  onEditsChange: (state: SignEditsState) => void;
+}
+
+function SignAminoApproval({ request, requestId, onEditsChange }: SignApprovalProps) {
+  const { signDoc, chainId, signOptions } = request.params || {};
   const msgs = signDoc?.msgs || [];
+  const fee = useMemo(
+    () => (signDoc?.fee ? { amount: signDoc.fee.amount ?? [], gas: String(signDoc.fee.gas ?? "0") } : null),
+    [signDoc?.fee]
+  );
 
   return (
     <div>
-      <OriginBadge origin={request.origin} />
+      <OriginBadge origin={request.origin} risk={request.risk} />
 
       <div className="text-center mb-5">
         <div className="w-14 h-14 bg-yellow-500/10 border border-yellow-500/20 rounded-full flex items-center justify-center mx-auto mb-3">
@@ -310,44 +624,37 @@ function SignAminoApproval({ request }: { request: PendingRequest }) {
           </>
         )}
       </div>
+
+      <SignEditsForm
+        chainId={chainId || signDoc?.chain_id}
+        fee={fee}
+        memo={signDoc?.memo ?? ""}
+        signOptions={signOptions}
+        onChange={onEditsChange}
+      />
+
+      <TxPreviewCard requestId={requestId} />
     </div>
   );
 }
 
-/**
- * Decode protobuf body bytes into human-readable messages.
- * Handles MsgSend, MsgExecuteContract, and falls back to showing typeUrl + raw data.
- */
-function decodeBodyBytes(bodyBytesRaw: any): { messages: any[]; memo: string } {
+/** Decode signDirect body bytes; null when they don't parse. */
+function decodeBody(bodyBytesRaw: any): DecodedTxBody | null {
   try {
-    const bytes = toUint8ArrayFromAny(bodyBytesRaw);
-    if (bytes.length === 0) return { messages: [], memo: "" };
-
-    const decoded = decodeTxBody(bytes);
-    return {
-      messages: decoded.messages.map((msg) => {
-        try {
-          if (msg.typeUrl === "/cosmwasm.wasm.v1.MsgExecuteContract") {
-            return decodeExecuteContract(msg);
-          }
-          if (msg.typeUrl === "/cosmos.bank.v1beta1.MsgSend") {
-            return decodeMsgSend(msg);
-          }
-          if (msg.typeUrl === "/cosmos.staking.v1beta1.MsgDelegate") {
-            return decodeMsgDelegate(msg);
-          }
-          if (msg.typeUrl === "/cosmos.staking.v1beta1.MsgUndelegate") {
-            return decodeMsgDelegate(msg);
-          }
-          return { typeUrl: msg.typeUrl, value: msg.value ? toBase64Display(msg.value) : "(empty)" };
-        } catch {
-          return { typeUrl: msg.typeUrl, value: "(decode error)" };
-        }
-      }),
-      memo: decoded.memo,
-    };
+    return decodeTxBodyBytes(toUint8ArrayFromAny(bodyBytesRaw));
   } catch {
-    return { messages: [], memo: "" };
+    return null;
+  }
+}
+
+/** Decode signDirect auth_info bytes; null when absent or malformed. */
+function decodeAuthInfo(authInfoBytesRaw: any): DecodedAuthInfo | null {
+  const bytes = toUint8ArrayFromAny(authInfoBytesRaw);
+  if (bytes.length === 0) return null;
+  try {
+    return decodeAuthInfoBytes(bytes);
+  } catch {
+    return null;
   }
 }
 
@@ -365,347 +672,304 @@ function toUint8ArrayFromAny(data: any): Uint8Array {
   return new Uint8Array(0);
 }
 
-function toBase64Display(bytes: Uint8Array): string {
-  const arr = Array.from(bytes.slice(0, 64));
-  const hex = arr.map((b) => b.toString(16).padStart(2, "0")).join("");
-  return bytes.length > 64 ? hex + `... (${bytes.length} bytes)` : hex;
-}
-
-/** Minimal protobuf TxBody decoder (field 1 = messages, field 2 = memo) */
-function decodeTxBody(bytes: Uint8Array): { messages: { typeUrl: string; value: Uint8Array }[]; memo: string } {
-  const messages: { typeUrl: string; value: Uint8Array }[] = [];
-  let memo = "";
-  let pos = 0;
-
-  while (pos < bytes.length) {
-    const [fieldTag, newPos] = readVarint(bytes, pos);
-    pos = newPos;
-    const fieldNumber = fieldTag >> 3;
-    const wireType = fieldTag & 0x7;
-
-    if (wireType === 2) {
-      const [len, lenPos] = readVarint(bytes, pos);
-      pos = lenPos;
-      const fieldBytes = bytes.slice(pos, pos + len);
-      pos += len;
-
-      if (fieldNumber === 1) {
-        const msg = decodeAny(fieldBytes);
-        messages.push(msg);
-      } else if (fieldNumber === 2) {
-        memo = new TextDecoder().decode(fieldBytes);
-      }
-    } else if (wireType === 0) {
-      const [, vPos] = readVarint(bytes, pos);
-      pos = vPos;
-    } else if (wireType === 5) {
-      pos += 4;
-    } else if (wireType === 1) {
-      pos += 8;
-    }
-  }
-
-  return { messages, memo };
-}
+/**
+ * Fee / memo editor for sign requests. Hidden fields are the ones the dApp
+ * opted out of (preferNoSetFee / preferNoSetMemo). Reports only what the
+ * user changed, so an untouched request is signed exactly as sent.
+ */
+function SignEditsForm({
+  chainId,
+  fee,
+  memo,
+  signOptions,
+  onChange,
+}: {
+  chainId: string;
+  fee: { amount: Coin[]; gas: string } | null;
+  memo: string;
+  signOptions?: SignOptions;
+  onChange: (state: SignEditsState) => void;
+}) {
+  const editable = editableSignFields(signOptions);
+  const canEditFee = editable.fee && fee !== null;
+  // The first fee coin's amount is editable; on Gonka an empty fee can be set in GNK
+  const feeDenom = fee?.amount[0]?.denom ?? (chainId === GONKA_CHAIN_ID ? GONKA_DENOM : null);
+  const originalAmount = fee?.amount[0]?.amount ?? "0";
+  const originalInput = feeDenom === GONKA_DENOM ? toDisplay(originalAmount) : originalAmount;
+
+  const [editing, setEditing] = useState(false);
+  const [amountInput, setAmountInput] = useState(originalInput);
+  const [gasInput, setGasInput] = useState(fee?.gas ?? "");
+  const [memoInput, setMemoInput] = useState(memo);
 
-function decodeAny(bytes: Uint8Array): { typeUrl: string; value: Uint8Array } {
-  let typeUrl = "";
-  let value = new Uint8Array(0);
-  let pos = 0;
-
-  while (pos < bytes.length) {
-    const [fieldTag, newPos] = readVarint(bytes, pos);
-    pos = newPos;
-    const fieldNumber = fieldTag >> 3;
-    const wireType = fieldTag & 0x7;
-
-    if (wireType === 2) {
-      const [len, lenPos] = readVarint(bytes, pos);
-      pos = lenPos;
-      const fieldBytes = bytes.slice(pos, pos + len);
-      pos += len;
-
-      if (fieldNumber === 1) typeUrl = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 2) value = fieldBytes;
-    } else if (wireType === 0) {
-      const [, vPos] = readVarint(bytes, pos);
-      pos = vPos;
+  useEffect(() => {
+    if (!editing) {
+      onChange({ edits: {}, error: "" });
+      return;
     }
-  }
-
-  return { typeUrl, value };
-}
-
-function readVarint(bytes: Uint8Array, pos: number): [number, number] {
-  let result = 0;
-  let shift = 0;
-  while (pos < bytes.length) {
-    const b = bytes[pos++];
-    result |= (b & 0x7f) << shift;
-    if ((b & 0x80) === 0) break;
-    shift += 7;
-  }
-  return [result >>> 0, pos];
-}
-
-function decodeExecuteContract(msg: { typeUrl: string; value: Uint8Array }): any {
-  let sender = "", contract = "", jsonMsg: any = null;
-  const funds: { denom: string; amount: string }[] = [];
-  let pos = 0;
-  const bytes = msg.value;
-
-  while (pos < bytes.length) {
-    const [fieldTag, newPos] = readVarint(bytes, pos);
-    pos = newPos;
-    const fieldNumber = fieldTag >> 3;
-    const wireType = fieldTag & 0x7;
-
-    if (wireType === 2) {
-      const [len, lenPos] = readVarint(bytes, pos);
-      pos = lenPos;
-      const fieldBytes = bytes.slice(pos, pos + len);
-      pos += len;
-
-      if (fieldNumber === 1) sender = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 2) contract = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 3) {
-        try { jsonMsg = JSON.parse(new TextDecoder().decode(fieldBytes)); }
-        catch { jsonMsg = new TextDecoder().decode(fieldBytes); }
+    const edits: SignDocEdits = {};
+    let error = "";
+
+    if (canEditFee && fee) {
+      let amount = fee.amount;
+      if (feeDenom && amountInput.trim() !== originalInput) {
+        const value = amountInput.trim();
+        const valid = feeDenom === GONKA_DENOM ? /^\d+(\.\d*)?$/.test(value) : /^\d+$/.test(value);
+        if (!valid) error = "Enter a valid fee amount";
+        else amount = [{ denom: feeDenom, amount: feeDenom === GONKA_DENOM ? toMinimal(value) : value }, ...fee.amount.slice(1)];
       }
-      else if (fieldNumber === 5) {
-        funds.push(decodeCoin(fieldBytes));
+      if (amount !== fee.amount || gasInput.trim() !== fee.gas) {
+        edits.fee = { amount, gas: gasInput.trim() };
       }
-    } else if (wireType === 0) {
-      const [, vPos] = readVarint(bytes, pos);
-      pos = vPos;
-    }
-  }
-
-  return {
-    typeUrl: msg.typeUrl,
-    sender,
-    contract,
-    msg: jsonMsg,
-    funds: funds.length > 0 ? funds : undefined,
-  };
-}
-
-function decodeMsgSend(msg: { typeUrl: string; value: Uint8Array }): any {
-  let fromAddress = "", toAddress = "";
-  const amount: { denom: string; amount: string }[] = [];
-  let pos = 0;
-  const bytes = msg.value;
-
-  while (pos < bytes.length) {
-    const [fieldTag, newPos] = readVarint(bytes, pos);
-    pos = newPos;
-    const fieldNumber = fieldTag >> 3;
-    const wireType = fieldTag & 0x7;
-
-    if (wireType === 2) {
-      const [len, lenPos] = readVarint(bytes, pos);
-      pos = lenPos;
-      const fieldBytes = bytes.slice(pos, pos + len);
-      pos += len;
-
-      if (fieldNumber === 1) fromAddress = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 2) toAddress = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 3) amount.push(decodeCoin(fieldBytes));
-    } else if (wireType === 0) {
-      const [, vPos] = readVarint(bytes, pos);
-      pos = vPos;
     }
+    if (editable.memo && memoInput !== memo) edits.memo = memoInput;
+
+    onChange({ edits, error: error || validateSignEdits(edits, signOptions) || "" });
+  }, [
+    editing,
+    canEditFee,
+    fee,
+    feeDenom,
+    originalInput,
+    amountInput,
+    gasInput,
+    editable.memo,
+    memoInput,
+    memo,
+    signOptions,
+    onChange,
+  ]);
+
+  if (!canEditFee && !editable.memo) {
+    return (
+      <p className="text-[11px] text-surface-600 text-center mt-3">This site set the fee and memo</p>
+    );
   }
 
-  return { typeUrl: msg.typeUrl, fromAddress, toAddress, amount };
-}
-
-function decodeMsgDelegate(msg: { typeUrl: string; value: Uint8Array }): any {
-  let delegatorAddress = "", validatorAddress = "";
-  let coin: { denom: string; amount: string } | null = null;
-  let pos = 0;
-  const bytes = msg.value;
-
-  while (pos < bytes.length) {
-    const [fieldTag, newPos] = readVarint(bytes, pos);
-    pos = newPos;
-    const fieldNumber = fieldTag >> 3;
-    const wireType = fieldTag & 0x7;
-
-    if (wireType === 2) {
-      const [len, lenPos] = readVarint(bytes, pos);
-      pos = lenPos;
-      const fieldBytes = bytes.slice(pos, pos + len);
-      pos += len;
-
-      if (fieldNumber === 1) delegatorAddress = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 2) validatorAddress = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 3) coin = decodeCoin(fieldBytes);
-    } else if (wireType === 0) {
-      const [, vPos] = readVarint(bytes, pos);
-      pos = vPos;
-    }
+  if (!editing) {
+    return (
+      <button
+        onClick={() => setEditing(true)}
+        className="w-full mt-3 text-xs text-gonka-400 hover:text-gonka-300 transition-colors"
+      >
+        Edit {canEditFee && editable.memo ? "fee & memo" : canEditFee ? "fee" : "memo"}
+      </button>
+    );
   }
 
-  return { typeUrl: msg.typeUrl, delegatorAddress, validatorAddress, amount: coin };
-}
+  return (
+    <div className="card space-y-3 mt-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-surface-300">Edit before signing</p>
+        <button
+          onClick={() => {
+            setAmountInput(originalInput);
+            setGasInput(fee?.gas ?? "");
+            setMemoInput(memo);
+            setEditing(false);
+          }}
+          className="text-[11px] text-surface-500 hover:text-surface-300 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
 
-function decodeCoin(bytes: Uint8Array): { denom: string; amount: string } {
-  let denom = "", amount = "";
-  let pos = 0;
-  while (pos < bytes.length) {
-    const [fieldTag, newPos] = readVarint(bytes, pos);
-    pos = newPos;
-    const fieldNumber = fieldTag >> 3;
-    const wireType = fieldTag & 0x7;
-
-    if (wireType === 2) {
-      const [len, lenPos] = readVarint(bytes, pos);
-      pos = lenPos;
-      const fieldBytes = bytes.slice(pos, pos + len);
-      pos += len;
-      if (fieldNumber === 1) denom = new TextDecoder().decode(fieldBytes);
-      else if (fieldNumber === 2) amount = new TextDecoder().decode(fieldBytes);
-    } else if (wireType === 0) {
-      const [, vPos] = readVarint(bytes, pos);
-      pos = vPos;
-    }
-  }
-  return { denom, amount };
+      {canEditFee && (
+        <div className="grid grid-cols-2 gap-2">
+          {feeDenom && (
+            <label className="block">
+              <span className="text-[10px] text-surface-500">
+                Fee ({feeDenom === GONKA_DENOM ? GONKA_DISPLAY_DENOM : feeDenom})
+              </span>
+              <input
+                className="input-field text-xs py-2 mt-0.5"
+                inputMode="decimal"
+                value={amountInput}
+                onChange={(e) => setAmountInput(e.target.value)}
+              />
+            </label>
+          )}
+          <label className={`block ${feeDenom ? "" : "col-span-2"}`}>
+            <span className="text-[10px] text-surface-500">Gas limit</span>
+            <input
+              className="input-field text-xs py-2 mt-0.5"
+              inputMode="numeric"
+              value={gasInput}
+              onChange={(e) => setGasInput(e.target.value)}
+            />
+          </label>
+        </div>
+      )}
+
+      {editable.memo && (
+        <label className="block">
+          <span className="text-[10px] text-surface-500">Memo</span>
+          <textarea
+            className="input-field text-xs py-2 mt-0.5 resize-none"
+            rows={2}
+            maxLength={MAX_MEMO_LENGTH}
+            value={memoInput}
+            onChange={(e) => setMemoInput(e.target.value)}
+          />
+        </label>
+      )}
+
+      <p className="text-[10px] text-surface-600">
+        The site receives the signed transaction with your changes.
+      </p>
+    </div>
+  );
 }
 
-/** Format ngonka amounts to human-readable GNK */
-function formatAmount(amount: string, denom: string): string {
-  if (denom === "ngonka" && amount) {
-    const gnk = Number(amount) / 1_000_000_000;
-    return `${gnk} GNK`;
-  }
-  return `${amount} ${denom}`;
+/** Format a signed balance change, e.g. "-1.5 GNK" / "+7 uatom" */
+function formatChange(change: Coin): string {
+  const negative = change.amount.startsWith("-");
+  const abs = negative ? change.amount.slice(1) : change.amount;
+  const value = change.denom === "ngonka" ? `${toDisplay(abs)} GNK` : `${abs} ${change.denom}`;
+  return `${negative ? "-" : "+"}${value}`;
 }
 
-/** Shorten a bech32 address for display */
-function shortAddr(addr: string): string {
-  if (addr.length <= 20) return addr;
-  return addr.slice(0, 12) + "..." + addr.slice(-8);
-}
+/**
+ * Simulation result for a sign request: outcome, gas estimate and the
+ * signer's net balance changes. Loaded separately so a slow endpoint
+ * doesn't hold up the rest of the approval screen.
+ */
+function TxPreviewCard({ requestId }: { requestId: string }) {
+  const [preview, setPreview] = useState<TxPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
 
-/** Render a decoded message in a human-readable way */
-function DecodedMessage({ msg, index }: { msg: any; index: number }) {
-  const typeShort = msg.typeUrl?.split(".").pop() || msg.typeUrl || "Unknown";
+  useEffect(() => {
+    sendMessage({ type: "PREVIEW_PENDING_REQUEST", requestId })
+      .then((resp) => {
+        if (resp.preview) setPreview(resp.preview);
+        else setError(resp.error || "Preview unavailable");
+      })
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [requestId]);
 
-  if (msg.typeUrl === "/cosmwasm.wasm.v1.MsgExecuteContract") {
-    const action = msg.msg ? Object.keys(msg.msg)[0] : "execute";
+  if (loading) {
     return (
-      <div className="bg-black/20 rounded-xl p-3 space-y-2">
-        <div className="flex items-center gap-2">
-          <span className="text-[11px] font-mono text-gonka-400">{typeShort}</span>
-          <span className="text-[10px] text-surface-600">#{index + 1}</span>
-        </div>
-        <div className="space-y-1.5">
-          <div>
-            <span className="text-[10px] text-surface-500">Action</span>
-            <p className="text-xs font-semibold text-gonka-300">{action}</p>
-          </div>
-          <div>
-            <span className="text-[10px] text-surface-500">Contract</span>
-            <p className="text-[10px] font-mono text-surface-400 break-all">{msg.contract}</p>
-          </div>
-          {msg.msg && (
-            <div>
-              <span className="text-[10px] text-surface-500">Message</span>
-              <pre className="text-[10px] text-surface-300 overflow-x-auto whitespace-pre-wrap break-all leading-relaxed mt-0.5 bg-black/20 rounded-lg p-2">
-                {JSON.stringify(msg.msg, null, 2)}
-              </pre>
-            </div>
-          )}
-          {msg.funds && msg.funds.length > 0 && (
-            <div>
-              <span className="text-[10px] text-surface-500">Funds</span>
-              <div className="flex flex-wrap gap-1 mt-0.5">
-                {msg.funds.map((f: any, i: number) => (
-                  <span key={i} className="text-[11px] font-medium text-yellow-300 bg-yellow-500/10 px-2 py-0.5 rounded-lg">
-                    {formatAmount(f.amount, f.denom)}
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-        </div>
+      <div className="card mt-3 flex items-center gap-2">
+        <Spinner size="sm" />
+        <span className="text-xs text-surface-400">Simulating transaction...</span>
       </div>
     );
   }
 
-  if (msg.typeUrl === "/cosmos.bank.v1beta1.MsgSend") {
+  if (!preview) {
     return (
-      <div className="bg-black/20 rounded-xl p-3 space-y-2">
-        <div className="flex items-center gap-2">
-          <span className="text-[11px] font-mono text-gonka-400">{typeShort}</span>
-          <span className="text-[10px] text-surface-600">#{index + 1}</span>
-        </div>
-        <div className="space-y-1.5">
-          <div className="flex justify-between">
-            <span className="text-[10px] text-surface-500">From</span>
-            <span className="text-[10px] font-mono text-surface-400">{shortAddr(msg.fromAddress)}</span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-[10px] text-surface-500">To</span>
-            <span className="text-[10px] font-mono text-surface-400">{shortAddr(msg.toAddress)}</span>
-          </div>
-          {msg.amount?.map((a: any, i: number) => (
-            <div key={i} className="flex justify-between">
-              <span className="text-[10px] text-surface-500">Amount</span>
-              <span className="text-[11px] font-medium text-yellow-300">{formatAmount(a.amount, a.denom)}</span>
-            </div>
-          ))}
-        </div>
+      <div className="card mt-3">
+        <p className="text-xs text-surface-500">{error}</p>
       </div>
     );
   }
 
-  if (msg.typeUrl?.includes("MsgDelegate") || msg.typeUrl?.includes("MsgUndelegate")) {
-    return (
-      <div className="bg-black/20 rounded-xl p-3 space-y-2">
-        <div className="flex items-center gap-2">
-          <span className="text-[11px] font-mono text-gonka-400">{typeShort}</span>
-          <span className="text-[10px] text-surface-600">#{index + 1}</span>
+  const fee = preview.fee.filter((c) => c.amount !== "0");
+  const outOfGas =
+    preview.gasUsed !== undefined && preview.gasLimit !== undefined && preview.gasUsed > preview.gasLimit;
+
+  return (
+    <div className="card mt-3 space-y-3">
+      <div className="flex justify-between gap-3">
+        <span className="text-xs text-surface-500 shrink-0">Simulation</span>
+        {preview.success ? (
+          <span className="text-xs font-medium text-gonka-400">Succeeds</span>
+        ) : preview.simulated ? (
+          <span className="text-xs font-medium text-red-400">Would fail</span>
+        ) : (
+          <span className="text-xs text-surface-500">Not run</span>
+        )}
+      </div>
+
+      {preview.error && (
+        <div
+          className={`p-2.5 rounded-xl border ${
+            preview.simulated ? "bg-red-500/10 border-red-500/20" : "bg-white/[0.03] border-white/[0.06]"
+          }`}
+        >
+          <p
+            className={`text-[11px] leading-relaxed break-words ${
+              preview.simulated ? "text-red-300" : "text-surface-400"
+            }`}
+          >
+            {preview.error}
+          </p>
         </div>
-        <div className="space-y-1.5">
-          <div>
-            <span className="text-[10px] text-surface-500">Delegator</span>
-            <p className="text-[10px] font-mono text-surface-400 break-all">{msg.delegatorAddress}</p>
-          </div>
-          <div>
-            <span className="text-[10px] text-surface-500">Validator</span>
-            <p className="text-[10px] font-mono text-surface-400 break-all">{msg.validatorAddress}</p>
+      )}
+
+      {(preview.gasUsed !== undefined || preview.gasLimit !== undefined) && (
+        <>
+          <div className="border-t border-white/[0.04]" />
+          <div className="flex justify-between">
+            <span className="text-xs text-surface-500">Estimated gas</span>
+            <span className={`text-xs font-mono ${outOfGas ? "text-red-400" : "text-surface-300"}`}>
+              {preview.gasUsed?.toLocaleString() ?? "?"} / {preview.gasLimit?.toLocaleString() ?? "?"}
+            </span>
           </div>
-          {msg.amount && (
-            <div className="flex justify-between">
-              <span className="text-[10px] text-surface-500">Amount</span>
-              <span className="text-[11px] font-medium text-yellow-300">{formatAmount(msg.amount.amount, msg.amount.denom)}</span>
-            </div>
+          {outOfGas && (
+            <p className="text-[11px] text-red-400">The gas limit is below the estimate; this transaction will run out of gas.</p>
           )}
-        </div>
+        </>
+      )}
+
+      <div className="border-t border-white/[0.04]" />
+      <div>
+        <p className="text-xs text-surface-500 mb-1.5">
+          Balance changes{preview.estimated ? " (estimated from messages)" : ""}
+        </p>
+        {preview.changes.length === 0 ? (
+          <p className="text-xs text-surface-400">No change to your balances</p>
+        ) : (
+          <div className="space-y-1">
+            {preview.changes.map((c) => (
+              <div key={c.denom} className="flex justify-end">
+                <span
+                  className={`text-[11px] font-medium font-mono break-all ${
+                    c.amount.startsWith("-") ? "text-red-300" : "text-gonka-300"
+                  }`}
+                >
+                  {formatChange(c)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
-    );
-  }
 
-  return (
-    <div className="bg-black/20 rounded-xl p-3">
-      <p className="text-[11px] font-mono text-gonka-400 mb-1.5">{msg.typeUrl || "Unknown"}</p>
-      <pre className="text-[10px] text-surface-400 overflow-x-auto whitespace-pre-wrap break-all leading-relaxed">
-        {typeof msg.value === "string" ? msg.value : JSON.stringify(msg, null, 2)}
-      </pre>
+      {fee.length > 0 && (
+        <div className="flex justify-between gap-3">
+          <span className="text-[11px] text-surface-500 shrink-0">Includes fee</span>
+          <span className="text-[11px] font-mono text-surface-400 text-right">
+            {fee.map((c) => formatChange({ ...c, amount: `-${c.amount}` })).join(", ")}
+          </span>
+        </div>
+      )}
+
+      {preview.attachedFunds.length > 0 && (
+        <div className="flex justify-between gap-3">
+          <span className="text-[11px] text-surface-500 shrink-0">Sent to contracts</span>
+          <span className="text-[11px] font-mono text-yellow-300 text-right">
+            {preview.attachedFunds.map((c) => formatChange({ ...c, amount: `-${c.amount}` })).join(", ")}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
 
-function SignDirectApproval({ request }: { request: PendingRequest }) {
-  const { chainId, signer, signDoc } = request.params || {};
-  const { messages, memo } = decodeBodyBytes(signDoc?.bodyBytes);
+function SignDirectApproval({ request, requestId, onEditsChange }: SignApprovalProps) {
+  const { chainId, signer, signDoc, signOptions } = request.params || {};
+  const body = decodeBody(signDoc?.bodyBytes);
+  const authInfo = useMemo(() => decodeAuthInfo(signDoc?.authInfoBytes), [signDoc?.authInfoBytes]);
+  const fee = useMemo(() => (authInfo ? { amount: authInfo.fee, gas: authInfo.gasLimit } : null), [authInfo]);
+  const messages = (body?.messages ?? []).map(describeMessage);
+  const sequences = authInfo?.signers.map((s) => s.sequence).join(", ");
 
   return (
     <div>
-      <OriginBadge origin={request.origin} />
+      <OriginBadge origin={request.origin} risk={request.risk} />
 
       <div className="text-center mb-5">
         <div className="w-14 h-14 bg-yellow-500/10 border border-yellow-500/20 rounded-full flex items-center justify-center mx-auto mb-3">
@@ -737,20 +1001,61 @@ function SignDirectApproval({ request }: { request: PendingRequest }) {
               <p className="text-xs text-surface-500 mb-2">Messages ({messages.length})</p>
               <div className="space-y-2">
                 {messages.map((msg, i) => (
-                  <DecodedMessage key={i} msg={msg} index={i} />
+                  <MessageCard key={i} message={msg} index={i} />
                 ))}
               </div>
             </div>
           </>
         )}
 
-        {memo && (
+        {!body && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <p className="text-xs text-red-400">Couldn't decode the transaction body. Only sign if you trust this site.</p>
+          </>
+        )}
+
+        {body?.memo && (
           <>
             <div className="border-t border-white/[0.04]" />
             <div className="flex justify-between">
               <span className="text-xs text-surface-500">Memo</span>
-              <span className="text-xs text-surface-300">{memo}</span>
+              <span className="text-xs text-surface-300">{body.memo}</span>
+            </div>
+          </>
+        )}
+
+        {body?.timeoutHeight && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <div className="flex justify-between">
+              <span className="text-xs text-surface-500">Timeout height</span>
+              <span className="text-xs font-mono text-surface-300">{body.timeoutHeight}</span>
+            </div>
+          </>
+        )}
+
+        {authInfo && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <div className="flex justify-between">
+              <span className="text-xs text-surface-500">Fee</span>
+              <span className="text-xs text-surface-300">
+                {authInfo.fee.length > 0 ? formatCoins(authInfo.fee) : "0"} (gas: {authInfo.gasLimit})
+              </span>
             </div>
+            {authInfo.granter && (
+              <div>
+                <span className="text-xs text-surface-500">Fee granter</span>
+                <p className="text-xs font-mono text-surface-300 break-all mt-0.5">{authInfo.granter}</p>
+              </div>
+            )}
+            {sequences && (
+              <div className="flex justify-between">
+                <span className="text-xs text-surface-500">Sequence</span>
+                <span className="text-xs font-mono text-surface-300">{sequences}</span>
+              </div>
+            )}
           </>
         )}
 
@@ -760,30 +1065,40 @@ function SignDirectApproval({ request }: { request: PendingRequest }) {
           <span className="text-xs font-mono text-surface-300">{signDoc?.accountNumber || "0"}</span>
         </div>
       </div>
+
+      <SignEditsForm
+        chainId={chainId || signDoc?.chainId}
+        fee={fee}
+        memo={body?.memo ?? ""}
+        signOptions={signOptions}
+        onChange={onEditsChange}
+      />
+
+      <TxPreviewCard requestId={requestId} />
     </div>
   );
 }
 
+const SIGN_DATA_LABELS: Record<SignDataKind, string> = {
+  text: "Text",
+  json: "JSON",
+  hex: "Binary (hex)",
+};
+
 function SignArbitraryApproval({ request }: { request: PendingRequest }) {
   const { chainId, signer, data } = request.params || {};
 
-  // data can be a string or an array of numbers
-  let displayData: string;
-  if (typeof data === "string") {
-    displayData = data;
-  } else if (Array.isArray(data)) {
-    try {
-      displayData = new TextDecoder().decode(new Uint8Array(data));
-    } catch {
-      displayData = `[${data.length} bytes]`;
-    }
-  } else {
-    displayData = String(data);
+  let bytes: Uint8Array | null = null;
+  try {
+    bytes = toSignDataBytes(data);
+  } catch {
+    // shown as unreadable below
   }
+  const described = bytes ? describeSignData(bytes) : null;
 
   return (
     <div>
-      <OriginBadge origin={request.origin} />
+      <OriginBadge origin={request.origin} risk={request.risk} />
 
       <div className="text-center mb-5">
         <div className="w-14 h-14 bg-blue-500/10 border border-blue-500/20 rounded-full flex items-center justify-center mx-auto mb-3">
@@ -809,12 +1124,251 @@ function SignArbitraryApproval({ request }: { request: PendingRequest }) {
         </div>
         <div className="border-t border-white/[0.04]" />
         <div>
-          <p className="text-xs text-surface-500 mb-1">Message</p>
-          <div className="bg-black/20 rounded-xl p-3">
-            <p className="text-sm text-surface-200 whitespace-pre-wrap break-all">{displayData}</p>
+          <div className="flex justify-between mb-1">
+            <p className="text-xs text-surface-500">Message</p>
+            {described && bytes && (
+              <p className="text-xs text-surface-500">
+                {SIGN_DATA_LABELS[described.kind]} · {bytes.length} byte{bytes.length !== 1 ? "s" : ""}
+              </p>
+            )}
           </div>
+          <div className="bg-black/20 rounded-xl p-3 max-h-56 overflow-y-auto">
+            {described ? (
+              <p
+                className={`whitespace-pre-wrap break-all ${
+                  described.kind === "text" ? "text-sm text-surface-200" : "text-xs font-mono text-surface-300"
+                }`}
+              >
+                {described.display}
+              </p>
+            ) : (
+              <p className="text-sm text-red-400">This message can't be read</p>
+            )}
+          </div>
+          {described?.kind === "hex" && (
+            <p className="text-xs text-yellow-400/80 mt-2">
+              This message isn't readable text. Only sign it if you trust the site and know what it's for.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Split a signed TxRaw into body / auth info; null when it doesn't parse. */
+function decodeTxRaw(txRaw: any): { bodyBytes: Uint8Array; authInfoBytes: Uint8Array } | null {
+  try {
+    return TxRaw.decode(toUint8ArrayFromAny(txRaw));
+  } catch {
+    return null;
+  }
+}
+
+function SendTxApproval({ request }: { request: PendingRequest }) {
+  const { chainId, tx, mode, review } = (request.params || {}) as {
+    chainId?: string;
+    tx?: unknown;
+    mode?: string;
+    review?: BroadcastReview;
+  };
+  const raw = decodeTxRaw(tx);
+  const body = raw ? decodeBody(raw.bodyBytes) : null;
+  const authInfo = raw ? decodeAuthInfo(raw.authInfoBytes) : null;
+  const messages = (body?.messages ?? []).map(describeMessage);
+
+  return (
+    <div>
+      <OriginBadge origin={request.origin} risk={request.risk} />
+
+      <div className="text-center mb-5">
+        <div className="w-14 h-14 bg-yellow-500/10 border border-yellow-500/20 rounded-full flex items-center justify-center mx-auto mb-3">
+          <svg className="w-7 h-7 text-yellow-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
+          </svg>
         </div>
+        <h2 className="text-base font-bold mb-1">Broadcast Transaction</h2>
+        <p className="text-sm text-surface-400">
+          This site wants to broadcast a signed transaction
+        </p>
       </div>
+
+      {review && review.reasons.length > 0 && (
+        <div className="mb-4 p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20 space-y-1">
+          {review.reasons.map((reason) => (
+            <p key={reason} className="text-xs text-yellow-300/90">
+              {BROADCAST_REASON_LABELS[reason]}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="card space-y-3">
+        <div className="flex justify-between">
+          <span className="text-xs text-surface-500">Chain</span>
+          <span className="text-xs font-mono text-surface-300">{chainId}</span>
+        </div>
+        {mode && (
+          <div className="flex justify-between">
+            <span className="text-xs text-surface-500">Mode</span>
+            <span className="text-xs font-mono text-surface-300">{mode}</span>
+          </div>
+        )}
+
+        {review?.outflow && review.outflow.length > 0 && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <div className="flex justify-between">
+              <span className="text-xs text-surface-500">Sends</span>
+              <span className="text-xs font-mono text-surface-200 text-right">{formatCoins(review.outflow)}</span>
+            </div>
+          </>
+        )}
+
+        {messages.length > 0 && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <div>
+              <p className="text-xs text-surface-500 mb-2">Messages ({messages.length})</p>
+              <div className="space-y-2">
+                {messages.map((msg, i) => (
+                  <MessageCard key={i} message={msg} index={i} />
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {!body && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <p className="text-xs text-red-400">
+              Couldn't decode the transaction. Only broadcast it if you trust this site.
+            </p>
+          </>
+        )}
+
+        {body?.memo && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <div className="flex justify-between">
+              <span className="text-xs text-surface-500">Memo</span>
+              <span className="text-xs text-surface-300">{body.memo}</span>
+            </div>
+          </>
+        )}
+
+        {authInfo && (
+          <>
+            <div className="border-t border-white/[0.04]" />
+            <div className="flex justify-between">
+              <span className="text-xs text-surface-500">Fee</span>
+              <span className="text-xs text-surface-300">
+                {authInfo.fee.length > 0 ? formatCoins(authInfo.fee) : "0"} (gas: {authInfo.gasLimit})
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function currencyLabel(c: ChainCurrency): string {
+  return `${c.coinDenom} (${c.coinMinimalDenom}, ${c.coinDecimals} dp)`;
+}
+
+function SuggestChainApproval({ request }: { request: PendingRequest }) {
+  const chainInfo: SuggestedChainInfo = request.params?.chainInfo;
+  const replaces: SuggestedChainInfo | null = request.params?.replaces ?? null;
+  if (!chainInfo) return null;
+
+  // `previous` is only set when updating an existing chain
+  const rows: { label: string; value: string; previous?: string }[] = [
+    { label: "Chain ID", value: chainInfo.chainId },
+    { label: "RPC", value: endpointHost(chainInfo.rpc), previous: replaces ? endpointHost(replaces.rpc) : undefined },
+    { label: "REST", value: endpointHost(chainInfo.rest), previous: replaces ? endpointHost(replaces.rest) : undefined },
+    {
+      label: "Address prefix",
+      value: chainInfo.bech32Config.bech32PrefixAccAddr,
+      previous: replaces?.bech32Config?.bech32PrefixAccAddr,
+    },
+    {
+      label: "Coin type",
+      value: String(chainInfo.bip44.coinType),
+      previous: replaces?.bip44 ? String(replaces.bip44.coinType) : undefined,
+    },
+  ];
+
+  const currencyGroups: { label: string; list: ChainCurrency[] }[] = [
+    { label: "Currencies", list: chainInfo.currencies },
+    { label: "Fee currencies", list: chainInfo.feeCurrencies },
+    ...(chainInfo.stakeCurrency ? [{ label: "Staking currency", list: [chainInfo.stakeCurrency] }] : []),
+  ];
+
+  return (
+    <div>
+      <OriginBadge origin={request.origin} risk={request.risk} />
+
+      <div className="text-center mb-5">
+        <div className="w-14 h-14 bg-gonka-500/10 border border-gonka-500/25 rounded-full flex items-center justify-center mx-auto mb-3">
+          <svg className="w-7 h-7 text-gonka-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 21a9.004 9.004 0 008.716-6.747M12 21a9.004 9.004 0 01-8.716-6.747M12 21c2.485 0 4.5-4.03 4.5-9S14.485 3 12 3m0 18c-2.485 0-4.5-4.03-4.5-9S9.515 3 12 3m0 0a8.997 8.997 0 017.843 4.582M12 3a8.997 8.997 0 00-7.843 4.582m15.686 0A11.953 11.953 0 0112 10.5c-2.998 0-5.74-1.1-7.843-2.918m15.686 0A8.959 8.959 0 0121 12c0 .778-.099 1.533-.284 2.253m0 0A17.919 17.919 0 0112 16.5c-3.162 0-6.133-.815-8.716-2.247m0 0A9.015 9.015 0 013 12c0-1.605.42-3.113 1.157-4.418" />
+          </svg>
+        </div>
+        <h2 className="text-base font-bold mb-1">{replaces ? "Update Chain" : "Add Chain"}</h2>
+        <p className="text-sm text-surface-400">
+          This site wants to add <span className="text-surface-200 font-medium">{chainInfo.chainName}</span> to your wallet
+        </p>
+      </div>
+
+      {replaces && (
+        <div className="mb-3 p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20">
+          <p className="text-[11px] text-yellow-300 leading-relaxed">
+            This chain is already in your wallet. Approving replaces its settings; changed values
+            are shown with the current value crossed out.
+          </p>
+        </div>
+      )}
+
+      <div className="card space-y-3">
+        {rows.map((row, i) => (
+          <div key={row.label}>
+            {i > 0 && <div className="border-t border-white/[0.04] mb-3" />}
+            <div className="flex justify-between gap-3">
+              <span className="text-xs text-surface-500 shrink-0">{row.label}</span>
+              <span className="text-xs font-mono text-surface-300 text-right break-all">
+                {row.previous !== undefined && row.previous !== row.value && (
+                  <span className="block text-surface-600 line-through">{row.previous}</span>
+                )}
+                {row.value}
+              </span>
+            </div>
+          </div>
+        ))}
+
+        {currencyGroups.map((group) => (
+          <div key={group.label}>
+            <div className="border-t border-white/[0.04] mb-3" />
+            <p className="text-xs text-surface-500 mb-1">{group.label}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {group.list.map((c) => (
+                <span
+                  key={c.coinMinimalDenom}
+                  className="text-[11px] font-mono text-surface-300 bg-surface-800 px-2 py-1 rounded-lg"
+                >
+                  {currencyLabel(c)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[11px] text-surface-500 mt-3 leading-relaxed">
+        Only add chains you trust. The RPC and REST endpoints will see your address and
+        transactions on this chain.
+      </p>
     </div>
   );
 }
@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from "react";
+import { sendMessage } from "@/lib/messaging";
+import { formatGNK, toMinimal } from "@/lib/format";
+import { GONKA_DENOM } from "@/lib/gonka";
+import { DEFAULT_GAS_ADJUSTMENT, validateTxOptions, type TxOptions } from "@/lib/tx-options";
+import type { Coin } from "@/lib/tx-preview";
+import Spinner from "./Spinner";
+
+interface FeeReviewProps {
+  /**
+   * The popup message that runs the transaction, e.g. { type: "DELEGATE", validator, amount }.
+   * Memoize it: a new object re-runs the estimate.
+   */
+  action: Record<string, any>;
+  /** Called with the options to send along with the action, or null while they can't be used. Must be stable. */
+  onChange: (options: TxOptions | null) => void;
+}
+
+function formatFee(coins: Coin[]): string {
+  if (coins.length === 0) return formatGNK("0");
+  return coins.map((c) => (c.denom === GONKA_DENOM ? formatGNK(c.amount) : `${c.amount} ${c.denom}`)).join(", ");
+}
+
+/**
+ * Fee step of a confirm screen: simulates the action, shows the fee and
+ * gas it will be signed with, and lets the user override them.
+ */
+export default function FeeReview({ action, onChange }: FeeReviewProps) {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [fee, setFee] = useState("");
+  const [gasLimit, setGasLimit] = useState("");
+  const [gasAdjustment, setGasAdjustment] = useState("");
+  const [timeoutHeight, setTimeoutHeight] = useState("");
+  const [feeGranter, setFeeGranter] = useState("");
+
+  const [estimating, setEstimating] = useState(true);
+  const [estimate, setEstimate] = useState<{ gasUsed: number | null; fee: { amount: Coin[]; gas: string } } | null>(null);
+  const [error, setError] = useState("");
+
+  const { options, inputError } = useMemo(() => {
+    const options: TxOptions = {};
+    if (fee.trim()) {
+      if (!/^\d*\.?\d+$/.test(fee.trim())) return { options, inputError: "Fee must be a GNK amount" };
+      options.fee = [{ denom: GONKA_DENOM, amount: toMinimal(fee.trim()) }];
+    }
+    if (gasLimit.trim()) options.gasLimit = Number(gasLimit.trim());
+    if (gasAdjustment.trim()) options.gasAdjustment = Number(gasAdjustment.trim());
+    if (timeoutHeight.trim()) options.timeoutHeight = timeoutHeight.trim();
+    if (feeGranter.trim()) options.feeGranter = feeGranter.trim();
+    return { options, inputError: validateTxOptions(options) };
+  }, [fee, gasLimit, gasAdjustment, timeoutHeight, feeGranter]);
+
+  useEffect(() => {
+    onChange(null);
+    if (inputError) {
+      setEstimating(false);
+      return;
+    }
+    let cancelled = false;
+    setEstimating(true);
+    setError("");
+    const timer = setTimeout(async () => {
+      try {
+        const resp = await sendMessage({ type: "ESTIMATE_TX", action: { ...action, txOptions: options } });
+        if (cancelled) return;
+        if (resp.success) {
+          setEstimate({ gasUsed: resp.gasUsed, fee: resp.fee });
+          onChange(options);
+        } else {
+          setEstimate(null);
+          setError(resp.error || "Couldn't estimate the fee");
+        }
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || "Couldn't estimate the fee");
+      } finally {
+        if (!cancelled) setEstimating(false);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [action, options, inputError, onChange]);
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex justify-between">
+        <span className="text-sm text-surface-500">Network Fee</span>
+        {estimating ? (
+          <Spinner size="sm" />
+        ) : (
+          <span className="text-sm text-surface-300">{estimate ? formatFee(estimate.fee.amount) : "—"}</span>
+        )}
+      </div>
+      {estimate && !estimating && (
+        <div className="flex justify-between">
+          <span className="text-xs text-surface-500">Gas</span>
+          <span className="text-xs text-surface-400">
+            {estimate.gasUsed !== null ? `${estimate.gasUsed.toLocaleString()} used, ` : ""}
+            limit {Number(estimate.fee.gas).toLocaleString()}
+          </span>
+        </div>
+      )}
+      {options.feeGranter && (
+        <div className="flex justify-between gap-4">
+          <span className="text-xs text-surface-500 shrink-0">Paid by</span>
+          <span className="text-xs font-mono text-surface-400 break-all text-right">{options.feeGranter}</span>
+        </div>
+      )}
+
+      {(inputError || error) && <p className="text-xs text-red-400">{inputError || error}</p>}
+
+      <button
+        onClick={() => setShowAdvanced((v) => !v)}
+        className="text-xs text-gonka-400 hover:text-gonka-300 transition-colors"
+      >
+        {showAdvanced ? "Hide fee options" : "Edit fee options"}
+      </button>
+
+      {showAdvanced && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-[11px] text-surface-500 mb-1">Fee (GNK)</label>
+              <input
+                value={fee}
+                onChange={(e) => setFee(e.target.value.replace(/[^0-9.]/g, ""))}
+                placeholder="From gas price"
+                className="input-field text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-[11px] text-surface-500 mb-1">Gas limit</label>
+              <input
+                value={gasLimit}
+                onChange={(e) => setGasLimit(e.target.value.replace(/[^0-9]/g, ""))}
+                placeholder="Simulated"
+                className="input-field text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-[11px] text-surface-500 mb-1">Gas adjustment</label>
+              <input
+                value={gasAdjustment}
+                onChange={(e) => setGasAdjustment(e.target.value.replace(/[^0-9.]/g, ""))}
+                placeholder={String(DEFAULT_GAS_ADJUSTMENT)}
+                disabled={!!gasLimit.trim()}
+                className="input-field text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-[11px] text-surface-500 mb-1">Timeout height</label>
+              <input
+                value={timeoutHeight}
+                onChange={(e) => setTimeoutHeight(e.target.value.replace(/[^0-9]/g, ""))}
+                placeholder="None"
+                className="input-field text-xs"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-[11px] text-surface-500 mb-1">Fee granter</label>
+            <input
+              value={feeGranter}
+              onChange={(e) => setFeeGranter(e.target.value.trim())}
+              placeholder="gonka1... (optional)"
+              className="input-field font-mono text-xs"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
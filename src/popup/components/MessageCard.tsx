@@ -0,0 +1,67 @@
+import type { DescribedField, MessageDescription } from "@/lib/tx-decoder";
+
+/** One labelled field of a decoded message */
+function MessageField({ field }: { field: DescribedField }) {
+  if (field.kind === "json") {
+    return (
+      <div>
+        <span className="text-[10px] text-surface-500">{field.label}</span>
+        <pre className="text-[10px] text-surface-300 overflow-x-auto whitespace-pre-wrap break-all leading-relaxed mt-0.5 bg-black/20 rounded-lg p-2">
+          {field.value}
+        </pre>
+      </div>
+    );
+  }
+  if (field.kind === "address") {
+    return (
+      <div>
+        <span className="text-[10px] text-surface-500">{field.label}</span>
+        <p className="text-[10px] font-mono text-surface-400 break-all">{field.value}</p>
+      </div>
+    );
+  }
+  return (
+    <div className="flex justify-between gap-3">
+      <span className="text-[10px] text-surface-500 shrink-0">{field.label}</span>
+      <span
+        className={`text-[11px] text-right break-all ${
+          field.kind === "amount" ? "font-medium text-yellow-300" : "text-surface-300"
+        }`}
+      >
+        {field.value}
+      </span>
+    </div>
+  );
+}
+
+/** Render a decoded message; messages it wraps (authz exec, proposals) are nested */
+export default function MessageCard({ message, index }: { message: MessageDescription; index: number }) {
+  return (
+    <div className="bg-black/20 rounded-xl p-3 space-y-2">
+      <div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-semibold text-gonka-300">{message.title}</span>
+          <span className="text-[10px] text-surface-600">#{index + 1}</span>
+        </div>
+        <p className="text-[10px] font-mono text-surface-600 break-all">{message.typeUrl}</p>
+      </div>
+      {!message.known && (
+        <p className="text-[10px] text-yellow-400/80">
+          No schema for this message type. Fields are shown by number.
+        </p>
+      )}
+      <div className="space-y-1.5">
+        {message.fields.map((f, i) => (
+          <MessageField key={i} field={f} />
+        ))}
+      </div>
+      {message.children && message.children.length > 0 && (
+        <div className="space-y-2 pl-2 border-l border-white/[0.06]">
+          {message.children.map((child, i) => (
+            <MessageCard key={i} message={child} index={i} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
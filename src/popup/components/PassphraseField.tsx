@@ -0,0 +1,46 @@
+import { useState } from "react";
+import PasswordInput from "@/popup/components/PasswordInput";
+
+interface PassphraseFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Collapsible input for an optional BIP39 passphrase ("25th word").
+ * Collapsing it clears the value so a hidden passphrase is never submitted.
+ */
+export default function PassphraseField({ value, onChange }: PassphraseFieldProps) {
+  const [open, setOpen] = useState(!!value);
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2.5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={open}
+          onChange={(e) => {
+            setOpen(e.target.checked);
+            if (!e.target.checked) onChange("");
+          }}
+          className="rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
+        />
+        <span className="text-xs text-surface-400">Use a BIP39 passphrase (advanced)</span>
+      </label>
+      {open && (
+        <>
+          <PasswordInput
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Passphrase"
+            autoComplete="off"
+          />
+          <p className="text-[11px] text-surface-500">
+            The passphrase is case-sensitive and yields a completely different wallet. It is
+            not part of the recovery phrase — without it the funds can't be recovered.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
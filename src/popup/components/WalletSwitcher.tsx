@@ -1,12 +1,17 @@
 import { useState, useRef, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { useWalletStore } from "@/popup/store";
+import { useWalletStore, groupWalletsBySeed } from "@/popup/store";
 import { truncateAddress } from "@/lib/format";
+import PasswordInput from "@/popup/components/PasswordInput";
 
 export default function WalletSwitcher() {
   const navigate = useNavigate();
   const { wallets, activeIndex, switchWallet, getBalance } = useWalletStore();
   const [open, setOpen] = useState(false);
+  // Locked password group the user is being asked to unlock
+  const [prompt, setPrompt] = useState<{ index: number; group: string } | null>(null);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
   const ref = useRef<HTMLDivElement>(null);
 
   const activeWallet = wallets[activeIndex];
@@ -21,15 +26,26 @@ export default function WalletSwitcher() {
     return () => document.removeEventListener("mousedown", handler);
   }, [open]);
 
-  const handleSwitch = async (index: number) => {
+  const closePrompt = () => {
+    setPrompt(null);
+    setPassword("");
+    setError("");
+  };
+
+  const handleSwitch = async (index: number, groupPassword?: string) => {
     if (index === activeIndex) {
       setOpen(false);
       return;
     }
-    const ok = await switchWallet(index);
-    if (ok) {
+    const result = await switchWallet(index, groupPassword);
+    if (result.success) {
       setOpen(false);
+      closePrompt();
       getBalance();
+    } else if (result.passwordRequired) {
+      setPrompt({ index, group: result.passwordRequired });
+    } else if (groupPassword) {
+      setError(result.error || "Wrong password");
     }
   };
 
@@ -38,7 +54,10 @@ export default function WalletSwitcher() {
   return (
     <div className="relative" ref={ref}>
       <button
-        onClick={() => setOpen(!open)}
+        onClick={() => {
+          setOpen(!open);
+          closePrompt();
+        }}
         className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-white/[0.04] hover:bg-white/[0.08] border border-white/[0.06] transition-all duration-150 max-w-[200px]"
       >
         <div className="w-5 h-5 rounded-[3px] bg-white flex items-center justify-center text-[10px] font-extrabold text-surface-950 shrink-0 led-text" style={{ boxShadow: "0 0 6px rgba(255,255,255,0.4)" }}>
@@ -61,42 +80,86 @@ export default function WalletSwitcher() {
       {open && (
         <div className="absolute top-full left-0 mt-1.5 w-64 led-bezel z-50 animate-scale-in origin-top-left">
           <div className="led-display">
+            {prompt && (
+              <form
+                className="p-3 space-y-2 led-divider-bottom"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (password) handleSwitch(prompt.index, password);
+                }}
+              >
+                <p className="led-text text-[11px] font-bold text-white">
+                  Unlock &ldquo;{prompt.group}&rdquo;
+                </p>
+                <PasswordInput
+                  value={password}
+                  onChange={(e) => {
+                    setPassword(e.target.value);
+                    setError("");
+                  }}
+                  placeholder="Group password"
+                  className="text-sm py-2"
+                  autoFocus
+                />
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <div className="flex gap-2">
+                  <button type="button" onClick={closePrompt} className="btn-secondary !py-2 text-xs">
+                    Cancel
+                  </button>
+                  <button type="submit" disabled={!password} className="btn-primary !py-2 text-xs">
+                    Unlock
+                  </button>
+                </div>
+              </form>
+            )}
             <div className="max-h-[240px] overflow-y-auto py-1">
-              {wallets.map((w, i) => (
-                <button
-                  key={i}
-                  onClick={() => handleSwitch(i)}
-                  className={`flex items-center gap-2.5 w-full px-3 py-2.5 text-left transition-colors ${
-                    i === activeIndex
-                      ? "bg-white/[0.06]"
-                      : "hover:bg-white/[0.04]"
-                  }`}
-                >
-                  <div
-                    className={`w-7 h-7 rounded-[3px] flex items-center justify-center text-xs font-extrabold shrink-0 led-text ${
+              {groupWalletsBySeed(wallets).map(({ wallet: w, derived }) => {
+                const i = w.index;
+                return (
+                  <button
+                    key={i}
+                    onClick={() => handleSwitch(i)}
+                    className={`flex items-center gap-2.5 w-full py-2.5 pr-3 text-left transition-colors ${
+                      derived ? "pl-7" : "pl-3"
+                    } ${
                       i === activeIndex
-                        ? "bg-white text-surface-950"
-                        : "bg-white/[0.08] text-white/70"
+                        ? "bg-white/[0.06]"
+                        : "hover:bg-white/[0.04]"
                     }`}
-                    style={i === activeIndex ? { boxShadow: "0 0 8px rgba(255,255,255,0.4)" } : undefined}
                   >
-                    {w.name.charAt(0).toUpperCase()}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="led-text text-[12px] font-bold text-white truncate">
-                      {w.name}
-                    </p>
-                    <p className="led-text text-[9px] font-medium text-white/40 truncate">
-                      {truncateAddress(w.address, 10, 6)}
-                    </p>
-                  </div>
-                  {i === activeIndex && (
-                    <svg className="w-4 h-4 text-white shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                    </svg>
-                  )}
-                </button>
-              ))}
+                    <div
+                      className={`w-7 h-7 rounded-[3px] flex items-center justify-center text-xs font-extrabold shrink-0 led-text ${
+                        i === activeIndex
+                          ? "bg-white text-surface-950"
+                          : "bg-white/[0.08] text-white/70"
+                      }`}
+                      style={i === activeIndex ? { boxShadow: "0 0 8px rgba(255,255,255,0.4)" } : undefined}
+                    >
+                      {w.name.charAt(0).toUpperCase()}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="led-text text-[12px] font-bold text-white truncate">
+                        {w.name}
+                      </p>
+                      <p className="led-text text-[9px] font-medium text-white/40 truncate">
+                        {derived && `#${w.hdIndex ?? 0} · `}
+                        {w.group && !derived && `${w.group} · `}
+                        {truncateAddress(w.address, 10, 6)}
+                      </p>
+                    </div>
+                    {w.locked && (
+                      <svg className="w-3.5 h-3.5 text-white/40 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+                      </svg>
+                    )}
+                    {i === activeIndex && (
+                      <svg className="w-4 h-4 text-white shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                      </svg>
+                    )}
+                  </button>
+                );
+              })}
             </div>
 
             <div className="led-divider-top p-1">
@@ -2,10 +2,13 @@ import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useWalletStore } from "@/popup/store";
 import { sendMessage } from "@/lib/messaging";
+import { truncateAddress } from "@/lib/format";
+import { parsePrivateKeyHex } from "@/lib/cosmos";
 import Layout from "@/popup/components/Layout";
 import Spinner from "@/popup/components/Spinner";
+import PassphraseField from "@/popup/components/PassphraseField";
 
-type Step = "choose" | "create" | "import" | "watch";
+type Step = "choose" | "create" | "import" | "import-key" | "watch" | "derive";
 
 export default function AddWallet() {
   const navigate = useNavigate();
@@ -13,13 +16,18 @@ export default function AddWallet() {
   const [step, setStep] = useState<Step>("choose");
   const [mnemonic, setMnemonic] = useState("");
   const [importInput, setImportInput] = useState("");
+  const [passphrase, setPassphrase] = useState("");
   const [watchAddress, setWatchAddress] = useState("");
   const [name, setName] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [generating, setGenerating] = useState(false);
 
-  const { addViewOnlyWallet } = useWalletStore();
+  const { wallets, addViewOnlyWallet } = useWalletStore();
+  const seedWallets = wallets.filter(
+    (w) => !w.viewOnly && !w.parentAddress && w.keyType !== "privateKey"
+  );
+  const [parentIndex, setParentIndex] = useState<number | null>(seedWallets[0]?.index ?? null);
 
   const handleCreate = async () => {
     setGenerating(true);
@@ -34,8 +42,10 @@ export default function AddWallet() {
     }
   };
 
-  /** Submit the wallet (works for both create and import flows) */
-  const submitWallet = async (mnemonicToAdd: string) => {
+  /** Submit the wallet (works for create, phrase import and private-key import) */
+  const submitWallet = async (
+    secret: { mnemonic: string; passphrase?: string } | { privateKey: string }
+  ) => {
     setLoading(true);
     setError("");
 
@@ -43,7 +53,7 @@ export default function AddWallet() {
       // ADD_WALLET uses the cached password from the already-unlocked keystore
       const resp = await sendMessage({
         type: "ADD_WALLET",
-        mnemonic: mnemonicToAdd,
+        ...secret,
         name: name || undefined,
       });
 
@@ -65,6 +75,39 @@ export default function AddWallet() {
     }
   };
 
+  /** Derive the next HD account under the selected seed wallet. */
+  const submitDerived = async () => {
+    if (parentIndex === null) return;
+    setLoading(true);
+    setError("");
+
+    try {
+      const resp = await sendMessage({
+        type: "ADD_DERIVED_ACCOUNT",
+        parentIndex,
+        name: name || undefined,
+      });
+
+      if (resp.success) {
+        useWalletStore.setState({
+          address: resp.address,
+          activeIndex: resp.index ?? 0,
+          balance: "0",
+          tokenBalances: [],
+          isViewOnly: false,
+        });
+        await useWalletStore.getState().refreshWallets();
+        navigate("/");
+      } else {
+        setError(resp.error || "Failed to derive account");
+      }
+    } catch (e: any) {
+      setError(e.message || "Failed to derive account");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleImportContinue = () => {
     const words = importInput.trim().toLowerCase().split(/\s+/);
     if (words.length !== 12 && words.length !== 24) {
@@ -73,7 +116,17 @@ export default function AddWallet() {
     }
     const cleaned = words.join(" ");
     setMnemonic(cleaned);
-    submitWallet(cleaned);
+    submitWallet({ mnemonic: cleaned, passphrase: passphrase || undefined });
+  };
+
+  const handleImportKeyContinue = () => {
+    try {
+      parsePrivateKeyHex(importInput);
+    } catch (e: any) {
+      setError(e.message);
+      return;
+    }
+    submitWallet({ privateKey: importInput.trim() });
   };
 
   // Step: choose create or import
@@ -113,12 +166,32 @@ export default function AddWallet() {
             >
               Import Existing Wallet
             </button>
+            <button
+              onClick={() => setStep("import-key")}
+              className="btn-secondary"
+            >
+              Import Private Key
+            </button>
+            {seedWallets.length > 0 && (
+              <button
+                onClick={() => setStep("derive")}
+                className="btn-secondary"
+              >
+                Derive Account from Existing Seed
+              </button>
+            )}
             <button
               onClick={() => setStep("watch")}
               className="btn-secondary"
             >
               Watch Address
             </button>
+            <button
+              onClick={() => navigate("/restore")}
+              className="btn-secondary"
+            >
+              Restore from Backup
+            </button>
           </div>
         </div>
       </Layout>
@@ -150,11 +223,12 @@ export default function AddWallet() {
               Store this phrase securely offline. Never share it with anyone.
             </p>
           </div>
+          <PassphraseField value={passphrase} onChange={setPassphrase} />
           {error && <p className="text-xs text-red-400">{error}</p>}
         </div>
         <div className="px-4 py-3 shrink-0 space-y-2">
           <button
-            onClick={() => submitWallet(mnemonic)}
+            onClick={() => submitWallet({ mnemonic, passphrase: passphrase || undefined })}
             disabled={loading}
             className="btn-primary flex items-center justify-center gap-2"
           >
@@ -179,6 +253,89 @@ export default function AddWallet() {
     );
   }
 
+  // Step: derive another HD account from an existing seed wallet
+  if (step === "derive") {
+    return (
+      <Layout title="Derive Account" showBack={false} showNav={false}>
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+          <p className="text-xs text-surface-500">
+            Add the next account (m/44'/1200'/0'/0/n) from a recovery phrase already in the
+            wallet. The phrase isn't copied — derived accounts unlock with their seed wallet.
+          </p>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-surface-300">
+              Account Name <span className="text-surface-600">(optional)</span>
+            </label>
+            <input
+              type="text"
+              className="input-field"
+              placeholder="e.g. Operations #2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-surface-300">Seed Wallet</label>
+            {seedWallets.map((seed) => {
+              const derived = wallets.filter((w) => w.parentAddress === seed.address);
+              const selected = parentIndex === seed.index;
+              return (
+                <button
+                  key={seed.index}
+                  onClick={() => setParentIndex(seed.index)}
+                  className={`w-full p-3 rounded-xl text-left transition-all duration-200 border ${
+                    selected
+                      ? "bg-white/[0.06] border-white/30"
+                      : "bg-transparent border-white/10 hover:border-white/25 hover:bg-white/[0.03]"
+                  }`}
+                >
+                  <p className="led-text text-[12px] font-extrabold text-white truncate">
+                    {seed.name}
+                  </p>
+                  <p className="led-text text-[10px] font-medium text-white/40 truncate">
+                    #0 · {truncateAddress(seed.address, 10, 6)}
+                  </p>
+                  {derived.map((d) => (
+                    <p
+                      key={d.index}
+                      className="led-text text-[10px] font-medium text-white/40 truncate pl-3"
+                    >
+                      #{d.hdIndex ?? 0} · {d.name} · {truncateAddress(d.address, 8, 4)}
+                    </p>
+                  ))}
+                </button>
+              );
+            })}
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+        <div className="px-4 py-3 space-y-2 shrink-0">
+          <button
+            onClick={submitDerived}
+            disabled={parentIndex === null || loading}
+            className="btn-primary flex items-center justify-center gap-2"
+          >
+            {loading ? (
+              <>
+                <Spinner size="sm" />
+                Deriving...
+              </>
+            ) : (
+              "Derive Next Account"
+            )}
+          </button>
+          <button
+            onClick={() => { setStep("choose"); setError(""); }}
+            disabled={loading}
+            className="btn-secondary"
+          >
+            Back
+          </button>
+        </div>
+      </Layout>
+    );
+  }
+
   // Step: watch-only address
   if (step === "watch") {
     const handleWatchSubmit = async () => {
@@ -267,6 +424,55 @@ export default function AddWallet() {
     );
   }
 
+  // Step: import raw private key
+  if (step === "import-key") {
+    return (
+      <Layout title="Import Private Key" showBack={false} showNav={false}>
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+          <p className="text-xs text-surface-500">
+            Enter the 64-character hex private key (the format exported for opengnk). Wallets
+            imported this way have no recovery phrase and can't derive further accounts.
+          </p>
+          <textarea
+            value={importInput}
+            onChange={(e) => {
+              setImportInput(e.target.value);
+              setError("");
+            }}
+            placeholder="Enter hex private key..."
+            rows={3}
+            className="input-field resize-none font-mono text-sm"
+            autoFocus
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+        <div className="px-4 py-3 space-y-2 shrink-0">
+          <button
+            onClick={handleImportKeyContinue}
+            disabled={!importInput.trim() || loading}
+            className="btn-primary flex items-center justify-center gap-2"
+          >
+            {loading ? (
+              <>
+                <Spinner size="sm" />
+                Adding wallet...
+              </>
+            ) : (
+              "Import & Add Wallet"
+            )}
+          </button>
+          <button
+            onClick={() => { setStep("choose"); setImportInput(""); setError(""); }}
+            disabled={loading}
+            className="btn-secondary"
+          >
+            Back
+          </button>
+        </div>
+      </Layout>
+    );
+  }
+
   // Step: import mnemonic
   return (
     <Layout title="Import Wallet" showBack={false} showNav={false}>
@@ -285,6 +491,7 @@ export default function AddWallet() {
           className="input-field resize-none font-mono text-sm"
           autoFocus
         />
+        <PassphraseField value={passphrase} onChange={setPassphrase} />
         {error && <p className="text-xs text-red-400">{error}</p>}
       </div>
       <div className="px-4 py-3 space-y-2 shrink-0">
@@ -0,0 +1,414 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useWalletStore } from "@/popup/store";
+import { sendMessage } from "@/lib/messaging";
+import { queryRewards, queryValidators, type VoteOption } from "@/lib/cosmos";
+import { formatCompact, toMinimal, truncateAddress } from "@/lib/format";
+import { GONKA_DENOM } from "@/lib/gonka";
+import {
+  BATCH_ITEM_LABELS,
+  MAX_BATCH_ITEMS,
+  moveBatchItem,
+  validateBatch,
+  validateBatchItem,
+  type BatchItem,
+  type BatchItemKind,
+} from "@/lib/batch";
+import type { TxOptions } from "@/lib/tx-options";
+import Layout from "@/popup/components/Layout";
+import FeeReview from "@/popup/components/FeeReview";
+import Spinner from "@/popup/components/Spinner";
+
+type Step = "compose" | "review" | "success";
+
+const KINDS: BatchItemKind[] = ["send", "delegate", "undelegate", "withdraw_rewards", "vote", "execute"];
+
+const VOTE_LABELS: Record<VoteOption, string> = {
+  VOTE_OPTION_YES: "Yes",
+  VOTE_OPTION_NO: "No",
+  VOTE_OPTION_ABSTAIN: "Abstain",
+  VOTE_OPTION_NO_WITH_VETO: "No with veto",
+};
+
+function describeItem(item: BatchItem, monikers: Map<string, string>): string {
+  const validator = (addr: string) => monikers.get(addr) ?? truncateAddress(addr);
+  switch (item.kind) {
+    case "send":
+      return `${formatCompact(item.amount)} to ${truncateAddress(item.recipient)}`;
+    case "delegate":
+    case "undelegate":
+      return `${formatCompact(item.amount)} ${item.kind === "delegate" ? "to" : "from"} ${validator(item.validator)}`;
+    case "withdraw_rewards":
+      return `From ${item.validators.length} validator${item.validators.length === 1 ? "" : "s"}`;
+    case "vote":
+      return `${VOTE_LABELS[item.option]} on proposal #${item.proposalId}`;
+    case "execute": {
+      const funds = item.funds.length ? ` with ${formatCompact(item.funds[0].amount)}` : "";
+      return `${truncateAddress(item.contract)}${funds}`;
+    }
+  }
+}
+
+export default function Batch() {
+  const navigate = useNavigate();
+  const { address, isViewOnly, getBalance } = useWalletStore();
+
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [step, setStep] = useState<Step>("compose");
+  const [validators, setValidators] = useState<{ address: string; moniker: string }[]>([]);
+
+  // New message form
+  const [kind, setKind] = useState<BatchItemKind>("send");
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [validator, setValidator] = useState("");
+  const [proposalId, setProposalId] = useState("");
+  const [voteOption, setVoteOption] = useState<VoteOption>("VOTE_OPTION_YES");
+  const [contract, setContract] = useState("");
+  const [contractMsg, setContractMsg] = useState("");
+  const [formError, setFormError] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  // Review
+  const [txOptions, setTxOptions] = useState<TxOptions | null>(null);
+  const [broadcasting, setBroadcasting] = useState(false);
+  const [error, setError] = useState("");
+  const [txHash, setTxHash] = useState("");
+
+  useEffect(() => {
+    sendMessage({ type: "GET_BATCH_DRAFT" }).then((r) => {
+      if (r.success) setItems(r.items);
+      setLoaded(true);
+    });
+    queryValidators()
+      .then((vals) =>
+        setValidators(
+          vals.map((v: any) => ({
+            address: v.operator_address,
+            moniker: v.description?.moniker || truncateAddress(v.operator_address),
+          })),
+        ),
+      )
+      .catch((err) => console.error("Failed to load validators:", err));
+  }, []);
+
+  // Persist the draft so the popup can close mid-composition
+  useEffect(() => {
+    if (loaded && step !== "success") sendMessage({ type: "SAVE_BATCH_DRAFT", items });
+  }, [items, loaded, step]);
+
+  const monikers = new Map(validators.map((v) => [v.address, v.moniker]));
+
+  const resetForm = () => {
+    setRecipient("");
+    setAmount("");
+    setProposalId("");
+    setContract("");
+    setContractMsg("");
+    setFormError("");
+  };
+
+  const buildItem = async (): Promise<BatchItem> => {
+    const id = crypto.randomUUID();
+    const minimal = /^\d*\.?\d+$/.test(amount) ? toMinimal(amount) : "0";
+    switch (kind) {
+      case "send":
+        return { id, kind, recipient: recipient.trim(), amount: minimal, denom: GONKA_DENOM };
+      case "delegate":
+      case "undelegate":
+        return { id, kind, validator, amount: minimal };
+      case "withdraw_rewards": {
+        const { rewards } = await queryRewards(address);
+        const withRewards = rewards.filter((r) => BigInt(r.amount) > 0n).map((r) => r.validatorAddress);
+        return { id, kind, validators: withRewards };
+      }
+      case "vote":
+        return { id, kind, proposalId: proposalId.trim(), option: voteOption };
+      case "execute":
+        return {
+          id,
+          kind,
+          contract: contract.trim(),
+          msg: contractMsg,
+          funds: minimal !== "0" ? [{ denom: GONKA_DENOM, amount: minimal }] : [],
+        };
+    }
+  };
+
+  const handleAdd = async () => {
+    setAdding(true);
+    setFormError("");
+    try {
+      const item = await buildItem();
+      const invalid = validateBatchItem(item);
+      if (invalid) {
+        setFormError(invalid);
+        return;
+      }
+      setItems((prev) => [...prev, item]);
+      resetForm();
+    } catch (e: any) {
+      setFormError(e.message || "Couldn't add the message");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleReview = () => {
+    const invalid = validateBatch(items);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setError("");
+    setTxOptions(null);
+    setStep("review");
+  };
+
+  const handleBroadcast = async () => {
+    if (!txOptions) return;
+    setBroadcasting(true);
+    setError("");
+    try {
+      const resp = await sendMessage({ type: "BROADCAST_BATCH", items, txOptions });
+      if (resp.success) {
+        setTxHash(resp.txHash);
+        setStep("success");
+        getBalance();
+      } else {
+        setError(resp.error || "Transaction failed");
+      }
+    } catch (e: any) {
+      setError(e.message || "Transaction failed");
+    } finally {
+      setBroadcasting(false);
+    }
+  };
+
+  if (step === "success") {
+    return (
+      <Layout title="Batch Sent" showBack={false} showNav={false}>
+        <div className="flex flex-col items-center justify-center h-full px-6 py-10 text-center">
+          <h2 className="text-lg font-bold mb-2">Batch Sent!</h2>
+          <p className="text-sm text-surface-400 mb-5">
+            {items.length} message{items.length === 1 ? "" : "s"} in one transaction
+          </p>
+          <div className="w-full bg-white/[0.03] rounded-2xl p-4 mb-6">
+            <p className="text-xs text-surface-500 mb-1">Transaction Hash</p>
+            <p className="text-xs font-mono text-surface-300 break-all">{txHash}</p>
+          </div>
+          <button onClick={() => navigate("/")} className="btn-primary">
+            Back to Wallet
+          </button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const itemList = (
+    <div className="space-y-1.5">
+      {items.map((item, i) => (
+        <div key={item.id} className="flex items-center gap-2 p-3 rounded-2xl bg-white/[0.03]">
+          <span className="text-[11px] text-surface-600 tabular-nums w-4 shrink-0">{i + 1}</span>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">{BATCH_ITEM_LABELS[item.kind]}</p>
+            <p className="text-xs text-surface-500 truncate">{describeItem(item, monikers)}</p>
+          </div>
+          {step === "compose" && (
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                onClick={() => setItems((prev) => moveBatchItem(prev, i, -1))}
+                disabled={i === 0}
+                className="px-1.5 text-surface-400 hover:text-white disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => setItems((prev) => moveBatchItem(prev, i, 1))}
+                disabled={i === items.length - 1}
+                className="px-1.5 text-surface-400 hover:text-white disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => setItems((prev) => prev.filter((x) => x.id !== item.id))}
+                className="px-1.5 text-surface-400 hover:text-red-400"
+                title="Remove"
+              >
+                ×
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  if (step === "review") {
+    return (
+      <Layout title="Review Batch" showBack={false} showNav={false}>
+        <div className="px-4 py-4 space-y-4">
+          <p className="text-xs text-surface-400">
+            These messages are signed once and applied in this order. If any of them fails, none are applied.
+          </p>
+          {itemList}
+          <FeeReview action={{ type: "BROADCAST_BATCH", items }} onChange={setTxOptions} />
+          {error && <p className="text-xs text-red-400 text-center">{error}</p>}
+          <div className="space-y-2">
+            <button
+              onClick={handleBroadcast}
+              disabled={broadcasting || !txOptions}
+              className="btn-primary flex items-center justify-center gap-2"
+            >
+              {broadcasting ? (
+                <>
+                  <Spinner size="sm" />
+                  Broadcasting...
+                </>
+              ) : (
+                "Sign & Broadcast"
+              )}
+            </button>
+            <button onClick={() => setStep("compose")} disabled={broadcasting} className="btn-secondary">
+              Back to Edit
+            </button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Batch Transaction" showBack showNav={false}>
+      <div className="px-4 py-4 space-y-4">
+        {!loaded ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : items.length > 0 ? (
+          itemList
+        ) : (
+          <p className="text-xs text-surface-500 text-center py-4">
+            Add messages below. The draft is saved as you go.
+          </p>
+        )}
+
+        <div className="card space-y-3">
+          <div className="flex gap-1.5 flex-wrap">
+            {KINDS.map((k) => (
+              <button
+                key={k}
+                onClick={() => {
+                  setKind(k);
+                  setFormError("");
+                }}
+                className={`px-3 py-1 text-xs font-semibold rounded-full border transition-all duration-200 ${
+                  kind === k
+                    ? "bg-gonka-500/15 text-gonka-400 border-gonka-500/25"
+                    : "bg-white/[0.04] text-surface-400 border-transparent hover:bg-white/[0.06]"
+                }`}
+              >
+                {BATCH_ITEM_LABELS[k]}
+              </button>
+            ))}
+          </div>
+
+          {kind === "send" && (
+            <input
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="Recipient gonka1..."
+              className="input-field font-mono text-xs"
+            />
+          )}
+          {(kind === "delegate" || kind === "undelegate") && (
+            <select value={validator} onChange={(e) => setValidator(e.target.value)} className="input-field text-sm">
+              <option value="">Choose a validator</option>
+              {validators.map((v) => (
+                <option key={v.address} value={v.address}>
+                  {v.moniker}
+                </option>
+              ))}
+            </select>
+          )}
+          {kind === "withdraw_rewards" && (
+            <p className="text-xs text-surface-500">Claims rewards from every validator you have rewards with.</p>
+          )}
+          {kind === "vote" && (
+            <div className="flex gap-2">
+              <input
+                value={proposalId}
+                onChange={(e) => setProposalId(e.target.value.replace(/[^0-9]/g, ""))}
+                placeholder="Proposal #"
+                className="input-field text-sm w-28"
+              />
+              <select
+                value={voteOption}
+                onChange={(e) => setVoteOption(e.target.value as VoteOption)}
+                className="input-field text-sm flex-1"
+              >
+                {(Object.keys(VOTE_LABELS) as VoteOption[]).map((o) => (
+                  <option key={o} value={o}>
+                    {VOTE_LABELS[o]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {kind === "execute" && (
+            <>
+              <input
+                value={contract}
+                onChange={(e) => setContract(e.target.value)}
+                placeholder="Contract gonka1..."
+                className="input-field font-mono text-xs"
+              />
+              <textarea
+                value={contractMsg}
+                onChange={(e) => setContractMsg(e.target.value)}
+                rows={3}
+                placeholder='{"action": {}}'
+                className="input-field font-mono text-xs"
+              />
+            </>
+          )}
+          {(kind === "send" || kind === "delegate" || kind === "undelegate" || kind === "execute") && (
+            <input
+              value={amount}
+              onChange={(e) => setAmount(e.target.value.replace(/[^0-9.]/g, ""))}
+              placeholder={kind === "execute" ? "Funds in GNK (optional)" : "Amount in GNK"}
+              className="input-field text-sm"
+            />
+          )}
+
+          {formError && <p className="text-xs text-red-400">{formError}</p>}
+
+          <button
+            onClick={handleAdd}
+            disabled={adding || items.length >= MAX_BATCH_ITEMS}
+            className="btn-secondary flex items-center justify-center gap-2"
+          >
+            {adding ? <Spinner size="sm" /> : "Add to Batch"}
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <button onClick={handleReview} disabled={items.length === 0 || isViewOnly} className="btn-primary">
+          {isViewOnly ? "Watch-only wallets can't sign" : "Review Batch"}
+        </button>
+        {items.length > 0 && (
+          <button
+            onClick={() => navigate("/offline-signing")}
+            className="w-full text-xs text-gonka-400 hover:text-gonka-300 transition-colors"
+          >
+            Export for offline signing
+          </button>
+        )}
+      </div>
+    </Layout>
+  );
+}
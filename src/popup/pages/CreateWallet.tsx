@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useWalletStore } from "@/popup/store";
+import PassphraseField from "@/popup/components/PassphraseField";
 
 async function generateMnemonic(): Promise<string> {
   const { Bip39, Random } = await import("@cosmjs/crypto");
@@ -15,6 +16,7 @@ export default function CreateWallet() {
   const [words, setWords] = useState<string[]>([]);
   const [copied, setCopied] = useState(false);
   const [confirmed, setConfirmed] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -31,7 +33,7 @@ export default function CreateWallet() {
   };
 
   const handleContinue = () => {
-    setMnemonic(words.join(" "));
+    setMnemonic(words.join(" "), passphrase);
     navigate("/set-password");
   };
 
@@ -109,6 +111,8 @@ export default function CreateWallet() {
           </p>
         </div>
 
+        <PassphraseField value={passphrase} onChange={setPassphrase} />
+
         <label className="flex items-start gap-2.5 cursor-pointer">
           <input
             type="checkbox"
@@ -117,7 +121,7 @@ export default function CreateWallet() {
             className="mt-0.5 rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
           />
           <span className="text-xs text-surface-400">
-            I have saved my recovery phrase in a secure location
+            I have saved my recovery phrase{passphrase ? " and passphrase" : ""} in a secure location
           </span>
         </label>
       </div>
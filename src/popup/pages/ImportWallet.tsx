@@ -1,24 +1,90 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useWalletStore } from "@/popup/store";
+import { parsePrivateKeyHex } from "@/lib/cosmos";
+import { combineShares } from "@/lib/shamir";
+import PassphraseField from "@/popup/components/PassphraseField";
+
+type ImportKind = "mnemonic" | "shares" | "private-key";
+
+const KINDS: Record<
+  ImportKind,
+  { tab: string; title: string; description: string; placeholder: string; secret: string; rows: number }
+> = {
+  mnemonic: {
+    tab: "Phrase",
+    title: "Recovery Phrase",
+    description: "Enter your 12 or 24-word recovery phrase to import your existing Gonka wallet.",
+    placeholder: "Enter your recovery phrase, words separated by spaces...",
+    secret: "recovery phrase",
+    rows: 5,
+  },
+  shares: {
+    tab: "Split Backup",
+    title: "Backup Shares",
+    description:
+      "Paste the shares from a GG Wallet split backup, one per line. You need as many shares as the backup's threshold.",
+    placeholder: "gg-share-v1 ...\ngg-share-v1 ...",
+    secret: "backup shares",
+    rows: 7,
+  },
+  "private-key": {
+    tab: "Private Key",
+    title: "Private Key",
+    description:
+      "Enter the 64-character hex private key, e.g. one exported for opengnk. Wallets imported this way have no recovery phrase.",
+    placeholder: "Enter hex private key...",
+    secret: "private key",
+    rows: 3,
+  },
+};
 
 export default function ImportWallet() {
   const navigate = useNavigate();
-  const { setMnemonic } = useWalletStore();
+  const { setMnemonic, setPrivateKey } = useWalletStore();
+  const [kind, setKind] = useState<ImportKind>("mnemonic");
   const [input, setInput] = useState("");
+  const [passphrase, setPassphrase] = useState("");
   const [error, setError] = useState("");
 
   const handleContinue = () => {
+    if (kind === "private-key") {
+      try {
+        parsePrivateKeyHex(input);
+      } catch (e: any) {
+        setError(e.message);
+        return;
+      }
+      setError("");
+      setPrivateKey(input.trim());
+      navigate("/set-password");
+      return;
+    }
+
+    if (kind === "shares") {
+      try {
+        setMnemonic(combineShares(input.split("\n")), passphrase);
+      } catch (e: any) {
+        setError(e.message);
+        return;
+      }
+      setError("");
+      navigate("/set-password");
+      return;
+    }
+
     const words = input.trim().toLowerCase().split(/\s+/);
     if (words.length !== 12 && words.length !== 24) {
       setError("Please enter a valid 12 or 24-word recovery phrase");
       return;
     }
     setError("");
-    setMnemonic(words.join(" "));
+    setMnemonic(words.join(" "), passphrase);
     navigate("/set-password");
   };
 
+  const current = KINDS[kind];
+
   return (
     <div className="flex flex-col h-[600px] bg-surface-950">
       <header className="flex items-center gap-3 px-4 h-14 shrink-0">
@@ -34,14 +100,30 @@ export default function ImportWallet() {
       </header>
 
       <div className="flex-1 overflow-y-auto px-4 py-2 space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(KINDS) as ImportKind[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => {
+                setKind(value);
+                setInput("");
+                setPassphrase("");
+                setError("");
+              }}
+              className={`led-text px-2 py-1.5 text-[10px] font-extrabold rounded-md border transition-all duration-200 ${
+                kind === value
+                  ? "bg-white text-surface-950 border-white"
+                  : "bg-transparent text-white/55 border-white/15 hover:border-white/35 hover:text-white"
+              }`}
+            >
+              {KINDS[value].tab}
+            </button>
+          ))}
+        </div>
+
         <div>
-          <h2 className="text-sm font-semibold text-surface-300 mb-1">
-            Recovery Phrase
-          </h2>
-          <p className="text-xs text-surface-500 mb-3">
-            Enter your 12 or 24-word recovery phrase to import your existing
-            Gonka wallet.
-          </p>
+          <h2 className="text-sm font-semibold text-surface-300 mb-1">{current.title}</h2>
+          <p className="text-xs text-surface-500 mb-3">{current.description}</p>
         </div>
 
         <textarea
@@ -50,20 +132,24 @@ export default function ImportWallet() {
             setInput(e.target.value);
             setError("");
           }}
-          placeholder="Enter your recovery phrase, words separated by spaces..."
-          rows={5}
+          placeholder={current.placeholder}
+          rows={current.rows}
           className="input-field resize-none font-mono text-sm"
           autoFocus
         />
 
+        {kind !== "private-key" && (
+          <PassphraseField value={passphrase} onChange={setPassphrase} />
+        )}
+
         {error && (
           <p className="text-xs text-red-400">{error}</p>
         )}
 
         <div className="bg-white/[0.02] rounded-2xl p-3.5">
           <p className="text-xs text-surface-500">
-            Your recovery phrase is never sent to any server. It is encrypted
-            and stored locally on your device.
+            Your {current.secret} {kind === "shares" ? "are" : "is"} never sent to any server. The
+            wallet is encrypted and stored locally on your device.
           </p>
         </div>
       </div>
@@ -0,0 +1,454 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { fromBase64 } from "@cosmjs/encoding";
+import { useWalletStore } from "@/popup/store";
+import { sendMessage } from "@/lib/messaging";
+import { toMinimal } from "@/lib/format";
+import { GONKA_DENOM } from "@/lib/gonka";
+import type { BatchItem } from "@/lib/batch";
+import {
+  decodeSignedTx,
+  DEFAULT_OFFLINE_GAS_PER_MSG,
+  parseSignedTx,
+  parseUnsignedTx,
+  type SignedTxFile,
+  type UnsignedTxFile,
+} from "@/lib/offline-tx";
+import { validateTxOptions, type TxOptions } from "@/lib/tx-options";
+import {
+  decodeAuthInfoBytes,
+  decodeTxBodyBytes,
+  describeMessage,
+  formatCoins,
+  type DecodedAuthInfo,
+} from "@/lib/tx-decoder";
+import Layout from "@/popup/components/Layout";
+import MessageCard from "@/popup/components/MessageCard";
+import Spinner from "@/popup/components/Spinner";
+
+type Mode = "create" | "sign" | "broadcast";
+
+const MODE_LABELS: Record<Mode, string> = {
+  create: "1. Create",
+  sign: "2. Sign",
+  broadcast: "3. Broadcast",
+};
+
+function downloadJson(value: unknown, name: string) {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileStamp(): string {
+  return new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+}
+
+function Row({ label, value, mono }: { label: string; value: string; mono?: boolean }) {
+  return (
+    <div className="flex justify-between gap-3">
+      <span className="text-xs text-surface-500 shrink-0">{label}</span>
+      <span className={`text-xs text-surface-300 text-right break-all ${mono ? "font-mono" : ""}`}>{value}</span>
+    </div>
+  );
+}
+
+/** The decoded contents of a transaction file. */
+function DecodedTx({
+  chainId,
+  signer,
+  bodyBytes,
+  fee,
+  authInfo,
+}: {
+  chainId: string;
+  signer: string;
+  bodyBytes: Uint8Array;
+  fee?: UnsignedTxFile["fee"];
+  authInfo?: DecodedAuthInfo;
+}) {
+  let body;
+  try {
+    body = decodeTxBodyBytes(bodyBytes);
+  } catch {
+    return <p className="text-xs text-red-400">The transaction body can't be decoded.</p>;
+  }
+  const messages = body.messages.map(describeMessage);
+  return (
+    <div className="card space-y-3">
+      <Row label="Chain" value={chainId} mono />
+      <Row label="Signer" value={signer} mono />
+      {body.memo && <Row label="Memo" value={body.memo} />}
+      {body.timeoutHeight && <Row label="Timeout height" value={body.timeoutHeight} />}
+      {fee && (
+        <>
+          <Row label="Fee" value={formatCoins([...fee.amount])} />
+          <Row label="Gas limit" value={Number(fee.gas).toLocaleString()} />
+          {fee.granter && <Row label="Fee granter" value={fee.granter} mono />}
+        </>
+      )}
+      {authInfo && (
+        <>
+          <Row label="Fee" value={formatCoins(authInfo.fee)} />
+          <Row label="Gas limit" value={Number(authInfo.gasLimit).toLocaleString()} />
+          {authInfo.granter && <Row label="Fee granter" value={authInfo.granter} mono />}
+          {authInfo.signers.map((s, i) => (
+            <Row key={i} label="Sequence" value={s.sequence} />
+          ))}
+        </>
+      )}
+      <div className="border-t border-white/[0.04]" />
+      <p className="text-xs text-surface-500">Messages ({messages.length})</p>
+      <div className="space-y-2">
+        {messages.map((m, i) => (
+          <MessageCard key={i} message={m} index={i} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function FileButton({ label, onText }: { label: string; onText: (name: string, text: string) => void }) {
+  return (
+    <label className="btn-secondary flex items-center justify-center gap-2 cursor-pointer">
+      <input
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          if (file) onText(file.name, await file.text());
+          e.target.value = "";
+        }}
+      />
+      {label}
+    </label>
+  );
+}
+
+function CreateStep() {
+  const navigate = useNavigate();
+  const [items, setItems] = useState<BatchItem[] | null>(null);
+  const [gasLimit, setGasLimit] = useState("");
+  const [fee, setFee] = useState("");
+  const [memo, setMemo] = useState("");
+  const [timeoutHeight, setTimeoutHeight] = useState("");
+  const [file, setFile] = useState<UnsignedTxFile | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    sendMessage({ type: "GET_BATCH_DRAFT" }).then((r) => setItems(r.items ?? []));
+  }, []);
+
+  const handleExport = async () => {
+    const options: TxOptions = {};
+    if (gasLimit) options.gasLimit = Number(gasLimit);
+    if (fee) options.fee = [{ denom: GONKA_DENOM, amount: toMinimal(fee) }];
+    if (memo) options.memo = memo;
+    if (timeoutHeight) options.timeoutHeight = timeoutHeight;
+    const invalid = validateTxOptions(options);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      const resp = await sendMessage({ type: "GENERATE_UNSIGNED_TX", items, txOptions: options });
+      if (!resp.success) {
+        setError(resp.error || "Couldn't create the transaction");
+        return;
+      }
+      setFile(resp.file);
+      downloadJson(resp.file, `ggwallet-unsigned-${fileStamp()}.json`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (items === null) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <p className="text-xs text-surface-400">
+        The messages come from your Batch Transaction draft. This works with watch-only wallets: the file is
+        signed later by the wallet that holds the key.
+      </p>
+      <div className="card flex items-center justify-between">
+        <span className="text-sm">
+          {items.length} message{items.length === 1 ? "" : "s"} in the draft
+        </span>
+        <button onClick={() => navigate("/batch")} className="text-xs text-gonka-400 hover:text-gonka-300">
+          Edit draft
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[11px] text-surface-500 mb-1">Gas limit</label>
+          <input
+            value={gasLimit}
+            onChange={(e) => setGasLimit(e.target.value.replace(/[^0-9]/g, ""))}
+            placeholder={String(DEFAULT_OFFLINE_GAS_PER_MSG * Math.max(items.length, 1))}
+            className="input-field text-xs"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] text-surface-500 mb-1">Fee (GNK)</label>
+          <input
+            value={fee}
+            onChange={(e) => setFee(e.target.value.replace(/[^0-9.]/g, ""))}
+            placeholder="From gas price"
+            className="input-field text-xs"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] text-surface-500 mb-1">Timeout height</label>
+          <input
+            value={timeoutHeight}
+            onChange={(e) => setTimeoutHeight(e.target.value.replace(/[^0-9]/g, ""))}
+            placeholder="None"
+            className="input-field text-xs"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] text-surface-500 mb-1">Memo</label>
+          <input value={memo} onChange={(e) => setMemo(e.target.value)} className="input-field text-xs" />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <button
+        onClick={handleExport}
+        disabled={loading || items.length === 0}
+        className="btn-primary flex items-center justify-center gap-2"
+      >
+        {loading ? <Spinner size="sm" /> : "Export Unsigned Transaction"}
+      </button>
+
+      {file && (
+        <DecodedTx chainId={file.chain_id} signer={file.signer} bodyBytes={fromBase64(file.body_bytes)} fee={file.fee} />
+      )}
+    </>
+  );
+}
+
+function SignStep() {
+  const { address, isViewOnly } = useWalletStore();
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<UnsignedTxFile | null>(null);
+  const [accountNumber, setAccountNumber] = useState("");
+  const [sequence, setSequence] = useState("");
+  const [signed, setSigned] = useState<SignedTxFile | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleFile = (name: string, text: string) => {
+    setFileName(name);
+    setSigned(null);
+    setError("");
+    try {
+      setFile(parseUnsignedTx(text));
+    } catch (e: any) {
+      setFile(null);
+      setError(e.message);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError("");
+    try {
+      const resp = await sendMessage({
+        type: "SIGN_OFFLINE_TX",
+        file: JSON.stringify(file),
+        accountNumber,
+        sequence,
+      });
+      if (!resp.success) {
+        setError(resp.error || "Signing failed");
+        return;
+      }
+      setSigned(resp.file);
+      downloadJson(resp.file, `ggwallet-signed-${fileStamp()}.json`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <p className="text-xs text-surface-400">
+        Sign an unsigned transaction file with this wallet. Enter the signer's account number and current sequence
+        (from an explorer or <span className="font-mono">inferenced query auth account</span>); this wallet doesn't
+        need to be online.
+      </p>
+
+      <FileButton label={fileName || "Choose Unsigned Transaction"} onText={handleFile} />
+
+      {file && (
+        <>
+          {file.signer !== address && (
+            <p className="text-xs text-amber-300">
+              This transaction is for {file.signer}. Switch to that wallet to sign it.
+            </p>
+          )}
+          <DecodedTx chainId={file.chain_id} signer={file.signer} bodyBytes={fromBase64(file.body_bytes)} fee={file.fee} />
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-[11px] text-surface-500 mb-1">Account number</label>
+              <input
+                value={accountNumber}
+                onChange={(e) => setAccountNumber(e.target.value.replace(/[^0-9]/g, ""))}
+                className="input-field text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-[11px] text-surface-500 mb-1">Sequence</label>
+              <input
+                value={sequence}
+                onChange={(e) => setSequence(e.target.value.replace(/[^0-9]/g, ""))}
+                className="input-field text-xs"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {file && (
+        <button
+          onClick={handleSign}
+          disabled={loading || isViewOnly || !accountNumber || !sequence || file.signer !== address}
+          className="btn-primary flex items-center justify-center gap-2"
+        >
+          {loading ? <Spinner size="sm" /> : isViewOnly ? "Watch-only wallets can't sign" : "Sign & Export"}
+        </button>
+      )}
+
+      {signed && (
+        <p className="text-xs text-green-400">
+          Signed with account {signed.account_number}, sequence {signed.sequence}. Broadcast the downloaded file from
+          an online wallet.
+        </p>
+      )}
+    </>
+  );
+}
+
+function BroadcastStep() {
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<SignedTxFile | null>(null);
+  const [decoded, setDecoded] = useState<{ bodyBytes: Uint8Array; authInfo: DecodedAuthInfo } | null>(null);
+  const [txHash, setTxHash] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleFile = (name: string, text: string) => {
+    setFileName(name);
+    setTxHash("");
+    setError("");
+    try {
+      const parsed = parseSignedTx(text);
+      const raw = decodeSignedTx(parsed);
+      setDecoded({ bodyBytes: raw.bodyBytes, authInfo: decodeAuthInfoBytes(raw.authInfoBytes) });
+      setFile(parsed);
+    } catch (e: any) {
+      setFile(null);
+      setDecoded(null);
+      setError(e.message || "The signed transaction can't be decoded");
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError("");
+    try {
+      const resp = await sendMessage({ type: "BROADCAST_SIGNED_TX", file: JSON.stringify(file) });
+      if (resp.success) setTxHash(resp.txHash);
+      else setError(resp.error || "Broadcast failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <p className="text-xs text-surface-400">
+        Broadcast a signed transaction file. Any wallet can do this; the signature was made when the file was signed.
+      </p>
+
+      <FileButton label={fileName || "Choose Signed Transaction"} onText={handleFile} />
+
+      {file && decoded && (
+        <DecodedTx chainId={file.chain_id} signer={file.signer} bodyBytes={decoded.bodyBytes} authInfo={decoded.authInfo} />
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {txHash ? (
+        <div className="w-full bg-white/[0.03] rounded-2xl p-4">
+          <p className="text-xs text-surface-500 mb-1">Transaction Hash</p>
+          <p className="text-xs font-mono text-surface-300 break-all">{txHash}</p>
+        </div>
+      ) : (
+        file && (
+          <button
+            onClick={handleBroadcast}
+            disabled={loading}
+            className="btn-primary flex items-center justify-center gap-2"
+          >
+            {loading ? <Spinner size="sm" /> : "Broadcast"}
+          </button>
+        )
+      )}
+    </>
+  );
+}
+
+export default function OfflineSigning() {
+  const [mode, setMode] = useState<Mode>("create");
+
+  return (
+    <Layout title="Offline Signing" showBack showNav={false}>
+      <div className="px-4 py-4 space-y-4">
+        <div className="flex gap-2">
+          {(Object.keys(MODE_LABELS) as Mode[]).map((m) => {
+            const active = mode === m;
+            return (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`led-text flex-1 py-1.5 text-[10px] font-extrabold rounded-md border transition-all duration-200 ${
+                  active
+                    ? "bg-white text-surface-950 border-white"
+                    : "bg-transparent text-white/55 border-white/15 hover:border-white/35 hover:text-white"
+                }`}
+                style={active ? { boxShadow: "0 0 12px -2px rgba(255,255,255,0.4)" } : undefined}
+              >
+                {MODE_LABELS[m]}
+              </button>
+            );
+          })}
+        </div>
+
+        {mode === "create" ? <CreateStep /> : mode === "sign" ? <SignStep /> : <BroadcastStep />}
+      </div>
+    </Layout>
+  );
+}
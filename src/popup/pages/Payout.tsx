@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useWalletStore } from "@/popup/store";
+import { sendMessage } from "@/lib/messaging";
+import { isGnsName, resolveGnsName } from "@/lib/gns";
+import { formatGNK, toDisplayDecimals } from "@/lib/format";
+import type { TokenBalance } from "@/lib/cosmos";
+import {
+  checkPayout,
+  chunkPayout,
+  MAX_PAYOUT_ROWS,
+  parsePayoutCsv,
+  payoutReceiptCsv,
+  type PayoutCheck,
+  type PayoutReceiptRow,
+} from "@/lib/payout";
+import { MAX_MEMO_LENGTH } from "@/lib/sign-edits";
+import type { Coin } from "@/lib/tx-preview";
+import Layout from "@/popup/components/Layout";
+import Spinner from "@/popup/components/Spinner";
+
+type Step = "import" | "check" | "paying" | "done";
+
+export default function Payout() {
+  const { balance, tokenBalances, isViewOnly, getBalance } = useWalletStore();
+  const tokens: TokenBalance[] =
+    tokenBalances.length > 0
+      ? tokenBalances
+      : [{ denom: "ngonka", amount: balance, symbol: "GNK", decimals: 9, isIbc: false }];
+
+  const [step, setStep] = useState<Step>("import");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [memo, setMemo] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [check, setCheck] = useState<PayoutCheck | null>(null);
+  const [error, setError] = useState("");
+
+  const [progress, setProgress] = useState({ chunk: 0, chunks: 0 });
+  const [receipt, setReceipt] = useState<PayoutReceiptRow[]>([]);
+
+  const formatCoin = (c: Coin) => {
+    const token = tokens.find((t) => t.denom === c.denom);
+    return token ? `${toDisplayDecimals(c.amount, token.decimals)} ${token.symbol}` : `${c.amount} ${c.denom}`;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    setError("");
+  };
+
+  const handleCheck = async () => {
+    setError("");
+    const rows = parsePayoutCsv(csv);
+    if (rows.length === 0) {
+      setError("No rows found");
+      return;
+    }
+    if (rows.length > MAX_PAYOUT_ROWS) {
+      setError(`A payout can have at most ${MAX_PAYOUT_ROWS} rows`);
+      return;
+    }
+    setChecking(true);
+    try {
+      const names = [...new Set(rows.map((r) => r.recipient).filter(isGnsName))];
+      const addresses = await Promise.all(names.map((name) => resolveGnsName(name)));
+      const resolved = Object.fromEntries(names.map((name, i) => [name, addresses[i]]));
+      setCheck(checkPayout(rows, resolved, tokens));
+      setStep("check");
+    } catch (e: any) {
+      setError(e.message || "Couldn't check the payout");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handlePay = async () => {
+    if (!check) return;
+    const chunks = chunkPayout(check.rows);
+    const recipients = new Map(check.rows.map((r) => [r.line, r.recipient]));
+    const results: PayoutReceiptRow[] = [];
+    setStep("paying");
+    setProgress({ chunk: 0, chunks: chunks.length });
+
+    // Chunks go out one after another; after a failure the rest are left
+    // unsent so the receipt shows exactly what was paid.
+    let failed = false;
+    for (const [i, chunk] of chunks.entries()) {
+      let status: PayoutReceiptRow["status"] = "not_sent";
+      let txHash: string | null = null;
+      let chunkError: string | undefined;
+      if (!failed) {
+        setProgress({ chunk: i + 1, chunks: chunks.length });
+        try {
+          const resp = await sendMessage({ type: "BROADCAST_PAYOUT_CHUNK", outputs: chunk, memo });
+          if (resp.success) {
+            status = "sent";
+            txHash = resp.txHash;
+          } else {
+            status = "failed";
+            chunkError = resp.error || "Transaction failed";
+          }
+        } catch (e: any) {
+          status = "failed";
+          chunkError = e.message || "Transaction failed";
+        }
+        failed = status === "failed";
+      }
+      for (const output of chunk) {
+        const recipient = recipients.get(output.line) ?? output.address;
+        results.push({ ...output, recipient, status, txHash, error: chunkError });
+      }
+      setReceipt([...results]);
+    }
+    setStep("done");
+    getBalance();
+  };
+
+  const handleDownloadReceipt = () => {
+    const blob = new Blob([payoutReceiptCsv(receipt)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ggwallet-payout-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (step === "paying" || step === "done") {
+    const sent = receipt.filter((r) => r.status === "sent").length;
+    const txHashes = [...new Set(receipt.map((r) => r.txHash).filter((h): h is string => !!h))];
+    const firstError = receipt.find((r) => r.error)?.error;
+    return (
+      <Layout title="Bulk Payout" showBack={step === "done"} showNav={false}>
+        <div className="px-4 py-4 space-y-4">
+          {step === "paying" ? (
+            <div className="card space-y-3 text-center">
+              <Spinner className="mx-auto" />
+              <p className="text-sm">
+                Sending transaction {progress.chunk} of {progress.chunks}
+              </p>
+              <div className="h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+                <div
+                  className="h-full bg-gonka-400 transition-all"
+                  style={{ width: `${(Math.max(progress.chunk - 1, 0) / Math.max(progress.chunks, 1)) * 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-surface-500">Keep this window open until the payout finishes.</p>
+            </div>
+          ) : (
+            <div className="card space-y-2">
+              <p className="text-sm font-semibold">
+                Paid {sent} of {receipt.length} recipients in {txHashes.length} transaction
+                {txHashes.length === 1 ? "" : "s"}
+              </p>
+              {firstError && <p className="text-xs text-red-400">{firstError}</p>}
+              {txHashes.map((hash) => (
+                <p key={hash} className="text-[11px] font-mono text-surface-400 break-all">
+                  {hash}
+                </p>
+              ))}
+            </div>
+          )}
+          {step === "done" && (
+            <button onClick={handleDownloadReceipt} className="btn-primary">
+              Download Receipt (CSV)
+            </button>
+          )}
+        </div>
+      </Layout>
+    );
+  }
+
+  if (step === "check" && check) {
+    const valid = check.rows.filter((r) => !r.error);
+    const invalid = check.rows.filter((r) => r.error);
+    const chunks = chunkPayout(check.rows);
+    return (
+      <Layout title="Check Payout" showBack={false} showNav={false}>
+        <div className="px-4 py-4 space-y-4">
+          <div className="card space-y-2">
+            <div className="flex justify-between">
+              <span className="text-sm text-surface-500">Recipients</span>
+              <span className="text-sm">{valid.length}</span>
+            </div>
+            {check.totals.map((c) => (
+              <div key={c.denom} className="flex justify-between">
+                <span className="text-sm text-surface-500">Total</span>
+                <span className="text-sm font-bold">{formatCoin(c)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-sm text-surface-500">Transactions</span>
+              <span className="text-sm">{chunks.length}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-surface-500">Estimated fees</span>
+              <span className="text-sm">{formatGNK(check.estimatedFee)}</span>
+            </div>
+          </div>
+
+          {check.balanceErrors.map((e) => (
+            <p key={e} className="text-xs text-red-400">
+              {e}
+            </p>
+          ))}
+          {check.feeWarning && <p className="text-xs text-yellow-400">{check.feeWarning}</p>}
+
+          {invalid.length > 0 && (
+            <div className="card space-y-1.5">
+              <p className="text-xs font-semibold text-red-400">
+                {invalid.length} row{invalid.length === 1 ? "" : "s"} will be skipped
+              </p>
+              {invalid.map((r) => (
+                <div key={r.line} className="flex justify-between gap-3 text-[11px]">
+                  <span className="text-surface-400 truncate">
+                    Line {r.line}: {r.recipient || "—"}
+                  </span>
+                  <span className="text-red-400 shrink-0">{r.error}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {valid.map((r) => (
+              <div key={r.line} className="flex justify-between gap-3 text-[11px]">
+                <span className="font-mono text-surface-400 truncate">{r.recipient}</span>
+                <span className="text-surface-300 shrink-0">{formatCoin(r.coin!)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <button
+              onClick={handlePay}
+              disabled={valid.length === 0 || check.balanceErrors.length > 0 || isViewOnly}
+              className="btn-primary"
+            >
+              {isViewOnly ? "Watch-only wallets can't sign" : `Pay ${valid.length} Recipients`}
+            </button>
+            <button onClick={() => setStep("import")} className="btn-secondary">
+              Edit CSV
+            </button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Bulk Payout" showBack showNav={false}>
+      <div className="px-4 py-4 space-y-4">
+        <p className="text-xs text-surface-400">
+          One row per recipient: <span className="font-mono">address or name.gnk, amount, denom</span>. The denom is
+          optional and defaults to GNK; amounts are in whole tokens.
+        </p>
+
+        <label className="btn-secondary flex items-center justify-center gap-2 cursor-pointer">
+          <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleFile} />
+          {fileName || "Choose CSV File"}
+        </label>
+
+        <textarea
+          value={csv}
+          onChange={(e) => {
+            setCsv(e.target.value);
+            setFileName("");
+            setError("");
+          }}
+          rows={8}
+          placeholder={"gonka1...,12.5\nalice.gnk,3"}
+          className="input-field font-mono text-xs"
+        />
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-surface-300">
+            Memo <span className="text-surface-600">(optional)</span>
+          </label>
+          <input
+            value={memo}
+            onChange={(e) => setMemo(e.target.value)}
+            maxLength={MAX_MEMO_LENGTH}
+            placeholder="e.g. October contributors"
+            className="input-field text-sm"
+          />
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <button
+          onClick={handleCheck}
+          disabled={!csv.trim() || checking}
+          className="btn-primary flex items-center justify-center gap-2"
+        >
+          {checking ? <Spinner size="sm" /> : "Check Rows"}
+        </button>
+      </div>
+    </Layout>
+  );
+}
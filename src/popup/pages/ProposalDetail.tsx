@@ -1,11 +1,13 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useWalletStore } from "@/popup/store";
 import { sendMessage } from "@/lib/messaging";
 import { formatCompact, formatTimestamp, truncateAddress } from "@/lib/format";
 import { GONKA_EXPLORER_URL } from "@/lib/gonka";
 import type { Proposal, VoteOption } from "@/lib/cosmos";
+import type { TxOptions } from "@/lib/tx-options";
 import Layout from "@/popup/components/Layout";
+import FeeReview from "@/popup/components/FeeReview";
 import Spinner from "@/popup/components/Spinner";
 
 const STATUS_LABELS: Record<string, string> = {
@@ -68,6 +70,7 @@ export default function ProposalDetail() {
   const [voteError, setVoteError] = useState("");
   const [voteSuccess, setVoteSuccess] = useState("");
   const [voteTxHash, setVoteTxHash] = useState("");
+  const [voteTxOptions, setVoteTxOptions] = useState<TxOptions | null>(null);
 
   const [showDesc, setShowDesc] = useState(false);
 
@@ -104,14 +107,24 @@ export default function ProposalDetail() {
     load();
   }, [load]);
 
+  const voteAction = useMemo(
+    () => (selectedVote ? { type: "VOTE_PROPOSAL", proposalId: id, option: selectedVote } : null),
+    [id, selectedVote]
+  );
+
   const handleVote = async () => {
-    if (!selectedVote || !id) return;
+    if (!selectedVote || !id || !voteTxOptions) return;
     setVoting(true);
     setVoteError("");
     setVoteSuccess("");
 
     try {
-      const resp = await sendMessage({ type: "VOTE_PROPOSAL", proposalId: id, option: selectedVote });
+      const resp = await sendMessage({
+        type: "VOTE_PROPOSAL",
+        proposalId: id,
+        option: selectedVote,
+        txOptions: voteTxOptions,
+      });
       if (resp.success) {
         setVoteSuccess("Vote submitted!");
         setVoteTxHash(resp.txHash || "");
@@ -292,10 +305,12 @@ export default function ProposalDetail() {
               </div>
             )}
 
+            {voteAction && <FeeReview action={voteAction} onChange={setVoteTxOptions} />}
+
             {selectedVote && (
               <button
                 onClick={handleVote}
-                disabled={voting}
+                disabled={voting || !voteTxOptions}
                 className="btn-primary flex items-center justify-center gap-2"
               >
                 {voting ? (
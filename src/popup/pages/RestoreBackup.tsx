@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useWalletStore } from "@/popup/store";
+import { sendMessage } from "@/lib/messaging";
+import { truncateAddress } from "@/lib/format";
+import type { BackupDiffSummary, BackupWalletSummary } from "@/lib/backup";
+import Layout from "@/popup/components/Layout";
+import PasswordInput from "@/popup/components/PasswordInput";
+import Spinner from "@/popup/components/Spinner";
+
+export default function RestoreBackup() {
+  const navigate = useNavigate();
+  const { isInitialized, checkState } = useWalletStore();
+
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [password, setPassword] = useState("");
+  const [diff, setDiff] = useState<BackupDiffSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setDiff(null);
+    setError("");
+    if (!file) return;
+    setFileName(file.name);
+    setFileText(await file.text());
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const resp = await sendMessage({ type: "PREVIEW_BACKUP", file: fileText, password });
+      if (resp.success) {
+        setDiff(resp.diff);
+      } else {
+        setError(resp.error || "Could not read backup");
+      }
+    } catch (e: any) {
+      setError(e.message || "Could not read backup");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const resp = await sendMessage({ type: "RESTORE_BACKUP", file: fileText, password });
+      if (resp.success) {
+        await checkState();
+        navigate("/");
+      } else {
+        setError(resp.error || "Restore failed");
+      }
+    } catch (e: any) {
+      setError(e.message || "Restore failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const nothingToAdd =
+    diff !== null &&
+    diff.newWallets.length === 0 &&
+    diff.newContacts.length === 0 &&
+    diff.newSites.length === 0 &&
+    !(diff.rpcChanged && !isInitialized);
+
+  return (
+    <Layout title="Restore Backup" showBack showNav={false}>
+      <div className="flex flex-col h-full">
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+          {!diff ? (
+            <>
+              <p className="text-xs text-surface-500">
+                {isInitialized
+                  ? "Merge a GG Wallet backup into this wallet. Wallets already here are kept as they are."
+                  : "Restore wallets, address book, connected sites and RPC settings from a GG Wallet backup. The backup's password becomes your wallet password."}
+              </p>
+
+              <label className="btn-secondary flex items-center justify-center gap-2 cursor-pointer">
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+                {fileName || "Choose Backup File"}
+              </label>
+
+              <PasswordInput
+                label="Backup password"
+                placeholder="Password the backup was made with"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.currentTarget.value);
+                  setError("");
+                }}
+              />
+            </>
+          ) : (
+            <>
+              <DiffSection title="Wallets to add" wallets={diff.newWallets} />
+              <DiffSection title="Already in this wallet — skipped" wallets={diff.existingWallets} muted />
+              <DiffSection title="Seed wallet missing — skipped" wallets={diff.orphanedWallets} muted />
+
+              {diff.newContacts.length > 0 && (
+                <div className="space-y-1">
+                  <p className="led-eyebrow">Address book · +{diff.newContacts.length}</p>
+                  {diff.newContacts.map((c) => (
+                    <p key={c.address} className="led-text text-[10px] font-medium text-white/55 truncate">
+                      {c.name} · {truncateAddress(c.address, 8, 4)}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {diff.newSites.length > 0 && (
+                <div className="space-y-1">
+                  <p className="led-eyebrow">Connected sites · +{diff.newSites.length}</p>
+                  {diff.newSites.map((origin) => (
+                    <p key={origin} className="led-text text-[10px] font-medium text-white/55 truncate">
+                      {origin}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {diff.rpcChanged && (
+                <p className="text-xs text-surface-500">
+                  {isInitialized
+                    ? "The backup's RPC settings differ from yours; your current settings are kept."
+                    : "RPC settings will be restored from the backup."}
+                </p>
+              )}
+
+              {nothingToAdd && (
+                <p className="text-xs text-surface-500">Everything in this backup is already here.</p>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        <div className="px-4 py-3 space-y-2 shrink-0">
+          {!diff ? (
+            <button
+              onClick={handlePreview}
+              disabled={!fileText || !password || loading}
+              className="btn-primary flex items-center justify-center gap-2"
+            >
+              {loading ? (
+                <>
+                  <Spinner size="sm" />
+                  Decrypting...
+                </>
+              ) : (
+                "Preview Restore"
+              )}
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleRestore}
+                disabled={nothingToAdd || loading}
+                className="btn-primary flex items-center justify-center gap-2"
+              >
+                {loading ? (
+                  <>
+                    <Spinner size="sm" />
+                    Restoring...
+                  </>
+                ) : (
+                  "Restore"
+                )}
+              </button>
+              <button
+                onClick={() => setDiff(null)}
+                disabled={loading}
+                className="btn-secondary"
+              >
+                Back
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
+
+function DiffSection({
+  title,
+  wallets,
+  muted,
+}: {
+  title: string;
+  wallets: BackupWalletSummary[];
+  muted?: boolean;
+}) {
+  if (wallets.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="led-eyebrow">
+        {title} · {wallets.length}
+      </p>
+      {wallets.map((w) => (
+        <div key={w.address} className={`led-panel px-3 py-2 ${muted ? "opacity-50" : ""}`}>
+          <p className="led-text text-[12px] font-extrabold text-white truncate">
+            {w.name}
+            {w.viewOnly ? " · watch" : w.derived ? " · derived" : ""}
+          </p>
+          <p className="led-text text-[10px] font-medium text-white/40 truncate">
+            {truncateAddress(w.address, 10, 6)}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { useWalletStore } from "@/popup/store";
 import { sendMessage } from "@/lib/messaging";
@@ -7,7 +7,9 @@ import { GONKA_BECH32_PREFIX } from "@/lib/gonka";
 import { isGnsName, resolveGnsName } from "@/lib/gns";
 import type { TokenBalance } from "@/lib/cosmos";
 import type { AddressBookEntry } from "@/lib/storage";
+import type { TxOptions } from "@/lib/tx-options";
 import Layout from "@/popup/components/Layout";
+import FeeReview from "@/popup/components/FeeReview";
 import Spinner from "@/popup/components/Spinner";
 
 type Step = "form" | "confirm" | "success" | "error";
@@ -33,6 +35,7 @@ export default function Send() {
   const [resolvedAddress, setResolvedAddress] = useState<string | null>(null);
   const [resolving, setResolving] = useState(false);
   const [resolvedName, setResolvedName] = useState<string | null>(null);
+  const [txOptions, setTxOptions] = useState<TxOptions | null>(null);
 
   // Address book
   const [addressBook, setAddressBook] = useState<AddressBookEntry[]>([]);
@@ -103,18 +106,23 @@ export default function Send() {
     setStep("confirm");
   };
 
+  const sendAction = useMemo(
+    () => ({
+      type: "SEND_TOKENS",
+      recipient: effectiveRecipient,
+      amount: amount ? toMinimalDecimals(amount, selectedToken.decimals) : "0",
+      denom: selectedToken.denom,
+      memo,
+    }),
+    [effectiveRecipient, amount, selectedToken.decimals, selectedToken.denom, memo]
+  );
+
   const handleSend = async () => {
+    if (!txOptions) return;
     setLoading(true);
     setError("");
     try {
-      const minAmount = toMinimalDecimals(amount, selectedToken.decimals);
-      const resp = await sendMessage({
-        type: "SEND_TOKENS",
-        recipient: effectiveRecipient,
-        amount: minAmount,
-        denom: selectedToken.denom,
-        memo,
-      });
+      const resp = await sendMessage({ ...sendAction, txOptions });
       if (resp.success) {
         setTxHash(resp.txHash);
         setStep("success");
@@ -190,17 +198,13 @@ export default function Send() {
                 </div>
               </>
             )}
-            <div className="border-t border-white/[0.04]" />
-            <div className="flex justify-between">
-              <span className="text-sm text-surface-500">Network Fee</span>
-              <span className="text-sm text-surface-300">0 GNK</span>
-            </div>
           </div>
+          <FeeReview action={sendAction} onChange={setTxOptions} />
           {error && <p className="text-xs text-red-400 text-center">{error}</p>}
           <div className="space-y-2">
             <button
               onClick={handleSend}
-              disabled={loading}
+              disabled={loading || !txOptions}
               className="btn-primary flex items-center justify-center gap-2"
             >
               {loading ? (
@@ -6,13 +6,13 @@ import Spinner from "@/popup/components/Spinner";
 
 export default function SetPassword() {
   const navigate = useNavigate();
-  const { mnemonic, createWallet } = useWalletStore();
+  const { mnemonic, passphrase, privateKey, createWallet, createPrivateKeyWallet } = useWalletStore();
   const [password, setPassword] = useState("");
   const [confirm, setConfirm] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
-  if (!mnemonic) {
+  if (!mnemonic && !privateKey) {
     navigate("/");
     return null;
   }
@@ -32,7 +32,9 @@ export default function SetPassword() {
 
     setLoading(true);
     try {
-      const ok = await createWallet(mnemonic, password);
+      const ok = privateKey
+        ? await createPrivateKeyWallet(privateKey, password)
+        : await createWallet(mnemonic!, password, undefined, passphrase ?? undefined);
       if (ok) {
         navigate("/");
       } else {
@@ -2,11 +2,23 @@ import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { useWalletStore } from "@/popup/store";
 import { sendMessage } from "@/lib/messaging";
-import { truncateAddress } from "@/lib/format";
-import { GONKA_CHAIN_ID, GONKA_CHAIN_NAME, GONKA_BECH32_PREFIX } from "@/lib/gonka";
+import { truncateAddress, toDisplay, toMinimal } from "@/lib/format";
+import { GONKA_CHAIN_ID, GONKA_CHAIN_NAME, GONKA_BECH32_PREFIX, GONKA_DENOM } from "@/lib/gonka";
+import { AUDIT_EVENT_LABELS, exportAuditLog, type AuditEntry } from "@/lib/audit-log";
+import { endpointHost, type SuggestedChainInfo } from "@/lib/chain-info";
+import { EMPTY_ORIGIN_LISTS, type OriginLists } from "@/lib/phishing";
+import { COMMON_AUTO_APPROVAL_TYPES, type AutoApprovalRule } from "@/lib/auto-approval";
+import {
+  ALL_SITE_PERMISSIONS,
+  SITE_PERMISSION_LABELS,
+  SITE_EXPIRY_OPTIONS,
+  sitePermissions,
+  isSiteExpired,
+} from "@/lib/site-permissions";
 import { KNOWN_ENDPOINTS, pingEndpoint, GONKA_RPC_SIGNUP_URL, type RpcEndpoint } from "@/lib/rpc";
 import type {
   ConnectedSite,
+  SitePermission,
   AddressBookEntry,
   GonkaRpcAutoMeta,
   GonkaRpcUsage,
@@ -28,18 +40,89 @@ export default function Settings() {
   const [revealType, setRevealType] = useState<Reveal>(null);
   const [revealPassword, setRevealPassword] = useState("");
   const [revealData, setRevealData] = useState("");
+  const [revealHasPassphrase, setRevealHasPassphrase] = useState(false);
   const [revealError, setRevealError] = useState("");
   const [revealLoading, setRevealLoading] = useState(false);
   const [copied, setCopied] = useState(false);
   const [comingSoon, setComingSoon] = useState(false);
 
+  // Shamir split backup
+  const [splitModal, setSplitModal] = useState(false);
+  const [splitThreshold, setSplitThreshold] = useState(2);
+  const [splitCount, setSplitCount] = useState(3);
+  const [splitPassword, setSplitPassword] = useState("");
+  const [splitShares, setSplitShares] = useState<string[]>([]);
+  const [splitError, setSplitError] = useState("");
+  const [splitLoading, setSplitLoading] = useState(false);
+  const [copiedShare, setCopiedShare] = useState<number | null>(null);
+
+  // Change password
+  const [passwordModal, setPasswordModal] = useState(false);
+  const [oldPassword, setOldPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [passwordError, setPasswordError] = useState("");
+  const [passwordLoading, setPasswordLoading] = useState(false);
+  const [passwordChanged, setPasswordChanged] = useState(false);
+
+  // Password groups
+  const [groupModal, setGroupModal] = useState(false);
+  const [groupName, setGroupName] = useState("");
+  const [groupPassword, setGroupPassword] = useState("");
+  const [groupConfirm, setGroupConfirm] = useState("");
+  const [groupError, setGroupError] = useState("");
+  const [groupLoading, setGroupLoading] = useState(false);
+
+  // Backup export
+  const [backupModal, setBackupModal] = useState(false);
+  const [backupPassword, setBackupPassword] = useState("");
+  const [backupError, setBackupError] = useState("");
+  const [backupLoading, setBackupLoading] = useState(false);
+
+  // Security audit log
+  const [auditModal, setAuditModal] = useState(false);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+
   // Connected sites
   const [connectedSites, setConnectedSites] = useState<ConnectedSite[]>([]);
   const [sitesModal, setSitesModal] = useState(false);
+  const [editSite, setEditSite] = useState<ConnectedSite | null>(null);
+  const [editPermissions, setEditPermissions] = useState<SitePermission[]>([]);
+  // null = keep the current expiry, 0 = never, otherwise ms from now
+  const [editExpiryMs, setEditExpiryMs] = useState<number | null>(null);
+  const [editWallets, setEditWallets] = useState<string[] | null>(null);
+  const [editTrustBroadcasts, setEditTrustBroadcasts] = useState(false);
+  const [editSiteError, setEditSiteError] = useState("");
+
+  // Auto-approval rules for connected sites, keyed by origin
+  const [autoRules, setAutoRules] = useState<Record<string, AutoApprovalRule>>({});
+  const [ruleSite, setRuleSite] = useState<ConnectedSite | null>(null);
+  const [ruleTypes, setRuleTypes] = useState<string[]>([]);
+  const [ruleOtherTypes, setRuleOtherTypes] = useState("");
+  const [ruleContracts, setRuleContracts] = useState("");
+  const [ruleMaxTx, setRuleMaxTx] = useState("");
+  const [ruleMaxDay, setRuleMaxDay] = useState("");
+  const [ruleHours, setRuleHours] = useState<{ start: number; end: number } | null>(null);
+  // null = keep the current expiry, 0 = never, otherwise ms from now
+  const [ruleExpiryMs, setRuleExpiryMs] = useState<number | null>(null);
+  const [ruleHistory, setRuleHistory] = useState<AuditEntry[]>([]);
+  const [ruleError, setRuleError] = useState("");
+
+  // Chains added by dApps via experimentalSuggestChain
+  const [suggestedChains, setSuggestedChains] = useState<SuggestedChainInfo[]>([]);
+  const [chainsModal, setChainsModal] = useState(false);
+
+  // Phishing protection: user blocklist / allowlist of dApp hostnames
+  const [originLists, setOriginLists] = useState<OriginLists>(EMPTY_ORIGIN_LISTS);
+  const [phishingModal, setPhishingModal] = useState(false);
+  const [originListTarget, setOriginListTarget] = useState<keyof OriginLists>("blocked");
+  const [originListEntry, setOriginListEntry] = useState("");
+  const [originListError, setOriginListError] = useState("");
 
   // Auto-lock
   const [autoLockMinutes, setAutoLockMinutes] = useState<number>(5);
   const [autoLockSaving, setAutoLockSaving] = useState(false);
+  const [reloadAfter, setReloadAfter] = useState(0);
 
   // Address book
   const [addressBook, setAddressBook] = useState<AddressBookEntry[]>([]);
@@ -85,9 +168,21 @@ export default function Settings() {
     sendMessage({ type: "GET_CONNECTED_SITES" }).then((resp) => {
       if (resp.sites) setConnectedSites(resp.sites);
     });
+    sendMessage({ type: "GET_AUTO_APPROVAL_RULES" }).then((resp) => {
+      if (resp.rules) setAutoRules(resp.rules);
+    });
+    sendMessage({ type: "GET_SUGGESTED_CHAINS" }).then((resp) => {
+      if (resp.chains) setSuggestedChains(resp.chains);
+    });
+    sendMessage({ type: "GET_ORIGIN_LISTS" }).then((resp) => {
+      if (resp.lists) setOriginLists(resp.lists);
+    });
     sendMessage({ type: "GET_AUTO_LOCK" }).then((resp) => {
       if (resp.minutes !== undefined) setAutoLockMinutes(resp.minutes);
     });
+    sendMessage({ type: "GET_UNLOCK_GUARD" }).then((resp) => {
+      setReloadAfter(resp?.reloadAfter ?? 0);
+    });
     sendMessage({ type: "GET_ADDRESS_BOOK" }).then((resp) => {
       if (resp.entries) setAddressBook(resp.entries);
     });
@@ -162,6 +257,10 @@ export default function Settings() {
     sendMessage({ type: "GET_CONNECTED_SITES" }).then((resp) => {
       if (resp.sites) setConnectedSites(resp.sites);
     });
+    // Disconnecting a site also drops its auto-approval rule
+    sendMessage({ type: "GET_AUTO_APPROVAL_RULES" }).then((resp) => {
+      if (resp.rules) setAutoRules(resp.rules);
+    });
   }, []);
 
   const handleDisconnectSite = async (origin: string) => {
@@ -169,6 +268,126 @@ export default function Settings() {
     loadConnectedSites();
   };
 
+  const openSiteEditor = (site: ConnectedSite) => {
+    setEditSite(site);
+    setEditPermissions(sitePermissions(site));
+    setEditExpiryMs(null);
+    setEditWallets(site.wallets ?? null);
+    setEditTrustBroadcasts(!!site.trustBroadcasts);
+    setEditSiteError("");
+  };
+
+  const handleSaveSitePermissions = async () => {
+    if (!editSite) return;
+    let expiresAt = editSite.expiresAt ?? null;
+    if (editExpiryMs !== null) expiresAt = editExpiryMs > 0 ? Date.now() + editExpiryMs : null;
+    const resp = await sendMessage({
+      type: "UPDATE_SITE_PERMISSIONS",
+      origin: editSite.origin,
+      permissions: editPermissions,
+      expiresAt,
+      wallets: editWallets,
+      trustBroadcasts: editTrustBroadcasts,
+    });
+    if (!resp.success) {
+      setEditSiteError(resp.error || "Failed to save permissions");
+      return;
+    }
+    setEditSite(null);
+    loadConnectedSites();
+  };
+
+  const openRuleEditor = async (site: ConnectedSite) => {
+    const rule = autoRules[site.origin];
+    const common = COMMON_AUTO_APPROVAL_TYPES.map((t) => t.typeUrl);
+    setRuleSite(site);
+    setRuleTypes(rule ? rule.messageTypes.filter((t) => common.includes(t)) : []);
+    setRuleOtherTypes(rule ? rule.messageTypes.filter((t) => !common.includes(t)).join("\n") : "");
+    setRuleContracts(rule ? rule.contracts.join("\n") : "");
+    setRuleMaxTx(rule?.maxSpendPerTx[GONKA_DENOM] ? toDisplay(rule.maxSpendPerTx[GONKA_DENOM]) : "");
+    setRuleMaxDay(rule?.maxSpendPerDay[GONKA_DENOM] ? toDisplay(rule.maxSpendPerDay[GONKA_DENOM]) : "");
+    setRuleHours(rule?.hours ?? null);
+    setRuleExpiryMs(rule ? null : 0);
+    setRuleError("");
+    const resp = await sendMessage({ type: "GET_AUDIT_LOG" });
+    setRuleHistory(
+      ((resp.entries || []) as AuditEntry[])
+        .filter((e) => e.type === "auto_approved" && e.origin === site.origin)
+        .slice(-5)
+        .reverse()
+    );
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleSite) return;
+    const lines = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+    const maxSpendPerTx: Record<string, string> = {};
+    const maxSpendPerDay: Record<string, string> = {};
+    try {
+      if (ruleMaxTx.trim()) maxSpendPerTx[GONKA_DENOM] = toMinimal(ruleMaxTx.trim());
+      if (ruleMaxDay.trim()) maxSpendPerDay[GONKA_DENOM] = toMinimal(ruleMaxDay.trim());
+    } catch {
+      setRuleError("Enter limits as GNK amounts");
+      return;
+    }
+    const current = autoRules[ruleSite.origin];
+    let expiresAt = current?.expiresAt;
+    if (ruleExpiryMs !== null) expiresAt = ruleExpiryMs > 0 ? Date.now() + ruleExpiryMs : undefined;
+
+    const resp = await sendMessage({
+      type: "SET_AUTO_APPROVAL_RULE",
+      origin: ruleSite.origin,
+      rule: {
+        messageTypes: [...ruleTypes, ...lines(ruleOtherTypes)],
+        contracts: lines(ruleContracts),
+        maxSpendPerTx,
+        maxSpendPerDay,
+        hours: ruleHours,
+        expiresAt,
+      },
+    });
+    if (!resp.success) {
+      setRuleError(resp.error || "Failed to save rule");
+      return;
+    }
+    setRuleSite(null);
+    loadConnectedSites();
+  };
+
+  const handleRevokeRule = async (origin: string) => {
+    await sendMessage({ type: "SET_AUTO_APPROVAL_RULE", origin, rule: null });
+    setRuleSite(null);
+    loadConnectedSites();
+  };
+
+  const loadSuggestedChains = useCallback(() => {
+    sendMessage({ type: "GET_SUGGESTED_CHAINS" }).then((resp) => {
+      if (resp.chains) setSuggestedChains(resp.chains);
+    });
+  }, []);
+
+  const handleRemoveChain = async (chain: SuggestedChainInfo) => {
+    if (!confirm(`Remove ${chain.chainName}? Sites will have to suggest it again to use it.`)) return;
+    await sendMessage({ type: "REMOVE_SUGGESTED_CHAIN", chainId: chain.chainId });
+    loadSuggestedChains();
+  };
+
+  const changeOriginList = async (list: keyof OriginLists, entry: string, action: "add" | "remove") => {
+    if (list === "allowed" && action === "add") {
+      if (!confirm(`Allowlisted sites skip phishing checks. Only allow ${entry.trim()} if you trust it.`)) return;
+    } else if (list === "blocked" && action === "remove") {
+      if (!confirm(`Unblock ${entry}? Its requests will reach your wallet again.`)) return;
+    }
+    setOriginListError("");
+    const resp = await sendMessage({ type: "UPDATE_ORIGIN_LIST", list, entry, action });
+    if (!resp.success) {
+      setOriginListError(resp.error || "Failed to update the list");
+      return;
+    }
+    setOriginLists(resp.lists);
+    if (action === "add") setOriginListEntry("");
+  };
+
   const runPings = useCallback(async () => {
     setPinging(true);
     const results: Record<string, number> = {};
@@ -342,6 +561,7 @@ export default function Settings() {
         const resp = await sendMessage({ type: "GET_MNEMONIC" });
         if (resp.success) {
           setRevealData(resp.mnemonic);
+          setRevealHasPassphrase(!!resp.hasPassphrase);
         } else {
           setRevealError(resp.error || "Failed to retrieve mnemonic");
         }
@@ -366,10 +586,193 @@ export default function Settings() {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleSplit = async () => {
+    if (!splitPassword) return;
+    setSplitLoading(true);
+    setSplitError("");
+    try {
+      const unlockResp = await sendMessage({ type: "UNLOCK", password: splitPassword });
+      if (!unlockResp.success) {
+        setSplitError("Wrong password");
+        return;
+      }
+      const resp = await sendMessage({
+        type: "SPLIT_MNEMONIC",
+        threshold: splitThreshold,
+        count: splitCount,
+      });
+      if (resp.success) {
+        setSplitShares(resp.shares);
+      } else {
+        setSplitError(resp.error || "Failed to split recovery phrase");
+      }
+    } catch (e: any) {
+      setSplitError(e.message || "Failed");
+    } finally {
+      setSplitLoading(false);
+    }
+  };
+
+  const handleCopyShare = (i: number) => {
+    navigator.clipboard.writeText(splitShares[i]);
+    setCopiedShare(i);
+    setTimeout(() => setCopiedShare(null), 2000);
+  };
+
+  const closeSplit = () => {
+    setSplitModal(false);
+    setSplitPassword("");
+    setSplitShares([]);
+    setSplitError("");
+    setCopiedShare(null);
+  };
+
+  const handleChangePassword = async () => {
+    setPasswordError("");
+    if (newPassword.length < 8) {
+      setPasswordError("Password must be at least 8 characters");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordError("Passwords do not match");
+      return;
+    }
+    setPasswordLoading(true);
+    try {
+      const resp = await sendMessage({
+        type: "CHANGE_PASSWORD",
+        oldPassword,
+        newPassword,
+        group: activeWallet?.group,
+      });
+      if (resp.success) {
+        setPasswordChanged(true);
+      } else {
+        setPasswordError(resp.error || "Failed to change password");
+      }
+    } catch (e: any) {
+      setPasswordError(e.message || "Failed to change password");
+    } finally {
+      setPasswordLoading(false);
+    }
+  };
+
+  const closePasswordModal = () => {
+    setPasswordModal(false);
+    setOldPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setPasswordError("");
+    setPasswordChanged(false);
+  };
+
+  const existingGroups = [...new Set(wallets.map((w) => w.group).filter((g): g is string => !!g))];
+  const joiningGroup = existingGroups.includes(groupName.trim());
+
+  /** Move the active wallet into `group`, or back to the main password when null. */
+  const handleSetGroup = async (group: string | null) => {
+    setGroupError("");
+    if (group && !joiningGroup) {
+      if (groupPassword.length < 8) {
+        setGroupError("Password must be at least 8 characters");
+        return;
+      }
+      if (groupPassword !== groupConfirm) {
+        setGroupError("Passwords do not match");
+        return;
+      }
+    }
+    setGroupLoading(true);
+    try {
+      const resp = await sendMessage({
+        type: "SET_WALLET_GROUP",
+        index: activeIndex,
+        group,
+        password: group ? groupPassword : undefined,
+      });
+      if (resp.success) {
+        await useWalletStore.getState().refreshWallets();
+        closeGroupModal();
+      } else {
+        setGroupError(resp.error || "Failed to update wallet password");
+      }
+    } catch (e: any) {
+      setGroupError(e.message || "Failed to update wallet password");
+    } finally {
+      setGroupLoading(false);
+    }
+  };
+
+  const handleLockGroup = async () => {
+    if (!activeWallet?.group) return;
+    const resp = await sendMessage({ type: "LOCK_GROUP", group: activeWallet.group });
+    if (resp.success) {
+      useWalletStore.setState({ address: resp.address, activeIndex: resp.activeIndex, balance: "0" });
+      await useWalletStore.getState().refreshWallets();
+    }
+    closeGroupModal();
+  };
+
+  const closeGroupModal = () => {
+    setGroupModal(false);
+    setGroupName("");
+    setGroupPassword("");
+    setGroupConfirm("");
+    setGroupError("");
+  };
+
+  const openAuditLog = async () => {
+    const resp = await sendMessage({ type: "GET_AUDIT_LOG" });
+    setAuditEntries(resp.entries || []);
+    setAuditModal(true);
+  };
+
+  const handleExportAuditLog = () => {
+    const blob = new Blob([exportAuditLog(auditEntries)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ggwallet-audit-log-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportBackup = async () => {
+    if (!backupPassword) return;
+    setBackupLoading(true);
+    setBackupError("");
+    try {
+      const resp = await sendMessage({ type: "EXPORT_BACKUP", password: backupPassword });
+      if (!resp.success) {
+        setBackupError(resp.error || "Failed to export backup");
+        return;
+      }
+      const blob = new Blob([JSON.stringify(resp.backup, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `ggwallet-backup-${resp.backup.createdAt.slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      closeBackup();
+    } catch (e: any) {
+      setBackupError(e.message || "Failed to export backup");
+    } finally {
+      setBackupLoading(false);
+    }
+  };
+
+  const closeBackup = () => {
+    setBackupModal(false);
+    setBackupPassword("");
+    setBackupError("");
+  };
+
   const closeReveal = () => {
     setRevealType(null);
     setRevealPassword("");
     setRevealData("");
+    setRevealHasPassphrase(false);
     setRevealError("");
     setCopied(false);
   };
@@ -456,6 +859,22 @@ export default function Settings() {
                 </svg>
               }
             />
+            {activeWallet && !activeWallet.viewOnly && !activeWallet.parentAddress && (
+              <SettingsRow
+                label="Separate Password"
+                description={
+                  activeWallet.group
+                    ? `Protected by the "${activeWallet.group}" group password`
+                    : "Protect this wallet with its own password"
+                }
+                onClick={() => setGroupModal(true)}
+                icon={
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75m-3-7.036A11.959 11.959 0 013.598 6 11.99 11.99 0 003 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285z" />
+                  </svg>
+                }
+              />
+            )}
             {wallets.length > 1 && (
               <SettingsRow
                 label="Remove This Wallet"
@@ -543,6 +962,46 @@ export default function Settings() {
                 </svg>
               }
             />
+            <SettingsRow
+              label="Suggested Chains"
+              description={
+                suggestedChains.length === 0
+                  ? "No chains added by sites"
+                  : `${suggestedChains.length} chain${suggestedChains.length !== 1 ? "s" : ""} added by sites`
+              }
+              onClick={() => {
+                loadSuggestedChains();
+                setChainsModal(true);
+              }}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 21a9.004 9.004 0 008.716-6.747M12 21a9.004 9.004 0 01-8.716-6.747M12 21c2.485 0 4.5-4.03 4.5-9S14.485 3 12 3m0 18c-2.485 0-4.5-4.03-4.5-9S9.515 3 12 3m0 0a8.997 8.997 0 017.843 4.582M12 3a8.997 8.997 0 00-7.843 4.582m15.686 0A11.953 11.953 0 0112 10.5c-2.998 0-5.74-1.1-7.843-2.918m15.686 0A8.959 8.959 0 0121 12c0 .778-.099 1.533-.284 2.253m0 0A17.919 17.919 0 0112 16.5c-3.162 0-6.133-.815-8.716-2.247m0 0A9.015 9.015 0 013 12c0-1.605.42-3.113 1.157-4.418" />
+                </svg>
+              }
+            />
+            <SettingsRow
+              label="Phishing Protection"
+              description={`${originLists.blocked.length} blocked · ${originLists.allowed.length} allowed`}
+              onClick={() => {
+                setOriginListError("");
+                setPhishingModal(true);
+              }}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75m-3-7.036A11.959 11.959 0 013.598 6 11.99 11.99 0 003 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285z" />
+                </svg>
+              }
+            />
+            <SettingsRow
+              label="Security Log"
+              description="Secrets revealed, failed unlocks and dApp approvals"
+              onClick={openAuditLog}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h3.75M9 15h3.75M9 18h3.75m3 .75H18a2.25 2.25 0 002.25-2.25V6.108c0-1.135-.845-2.098-1.976-2.192a48.424 48.424 0 00-1.123-.08m-5.801 0c-.065.21-.1.433-.1.664 0 .414.336.75.75.75h4.5a.75.75 0 00.75-.75 2.25 2.25 0 00-.1-.664m-5.8 0A2.251 2.251 0 0113.5 2.25H15c1.012 0 1.867.668 2.15 1.586m-5.8 0c-.376.023-.75.05-1.124.08C9.095 4.01 8.25 4.973 8.25 6.108V8.25m0 0H4.875c-.621 0-1.125.504-1.125 1.125v11.25c0 .621.504 1.125 1.125 1.125h9.75c.621 0 1.125-.504 1.125-1.125V9.375c0-.621-.504-1.125-1.125-1.125H8.25zM6.75 12h.008v.008H6.75V12zm0 3h.008v.008H6.75V15zm0 3h.008v.008H6.75V18z" />
+                </svg>
+              }
+            />
           </div>
         </div>
 
@@ -614,6 +1073,43 @@ export default function Settings() {
                 </button>
               ))}
             </div>
+            <div className="led-divider-top mt-4 pt-4">
+              <p className="led-text text-[11px] font-bold text-white/70 mb-1">
+                Require a reload after failed unlocks
+              </p>
+              <p className="led-text text-[10px] font-medium text-white/35 mb-3 normal-case" style={{ textTransform: "none", letterSpacing: "0.01em" }}>
+                Wrong passwords always slow down further attempts. With a limit set, password entry
+                stays blocked after that many failures until the extension is reloaded.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {[
+                  { label: "Off", value: 0 },
+                  { label: "5", value: 5 },
+                  { label: "10", value: 10 },
+                  { label: "20", value: 20 },
+                ].map(({ label, value }) => (
+                  <button
+                    key={value}
+                    onClick={async () => {
+                      await sendMessage({ type: "SET_UNLOCK_RELOAD_AFTER", count: value });
+                      setReloadAfter(value);
+                    }}
+                    className={`led-text px-3.5 py-1.5 text-[10px] font-extrabold rounded-md border transition-all duration-200 ${
+                      reloadAfter === value
+                        ? "bg-white text-surface-950 border-white"
+                        : "bg-transparent text-white/55 border-white/15 hover:border-white/35 hover:text-white"
+                    }`}
+                    style={
+                      reloadAfter === value
+                        ? { boxShadow: "0 0 12px -2px rgba(255,255,255,0.4)" }
+                        : undefined
+                    }
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
 
@@ -624,23 +1120,62 @@ export default function Settings() {
             Security
           </h3>
           <div className="card space-y-0 divide-y divide-white/[0.04] !p-0">
+            {/* Private-key wallets have no recovery phrase */}
+            {activeWallet?.keyType !== "privateKey" && (
+              <>
+                <SettingsRow
+                  label="Recovery Phrase"
+                  description="View your 24-word recovery phrase"
+                  onClick={() => setRevealType("mnemonic")}
+                  icon={
+                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+                    </svg>
+                  }
+                />
+                <SettingsRow
+                  label="Split Backup"
+                  description="Split the phrase into shares (M of N needed)"
+                  onClick={() => setSplitModal(true)}
+                  icon={
+                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 21L3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" />
+                    </svg>
+                  }
+                />
+              </>
+            )}
             <SettingsRow
-              label="Recovery Phrase"
-              description="View your 24-word recovery phrase"
-              onClick={() => setRevealType("mnemonic")}
+              label="Export Private Key"
+              description="Export hex-encoded private key (for opengnk)"
+              onClick={() => setRevealType("private-key")}
               icon={
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25a3 3 0 013 3m3 0a6 6 0 01-7.029 5.912c-.563-.097-1.159.026-1.563.43L10.5 17.25H8.25v2.25H6v2.25H2.25v-2.818c0-.597.237-1.17.659-1.591l6.499-6.499c.404-.404.527-1 .43-1.563A6 6 0 1121.75 8.25z" />
                 </svg>
               }
             />
             <SettingsRow
-              label="Export Private Key"
-              description="Export hex-encoded private key (for opengnk)"
-              onClick={() => setRevealType("private-key")}
+              label="Change Password"
+              description={
+                activeWallet?.group
+                  ? `Change the "${activeWallet.group}" group password`
+                  : "Re-encrypt all wallets with a new password"
+              }
+              onClick={() => setPasswordModal(true)}
               icon={
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25a3 3 0 013 3m3 0a6 6 0 01-7.029 5.912c-.563-.097-1.159.026-1.563.43L10.5 17.25H8.25v2.25H6v2.25H2.25v-2.818c0-.597.237-1.17.659-1.591l6.499-6.499c.404-.404.527-1 .43-1.563A6 6 0 1121.75 8.25z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+                </svg>
+              }
+            />
+            <SettingsRow
+              label="Export Backup"
+              description="Encrypted file with all wallets, contacts and settings"
+              onClick={() => setBackupModal(true)}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
                 </svg>
               }
             />
@@ -716,6 +1251,46 @@ export default function Settings() {
                 </svg>
               }
             />
+            <SettingsRow
+              label="Batch Transaction"
+              description="Combine sends, staking, votes and contract calls into one transaction"
+              onClick={() => navigate("/batch")}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6.429 9.75L2.25 12l4.179 2.25m0-4.5l5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0l4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0l-5.571 3-5.571-3" />
+                </svg>
+              }
+            />
+            <SettingsRow
+              label="Bulk Payout"
+              description="Pay a list of recipients from a CSV file"
+              onClick={() => navigate("/payout")}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M18 18.72a9.094 9.094 0 003.741-.479 3 3 0 00-4.682-2.72m.94 3.198l.001.031c0 .225-.012.447-.037.666A11.944 11.944 0 0112 21c-2.17 0-4.207-.576-5.963-1.584A6.062 6.062 0 016 18.719m12 0a5.971 5.971 0 00-.941-3.197m0 0A5.995 5.995 0 0012 12.75a5.995 5.995 0 00-5.058 2.772m0 0a3 3 0 00-4.681 2.72 8.986 8.986 0 003.74.477m.94-3.197a5.971 5.971 0 00-.94 3.197M15 6.75a3 3 0 11-6 0 3 3 0 016 0zm6 3a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0zm-13.5 0a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0z" />
+                </svg>
+              }
+            />
+            <SettingsRow
+              label="Offline Signing"
+              description="Export unsigned transactions, sign them on an offline wallet, broadcast the result"
+              onClick={() => navigate("/offline-signing")}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                </svg>
+              }
+            />
+            <SettingsRow
+              label="Sign & Verify Message"
+              description="Sign text with this wallet or check an ADR-036 signature"
+              onClick={() => navigate("/sign-message")}
+              icon={
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+                </svg>
+              }
+            />
           </div>
         </div>
 
@@ -858,6 +1433,13 @@ export default function Settings() {
                   </p>
                 </div>
 
+                {revealHasPassphrase && (
+                  <p className="text-xs text-yellow-200/70">
+                    This wallet also uses a BIP39 passphrase, which is not shown here. You need
+                    both to restore it.
+                  </p>
+                )}
+
                 <button
                   onClick={handleCopy}
                   className="btn-secondary flex items-center justify-center gap-2"
@@ -882,14 +1464,14 @@ export default function Settings() {
           </div>
         </div>
       )}
-      {/* RPC modal */}
-      {rpcModal && (
+      {/* Split backup modal */}
+      {splitModal && (
         <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
           <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal max-h-[85%] flex flex-col">
             <div className="flex items-center justify-between">
-              <h3 className="led-title text-base">RPC Endpoint</h3>
+              <h3 className="led-title text-base">Split Backup</h3>
               <button
-                onClick={() => setRpcModal(false)}
+                onClick={closeSplit}
                 className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
               >
                 <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -898,40 +1480,464 @@ export default function Settings() {
               </button>
             </div>
 
-            <div className="overflow-y-auto flex-1 -mx-1 px-1 space-y-3">
-              {/* rpc.gonka.gg — default */}
-              {(() => {
-                const isActive = providerPref === "gonka";
-                const hasKey = !!(gonkaKey || autoKey);
-                return (
-                  <button
-                    onClick={() => handleSetProviderPref("gonka")}
-                    disabled={rpcSaving || !hasKey}
-                    className={`flex items-center gap-3 w-full p-3 rounded-xl text-left transition-all duration-200 border ${
-                      isActive
-                        ? "bg-white/[0.06] border-white/30"
-                        : "bg-transparent border-white/10 hover:border-white/25 hover:bg-white/[0.03]"
-                    } ${!hasKey ? "opacity-60" : ""}`}
-                  >
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <p className="led-text text-[12px] font-extrabold text-white truncate">
-                          rpc.gonka.gg
-                        </p>
-                        <span className="led-text text-[9px] font-extrabold text-white/65 border border-white/15 px-1.5 py-0.5 rounded-[3px]">
-                          DEFAULT
+            {splitShares.length === 0 ? (
+              <>
+                <div className="led-panel p-3.5">
+                  <p className="led-text text-[11px] font-medium text-white/70" style={{ letterSpacing: "0.05em" }}>
+                    The recovery phrase is split into shares. Any {splitThreshold} of the{" "}
+                    {splitCount} shares restore the wallet; fewer reveal nothing. Keep each share
+                    in a different place. A BIP39 passphrase, if you use one, is not included.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="space-y-2">
+                    <span className="block text-sm font-medium text-surface-300">Needed (M)</span>
+                    <select
+                      className="input-field"
+                      value={splitThreshold}
+                      onChange={(e) => {
+                        const m = Number(e.target.value);
+                        setSplitThreshold(m);
+                        if (splitCount < m) setSplitCount(m);
+                      }}
+                    >
+                      {Array.from({ length: 15 }, (_, i) => i + 2).map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="space-y-2">
+                    <span className="block text-sm font-medium text-surface-300">Shares (N)</span>
+                    <select
+                      className="input-field"
+                      value={splitCount}
+                      onChange={(e) => setSplitCount(Number(e.target.value))}
+                    >
+                      {Array.from({ length: 17 - splitThreshold }, (_, i) => i + splitThreshold).map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <PasswordInput
+                  label="Enter password to continue"
+                  placeholder="Your wallet password"
+                  value={splitPassword}
+                  onChange={(e) => {
+                    setSplitPassword(e.currentTarget.value);
+                    setSplitError("");
+                  }}
+                  autoFocus
+                />
+
+                {splitError && <p className="text-xs text-red-400">{splitError}</p>}
+
+                <button
+                  onClick={handleSplit}
+                  disabled={splitLoading || !splitPassword}
+                  className="btn-primary flex items-center justify-center gap-2"
+                >
+                  {splitLoading ? (
+                    <>
+                      <Spinner size="sm" />
+                      Verifying...
+                    </>
+                  ) : (
+                    "Create Shares"
+                  )}
+                </button>
+              </>
+            ) : (
+              <>
+                <div className="flex-1 overflow-y-auto space-y-2">
+                  {splitShares.map((share, i) => (
+                    <div key={i} className="led-panel p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="led-eyebrow">
+                          Share {i + 1} of {splitShares.length}
                         </span>
-                        {isActive && (
-                          <span className="led-text text-[9px] font-extrabold text-surface-950 bg-white px-1.5 py-0.5 rounded-[3px]" style={{ boxShadow: "0 0 6px rgba(255,255,255,0.4)" }}>
-                            ACTIVE
-                          </span>
-                        )}
+                        <button
+                          onClick={() => handleCopyShare(i)}
+                          className="led-text text-[10px] font-bold text-white/55 hover:text-white transition-colors"
+                        >
+                          {copiedShare === i ? "Copied!" : "Copy"}
+                        </button>
                       </div>
-                      <p className="led-text text-[10px] font-medium text-white/55 truncate mt-0.5" style={{ letterSpacing: "0.04em" }}>
-                        {gonkaKey ? `Custom key · ${maskedKey(gonkaKey)}` :
-                         autoKey ? `Auto · ${autoMeta?.tier || "wallet-install"}` :
-                         "Issuing free-tier key — retry from rpc.gonka.gg Key card"}
-                      </p>
+                      <p className="font-mono text-[11px] text-white/80 break-words">{share}</p>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={closeSplit} className="btn-primary">
+                  Done
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+      {/* Change password modal */}
+      {passwordModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal">
+            <div className="flex items-center justify-between">
+              <h3 className="led-title text-base">Change Password</h3>
+              <button
+                onClick={closePasswordModal}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {passwordChanged ? (
+              <>
+                <div className="led-panel p-3.5">
+                  <p className="led-text text-[11px] font-bold text-white/70" style={{ letterSpacing: "0.05em" }}>
+                    ▶ Password changed. Use the new password next time you unlock GG Wallet.
+                    Backups exported earlier still need the old password.
+                  </p>
+                </div>
+                <button onClick={closePasswordModal} className="btn-primary">
+                  Done
+                </button>
+              </>
+            ) : (
+              <>
+                <PasswordInput
+                  label="Current password"
+                  placeholder="Your wallet password"
+                  value={oldPassword}
+                  onChange={(e) => {
+                    setOldPassword(e.currentTarget.value);
+                    setPasswordError("");
+                  }}
+                  autoFocus
+                />
+                <PasswordInput
+                  label="New password"
+                  placeholder="At least 8 characters"
+                  value={newPassword}
+                  onChange={(e) => {
+                    setNewPassword(e.currentTarget.value);
+                    setPasswordError("");
+                  }}
+                />
+                <PasswordInput
+                  label="Confirm new password"
+                  placeholder="Enter new password again"
+                  value={confirmPassword}
+                  onChange={(e) => {
+                    setConfirmPassword(e.currentTarget.value);
+                    setPasswordError("");
+                  }}
+                />
+
+                {passwordError && <p className="text-xs text-red-400">{passwordError}</p>}
+
+                <button
+                  onClick={handleChangePassword}
+                  disabled={passwordLoading || !oldPassword || !newPassword || !confirmPassword}
+                  className="btn-primary flex items-center justify-center gap-2"
+                >
+                  {passwordLoading ? (
+                    <>
+                      <Spinner size="sm" />
+                      Re-encrypting...
+                    </>
+                  ) : (
+                    "Change Password"
+                  )}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+      {/* Password group modal */}
+      {groupModal && activeWallet && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal">
+            <div className="flex items-center justify-between">
+              <h3 className="led-title text-base">Separate Password</h3>
+              <button
+                onClick={closeGroupModal}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="led-panel p-3.5">
+              <p className="led-text text-[11px] font-medium text-white/70" style={{ letterSpacing: "0.05em" }}>
+                Wallets in a group are encrypted with the group&apos;s own password and stay locked
+                until you switch to one of them. Accounts derived from this wallet move with it.
+              </p>
+            </div>
+
+            {activeWallet.group && (
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => handleSetGroup(null)}
+                  disabled={groupLoading}
+                  className="btn-secondary !py-2 text-xs"
+                >
+                  Use main password
+                </button>
+                <button onClick={handleLockGroup} disabled={groupLoading} className="btn-secondary !py-2 text-xs">
+                  Lock group now
+                </button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-surface-300">
+                {activeWallet.group ? "Move to group" : "Group name"}
+              </label>
+              <input
+                className="input-field"
+                list="gg-wallet-groups"
+                placeholder="e.g. Treasury"
+                value={groupName}
+                onChange={(e) => {
+                  setGroupName(e.target.value);
+                  setGroupError("");
+                }}
+                autoFocus
+              />
+              <datalist id="gg-wallet-groups">
+                {existingGroups
+                  .filter((g) => g !== activeWallet.group)
+                  .map((g) => (
+                    <option key={g} value={g} />
+                  ))}
+              </datalist>
+            </div>
+            <PasswordInput
+              label={joiningGroup ? "Group password" : "New group password"}
+              placeholder={joiningGroup ? "Password of this group" : "At least 8 characters"}
+              value={groupPassword}
+              onChange={(e) => {
+                setGroupPassword(e.currentTarget.value);
+                setGroupError("");
+              }}
+            />
+            {!joiningGroup && (
+              <PasswordInput
+                label="Confirm group password"
+                placeholder="Enter the password again"
+                value={groupConfirm}
+                onChange={(e) => {
+                  setGroupConfirm(e.currentTarget.value);
+                  setGroupError("");
+                }}
+              />
+            )}
+
+            {groupError && <p className="text-xs text-red-400">{groupError}</p>}
+
+            <button
+              onClick={() => handleSetGroup(groupName.trim())}
+              disabled={groupLoading || !groupName.trim() || !groupPassword}
+              className="btn-primary flex items-center justify-center gap-2"
+            >
+              {groupLoading ? (
+                <>
+                  <Spinner size="sm" />
+                  Re-encrypting...
+                </>
+              ) : joiningGroup ? (
+                "Move to Group"
+              ) : (
+                "Create Group"
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+      {/* Security audit log modal */}
+      {auditModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal max-h-[85%] flex flex-col">
+            <div className="flex items-center justify-between">
+              <h3 className="led-title text-base">Security Log</h3>
+              <button
+                onClick={() => setAuditModal(false)}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {auditEntries.length === 0 ? (
+              <p className="led-text text-[11px] font-extrabold text-white/55 text-center py-8">
+                No security events recorded yet
+              </p>
+            ) : (
+              <div className="overflow-y-auto flex-1 -mx-1 px-1 space-y-1.5">
+                {[...auditEntries].reverse().map((entry) => (
+                  <div
+                    key={entry.seq}
+                    className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.08] space-y-0.5"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p
+                        className={`led-text text-[11px] font-extrabold truncate ${
+                          entry.type === "unlock_failed" ||
+                          entry.type === "request_rejected" ||
+                          entry.type === "phishing_override"
+                            ? "text-red-400"
+                            : "text-white"
+                        }`}
+                      >
+                        {AUDIT_EVENT_LABELS[entry.type] ?? entry.type}
+                      </p>
+                      <span className="led-text text-[9px] font-medium text-white/30 shrink-0 tabular-nums">
+                        {new Date(entry.at).toLocaleString()}
+                      </span>
+                    </div>
+                    {(entry.origin || entry.detail) && (
+                      <p className="led-text text-[10px] font-medium text-white/45 truncate" style={{ letterSpacing: "0.04em" }}>
+                        {[entry.origin, entry.detail].filter(Boolean).join(" · ")}
+                      </p>
+                    )}
+                    {entry.address && (
+                      <p className="led-text text-[9px] font-medium text-white/30">
+                        {truncateAddress(entry.address, 10, 6)}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {auditEntries.length > 0 && auditEntries[0].seq > 1 && (
+              <p className="led-text text-[10px] font-medium text-white/30 text-center">
+                {auditEntries[0].seq - 1} older event{auditEntries[0].seq > 2 ? "s" : ""} rotated out
+              </p>
+            )}
+
+            <button
+              onClick={handleExportAuditLog}
+              disabled={auditEntries.length === 0}
+              className="btn-secondary"
+            >
+              Export Log
+            </button>
+          </div>
+        </div>
+      )}
+      {/* Backup export modal */}
+      {backupModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal">
+            <div className="flex items-center justify-between">
+              <h3 className="led-title text-base">Export Backup</h3>
+              <button
+                onClick={closeBackup}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="led-panel p-3.5">
+              <p className="led-text text-[11px] font-medium text-white/70" style={{ letterSpacing: "0.05em" }}>
+                The backup holds every wallet, your address book, connected sites and RPC
+                settings, encrypted with your wallet password. You'll need the same password
+                to restore it.
+              </p>
+            </div>
+
+            <PasswordInput
+              label="Enter password to continue"
+              placeholder="Your wallet password"
+              value={backupPassword}
+              onChange={(e) => {
+                setBackupPassword(e.currentTarget.value);
+                setBackupError("");
+              }}
+              autoFocus
+            />
+
+            {backupError && <p className="text-xs text-red-400">{backupError}</p>}
+
+            <button
+              onClick={handleExportBackup}
+              disabled={backupLoading || !backupPassword}
+              className="btn-primary flex items-center justify-center gap-2"
+            >
+              {backupLoading ? (
+                <>
+                  <Spinner size="sm" />
+                  Encrypting...
+                </>
+              ) : (
+                "Download Backup"
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+      {/* RPC modal */}
+      {rpcModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal max-h-[85%] flex flex-col">
+            <div className="flex items-center justify-between">
+              <h3 className="led-title text-base">RPC Endpoint</h3>
+              <button
+                onClick={() => setRpcModal(false)}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="overflow-y-auto flex-1 -mx-1 px-1 space-y-3">
+              {/* rpc.gonka.gg — default */}
+              {(() => {
+                const isActive = providerPref === "gonka";
+                const hasKey = !!(gonkaKey || autoKey);
+                return (
+                  <button
+                    onClick={() => handleSetProviderPref("gonka")}
+                    disabled={rpcSaving || !hasKey}
+                    className={`flex items-center gap-3 w-full p-3 rounded-xl text-left transition-all duration-200 border ${
+                      isActive
+                        ? "bg-white/[0.06] border-white/30"
+                        : "bg-transparent border-white/10 hover:border-white/25 hover:bg-white/[0.03]"
+                    } ${!hasKey ? "opacity-60" : ""}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <p className="led-text text-[12px] font-extrabold text-white truncate">
+                          rpc.gonka.gg
+                        </p>
+                        <span className="led-text text-[9px] font-extrabold text-white/65 border border-white/15 px-1.5 py-0.5 rounded-[3px]">
+                          DEFAULT
+                        </span>
+                        {isActive && (
+                          <span className="led-text text-[9px] font-extrabold text-surface-950 bg-white px-1.5 py-0.5 rounded-[3px]" style={{ boxShadow: "0 0 6px rgba(255,255,255,0.4)" }}>
+                            ACTIVE
+                          </span>
+                        )}
+                      </div>
+                      <p className="led-text text-[10px] font-medium text-white/55 truncate mt-0.5" style={{ letterSpacing: "0.04em" }}>
+                        {gonkaKey ? `Custom key · ${maskedKey(gonkaKey)}` :
+                         autoKey ? `Auto · ${autoMeta?.tier || "wallet-install"}` :
+                         "Issuing free-tier key — retry from rpc.gonka.gg Key card"}
+                      </p>
                     </div>
                     <div className="led-text text-[10px] font-extrabold tabular-nums text-white/65 shrink-0">
                       ~100×
@@ -1416,8 +2422,47 @@ export default function Settings() {
                         </p>
                         <p className="led-text text-[9px] font-medium text-white/30">
                           Connected {new Date(site.connectedAt).toLocaleDateString()}
+                          {site.expiresAt !== undefined &&
+                            (isSiteExpired(site)
+                              ? " · Expired"
+                              : ` · Expires ${new Date(site.expiresAt).toLocaleString()}`)}
                         </p>
+                        {(site.permissions || site.wallets) && (
+                          <p className="led-text text-[9px] font-medium text-yellow-300/70 truncate">
+                            {sitePermissions(site).map((p) => SITE_PERMISSION_LABELS[p]).join(", ") || "No permissions"}
+                            {site.wallets && ` · ${site.wallets.length} wallet${site.wallets.length !== 1 ? "s" : ""}`}
+                          </p>
+                        )}
+                        {site.trustBroadcasts && (
+                          <p className="led-text text-[9px] font-medium text-yellow-300/70 truncate">
+                            Broadcasts without asking
+                          </p>
+                        )}
+                        {autoRules[site.origin] && (
+                          <p className="led-text text-[9px] font-medium text-gonka-400 truncate">
+                            Auto-approves {autoRules[site.origin].messageTypes.map((t) => t.split(".").pop()).join(", ")}
+                            {" · "}
+                            <button
+                              onClick={() => handleRevokeRule(site.origin)}
+                              className="text-red-400 hover:text-red-300 transition-colors"
+                            >
+                              Revoke
+                            </button>
+                          </p>
+                        )}
                       </div>
+                      <button
+                        onClick={() => openSiteEditor(site)}
+                        className="led-text shrink-0 px-2.5 py-1.5 text-[10px] font-extrabold text-white/70 border border-white/15 hover:border-white/35 hover:text-white rounded-md transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => openRuleEditor(site)}
+                        className="led-text shrink-0 px-2.5 py-1.5 text-[10px] font-extrabold text-white/70 border border-white/15 hover:border-white/35 hover:text-white rounded-md transition-colors"
+                      >
+                        Rules
+                      </button>
                       <button
                         onClick={() => handleDisconnectSite(site.origin)}
                         className="led-text shrink-0 px-2.5 py-1.5 text-[10px] font-extrabold text-red-400 border border-red-500/30 hover:border-red-500/60 hover:bg-red-500/10 rounded-md transition-colors"
@@ -1448,6 +2493,464 @@ export default function Settings() {
           </div>
         </div>
       )}
+
+      {/* Site permissions modal */}
+      {editSite && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal max-h-[85%] flex flex-col">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <h3 className="led-title text-base">Site Permissions</h3>
+                <p className="led-text text-[10px] font-medium text-white/45 truncate">{editSite.origin}</p>
+              </div>
+              <button
+                onClick={() => setEditSite(null)}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="overflow-y-auto flex-1 -mx-1 px-1 space-y-4">
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Allowed</p>
+                {ALL_SITE_PERMISSIONS.map((perm) => (
+                  <label key={perm} className="flex items-center gap-2.5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={editPermissions.includes(perm)}
+                      onChange={(e) =>
+                        setEditPermissions((prev) =>
+                          e.target.checked ? [...prev, perm] : prev.filter((p) => p !== perm)
+                        )
+                      }
+                      className="rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
+                    />
+                    <span className="text-xs text-surface-300">{SITE_PERMISSION_LABELS[perm]}</span>
+                  </label>
+                ))}
+                {editPermissions.includes("broadcast") && (
+                  <label className="flex items-start gap-2.5 cursor-pointer ml-4">
+                    <input
+                      type="checkbox"
+                      checked={editTrustBroadcasts}
+                      onChange={(e) => setEditTrustBroadcasts(e.target.checked)}
+                      className="mt-0.5 rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
+                    />
+                    <span className="text-xs text-surface-300">
+                      Broadcast without asking
+                      <span className="block text-[10px] text-surface-500">
+                        Otherwise you confirm broadcasts that move funds or that this wallet didn't sign
+                      </span>
+                    </span>
+                  </label>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Expires</p>
+                <p className="led-text text-[10px] font-medium text-white/35 normal-case" style={{ textTransform: "none", letterSpacing: "0.01em" }}>
+                  {editSite.expiresAt === undefined
+                    ? "Currently never expires."
+                    : isSiteExpired(editSite)
+                      ? "Currently expired — the site must connect again."
+                      : `Currently expires ${new Date(editSite.expiresAt).toLocaleString()}.`}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {SITE_EXPIRY_OPTIONS.map(({ label, ms }) => {
+                    const active =
+                      editExpiryMs === ms || (editExpiryMs === null && ms === 0 && editSite.expiresAt === undefined);
+                    return (
+                      <button
+                        key={label}
+                        onClick={() => setEditExpiryMs(ms)}
+                        className={`led-text px-3.5 py-1.5 text-[10px] font-extrabold rounded-md border transition-all duration-200 ${
+                          active
+                            ? "bg-white text-surface-950 border-white"
+                            : "bg-transparent text-white/55 border-white/15 hover:border-white/35 hover:text-white"
+                        }`}
+                        style={active ? { boxShadow: "0 0 12px -2px rgba(255,255,255,0.4)" } : undefined}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Visible wallets</p>
+                <label className="flex items-center gap-2.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={editWallets === null}
+                    onChange={(e) => setEditWallets(e.target.checked ? null : wallets.map((w) => w.address))}
+                    className="rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
+                  />
+                  <span className="text-xs text-surface-300">All wallets, including ones added later</span>
+                </label>
+                {editWallets !== null &&
+                  wallets.map((w) => (
+                    <label key={w.address} className="flex items-center gap-2.5 cursor-pointer ml-4">
+                      <input
+                        type="checkbox"
+                        checked={editWallets.includes(w.address)}
+                        onChange={(e) =>
+                          setEditWallets((prev) =>
+                            e.target.checked
+                              ? [...(prev ?? []), w.address]
+                              : (prev ?? []).filter((a) => a !== w.address)
+                          )
+                        }
+                        className="rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
+                      />
+                      <span className="text-xs text-surface-300 truncate">
+                        {w.name} <span className="text-surface-500 font-mono">{truncateAddress(w.address)}</span>
+                      </span>
+                    </label>
+                  ))}
+              </div>
+            </div>
+
+            {editSiteError && <p className="text-xs text-red-400">{editSiteError}</p>}
+
+            <button onClick={handleSaveSitePermissions} className="btn-primary">
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Auto-approval rule modal */}
+      {ruleSite && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal max-h-[85%] flex flex-col">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <h3 className="led-title text-base">Auto-approval</h3>
+                <p className="led-text text-[10px] font-medium text-white/45 truncate">{ruleSite.origin}</p>
+              </div>
+              <button
+                onClick={() => setRuleSite(null)}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="overflow-y-auto flex-1 -mx-1 px-1 space-y-4">
+              <p className="led-text text-[10px] font-medium text-white/35" style={{ textTransform: "none", letterSpacing: "0.01em" }}>
+                Sign requests from this site that match every limit below are signed without asking. Anything else
+                still opens the approval window.
+              </p>
+
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Message types</p>
+                {COMMON_AUTO_APPROVAL_TYPES.map(({ typeUrl, label }) => (
+                  <label key={typeUrl} className="flex items-center gap-2.5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={ruleTypes.includes(typeUrl)}
+                      onChange={(e) =>
+                        setRuleTypes((prev) => (e.target.checked ? [...prev, typeUrl] : prev.filter((t) => t !== typeUrl)))
+                      }
+                      className="rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
+                    />
+                    <span className="text-xs text-surface-300">{label}</span>
+                  </label>
+                ))}
+                <textarea
+                  value={ruleOtherTypes}
+                  onChange={(e) => setRuleOtherTypes(e.target.value)}
+                  placeholder="Other type URLs, one per line"
+                  rows={2}
+                  className="input-field font-mono text-xs"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Allowed contracts</p>
+                <textarea
+                  value={ruleContracts}
+                  onChange={(e) => setRuleContracts(e.target.value)}
+                  placeholder="gonka1... one per line (required for contract calls)"
+                  rows={2}
+                  className="input-field font-mono text-xs"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Spend limits (GNK, including fees)</p>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={ruleMaxTx}
+                    onChange={(e) => setRuleMaxTx(e.target.value)}
+                    placeholder="Per transaction"
+                    className="input-field text-xs"
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={ruleMaxDay}
+                    onChange={(e) => setRuleMaxDay(e.target.value)}
+                    placeholder="Per day"
+                    className="input-field text-xs"
+                  />
+                </div>
+                <p className="led-text text-[10px] font-medium text-white/35" style={{ textTransform: "none", letterSpacing: "0.01em" }}>
+                  Without a per-transaction limit, only requests that spend nothing (not even a fee) qualify.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Hours</p>
+                <label className="flex items-center gap-2.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={ruleHours === null}
+                    onChange={(e) => setRuleHours(e.target.checked ? null : { start: 9, end: 18 })}
+                    className="rounded border-surface-600 bg-surface-800 text-gonka-500 focus:ring-gonka-500"
+                  />
+                  <span className="text-xs text-surface-300">Any time</span>
+                </label>
+                {ruleHours && (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={ruleHours.start}
+                      onChange={(e) => setRuleHours({ ...ruleHours, start: Number(e.target.value) })}
+                      className="input-field text-xs"
+                    >
+                      {Array.from({ length: 24 }, (_, h) => (
+                            <option key={h} value={h}>
+                              {String(h).padStart(2, "0")}:00
+                            </option>
+                          ))}
+                    </select>
+                    <span className="text-xs text-surface-400">to</span>
+                    <select
+                      value={ruleHours.end}
+                      onChange={(e) => setRuleHours({ ...ruleHours, end: Number(e.target.value) })}
+                      className="input-field text-xs"
+                    >
+                      {Array.from({ length: 24 }, (_, h) => (
+                            <option key={h} value={h}>
+                              {String(h).padStart(2, "0")}:00
+                            </option>
+                          ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="led-text text-[11px] font-bold text-white/70">Expires</p>
+                {autoRules[ruleSite.origin]?.expiresAt !== undefined && (
+                  <p className="led-text text-[10px] font-medium text-white/35" style={{ textTransform: "none", letterSpacing: "0.01em" }}>
+                    Currently expires {new Date(autoRules[ruleSite.origin].expiresAt!).toLocaleString()}.
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {SITE_EXPIRY_OPTIONS.map(({ label, ms }) => {
+                    const active = ruleExpiryMs === ms;
+                    return (
+                      <button
+                        key={label}
+                        onClick={() => setRuleExpiryMs(ms)}
+                        className={`led-text px-3.5 py-1.5 text-[10px] font-extrabold rounded-md border transition-all duration-200 ${
+                          active
+                            ? "bg-white text-surface-950 border-white"
+                            : "bg-transparent text-white/55 border-white/15 hover:border-white/35 hover:text-white"
+                        }`}
+                        style={active ? { boxShadow: "0 0 12px -2px rgba(255,255,255,0.4)" } : undefined}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {ruleHistory.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="led-text text-[11px] font-bold text-white/70">Recent auto-approvals</p>
+                  {ruleHistory.map((entry) => (
+                    <p key={entry.seq} className="led-text text-[10px] font-medium text-white/45 truncate">
+                      {new Date(entry.at).toLocaleString()} · {entry.detail}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {ruleError && <p className="text-xs text-red-400">{ruleError}</p>}
+
+            <div className="flex gap-2">
+              {autoRules[ruleSite.origin] && (
+                <button
+                  onClick={() => handleRevokeRule(ruleSite.origin)}
+                  className="led-text flex-1 py-2.5 text-[10px] font-extrabold text-red-400 border border-red-500/30 hover:border-red-500/60 hover:bg-red-500/10 rounded-md transition-colors"
+                >
+                  Revoke
+                </button>
+              )}
+              <button onClick={handleSaveRule} className="btn-primary flex-1">
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Suggested chains modal */}
+      {chainsModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal max-h-[85%] flex flex-col">
+            <div className="flex items-center justify-between">
+              <h3 className="led-title text-base">Suggested Chains</h3>
+              <button
+                onClick={() => setChainsModal(false)}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {suggestedChains.length === 0 ? (
+              <div className="text-center py-8 space-y-2">
+                <p className="led-text text-[11px] font-extrabold text-white/55">No suggested chains</p>
+                <p className="led-text text-[10px] font-medium text-white/30" style={{ letterSpacing: "0.04em" }}>
+                  Chains that sites add with your approval will appear here
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-y-auto flex-1 -mx-1 px-1 space-y-1.5">
+                {suggestedChains.map((chain) => (
+                  <div
+                    key={chain.chainId}
+                    className="flex items-center gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.08]"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="led-text text-[12px] font-extrabold text-white truncate">
+                        {chain.chainName}
+                      </p>
+                      <p className="led-text text-[10px] font-medium text-white/45 truncate" style={{ letterSpacing: "0.04em" }}>
+                        {chain.chainId} · {chain.bech32Config?.bech32PrefixAccAddr}
+                      </p>
+                      <p className="led-text text-[9px] font-medium text-white/30 truncate">
+                        {endpointHost(chain.rpc)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveChain(chain)}
+                      className="led-text shrink-0 px-2.5 py-1.5 text-[10px] font-extrabold text-red-400 border border-red-500/30 hover:border-red-500/60 hover:bg-red-500/10 rounded-md transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Phishing protection modal */}
+      {phishingModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-end z-50 animate-fade-in">
+          <div className="w-full led-display border-t border-white/[0.08] rounded-t-3xl p-5 space-y-4 animate-slide-up shadow-modal max-h-[85%] flex flex-col">
+            <div className="flex items-center justify-between">
+              <h3 className="led-title text-base">Phishing Protection</h3>
+              <button
+                onClick={() => setPhishingModal(false)}
+                className="p-1.5 hover:bg-white/5 rounded-xl transition-colors"
+              >
+                <svg className="w-5 h-5 text-surface-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <p className="led-text text-[10px] font-medium text-white/45" style={{ letterSpacing: "0.04em" }}>
+              Blocked sites can't reach your wallet. Sites that look like a known Gonka app get a warning
+              unless you allow them. Entries cover subdomains too.
+            </p>
+
+            <div className="flex gap-2">
+              {(["blocked", "allowed"] as const).map((list) => (
+                <button
+                  key={list}
+                  onClick={() => setOriginListTarget(list)}
+                  className={`led-text flex-1 py-1.5 text-[10px] font-extrabold rounded-md border transition-all duration-200 ${
+                    originListTarget === list
+                      ? "bg-white text-surface-950 border-white"
+                      : "bg-transparent text-white/55 border-white/15 hover:border-white/35 hover:text-white"
+                  }`}
+                  style={
+                    originListTarget === list
+                      ? { boxShadow: "0 0 12px -2px rgba(255,255,255,0.4)" }
+                      : undefined
+                  }
+                >
+                  {list === "blocked" ? "Blocklist" : "Allowlist"} ({originLists[list].length})
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                className="input-field text-xs py-2.5 flex-1"
+                placeholder="app.example.com"
+                value={originListEntry}
+                onChange={(e) => setOriginListEntry(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && originListEntry.trim()) {
+                    changeOriginList(originListTarget, originListEntry, "add");
+                  }
+                }}
+              />
+              <button
+                onClick={() => changeOriginList(originListTarget, originListEntry, "add")}
+                disabled={!originListEntry.trim()}
+                className="led-text px-3 py-1.5 text-[10px] font-extrabold bg-white text-surface-950 rounded-xl transition-colors hover:bg-white/90 disabled:opacity-40"
+              >
+                {originListTarget === "blocked" ? "Block" : "Allow"}
+              </button>
+            </div>
+            {originListError && <p className="text-xs text-red-400">{originListError}</p>}
+
+            {originLists[originListTarget].length === 0 ? (
+              <p className="led-text text-[11px] font-extrabold text-white/55 text-center py-6">
+                {originListTarget === "blocked" ? "No blocked sites" : "No allowed sites"}
+              </p>
+            ) : (
+              <div className="overflow-y-auto flex-1 -mx-1 px-1 space-y-1.5">
+                {originLists[originListTarget].map((host) => (
+                  <div
+                    key={host}
+                    className="flex items-center gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.08]"
+                  >
+                    <p className="led-text flex-1 min-w-0 text-[12px] font-extrabold text-white truncate">{host}</p>
+                    <button
+                      onClick={() => changeOriginList(originListTarget, host, "remove")}
+                      className="led-text shrink-0 px-2.5 py-1.5 text-[10px] font-extrabold text-red-400 border border-red-500/30 hover:border-red-500/60 hover:bg-red-500/10 rounded-md transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </Layout>
   );
 }
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useWalletStore } from "@/popup/store";
+import { sendMessage } from "@/lib/messaging";
+import { toSignDataBytes, verifyAdr036, type Adr036Signature } from "@/lib/adr036";
+import Layout from "@/popup/components/Layout";
+import Spinner from "@/popup/components/Spinner";
+
+type Mode = "sign" | "verify";
+
+interface SignedMessage {
+  signer: string;
+  message: string;
+  pub_key: Adr036Signature["pub_key"];
+  signature: string;
+}
+
+export default function SignMessage() {
+  const { isViewOnly } = useWalletStore();
+  const [mode, setMode] = useState<Mode>("sign");
+
+  // Sign
+  const [message, setMessage] = useState("");
+  const [signing, setSigning] = useState(false);
+  const [signed, setSigned] = useState<SignedMessage | null>(null);
+  const [signError, setSignError] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  // Verify
+  const [verifyMessage, setVerifyMessage] = useState("");
+  const [verifySigner, setVerifySigner] = useState("");
+  const [verifyPubKey, setVerifyPubKey] = useState("");
+  const [verifySignature, setVerifySignature] = useState("");
+  const [verifyResult, setVerifyResult] = useState<{ valid: boolean; reason?: string } | null>(null);
+
+  const handleSign = async () => {
+    setSigning(true);
+    setSignError("");
+    setSigned(null);
+    try {
+      const resp = await sendMessage({ type: "SIGN_MESSAGE", message });
+      if (!resp.success) {
+        setSignError(resp.error || "Signing failed");
+        return;
+      }
+      setSigned({ signer: resp.signer, message, pub_key: resp.pub_key, signature: resp.signature });
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!signed) return;
+    navigator.clipboard.writeText(JSON.stringify(signed, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Pasting the JSON copied from the Sign tab fills every field at once
+  const handleVerifyMessageChange = (value: string) => {
+    setVerifyResult(null);
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed.message === "string" && parsed.signer && parsed.pub_key?.value && parsed.signature) {
+        setVerifyMessage(parsed.message);
+        setVerifySigner(parsed.signer);
+        setVerifyPubKey(parsed.pub_key.value);
+        setVerifySignature(parsed.signature);
+        return;
+      }
+    } catch {
+      // plain message text
+    }
+    setVerifyMessage(value);
+  };
+
+  const handleVerify = async () => {
+    const reason = await verifyAdr036(verifySigner.trim(), toSignDataBytes(verifyMessage), {
+      pub_key: { type: "tendermint/PubKeySecp256k1", value: verifyPubKey.trim() },
+      signature: verifySignature.trim(),
+    });
+    setVerifyResult(reason === null ? { valid: true } : { valid: false, reason });
+  };
+
+  return (
+    <Layout title="Sign Message" showBack showNav={false}>
+      <div className="px-4 py-4 space-y-4">
+        <div className="flex gap-2">
+          {(["sign", "verify"] as Mode[]).map((m) => {
+            const active = mode === m;
+            return (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`led-text flex-1 py-1.5 text-[10px] font-extrabold rounded-md border transition-all duration-200 ${
+                  active
+                    ? "bg-white text-surface-950 border-white"
+                    : "bg-transparent text-white/55 border-white/15 hover:border-white/35 hover:text-white"
+                }`}
+                style={active ? { boxShadow: "0 0 12px -2px rgba(255,255,255,0.4)" } : undefined}
+              >
+                {m === "sign" ? "Sign" : "Verify"}
+              </button>
+            );
+          })}
+        </div>
+
+        <p className="led-text text-[10px] font-medium text-white/40" style={{ letterSpacing: "0.04em" }}>
+          Messages are signed with ADR-036, the same format dApps use with signArbitrary. A signed message proves
+          you control an address; it can't be used as a transaction.
+        </p>
+
+        {mode === "sign" ? (
+          <>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-surface-300">Message</label>
+              <textarea
+                value={message}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  setSigned(null);
+                }}
+                rows={5}
+                placeholder="Text to sign"
+                className="input-field text-sm"
+              />
+            </div>
+
+            {signError && <p className="text-xs text-red-400">{signError}</p>}
+
+            <button
+              onClick={handleSign}
+              disabled={!message || signing || isViewOnly}
+              className="btn-primary flex items-center justify-center gap-2"
+            >
+              {signing ? <Spinner size="sm" /> : isViewOnly ? "Watch-only wallets can't sign" : "Sign"}
+            </button>
+
+            {signed && (
+              <div className="card space-y-3">
+                <div>
+                  <span className="text-xs text-surface-500">Signer</span>
+                  <p className="text-xs font-mono text-surface-300 break-all mt-0.5">{signed.signer}</p>
+                </div>
+                <div className="border-t border-white/[0.04]" />
+                <div>
+                  <span className="text-xs text-surface-500">Public key</span>
+                  <p className="text-xs font-mono text-surface-300 break-all mt-0.5">{signed.pub_key.value}</p>
+                </div>
+                <div className="border-t border-white/[0.04]" />
+                <div>
+                  <span className="text-xs text-surface-500">Signature</span>
+                  <p className="text-xs font-mono text-surface-300 break-all mt-0.5">{signed.signature}</p>
+                </div>
+                <button onClick={handleCopy} className="btn-secondary w-full">
+                  {copied ? "Copied!" : "Copy as JSON"}
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-surface-300">Message</label>
+              <textarea
+                value={verifyMessage}
+                onChange={(e) => handleVerifyMessageChange(e.target.value)}
+                rows={4}
+                placeholder="Signed text, or paste the JSON from Sign"
+                className="input-field text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-surface-300">Signer address</label>
+              <input
+                value={verifySigner}
+                onChange={(e) => {
+                  setVerifySigner(e.target.value);
+                  setVerifyResult(null);
+                }}
+                placeholder="gonka1..."
+                className="input-field font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-surface-300">Public key (base64)</label>
+              <input
+                value={verifyPubKey}
+                onChange={(e) => {
+                  setVerifyPubKey(e.target.value);
+                  setVerifyResult(null);
+                }}
+                className="input-field font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-surface-300">Signature (base64)</label>
+              <input
+                value={verifySignature}
+                onChange={(e) => {
+                  setVerifySignature(e.target.value);
+                  setVerifyResult(null);
+                }}
+                className="input-field font-mono text-xs"
+              />
+            </div>
+
+            {verifyResult &&
+              (verifyResult.valid ? (
+                <p className="text-xs text-green-400">Valid — this address signed the message.</p>
+              ) : (
+                <p className="text-xs text-red-400">Invalid — {verifyResult.reason}</p>
+              ))}
+
+            <button
+              onClick={handleVerify}
+              disabled={!verifySigner || !verifyPubKey || !verifySignature}
+              className="btn-primary"
+            >
+              Verify
+            </button>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,10 +1,12 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { useWalletStore } from "@/popup/store";
 import { sendMessage } from "@/lib/messaging";
 import { queryValidators, queryDelegations, queryRewards } from "@/lib/cosmos";
 import { toMinimal, toDisplay, formatCompact, truncateAddress } from "@/lib/format";
 import { GONKA_DISPLAY_DENOM } from "@/lib/gonka";
+import type { TxOptions } from "@/lib/tx-options";
 import Layout from "@/popup/components/Layout";
+import FeeReview from "@/popup/components/FeeReview";
 import StakingCard from "@/popup/components/StakingCard";
 import Spinner from "@/popup/components/Spinner";
 
@@ -33,6 +35,8 @@ export default function Staking() {
   const [stakeLoading, setStakeLoading] = useState(false);
   const [stakeError, setStakeError] = useState("");
   const [stakeSuccess, setStakeSuccess] = useState("");
+  const [stakeReview, setStakeReview] = useState(false);
+  const [stakeTxOptions, setStakeTxOptions] = useState<TxOptions | null>(null);
 
   const loadStakingData = useCallback(async () => {
     if (!address) return;
@@ -117,21 +121,34 @@ export default function Staking() {
     }
   };
 
+  const stakeAction = useMemo(
+    () =>
+      selectedValidator && stakeAmount
+        ? {
+            type: modal === "delegate" ? "DELEGATE" : "UNDELEGATE",
+            validator: selectedValidator.operatorAddress,
+            amount: toMinimal(stakeAmount),
+          }
+        : null,
+    [selectedValidator, stakeAmount, modal]
+  );
+
+  const handleReviewStake = () => {
+    if (!stakeAction || BigInt(stakeAction.amount) <= 0n) {
+      setStakeError("Enter a valid amount");
+      return;
+    }
+    setStakeReview(true);
+  };
+
   const handleStake = async () => {
-    if (!selectedValidator || !stakeAmount) return;
+    if (!stakeAction || !stakeTxOptions) return;
     setStakeLoading(true);
     setStakeError("");
     setStakeSuccess("");
 
     try {
-      const minAmount = toMinimal(stakeAmount);
-      const msgType = modal === "delegate" ? "DELEGATE" : "UNDELEGATE";
-
-      const resp = await sendMessage({
-        type: msgType,
-        validator: selectedValidator.operatorAddress,
-        amount: minAmount,
-      });
+      const resp = await sendMessage({ ...stakeAction, txOptions: stakeTxOptions });
 
       if (resp.success) {
         setStakeSuccess(`Transaction successful!`);
@@ -141,6 +158,7 @@ export default function Staking() {
           setModal(null);
           setStakeAmount("");
           setStakeSuccess("");
+          setStakeReview(false);
         }, 2000);
       } else {
         setStakeError(resp.error || "Transaction failed");
@@ -203,6 +221,7 @@ export default function Staking() {
                           setStakeAmount("");
                           setStakeError("");
                           setStakeSuccess("");
+                          setStakeReview(false);
                         }}
                         className="flex-1 py-2 text-xs font-semibold bg-gonka-500/10 hover:bg-gonka-500/15 text-gonka-400 border border-gonka-500/[0.15] hover:border-gonka-500/25 rounded-xl transition-all duration-200 active:scale-[0.97]"
                       >
@@ -216,6 +235,7 @@ export default function Staking() {
                             setStakeAmount("");
                             setStakeError("");
                             setStakeSuccess("");
+                            setStakeReview(false);
                           }}
                           className="flex-1 py-2 text-xs font-semibold bg-white/[0.04] hover:bg-white/[0.06] text-surface-300 rounded-xl transition-all duration-200 active:scale-[0.97]"
                         >
@@ -267,6 +287,7 @@ export default function Staking() {
                 <label className="text-sm font-medium text-surface-300">Amount</label>
                 <button
                   onClick={() => {
+                    setStakeReview(false);
                     if (modal === "delegate") {
                       setStakeAmount(toDisplay(balance));
                     } else {
@@ -290,6 +311,7 @@ export default function Staking() {
                   onChange={(e) => {
                     setStakeAmount(e.target.value.replace(/[^0-9.]/g, ""));
                     setStakeError("");
+                    setStakeReview(false);
                   }}
                   autoFocus
                 />
@@ -299,12 +321,14 @@ export default function Staking() {
               </div>
             </div>
 
+            {stakeReview && stakeAction && <FeeReview action={stakeAction} onChange={setStakeTxOptions} />}
+
             {stakeError && <p className="text-xs text-red-400">{stakeError}</p>}
             {stakeSuccess && <p className="text-xs text-gonka-400">{stakeSuccess}</p>}
 
             <button
-              onClick={handleStake}
-              disabled={stakeLoading || !stakeAmount}
+              onClick={stakeReview ? handleStake : handleReviewStake}
+              disabled={stakeLoading || !stakeAmount || (stakeReview && !stakeTxOptions)}
               className="btn-primary flex items-center justify-center gap-2"
             >
               {stakeLoading ? (
@@ -312,6 +336,8 @@ export default function Staking() {
                   <Spinner size="sm" />
                   Processing...
                 </>
+              ) : !stakeReview ? (
+                "Review"
               ) : modal === "delegate" ? (
                 "Delegate"
               ) : (
@@ -20,6 +20,18 @@ export default function Unlock() {
   const [loading, setLoading] = useState(false);
   const [unlockOrigin, setUnlockOrigin] = useState("");
   const [unlockMethod, setUnlockMethod] = useState("");
+  // Brute-force backoff, enforced by the background; mirrored here for the countdown
+  const [retryAt, setRetryAt] = useState(0);
+  const [reloadRequired, setReloadRequired] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const refreshGuard = async () => {
+    const guard = await sendMessage({ type: "GET_UNLOCK_GUARD" }).catch(() => null);
+    if (!guard) return;
+    setRetryAt(Date.now() + (guard.retryAfterMs ?? 0));
+    setReloadRequired(!!guard.reloadRequired);
+    setNow(Date.now());
+  };
 
   // Fetch the pending unlock context from the background so we can
   // show which dApp triggered the unlock request.
@@ -32,8 +44,18 @@ export default function Unlock() {
         }
       })
       .catch(() => {});
+    refreshGuard();
   }, []);
 
+  const waitSeconds = Math.max(0, Math.ceil((retryAt - now) / 1000));
+  const waiting = waitSeconds > 0;
+
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
   let originHostname = "";
   if (unlockOrigin) {
     try { originHostname = new URL(unlockOrigin).hostname; } catch { originHostname = unlockOrigin; }
@@ -42,7 +64,7 @@ export default function Unlock() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!password) return;
+    if (!password || waiting || reloadRequired) return;
 
     setLoading(true);
     setError("");
@@ -51,6 +73,7 @@ export default function Unlock() {
       const ok = await unlock(password);
       if (!ok) {
         setError("Wrong password");
+        await refreshGuard();
       } else if (unlockOrigin) {
         // Opened by a dApp request — close this window, the dApp will proceed
         window.close();
@@ -114,13 +137,37 @@ export default function Unlock() {
             autoFocus
           />
 
-          {error && (
+          {error && !reloadRequired && !waiting && (
             <p className="led-text text-[10px] font-bold text-red-400 text-center">{error}</p>
           )}
+          {reloadRequired ? (
+            <p className="led-text text-[10px] font-bold text-red-400 text-center">
+              Too many failed attempts. Reload the extension to try again.
+            </p>
+          ) : (
+            waiting && (
+              <p className="led-text text-[10px] font-bold text-red-400 text-center tabular-nums">
+                Too many failed attempts. Try again in{" "}
+                {waitSeconds >= 60
+                  ? `${Math.floor(waitSeconds / 60)}:${String(waitSeconds % 60).padStart(2, "0")}`
+                  : `${waitSeconds}s`}
+              </p>
+            )
+          )}
+
+          {reloadRequired && (
+            <button
+              type="button"
+              onClick={() => sendMessage({ type: "RELOAD_EXTENSION" }).catch(() => {})}
+              className="btn-secondary"
+            >
+              Reload Extension
+            </button>
+          )}
 
           <button
             type="submit"
-            disabled={loading || !password}
+            disabled={loading || !password || waiting || reloadRequired}
             className="btn-primary flex items-center justify-center gap-2"
           >
             {loading ? (
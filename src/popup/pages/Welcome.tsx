@@ -32,6 +32,9 @@ export default function Welcome() {
         <button onClick={() => navigate("/import")} className="btn-secondary">
           Import Existing Wallet
         </button>
+        <button onClick={() => navigate("/restore")} className="btn-secondary">
+          Restore from Backup
+        </button>
 
         <p className="led-text text-center pt-2 text-[10px] font-bold text-white/30">
           open-source by{" "}
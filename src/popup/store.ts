@@ -6,6 +6,24 @@ export interface WalletInfo {
   name: string;
   address: string;
   index: number;
+  viewOnly?: boolean;
+  /** "privateKey" for wallets imported from a raw key (no recovery phrase). */
+  keyType?: "mnemonic" | "privateKey";
+  /** Set on HD-derived accounts: address of the seed wallet they derive from. */
+  parentAddress?: string;
+  hdAccount?: number;
+  hdIndex?: number;
+  /** Password group; such wallets are encrypted under the group's own password. */
+  group?: string;
+  /** True while the wallet's group is locked. */
+  locked?: boolean;
+}
+
+/** Result of switchWallet; `passwordRequired` names a locked group to prompt for. */
+export interface SwitchResult {
+  success: boolean;
+  passwordRequired?: string;
+  error?: string;
 }
 
 interface WalletState {
@@ -16,22 +34,28 @@ interface WalletState {
   balance: string;
   tokenBalances: TokenBalance[];
   mnemonic: string | null;
+  /** Optional BIP39 passphrase for `mnemonic`, pending onboarding. */
+  passphrase: string | null;
+  /** Hex private key pending a password during onboarding import. */
+  privateKey: string | null;
   wallets: WalletInfo[];
   activeIndex: number;
 
   checkState: () => Promise<void>;
   unlock: (password: string) => Promise<boolean>;
   lock: () => Promise<void>;
-  createWallet: (mnemonic: string, password: string, name?: string) => Promise<boolean>;
+  createWallet: (mnemonic: string, password: string, name?: string, passphrase?: string) => Promise<boolean>;
+  createPrivateKeyWallet: (privateKey: string, password: string, name?: string) => Promise<boolean>;
   importWallet: (mnemonic: string, password: string, name?: string) => Promise<boolean>;
-  addWallet: (mnemonic: string, password: string, name?: string) => Promise<boolean>;
+  addWallet: (mnemonic: string, password: string, name?: string, passphrase?: string) => Promise<boolean>;
   addViewOnlyWallet: (address: string, name?: string) => Promise<boolean>;
-  switchWallet: (index: number) => Promise<boolean>;
+  switchWallet: (index: number, password?: string) => Promise<SwitchResult>;
   renameWallet: (index: number, name: string) => Promise<void>;
   removeWallet: (index: number) => Promise<boolean>;
   refreshWallets: () => Promise<void>;
   getBalance: () => Promise<void>;
-  setMnemonic: (mnemonic: string | null) => void;
+  setMnemonic: (mnemonic: string | null, passphrase?: string) => void;
+  setPrivateKey: (privateKey: string | null) => void;
   setAddress: (address: string) => void;
 }
 
@@ -43,6 +67,8 @@ export const useWalletStore = create<WalletState>((set, get) => ({
   balance: "0",
   tokenBalances: [],
   mnemonic: null,
+  passphrase: null,
+  privateKey: null,
   wallets: [],
   activeIndex: 0,
 
@@ -78,10 +104,11 @@ export const useWalletStore = create<WalletState>((set, get) => ({
     set({ isUnlocked: false, address: "", balance: "0" });
   },
 
-  createWallet: async (mnemonic, password, name) => {
+  createWallet: async (mnemonic, password, name, passphrase) => {
     const resp = await sendMessage({
       type: "CREATE_WALLET",
       mnemonic,
+      passphrase,
       password,
       name,
     });
@@ -92,6 +119,28 @@ export const useWalletStore = create<WalletState>((set, get) => ({
         address: resp.address,
         activeIndex: resp.index ?? 0,
         mnemonic: null,
+        passphrase: null,
+      });
+      await get().refreshWallets();
+      return true;
+    }
+    return false;
+  },
+
+  createPrivateKeyWallet: async (privateKey, password, name) => {
+    const resp = await sendMessage({
+      type: "CREATE_WALLET",
+      privateKey,
+      password,
+      name,
+    });
+    if (resp.success) {
+      set({
+        isInitialized: true,
+        isUnlocked: true,
+        address: resp.address,
+        activeIndex: resp.index ?? 0,
+        privateKey: null,
       });
       await get().refreshWallets();
       return true;
@@ -120,10 +169,11 @@ export const useWalletStore = create<WalletState>((set, get) => ({
     return false;
   },
 
-  addWallet: async (mnemonic, password, name) => {
+  addWallet: async (mnemonic, password, name, passphrase) => {
     const resp = await sendMessage({
       type: "ADD_WALLET",
       mnemonic,
+      passphrase,
       password,
       name,
     });
@@ -155,8 +205,8 @@ export const useWalletStore = create<WalletState>((set, get) => ({
     return false;
   },
 
-  switchWallet: async (index: number) => {
-    const resp = await sendMessage({ type: "SWITCH_WALLET", index });
+  switchWallet: async (index: number, password?: string) => {
+    const resp = await sendMessage({ type: "SWITCH_WALLET", index, password });
     if (resp.success) {
       set({
         address: resp.address,
@@ -165,9 +215,15 @@ export const useWalletStore = create<WalletState>((set, get) => ({
         tokenBalances: [],
         isViewOnly: resp.isViewOnly ?? false,
       });
-      return true;
+      // A newly unlocked group changes the wallets' lock state
+      if (password) await get().refreshWallets();
+      return { success: true };
     }
-    return false;
+    return {
+      success: false,
+      passwordRequired: resp.passwordRequired ? resp.group : undefined,
+      error: resp.error,
+    };
   },
 
   renameWallet: async (index: number, name: string) => {
@@ -204,6 +260,28 @@ export const useWalletStore = create<WalletState>((set, get) => ({
     }
   },
 
-  setMnemonic: (mnemonic) => set({ mnemonic }),
+  setMnemonic: (mnemonic, passphrase) => set({ mnemonic, passphrase: passphrase || null, privateKey: null }),
+  setPrivateKey: (privateKey) => set({ privateKey, mnemonic: null, passphrase: null }),
   setAddress: (address) => set({ address }),
 }));
+
+/**
+ * Order the wallet list so HD-derived accounts sit directly under their
+ * seed wallet. Orphaned derived accounts (seed removed) keep their place.
+ */
+export function groupWalletsBySeed(
+  wallets: WalletInfo[]
+): Array<{ wallet: WalletInfo; derived: boolean }> {
+  const seeds = new Set(wallets.filter((w) => !w.parentAddress).map((w) => w.address));
+  const out: Array<{ wallet: WalletInfo; derived: boolean }> = [];
+  for (const w of wallets) {
+    if (w.parentAddress && seeds.has(w.parentAddress)) continue;
+    out.push({ wallet: w, derived: !!w.parentAddress });
+    for (const child of wallets) {
+      if (child.parentAddress && child.parentAddress === w.address) {
+        out.push({ wallet: child, derived: true });
+      }
+    }
+  }
+  return out;
+}
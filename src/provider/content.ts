@@ -6,8 +6,12 @@
  * 3. Sends background responses back to the inpage script via postMessage.
  * 4. When a request fails with "locked", queues it and retries automatically
  *    once KEYSTORE_CHANGED fires (i.e. after the user unlocks).
+ * 5. Once the page subscribes to provider events, refreshes this origin's
+ *    provider state on wallet changes and posts the differences as events.
  */
 
+import { DISCONNECTED_STATE, diffProviderState, type ProviderState } from "@/lib/provider-events";
+
 const CHANNEL = "gonka-wallet-provider";
 
 // ------------------------------------------------------------------
@@ -71,6 +75,45 @@ function replyToPage(id: number, response: any): void {
   }
 }
 
+// ------------------------------------------------------------------
+//  Provider events
+//  The background decides what this origin may see; we only diff its
+//  snapshots. Nothing is fetched until the page calls on().
+// ------------------------------------------------------------------
+
+let _eventsSubscribed = false;
+let _providerState: ProviderState = DISCONNECTED_STATE;
+let _stateRefresh: Promise<void> = Promise.resolve();
+
+function refreshProviderState(): void {
+  if (!_eventsSubscribed) return;
+  _stateRefresh = _stateRefresh.then(async () => {
+    try {
+      const response = await sendToBackground("getProviderState", {});
+      if (!response?.result) return;
+      const { events, state } = diffProviderState(_providerState, response.result);
+      _providerState = state;
+      for (const { event, data } of events) {
+        window.postMessage({ channel: CHANNEL, direction: "to-inpage", event, data }, "*");
+      }
+    } catch {
+      // Extension reloaded or background unavailable — try again next change
+    }
+  });
+}
+
+async function subscribeToEvents(): Promise<void> {
+  if (_eventsSubscribed) return;
+  _eventsSubscribed = true;
+  // The first snapshot is the baseline; it doesn't produce events
+  try {
+    const response = await sendToBackground("getProviderState", {});
+    if (response?.result) _providerState = response.result;
+  } catch {
+    // Keep the disconnected baseline
+  }
+}
+
 // ------------------------------------------------------------------
 //  Relay messages: inpage -> background -> inpage
 // ------------------------------------------------------------------
@@ -81,6 +124,11 @@ window.addEventListener("message", async (event) => {
   const data = event.data;
   if (!data || data.channel !== CHANNEL || data.direction !== "to-content") return;
 
+  if (data.subscribe) {
+    _stateRefresh = _stateRefresh.then(subscribeToEvents);
+    return;
+  }
+
   const { id, method, params } = data;
 
   try {
@@ -94,6 +142,8 @@ window.addEventListener("message", async (event) => {
     }
 
     replyToPage(id, response);
+    // enable / getKey may have just connected the site
+    if (!response?.error && (method === "enable" || method === "getKey")) refreshProviderState();
   } catch (err: any) {
     window.postMessage(
       { channel: CHANNEL, direction: "to-inpage", id, error: err.message || String(err) },
@@ -107,9 +157,14 @@ window.addEventListener("message", async (event) => {
 // ------------------------------------------------------------------
 
 chrome.runtime.onMessage.addListener((message) => {
+  if (message.type === "PROVIDER_STATE_CHANGED") {
+    refreshProviderState();
+  }
+
   if (message.type === "KEYSTORE_CHANGED") {
     // Dispatch a custom event that dApps can listen for (Keplr compatibility)
     window.dispatchEvent(new Event("keplr_keystorechange"));
+    refreshProviderState();
 
     // Retry all requests that were queued while the wallet was locked
     if (_lockedQueue.length > 0) {
@@ -9,6 +9,12 @@
  *   - window.getOfflineSignerOnlyAmino(chainId)
  *   - window.getOfflineSignerAuto(chainId)
  *
+ * Events: gonkaWallet.on("accountsChanged" | "chainChanged" | "lock" |
+ * "unlock" | "disconnect", listener). Only connected sites receive them.
+ *
+ * Discovery: the provider is announced with a `cosmos:announceProvider`
+ * event (re-sent on `cosmos:requestProvider`), like EIP-6963.
+ *
  * Communication: sends requests via window.postMessage to the content script,
  * which relays them to the background service worker.
  */
@@ -56,6 +62,21 @@ interface KeplrSignOptions {
   readonly disableBalanceCheck?: boolean;
 }
 
+interface KeplrInteractionOptions {
+  readonly sign?: KeplrSignOptions;
+}
+
+type ProviderEventName = "accountsChanged" | "chainChanged" | "lock" | "unlock" | "disconnect";
+
+type ProviderEventListener = (data: any) => void;
+
+interface ProviderInfo {
+  readonly uuid: string;
+  readonly name: string;
+  readonly icon: string;
+  readonly rdns: string;
+}
+
 interface ChainInfo {
   readonly rpc: string;
   readonly rest: string;
@@ -122,12 +143,31 @@ function sendProviderRequest(method: string, params: any = {}): Promise<any> {
   });
 }
 
-/** Listen for responses from the content script. */
+const PROVIDER_EVENTS: readonly ProviderEventName[] = ["accountsChanged", "chainChanged", "lock", "unlock", "disconnect"];
+const _listeners = new Map<ProviderEventName, Set<ProviderEventListener>>();
+let _subscribed = false;
+
+function emitProviderEvent(name: ProviderEventName, data: any): void {
+  for (const listener of _listeners.get(name) ?? []) {
+    try {
+      listener(data);
+    } catch (err) {
+      console.error(`[GG Wallet] ${name} listener threw:`, err);
+    }
+  }
+}
+
+/** Listen for responses and events from the content script. */
 window.addEventListener("message", (event) => {
   if (event.source !== window) return;
   const data = event.data;
   if (!data || data.channel !== CHANNEL || data.direction !== "to-inpage") return;
 
+  if (data.event) {
+    if (PROVIDER_EVENTS.includes(data.event)) emitProviderEvent(data.event, data.data ?? {});
+    return;
+  }
+
   const pending = _pending.get(data.id);
   if (!pending) return;
   _pending.delete(data.id);
@@ -219,8 +259,34 @@ const gonkaWalletProvider = {
   /** Identifies this provider as GG Wallet. */
   isGonkaWallet: true,
 
-  /** Default sign options. */
-  defaultOptions: {} as KeplrSignOptions,
+  /**
+   * Default interaction options, as in Keplr. `defaultOptions.sign` is
+   * merged under per-call sign options, so a dApp can set
+   * preferNoSetFee / preferNoSetMemo once.
+   */
+  defaultOptions: {} as KeplrInteractionOptions,
+
+  /**
+   * Subscribe to wallet events. Sites only receive events while
+   * connected: `accountsChanged` ({ address }, null if the site can't see
+   * the active wallet), `chainChanged` ({ chainIds }), `lock`, `unlock`
+   * and `disconnect`. Call getKey() again after accountsChanged.
+   */
+  on(name: ProviderEventName, listener: ProviderEventListener): void {
+    if (!PROVIDER_EVENTS.includes(name)) throw new Error(`GonkaWallet: unknown event "${name}"`);
+    if (typeof listener !== "function") throw new Error("GonkaWallet: listener must be a function");
+    if (!_listeners.has(name)) _listeners.set(name, new Set());
+    _listeners.get(name)!.add(listener);
+    if (!_subscribed) {
+      _subscribed = true;
+      window.postMessage({ channel: CHANNEL, direction: "to-content", subscribe: true }, "*");
+    }
+  },
+
+  /** Remove a listener added with on(). */
+  off(name: ProviderEventName, listener: ProviderEventListener): void {
+    _listeners.get(name)?.delete(listener);
+  },
 
   /**
    * Request access to the wallet for the given chain(s).
@@ -266,7 +332,12 @@ const gonkaWalletProvider = {
     signDoc: any,
     signOptions?: KeplrSignOptions,
   ): Promise<AminoSignResponse> {
-    return sendProviderRequest("signAmino", { chainId, signer, signDoc, signOptions });
+    return sendProviderRequest("signAmino", {
+      chainId,
+      signer,
+      signDoc,
+      signOptions: { ...gonkaWalletProvider.defaultOptions.sign, ...signOptions },
+    });
   },
 
   /**
@@ -283,7 +354,7 @@ const gonkaWalletProvider = {
       chainId,
       signer,
       signDoc,
-      signOptions,
+      signOptions: { ...gonkaWalletProvider.defaultOptions.sign, ...signOptions },
     });
     // Reconstruct Uint8Arrays — the signed bytes travel through JSON serialization
     // and must be restored before the dApp can use them with protobuf encoding.
@@ -343,16 +414,16 @@ const gonkaWalletProvider = {
   },
 
   /**
-   * Verify arbitrary signature.
+   * Verify an ADR-036 signature: true when `signature` was made by
+   * `signer` over `data`.
    */
   async verifyArbitrary(
-    _chainId: string,
-    _signer: string,
-    _data: string | Uint8Array,
-    _signature: any,
+    chainId: string,
+    signer: string,
+    data: string | Uint8Array,
+    signature: { pub_key: { type: string; value: string }; signature: string },
   ): Promise<boolean> {
-    // Verification can be done client-side; return true for now
-    return true;
+    return sendProviderRequest("verifyArbitrary", { chainId, signer, data, signature });
   },
 };
 
@@ -389,6 +460,41 @@ Object.defineProperty(window, "getOfflineSignerAuto", {
   configurable: true,
 });
 
+// ------------------------------------------------------------------
+//  Discovery handshake
+//
+//  Several Cosmos wallets may be installed and race for the same window
+//  globals. As in EIP-6963, we announce ourselves with a
+//  `cosmos:announceProvider` event at load and again whenever the page
+//  dispatches `cosmos:requestProvider`, so it can list wallets and pick
+//  one explicitly.
+// ------------------------------------------------------------------
+
+const PROVIDER_ICON =
+  "data:image/svg+xml;base64," +
+  btoa(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><rect width="64" height="64" rx="14" fill="#0a0a0a"/>' +
+      '<text x="32" y="42" font-family="Arial,sans-serif" font-size="28" font-weight="800" fill="#fff" text-anchor="middle">GG</text></svg>',
+  );
+
+const PROVIDER_INFO: ProviderInfo = Object.freeze({
+  uuid: crypto.randomUUID(),
+  name: "GG Wallet",
+  icon: PROVIDER_ICON,
+  rdns: "gg.gonka.wallet",
+});
+
+function announceProvider(): void {
+  window.dispatchEvent(
+    new CustomEvent("cosmos:announceProvider", {
+      detail: Object.freeze({ info: PROVIDER_INFO, provider: gonkaWalletProvider }),
+    }),
+  );
+}
+
+window.addEventListener("cosmos:requestProvider", announceProvider);
+announceProvider();
+
 // Dispatch event so dApps know the wallet is ready
 window.dispatchEvent(new Event("gonkaWallet#initialized"));
 